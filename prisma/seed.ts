@@ -1,10 +1,13 @@
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
 
-const prisma = new PrismaClient()
-
-async function main() {
-  console.log('🌱 Starting seed...')
+/**
+ * Seed the admin user and the two pre-configured businesses.
+ * Exported so the test suite can load the same fixtures into its database.
+ */
+export async function seedDatabase(prisma: PrismaClient, options: { quiet?: boolean } = {}) {
+  const log = options.quiet ? () => {} : console.log
+  log('🌱 Starting seed...')
 
   // Create admin user
   const adminEmail = process.env.ADMIN_EMAIL || 'admin@campaignengine.local'
@@ -20,7 +23,7 @@ async function main() {
       name: 'Admin',
     },
   })
-  console.log(`✅ Admin user created: ${adminUser.email}`)
+  log(`✅ Admin user created: ${adminUser.email}`)
 
   // Create Melissa for Educators business
   const melissa = await prisma.business.upsert({
@@ -54,7 +57,7 @@ async function main() {
       },
     },
   })
-  console.log(`✅ Business created: ${melissa.name}`)
+  log(`✅ Business created: ${melissa.name}`)
 
   // Create Vaquero Homes business
   const vaquero = await prisma.business.upsert({
@@ -86,16 +89,22 @@ async function main() {
       },
     },
   })
-  console.log(`✅ Business created: ${vaquero.name}`)
+  log(`✅ Business created: ${vaquero.name}`)
+
+  log('🌱 Seed completed successfully!')
 
-  console.log('🌱 Seed completed successfully!')
+  return { adminUser, melissa, vaquero }
 }
 
-main()
-  .catch((e) => {
-    console.error('❌ Seed failed:', e)
-    process.exit(1)
-  })
-  .finally(async () => {
-    await prisma.$disconnect()
-  })
+if (require.main === module) {
+  const prisma = new PrismaClient()
+
+  seedDatabase(prisma)
+    .catch((e) => {
+      console.error('❌ Seed failed:', e)
+      process.exit(1)
+    })
+    .finally(async () => {
+      await prisma.$disconnect()
+    })
+}
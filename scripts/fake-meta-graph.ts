@@ -0,0 +1,463 @@
+/**
+ * Local stand-in for the Meta Graph API.
+ *
+ * Covers the endpoints used by src/lib/meta.ts (OAuth, /me/accounts,
+ * debug_token, /feed, /photos, /media, /media_publish, insights, ad set
+ * status and ad set spend) with
+ * deterministic fake data, and can be scripted to return Meta errors so the
+ * retry and escalation paths can be exercised without a live app.
+ *
+ * Run it:
+ *   npm run meta:fake                      # listens on :4010
+ *   npm run meta:fake -- --fail /feed:190  # first /feed call returns code 190
+ *
+ * Then point the app at it:
+ *   META_GRAPH_API_URL=http://localhost:4010/v21.0
+ *   META_OAUTH_DIALOG_URL=http://localhost:4010/v21.0/dialog/oauth
+ *
+ * Script errors at runtime:
+ *   POST /__fake/errors  {"match": "/feed", "code": 4, "times": 2}
+ *   POST /__fake/reset
+ *   GET  /__fake/state   (recorded requests and published posts)
+ *
+ * Tests can import startFakeGraphServer() and drive it directly.
+ */
+import http from 'http'
+import { AddressInfo } from 'net'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FakeErrorCode = 4 | 32 | 190 | 10 | 200 | 100
+
+export interface FakeErrorRule {
+  /** Substring of the request path (version prefix and query stripped), e.g. "/feed" */
+  match: string
+  code: FakeErrorCode
+  method?: 'GET' | 'POST'
+  subcode?: number
+  message?: string
+  /** How many matching requests fail (default 1). Ignored when `always` is set. */
+  times?: number
+  always?: boolean
+}
+
+export interface FakeRequest {
+  method: string
+  path: string
+  query: Record<string, string>
+  body: Record<string, string>
+  error: FakeErrorCode | null
+}
+
+export interface FakePage {
+  id: string
+  name: string
+  category: string
+  igAccountId: string | null
+}
+
+export interface FakeGraphServer {
+  /** Server origin, e.g. http://127.0.0.1:4010 */
+  url: string
+  /** Graph base URL to use for META_GRAPH_API_URL */
+  graphUrl: string
+  requests: FakeRequest[]
+  posts: Map<string, { pageOrIgId: string; kind: 'feed' | 'photo' | 'media'; body: Record<string, string> }>
+  /** Ad set statuses set through the API (unlisted ad sets are ACTIVE) */
+  adSets: Map<string, string>
+  /** Lifetime spend reported for ad sets (unlisted ad sets haven't spent anything) */
+  adSetSpend: Map<string, number>
+  failNext(rule: FakeErrorRule): void
+  reset(): void
+  close(): Promise<void>
+}
+
+const GRAPH_VERSION = 'v21.0'
+
+const DEFAULT_PAGES: FakePage[] = [
+  { id: '1000000000001', name: 'Garden Prayer', category: 'Religious Organization', igAccountId: '1780000000001' },
+  { id: '1000000000002', name: 'Garden Prayer Shop', category: 'Shopping & Retail', igAccountId: null },
+]
+
+// Error bodies as Meta returns them
+const ERROR_FIXTURES: Record<FakeErrorCode, { status: number; type: string; message: string; subcode?: number }> = {
+  4: { status: 403, type: 'OAuthException', message: '(#4) Application request limit reached' },
+  32: { status: 403, type: 'OAuthException', message: '(#32) Page request limit reached' },
+  190: {
+    status: 400,
+    type: 'OAuthException',
+    message: 'Error validating access token: Session has expired',
+    subcode: 463,
+  },
+  10: { status: 403, type: 'OAuthException', message: '(#10) Application does not have permission for this action' },
+  200: { status: 403, type: 'OAuthException', message: '(#200) Permissions error' },
+  100: { status: 400, type: 'GraphMethodException', message: 'Unsupported request' },
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Start the fake Graph server. Pass port 0 (the default) for a random free port.
+ */
+export async function startFakeGraphServer(
+  options: { port?: number; pages?: FakePage[]; errors?: FakeErrorRule[] } = {}
+): Promise<FakeGraphServer> {
+  const pages = options.pages ?? DEFAULT_PAGES
+  const requests: FakeRequest[] = []
+  const posts: FakeGraphServer['posts'] = new Map()
+  const containers = new Map<string, Record<string, string>>()
+  const adSets: FakeGraphServer['adSets'] = new Map()
+  const adSetSpend: FakeGraphServer['adSetSpend'] = new Map()
+  let rules: FakeErrorRule[] = [...(options.errors ?? [])]
+  let sequence = 0
+
+  const nextId = () => String(++sequence).padStart(6, '0')
+
+  function takeError(method: string, path: string): FakeErrorRule | null {
+    const index = rules.findIndex(
+      (rule) => path.includes(rule.match) && (!rule.method || rule.method === method)
+    )
+    if (index === -1) return null
+
+    const rule = rules[index]
+    if (!rule.always) {
+      const remaining = (rule.times ?? 1) - 1
+      if (remaining <= 0) {
+        rules.splice(index, 1)
+      } else {
+        rules[index] = { ...rule, times: remaining }
+      }
+    }
+    return rule
+  }
+
+  function handleGraph(
+    method: string,
+    path: string,
+    params: Record<string, string>,
+    res: http.ServerResponse
+  ) {
+    const segments = path.split('/').filter(Boolean)
+
+    // OAuth dialog: skip the consent screen and bounce straight back
+    if (path === '/dialog/oauth') {
+      const redirect = new URL(params.redirect_uri)
+      redirect.searchParams.set('code', `fake-code-${nextId()}`)
+      if (params.state) redirect.searchParams.set('state', params.state)
+      res.writeHead(302, { Location: redirect.toString() })
+      return res.end()
+    }
+
+    if (path === '/oauth/access_token') {
+      if (params.grant_type === 'fb_exchange_token') {
+        return json(res, 200, {
+          access_token: `fake-long-lived-user-token-${nextId()}`,
+          token_type: 'bearer',
+          expires_in: 60 * 24 * 60 * 60,
+        })
+      }
+      return json(res, 200, {
+        access_token: `fake-short-lived-user-token-${nextId()}`,
+        token_type: 'bearer',
+        expires_in: 60 * 60,
+      })
+    }
+
+    if (path === '/debug_token') {
+      const isValid = !params.input_token?.includes('invalid')
+      return json(res, 200, {
+        data: isValid
+          ? { is_valid: true, type: 'PAGE', expires_at: 0, scopes: ['pages_manage_posts'] }
+          : {
+              is_valid: false,
+              error: { code: 190, message: 'The session has been invalidated because the user changed their password' },
+            },
+      })
+    }
+
+    if (!params.access_token) {
+      return graphError(res, { match: path, code: 190, message: 'An active access token must be used to query information about the current user.' })
+    }
+
+    if (path === '/me/accounts') {
+      return json(res, 200, {
+        data: pages.map((page) => ({
+          id: page.id,
+          name: page.name,
+          category: page.category,
+          access_token: `fake-page-token-${page.id}`,
+          tasks: ['CREATE_CONTENT', 'MANAGE', 'ANALYZE'],
+        })),
+      })
+    }
+
+    const [objectId, edge] = segments
+
+    if (method === 'POST' && edge === 'feed') {
+      const id = `${objectId}_${nextId()}`
+      posts.set(id, { pageOrIgId: objectId, kind: 'feed', body: params })
+      return json(res, 200, { id })
+    }
+
+    if (method === 'POST' && edge === 'photos') {
+      const photoId = nextId()
+      const id = `${objectId}_${photoId}`
+      posts.set(id, { pageOrIgId: objectId, kind: 'photo', body: params })
+      return json(res, 200, { id, post_id: id })
+    }
+
+    if (method === 'POST' && edge === 'media') {
+      if (!params.image_url) {
+        return graphError(res, { match: path, code: 100, message: 'The parameter image_url is required' })
+      }
+      const id = `container_${nextId()}`
+      containers.set(id, { ...params, igAccountId: objectId })
+      return json(res, 200, { id })
+    }
+
+    if (method === 'POST' && edge === 'media_publish') {
+      const container = containers.get(params.creation_id)
+      if (!container) {
+        return graphError(res, { match: path, code: 100, message: 'Media container not found' })
+      }
+      containers.delete(params.creation_id)
+      const id = `178${nextId()}`
+      posts.set(id, { pageOrIgId: objectId, kind: 'media', body: container })
+      return json(res, 200, { id })
+    }
+
+    // Ad set spend insights; no rows until the ad set has spent something
+    if (method === 'GET' && edge === 'insights' && params.fields === 'spend') {
+      const spend = adSetSpend.get(objectId)
+      return json(res, 200, { data: spend ? [{ spend: spend.toFixed(2), date_start: '', date_stop: '' }] : [] })
+    }
+
+    // Instagram media insights
+    if (method === 'GET' && edge === 'insights') {
+      const seed = seedFromId(objectId)
+      return json(res, 200, {
+        data: [
+          metric('impressions', 500 + seed),
+          metric('reach', 400 + seed),
+          metric('likes', 40 + (seed % 20)),
+          metric('comments', 5 + (seed % 5)),
+          metric('shares', 3 + (seed % 3)),
+          metric('saved', 7 + (seed % 4)),
+        ],
+      })
+    }
+
+    // Ad set status updates (pause / re-activate)
+    if (method === 'POST' && !edge && params.status) {
+      adSets.set(objectId, params.status)
+      return json(res, 200, { success: true })
+    }
+
+    if (method === 'GET' && !edge) {
+      const fields = params.fields || ''
+
+      // Ad set status; unknown ad sets start out active
+      if (fields === 'status') {
+        return json(res, 200, { id: objectId, status: adSets.get(objectId) ?? 'ACTIVE' })
+      }
+
+      // Page lookup for the linked Instagram account
+      if (fields.includes('instagram_business_account')) {
+        const page = pages.find((p) => p.id === objectId)
+        if (!page) {
+          return graphError(res, { match: path, code: 100, message: `Unsupported get request. Object with ID '${objectId}' does not exist` })
+        }
+        return json(res, 200, {
+          id: page.id,
+          ...(page.igAccountId
+            ? {
+                instagram_business_account: {
+                  id: page.igAccountId,
+                  name: page.name,
+                  username: page.name.toLowerCase().replace(/[^a-z0-9]+/g, ''),
+                },
+              }
+            : {}),
+        })
+      }
+
+      // Facebook post insights
+      if (fields.includes('insights')) {
+        const seed = seedFromId(objectId)
+        return json(res, 200, {
+          id: objectId,
+          insights: {
+            data: [
+              metric('post_impressions', 1000 + seed),
+              metric('post_impressions_unique', 800 + seed),
+              metric('post_clicks', 30 + (seed % 25)),
+              metric('post_reactions_like_total', 60 + (seed % 30)),
+            ],
+          },
+          comments: { data: [], summary: { total_count: 8 + (seed % 6) } },
+          shares: { count: 4 + (seed % 4) },
+        })
+      }
+
+      return json(res, 200, { id: objectId })
+    }
+
+    return graphError(res, { match: path, code: 100, message: `Unsupported ${method} request to ${path}` })
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const method = req.method || 'GET'
+    const path = url.pathname.replace(/^\/v\d+\.\d+/, '') || '/'
+    const rawBody = await readBody(req)
+
+    // Control endpoints
+    if (path.startsWith('/__fake/')) {
+      if (method === 'POST' && path === '/__fake/errors') {
+        const payload = JSON.parse(rawBody || '{}') as FakeErrorRule | FakeErrorRule[]
+        const added = Array.isArray(payload) ? payload : [payload]
+        rules.push(...added)
+        return json(res, 200, { queued: rules.length })
+      }
+      if (method === 'POST' && path === '/__fake/reset') {
+        reset()
+        return json(res, 200, { reset: true })
+      }
+      if (method === 'GET' && path === '/__fake/state') {
+        return json(res, 200, {
+          requests,
+          posts: Object.fromEntries(posts),
+          adSets: Object.fromEntries(adSets),
+          adSetSpend: Object.fromEntries(adSetSpend),
+          errors: rules,
+        })
+      }
+      return json(res, 404, { error: 'Unknown control endpoint' })
+    }
+
+    const query = Object.fromEntries(url.searchParams)
+    const body = method === 'POST' ? Object.fromEntries(new URLSearchParams(rawBody)) : {}
+    const params = { ...query, ...body }
+
+    const rule = takeError(method, path)
+    requests.push({ method, path, query, body, error: rule?.code ?? null })
+
+    if (rule) {
+      return graphError(res, rule)
+    }
+
+    try {
+      handleGraph(method, path, params, res)
+    } catch (err) {
+      json(res, 500, { error: { message: err instanceof Error ? err.message : 'Fake server error', type: 'FakeServerError', code: 1 } })
+    }
+  })
+
+  function reset() {
+    requests.length = 0
+    posts.clear()
+    containers.clear()
+    adSets.clear()
+    adSetSpend.clear()
+    rules = []
+    sequence = 0
+  }
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const url = `http://127.0.0.1:${port}`
+
+  return {
+    url,
+    graphUrl: `${url}/${GRAPH_VERSION}`,
+    requests,
+    posts,
+    adSets,
+    adSetSpend,
+    failNext: (rule) => {
+      rules.push(rule)
+    },
+    reset,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function json(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function graphError(res: http.ServerResponse, rule: FakeErrorRule) {
+  const fixture = ERROR_FIXTURES[rule.code]
+  const subcode = rule.subcode ?? fixture.subcode
+  json(res, fixture.status, {
+    error: {
+      message: rule.message ?? fixture.message,
+      type: fixture.type,
+      code: rule.code,
+      ...(subcode ? { error_subcode: subcode } : {}),
+      fbtrace_id: `fake-${Date.now().toString(36)}`,
+    },
+  })
+}
+
+function metric(name: string, value: number) {
+  return { name, period: 'lifetime', values: [{ value }] }
+}
+
+// Stable per-object numbers so repeated polls return the same insights
+function seedFromId(id: string): number {
+  let hash = 0
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) % 1000
+  return hash
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', (chunk) => (data += chunk))
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Parse "--fail <match>:<code>[:<times>]" CLI arguments into error rules.
+ */
+function parseFailArgs(args: string[]): FakeErrorRule[] {
+  const rules: FakeErrorRule[] = []
+  args.forEach((arg, i) => {
+    if (arg !== '--fail' || !args[i + 1]) return
+    const [match, code, times] = args[i + 1].split(':')
+    rules.push({
+      match,
+      code: Number(code) as FakeErrorCode,
+      ...(times === '*' ? { always: true } : { times: times ? Number(times) : 1 }),
+    })
+  })
+  return rules
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+if (require.main === module) {
+  const args = process.argv.slice(2)
+  const portIndex = args.indexOf('--port')
+  const port = portIndex >= 0 ? Number(args[portIndex + 1]) : Number(process.env.FAKE_META_PORT || 4010)
+
+  startFakeGraphServer({ port, errors: parseFailArgs(args) }).then((server) => {
+    console.log(`Fake Meta Graph API listening on ${server.url}`)
+    console.log(`  META_GRAPH_API_URL=${server.graphUrl}`)
+    console.log(`  META_OAUTH_DIALOG_URL=${server.graphUrl}/dialog/oauth`)
+  })
+}
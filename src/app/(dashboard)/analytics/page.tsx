@@ -46,6 +46,7 @@ interface AnalyticsData {
     posts: number
     performanceRecords: number
   }
+  lastPolledAt: string | null
 }
 
 export default function AnalyticsPage() {
@@ -122,6 +123,11 @@ export default function AnalyticsPage() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
           <p className="text-gray-500 mt-1">Track performance across all your campaigns</p>
+          <p className="text-xs text-gray-400 mt-1">
+            {data?.lastPolledAt
+              ? `Metrics last updated ${new Date(data.lastPolledAt).toLocaleString()}`
+              : 'Metrics have not been polled yet'}
+          </p>
         </div>
         {data && data.campaigns.length > 0 && (
           <select
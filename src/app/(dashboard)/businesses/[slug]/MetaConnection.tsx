@@ -1,8 +1,20 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 
+interface PageOption {
+  id: string
+  name: string
+  category: string | null
+}
+
+const HEALTH_DISPLAY: Record<string, { label: string; dot: string; text: string }> = {
+  healthy: { label: 'Connected', dot: 'bg-green-500', text: 'text-green-700' },
+  expiring: { label: 'Token expiring soon', dot: 'bg-yellow-500', text: 'text-yellow-700' },
+  invalid: { label: 'Reconnect required', dot: 'bg-red-500', text: 'text-red-700' },
+}
+
 interface MetaConnectionProps {
   businessId: string
   businessSlug: string
@@ -11,6 +23,11 @@ interface MetaConnectionProps {
   metaIgAccountId: string | null
   metaConnectedAt: string | null
   metaTokenExpiresAt: string | null
+  metaTokenStatus: string | null
+  metaTokenError: string | null
+  metaTokenCheckedAt: string | null
+  selectPage?: boolean
+  metaError?: string | null
 }
 
 export default function MetaConnection({
@@ -21,12 +38,108 @@ export default function MetaConnection({
   metaIgAccountId,
   metaConnectedAt,
   metaTokenExpiresAt,
+  metaTokenStatus,
+  metaTokenError,
+  metaTokenCheckedAt,
+  selectPage = false,
+  metaError = null,
 }: MetaConnectionProps) {
   const router = useRouter()
   const [disconnecting, setDisconnecting] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(metaError)
+  const [picking, setPicking] = useState(false)
+  const [pages, setPages] = useState<PageOption[]>([])
+  const [loadingPages, setLoadingPages] = useState(false)
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null)
+  const [connecting, setConnecting] = useState(false)
+  const [checking, setChecking] = useState(false)
 
   const isConnected = !!metaPageId
+  const health = HEALTH_DISPLAY[metaTokenStatus || 'healthy']
+
+  const loadPages = useCallback(async () => {
+    setPicking(true)
+    setLoadingPages(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/meta/pages?businessId=${businessId}`)
+      const data = await res.json()
+      if (data.success) {
+        setPages(data.data.pages)
+        setSelectedPageId(data.data.currentPageId || data.data.pages[0]?.id || null)
+      } else {
+        setError(data.error || 'Failed to load Facebook Pages')
+        setPicking(false)
+      }
+    } catch {
+      setError('Failed to load Facebook Pages')
+      setPicking(false)
+    } finally {
+      setLoadingPages(false)
+    }
+  }, [businessId])
+
+  // Coming back from OAuth: show the Page picker straight away
+  useEffect(() => {
+    if (selectPage) {
+      loadPages()
+    }
+  }, [selectPage, loadPages])
+
+  async function handleConnectPage() {
+    if (!selectedPageId) return
+
+    setConnecting(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/meta/pages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ businessId, pageId: selectedPageId }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        setPicking(false)
+        router.replace(`/businesses/${businessSlug}`)
+        router.refresh()
+      } else {
+        setError(data.error || 'Failed to connect Page')
+      }
+    } catch {
+      setError('Failed to connect Page')
+    } finally {
+      setConnecting(false)
+    }
+  }
+
+  function handleCancelPicking() {
+    setPicking(false)
+    if (selectPage) {
+      router.replace(`/businesses/${businessSlug}`)
+    }
+  }
+
+  async function handleCheckHealth() {
+    setChecking(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/meta/health', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ businessId }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        router.refresh()
+      } else {
+        setError(data.error || 'Failed to check token')
+      }
+    } catch {
+      setError('Failed to check token')
+    } finally {
+      setChecking(false)
+    }
+  }
 
   async function handleDisconnect() {
     if (!confirm('Disconnect from Meta? This will remove the stored page token. You can reconnect later.')) {
@@ -66,11 +179,71 @@ export default function MetaConnection({
         </div>
       )}
 
-      {isConnected ? (
+      {picking ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">Choose the Facebook Page to connect:</p>
+          {loadingPages ? (
+            <p className="text-sm text-gray-500">Loading Pages...</p>
+          ) : (
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {pages.map((page) => (
+                <label
+                  key={page.id}
+                  className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+                    selectedPageId === page.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="metaPage"
+                    value={page.id}
+                    checked={selectedPageId === page.id}
+                    onChange={() => setSelectedPageId(page.id)}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {page.name}
+                      {page.id === metaPageId && (
+                        <span className="ml-2 text-xs text-green-700">(current)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {page.category ? `${page.category} · ` : ''}
+                      <span className="font-mono">{page.id}</span>
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="pt-3 border-t border-gray-100 flex gap-2">
+            <button
+              onClick={handleConnectPage}
+              disabled={connecting || loadingPages || !selectedPageId}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {connecting ? 'Connecting...' : 'Connect Page'}
+            </button>
+            <button
+              onClick={handleCancelPicking}
+              disabled={connecting}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : isConnected ? (
         <div className="space-y-4">
-          <div className="flex items-center gap-2 mb-3">
-            <div className="w-2 h-2 rounded-full bg-green-500"></div>
-            <span className="text-sm font-medium text-green-700">Connected</span>
+          <div className="mb-3">
+            <div className="flex items-center gap-2">
+              <div className={`w-2 h-2 rounded-full ${health.dot}`}></div>
+              <span className={`text-sm font-medium ${health.text}`}>{health.label}</span>
+            </div>
+            {metaTokenError && metaTokenStatus !== 'healthy' && (
+              <p className="text-xs text-gray-500 mt-1">{metaTokenError}</p>
+            )}
           </div>
 
           <dl className="space-y-3">
@@ -118,6 +291,19 @@ export default function MetaConnection({
                 <dd className="text-sm text-gray-600 mt-0.5">{metaTokenExpiresAt}</dd>
               </div>
             )}
+            <div>
+              <dt className="text-sm text-gray-500">Last Checked</dt>
+              <dd className="text-sm text-gray-600 mt-0.5">
+                {metaTokenCheckedAt || 'Never'}
+                <button
+                  onClick={handleCheckHealth}
+                  disabled={checking}
+                  className="ml-2 text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                >
+                  {checking ? 'Checking...' : 'Check now'}
+                </button>
+              </dd>
+            </div>
           </dl>
 
           <div className="pt-3 border-t border-gray-100 flex gap-2">
@@ -128,6 +314,13 @@ export default function MetaConnection({
               Reconnect
             </a>
             <span className="text-gray-300">|</span>
+            <button
+              onClick={loadPages}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              Switch Page
+            </button>
+            <span className="text-gray-300">|</span>
             <button
               onClick={handleDisconnect}
               disabled={disconnecting}
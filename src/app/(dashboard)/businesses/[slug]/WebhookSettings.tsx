@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface WebhookSettingsProps {
+  businessId: string
+  businessSlug: string
+  hasSecret: boolean
+}
+
+export default function WebhookSettings({ businessId, businessSlug, hasSecret }: WebhookSettingsProps) {
+  const router = useRouter()
+  const [generating, setGenerating] = useState(false)
+  const [secret, setSecret] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || ''
+  const endpoint = `${appUrl}/api/webhooks/conversion`
+
+  async function handleGenerate() {
+    if (hasSecret && !confirm('Rotate the webhook secret? Landing pages using the old secret will stop being accepted.')) {
+      return
+    }
+
+    setGenerating(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/businesses/${businessId}/webhook-secret`, { method: 'POST' })
+      const data = await res.json()
+      if (data.success) {
+        setSecret(data.data.secret)
+        router.refresh()
+      } else {
+        setError(data.error || 'Failed to generate secret')
+      }
+    } catch {
+      setError('Failed to generate secret')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wider mb-4">
+        Conversion Webhook
+      </h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <dl className="space-y-3">
+        <div>
+          <dt className="text-sm text-gray-500">Endpoint</dt>
+          <dd className="text-xs font-mono text-gray-600 mt-0.5 break-all">POST {endpoint}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-500">Business</dt>
+          <dd className="text-xs font-mono text-gray-600 mt-0.5">{businessSlug}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-500">Signing Secret</dt>
+          <dd className="text-sm text-gray-600 mt-0.5">
+            {hasSecret ? 'Configured' : 'Not configured'}
+          </dd>
+        </div>
+      </dl>
+
+      {secret && (
+        <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          <p className="text-xs text-yellow-800 mb-1">
+            Copy this secret now — it won&apos;t be shown again.
+          </p>
+          <code className="text-xs font-mono text-gray-900 break-all">{secret}</code>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-400 mt-4">
+        Sign the raw JSON body with HMAC-SHA256 and send it as{' '}
+        <code className="font-mono">X-Signature: sha256=&lt;hex&gt;</code>.
+      </p>
+
+      <div className="pt-3 mt-3 border-t border-gray-100">
+        <button
+          onClick={handleGenerate}
+          disabled={generating}
+          className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+        >
+          {generating ? 'Generating...' : hasSecret ? 'Rotate Secret' : 'Generate Secret'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -18,6 +18,15 @@ interface Business {
   settings: Record<string, unknown> | null
 }
 
+interface ContentRulesSettings {
+  forbiddenTerms?: string[]
+  requiredDisclaimers?: Array<string | { text: string; contentTypes?: string[] }>
+  regulatedClaims?: Array<{ pattern: string; message?: string; severity?: string }>
+  maxEmojis?: number | null
+  maxAllCapsWords?: number | null
+  metaPolicyChecks?: boolean
+}
+
 export default function EditBusinessPage() {
   const router = useRouter()
   const params = useParams()
@@ -26,6 +35,7 @@ export default function EditBusinessPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState('')
+  const [settings, setSettings] = useState<Record<string, unknown>>({})
 
   const [formData, setFormData] = useState({
     name: '',
@@ -39,6 +49,16 @@ export default function EditBusinessPage() {
     metaIgAccountId: '',
     metaAdAccount: '',
     pixelId: '',
+    utmSource: '',
+    utmMedium: '',
+    utmCampaign: '',
+    utmContent: '',
+    forbiddenTerms: '',
+    requiredDisclaimers: '',
+    regulatedClaims: '',
+    maxEmojis: '6',
+    maxAllCapsWords: '3',
+    metaPolicyChecks: true,
   })
 
   useEffect(() => {
@@ -54,6 +74,8 @@ export default function EditBusinessPage() {
 
         const business: Business = data.data
         const colors = business.brandColors || {}
+        const utm = (business.settings?.utm || {}) as Record<string, string>
+        const rules = (business.settings?.contentRules || {}) as ContentRulesSettings
 
         setFormData({
           name: business.name,
@@ -67,7 +89,20 @@ export default function EditBusinessPage() {
           metaIgAccountId: business.metaIgAccountId || '',
           metaAdAccount: business.metaAdAccount || '',
           pixelId: business.pixelId || '',
+          utmSource: utm.source || '',
+          utmMedium: utm.medium || '',
+          utmCampaign: utm.campaign || '',
+          utmContent: utm.content || '',
+          forbiddenTerms: (rules.forbiddenTerms || []).join('\n'),
+          requiredDisclaimers: (rules.requiredDisclaimers || [])
+            .map((d) => (typeof d === 'string' ? d : d.text))
+            .join('\n'),
+          regulatedClaims: (rules.regulatedClaims || []).map((c) => c.pattern).join('\n'),
+          maxEmojis: rules.maxEmojis === null ? '' : String(rules.maxEmojis ?? 6),
+          maxAllCapsWords: rules.maxAllCapsWords === null ? '' : String(rules.maxAllCapsWords ?? 3),
+          metaPolicyChecks: rules.metaPolicyChecks !== false,
         })
+        setSettings(business.settings || {})
       } catch {
         setError('Failed to load business')
       } finally {
@@ -83,6 +118,35 @@ export default function EditBusinessPage() {
     setError('')
     setSaving(true)
 
+    // Only store UTM overrides that were filled in; blanks fall back to the defaults
+    const utm = Object.fromEntries(
+      Object.entries({
+        source: formData.utmSource.trim(),
+        medium: formData.utmMedium.trim(),
+        campaign: formData.utmCampaign.trim(),
+        content: formData.utmContent.trim(),
+      }).filter(([, value]) => value)
+    )
+
+    // Keep the message and severity of claim patterns that were already saved
+    const existingRules = (settings.contentRules || {}) as ContentRulesSettings
+    const lines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean)
+    const limit = (value: string) => (value.trim() === '' ? null : parseInt(value, 10))
+    const contentRules = {
+      ...existingRules,
+      forbiddenTerms: lines(formData.forbiddenTerms),
+      requiredDisclaimers: lines(formData.requiredDisclaimers).map(
+        (text) =>
+          existingRules.requiredDisclaimers?.find((d) => typeof d !== 'string' && d.text === text) ?? text
+      ),
+      regulatedClaims: lines(formData.regulatedClaims).map(
+        (pattern) => existingRules.regulatedClaims?.find((c) => c.pattern === pattern) ?? { pattern }
+      ),
+      maxEmojis: limit(formData.maxEmojis),
+      maxAllCapsWords: limit(formData.maxAllCapsWords),
+      metaPolicyChecks: formData.metaPolicyChecks,
+    }
+
     try {
       const response = await fetch(`/api/businesses/${slug}`, {
         method: 'PUT',
@@ -101,11 +165,16 @@ export default function EditBusinessPage() {
           metaIgAccountId: formData.metaIgAccountId || null,
           metaAdAccount: formData.metaAdAccount || null,
           pixelId: formData.pixelId || null,
+          settings: { ...settings, utm, contentRules },
         }),
       })
 
       const data = await response.json()
 
+      if (response.status === 422 && data.data) {
+        setError(Object.values(data.data as Record<string, string>).join('. '))
+        return
+      }
       if (!response.ok) {
         setError(data.error || 'Failed to update business')
         return
@@ -349,6 +418,159 @@ export default function EditBusinessPage() {
             </div>
           </div>
 
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-1">Link Tracking (UTM)</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Applied to every CTA link when a post is published. Leave blank to use the default.
+              Placeholders: {'{platform} {campaign} {campaign_id} {content_id} {post_id} {business}'}
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="utmSource" className="block text-sm font-medium text-gray-700">
+                  Source
+                </label>
+                <input
+                  type="text"
+                  id="utmSource"
+                  value={formData.utmSource}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, utmSource: e.target.value }))}
+                  placeholder="{platform}"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="utmMedium" className="block text-sm font-medium text-gray-700">
+                  Medium
+                </label>
+                <input
+                  type="text"
+                  id="utmMedium"
+                  value={formData.utmMedium}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, utmMedium: e.target.value }))}
+                  placeholder="social"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="utmCampaign" className="block text-sm font-medium text-gray-700">
+                  Campaign
+                </label>
+                <input
+                  type="text"
+                  id="utmCampaign"
+                  value={formData.utmCampaign}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, utmCampaign: e.target.value }))}
+                  placeholder="{campaign}"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="utmContent" className="block text-sm font-medium text-gray-700">
+                  Content
+                </label>
+                <input
+                  type="text"
+                  id="utmContent"
+                  value={formData.utmContent}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, utmContent: e.target.value }))}
+                  placeholder="{post_id}"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-1">Content Rules</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              Every content piece is checked against these on create and edit. Critical violations block approval.
+              The playbook&apos;s &quot;do nots&quot; are treated as forbidden terms too.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="forbiddenTerms" className="block text-sm font-medium text-gray-700">
+                  Forbidden Terms
+                </label>
+                <textarea
+                  id="forbiddenTerms"
+                  rows={3}
+                  value={formData.forbiddenTerms}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, forbiddenTerms: e.target.value }))}
+                  placeholder="One word or phrase per line"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="requiredDisclaimers" className="block text-sm font-medium text-gray-700">
+                  Required Disclaimers
+                </label>
+                <textarea
+                  id="requiredDisclaimers"
+                  rows={2}
+                  value={formData.requiredDisclaimers}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, requiredDisclaimers: e.target.value }))}
+                  placeholder="One per line; must appear in the body or CTA"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="regulatedClaims" className="block text-sm font-medium text-gray-700">
+                  Regulated Claim Patterns
+                </label>
+                <textarea
+                  id="regulatedClaims"
+                  rows={2}
+                  value={formData.regulatedClaims}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, regulatedClaims: e.target.value }))}
+                  placeholder="One case-insensitive regular expression per line, e.g. \bFDA[- ]approved\b"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Checked in addition to the built-in health, earnings and guarantee claim checks.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="maxEmojis" className="block text-sm font-medium text-gray-700">
+                    Max Emojis per Field
+                  </label>
+                  <input
+                    type="number"
+                    id="maxEmojis"
+                    min={0}
+                    value={formData.maxEmojis}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, maxEmojis: e.target.value }))}
+                    placeholder="No limit"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="maxAllCapsWords" className="block text-sm font-medium text-gray-700">
+                    Max All-Caps Words per Field
+                  </label>
+                  <input
+                    type="number"
+                    id="maxAllCapsWords"
+                    min={0}
+                    value={formData.maxAllCapsWords}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, maxAllCapsWords: e.target.value }))}
+                    placeholder="No limit"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.metaPolicyChecks}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, metaPolicyChecks: e.target.checked }))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Check Meta ad policy (personal attributes, weight loss, before/after, engagement bait)
+              </label>
+            </div>
+          </div>
+
           <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
             <Link
               href={`/businesses/${slug}`}
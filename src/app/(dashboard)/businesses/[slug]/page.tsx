@@ -3,13 +3,14 @@ import Link from 'next/link'
 import prisma from '@/lib/prisma'
 import DeleteBusinessButton from './DeleteBusinessButton'
 import MetaConnection from './MetaConnection'
+import WebhookSettings from './WebhookSettings'
+import { UUID_REGEX } from '@/lib/utils'
 
 interface PageProps {
   params: Promise<{ slug: string }>
+  searchParams: Promise<{ meta_select_page?: string; meta_error?: string }>
 }
 
-const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
-
 async function getBusiness(slug: string) {
   const isUUID = UUID_REGEX.test(slug)
   return prisma.business.findFirst({
@@ -29,8 +30,9 @@ async function getBusiness(slug: string) {
   })
 }
 
-export default async function BusinessDetailPage({ params }: PageProps) {
+export default async function BusinessDetailPage({ params, searchParams }: PageProps) {
   const { slug } = await params
+  const { meta_select_page, meta_error } = await searchParams
   const business = await getBusiness(slug)
 
   if (!business) {
@@ -342,6 +344,18 @@ export default async function BusinessDetailPage({ params }: PageProps) {
             metaIgAccountId={business.metaIgAccountId}
             metaConnectedAt={business.metaConnectedAt ? new Date(business.metaConnectedAt).toLocaleDateString() : null}
             metaTokenExpiresAt={business.metaTokenExpiresAt ? new Date(business.metaTokenExpiresAt).toLocaleDateString() : null}
+            metaTokenStatus={business.metaTokenStatus}
+            metaTokenError={business.metaTokenError}
+            metaTokenCheckedAt={business.metaTokenCheckedAt ? new Date(business.metaTokenCheckedAt).toLocaleString() : null}
+            selectPage={meta_select_page === 'true'}
+            metaError={meta_error || null}
+          />
+
+          {/* Conversion Webhook */}
+          <WebhookSettings
+            businessId={business.id}
+            businessSlug={business.slug}
+            hasSecret={!!business.webhookSecret}
           />
         </div>
       </div>
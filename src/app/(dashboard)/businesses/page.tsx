@@ -15,8 +15,20 @@ async function getBusinesses() {
   })
 }
 
-export default async function BusinessesPage() {
+// Meta token health badge (see /api/cron/check-meta-tokens)
+const META_HEALTH_BADGES: Record<string, { label: string; className: string }> = {
+  healthy: { label: 'Meta connected', className: 'bg-green-100 text-green-700' },
+  expiring: { label: 'Meta expiring', className: 'bg-yellow-100 text-yellow-800' },
+  invalid: { label: 'Reconnect Meta', className: 'bg-red-100 text-red-700' },
+}
+
+interface PageProps {
+  searchParams: Promise<{ meta_error?: string }>
+}
+
+export default async function BusinessesPage({ searchParams }: PageProps) {
   const businesses = await getBusinesses()
+  const { meta_error } = await searchParams
 
   return (
     <div className="space-y-6">
@@ -38,6 +50,12 @@ export default async function BusinessesPage() {
         </Link>
       </div>
 
+      {meta_error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          Meta connection failed: {meta_error}
+        </div>
+      )}
+
       {businesses.length === 0 ? (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
           <svg
@@ -148,6 +166,16 @@ export default async function BusinessesPage() {
                   </svg>
                   {business._count.images} images
                 </div>
+                {business.metaPageId && (
+                  <span
+                    className={`ml-auto px-2 py-0.5 text-xs font-medium rounded-full ${
+                      META_HEALTH_BADGES[business.metaTokenStatus || 'healthy']?.className
+                    }`}
+                    title={business.metaTokenError || undefined}
+                  >
+                    {META_HEALTH_BADGES[business.metaTokenStatus || 'healthy']?.label}
+                  </span>
+                )}
               </div>
             </Link>
           ))}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+type PacingStatus = 'unbudgeted' | 'on_track' | 'overspending' | 'depleting_early' | 'depleted'
+
+interface PacingReport {
+  status: PacingStatus
+  severity: 'warning' | 'critical' | null
+  budgetDaily: number | null
+  budgetTotal: number | null
+  spentToday: number
+  spentTotal: number
+  remaining: number | null
+  percentSpent: number | null
+  averageDailySpend: number
+  projectedDepletionDate: string | null
+  endDate: string | null
+  reasons: string[]
+}
+
+const statusConfig: Record<PacingStatus, { label: string; className: string }> = {
+  unbudgeted: { label: 'No Budget', className: 'bg-gray-100 text-gray-700' },
+  on_track: { label: 'On Track', className: 'bg-green-100 text-green-700' },
+  overspending: { label: 'Overspending', className: 'bg-yellow-100 text-yellow-700' },
+  depleting_early: { label: 'Depleting Early', className: 'bg-orange-100 text-orange-700' },
+  depleted: { label: 'Depleted', className: 'bg-red-100 text-red-700' },
+}
+
+export default function BudgetPacing({ campaignId }: { campaignId: string }) {
+  const [pacing, setPacing] = useState<PacingReport | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchPacing() {
+      try {
+        const res = await fetch(`/api/campaigns/${campaignId}/pacing`)
+        const data = await res.json()
+        if (data.success) setPacing(data.data)
+      } catch {
+        // Card stays hidden if pacing can't be loaded
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchPacing()
+  }, [campaignId])
+
+  if (loading || !pacing || pacing.status === 'unbudgeted') return null
+
+  const status = statusConfig[pacing.status]
+  const percent = pacing.percentSpent !== null ? Math.min(pacing.percentSpent, 1) * 100 : null
+  const barColor = pacing.severity === 'critical' ? 'bg-red-500' : pacing.severity === 'warning' ? 'bg-yellow-500' : 'bg-blue-600'
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4 lg:col-span-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Budget Pacing</h3>
+        <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+      </div>
+
+      {percent !== null && (
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>
+              {formatMoney(pacing.spentTotal)} of {formatMoney(pacing.budgetTotal!)} spent
+            </span>
+            <span>{percent.toFixed(0)}%</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-sm text-gray-500">Spent Today</p>
+          <p className="text-sm font-medium text-gray-900">
+            {formatMoney(pacing.spentToday)}
+            {pacing.budgetDaily !== null && <span className="text-gray-400"> / {formatMoney(pacing.budgetDaily)}</span>}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">7-Day Average</p>
+          <p className="text-sm font-medium text-gray-900">{formatMoney(pacing.averageDailySpend)}/day</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Remaining</p>
+          <p className="text-sm font-medium text-gray-900">
+            {pacing.remaining !== null ? formatMoney(pacing.remaining) : '—'}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-500">Projected Depletion</p>
+          <p className="text-sm font-medium text-gray-900">
+            {pacing.projectedDepletionDate ? new Date(pacing.projectedDepletionDate).toLocaleDateString() : '—'}
+          </p>
+        </div>
+      </div>
+
+      {pacing.reasons.length > 0 && (
+        <ul className="text-sm text-gray-600 list-disc list-inside">
+          {pacing.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toFixed(2)}`
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+type Dimension = 'hook' | 'image' | 'cta'
+type Metric = 'ctr' | 'conversion_rate'
+
+interface Interval {
+  low: number
+  high: number
+}
+
+interface ArmResult {
+  key: string
+  label: string
+  contentIds: string[]
+  activeContentIds: string[]
+  impressions: number
+  clicks: number
+  conversions: number
+  ctr: number
+  ctrInterval: Interval
+  conversionRate: number
+  conversionInterval: Interval
+  lift: number | null
+  pValue: number | null
+  isLeader: boolean
+  isWinner: boolean
+}
+
+interface Experiment {
+  dimension: Dimension
+  metric: Metric
+  correctedAlpha: number
+  minExposure: number
+  arms: ArmResult[]
+  winner: string | null
+  status: string
+}
+
+const dimensionLabels: Record<Dimension, string> = {
+  hook: 'Hook',
+  image: 'Image',
+  cta: 'CTA',
+}
+
+export default function ExperimentsTab({ campaignId }: { campaignId: string }) {
+  const [dimension, setDimension] = useState<Dimension>('hook')
+  const [metric, setMetric] = useState<Metric | 'auto'>('auto')
+  const [experiment, setExperiment] = useState<Experiment | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchExperiment = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ dimension })
+      if (metric !== 'auto') params.set('metric', metric)
+      const res = await fetch(`/api/campaigns/${campaignId}/experiments?${params}`)
+      const data = await res.json()
+      if (data.success) {
+        setExperiment(data.data)
+      } else {
+        setError(data.error || 'Failed to load experiment results')
+      }
+    } catch {
+      setError('Failed to load experiment results')
+    } finally {
+      setLoading(false)
+    }
+  }, [campaignId, dimension, metric])
+
+  useEffect(() => {
+    fetchExperiment()
+  }, [fetchExperiment])
+
+  const exposureLabel = experiment?.metric === 'conversion_rate' ? 'Clicks' : 'Impressions'
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <select
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as Dimension)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {(Object.keys(dimensionLabels) as Dimension[]).map((key) => (
+              <option key={key} value={key}>By {dimensionLabels[key]}</option>
+            ))}
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as Metric | 'auto')}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="auto">Auto metric</option>
+            <option value="ctr">CTR</option>
+            <option value="conversion_rate">Conversion Rate</option>
+          </select>
+        </div>
+        {experiment && (
+          <span
+            className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${
+              experiment.winner ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+            }`}
+          >
+            {experiment.status}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !experiment || experiment.arms.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">No content to compare by {dimensionLabels[dimension].toLowerCase()} yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-gray-500">
+                <th className="px-4 py-3 font-medium">{dimensionLabels[experiment.dimension]}</th>
+                <th className="px-4 py-3 font-medium text-right">{exposureLabel}</th>
+                <th className="px-4 py-3 font-medium text-right">CTR (95% CI)</th>
+                <th className="px-4 py-3 font-medium text-right">Conv. Rate (95% CI)</th>
+                <th className="px-4 py-3 font-medium text-right">Lift vs Leader</th>
+                <th className="px-4 py-3 font-medium text-right">p-value</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {experiment.arms.map((arm) => {
+                const retired = arm.activeContentIds.length === 0
+                const significant = arm.pValue !== null && arm.pValue < experiment.correctedAlpha
+                return (
+                  <tr key={arm.key} className={retired ? 'text-gray-400' : 'text-gray-700'}>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="line-clamp-1">{arm.label}</span>
+                        {arm.isWinner && (
+                          <span className="bg-green-100 text-green-700 px-2 py-0.5 rounded text-xs font-medium">Winner</span>
+                        )}
+                        {arm.isLeader && !arm.isWinner && (
+                          <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded text-xs font-medium">Leader</span>
+                        )}
+                        {retired && (
+                          <span className="bg-gray-100 text-gray-500 px-2 py-0.5 rounded text-xs font-medium">Retired</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-400">
+                        {arm.contentIds.length} content · {arm.clicks.toLocaleString()} clicks · {arm.conversions} conversions
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {(experiment.metric === 'conversion_rate' ? arm.clicks : arm.impressions).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatRate(arm.ctr)}
+                      <span className="block text-xs text-gray-400">{formatInterval(arm.ctrInterval)}</span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatRate(arm.conversionRate)}
+                      <span className="block text-xs text-gray-400">{formatInterval(arm.conversionInterval)}</span>
+                    </td>
+                    <td className={`px-4 py-3 text-right ${arm.lift !== null && arm.lift < 0 ? 'text-red-600' : ''}`}>
+                      {arm.lift === null ? '—' : `${arm.lift > 0 ? '+' : ''}${(arm.lift * 100).toFixed(1)}%`}
+                    </td>
+                    <td className={`px-4 py-3 text-right ${significant ? 'font-medium' : ''}`}>
+                      {arm.pValue === null ? '—' : arm.pValue < 0.001 ? '<0.001' : arm.pValue.toFixed(3)}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <p className="px-4 py-3 text-xs text-gray-500 border-t border-gray-100">
+            Judged on {experiment.metric === 'ctr' ? 'CTR' : 'conversion rate'}. A winner needs{' '}
+            {experiment.minExposure.toLocaleString()} {exposureLabel.toLowerCase()} per arm and p &lt;{' '}
+            {experiment.correctedAlpha.toFixed(3)} against every other active arm. p-values are sequential, so they
+            stay valid however often results are checked.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(2)}%`
+}
+
+function formatInterval(interval: Interval): string {
+  return `${(interval.low * 100).toFixed(1)}–${(interval.high * 100).toFixed(1)}%`
+}
@@ -0,0 +1,433 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  DEFAULT_PERFORMANCE_THRESHOLDS,
+  DEFAULT_SCORE_WEIGHTS,
+  MAX_PERSISTENT_FAILURE_DAYS,
+  isRateMetric,
+  parseThresholdValue,
+  MetricBand,
+  ScoreWeights,
+} from '@/lib/thresholds'
+
+interface PerformanceSettingsProps {
+  campaignId: string
+  campaignStatus: string
+  successMetrics: Record<string, unknown> | null
+  performanceThresholds: Record<string, unknown> | null
+  onSaved: () => Promise<void>
+}
+
+type BandKey = 'exceeding' | 'below'
+type EditableMetric = 'ctr' | 'conversion_rate' | 'cpa'
+
+interface FormState {
+  exceeding: Record<EditableMetric, string>
+  below: Record<EditableMetric, string>
+  persistentFailureDays: string
+  weights: Record<keyof ScoreWeights, string>
+  successMetrics: Array<{ key: string; value: string }>
+}
+
+const METRICS: Array<{ key: EditableMetric; label: string; unit: '%' | '$' }> = [
+  { key: 'ctr', label: 'CTR', unit: '%' },
+  { key: 'conversion_rate', label: 'Conversion Rate', unit: '%' },
+  { key: 'cpa', label: 'CPA', unit: '$' },
+]
+
+const WEIGHTS: Array<{ key: keyof ScoreWeights; label: string }> = [
+  { key: 'conversions', label: 'Conversions' },
+  { key: 'engagement', label: 'Engagement' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'cost', label: 'Cost' },
+]
+
+const inputClass =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function PerformanceSettings({
+  campaignId,
+  campaignStatus,
+  successMetrics,
+  performanceThresholds,
+  onSaved,
+}: PerformanceSettingsProps) {
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState<FormState>(() => toFormState(successMetrics, performanceThresholds))
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+
+  const thresholds = readThresholds(performanceThresholds)
+  const canEdit = campaignStatus !== 'live'
+
+  function startEditing() {
+    setForm(toFormState(successMetrics, performanceThresholds))
+    setError(null)
+    setFieldErrors({})
+    setEditing(true)
+  }
+
+  function setBandValue(band: BandKey, metric: EditableMetric, value: string) {
+    setForm((prev) => ({ ...prev, [band]: { ...prev[band], [metric]: value } }))
+  }
+
+  function setSuccessMetric(index: number, field: 'key' | 'value', value: string) {
+    setForm((prev) => ({
+      ...prev,
+      successMetrics: prev.successMetrics.map((row, i) => (i === index ? { ...row, [field]: value } : row)),
+    }))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setError(null)
+    setFieldErrors({})
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toPayload(form)),
+      })
+      const data = await res.json()
+      if (data.success) {
+        await onSaved()
+        setEditing(false)
+      } else {
+        setError(data.error || 'Failed to save performance settings')
+        if (res.status === 422 && data.data) setFieldErrors(data.data)
+      }
+    } catch {
+      setError('Failed to save performance settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const metricEntries = Object.entries(successMetrics || {})
+
+  if (!editing) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4 lg:col-span-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Targets &amp; Thresholds</h3>
+          {canEdit ? (
+            <button onClick={startEditing} className="text-sm text-blue-600 hover:text-blue-700">
+              Edit
+            </button>
+          ) : (
+            <span className="text-xs text-gray-400">Pause the campaign to edit</span>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-600 mb-2">Success Metrics</p>
+          {metricEntries.length > 0 ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {metricEntries.map(([key, value]) => (
+                <div key={key}>
+                  <p className="text-sm text-gray-500 capitalize">{key.replace(/_/g, ' ')}</p>
+                  <p className="text-lg font-semibold text-gray-900">{formatSuccessMetric(key, value)}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">No success metrics set</p>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Metric</th>
+                <th className="py-2 pr-4 font-medium">Exceeding</th>
+                <th className="py-2 pr-4 font-medium">Meeting</th>
+                <th className="py-2 font-medium">Below</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {METRICS.map((metric) => {
+                const exceeding = thresholds.exceeding[metric.key]
+                const below = thresholds.below[metric.key]
+                const better = metric.key === 'cpa' ? '<' : '>'
+                const worse = metric.key === 'cpa' ? '>' : '<'
+                return (
+                  <tr key={metric.key}>
+                    <td className="py-2 pr-4 text-gray-700">{metric.label}</td>
+                    <td className="py-2 pr-4 text-green-700">
+                      {exceeding !== undefined ? `${better}${formatBandValue(metric.key, exceeding)}` : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-blue-700">
+                      {exceeding !== undefined && below !== undefined
+                        ? metric.key === 'cpa'
+                          ? `${formatBandValue(metric.key, exceeding)}–${formatBandValue(metric.key, below)}`
+                          : `${formatBandValue(metric.key, below)}–${formatBandValue(metric.key, exceeding)}`
+                        : '—'}
+                    </td>
+                    <td className="py-2 text-yellow-700">
+                      {below !== undefined ? `${worse}${formatBandValue(metric.key, below)}` : '—'}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 pt-4 border-t border-gray-100">
+          <div>
+            <p className="text-sm text-gray-500">Persistent Failure</p>
+            <p className="text-sm font-medium text-gray-900">{thresholds.persistentFailureDays} days</p>
+          </div>
+          {WEIGHTS.map((weight) => (
+            <div key={weight.key}>
+              <p className="text-sm text-gray-500">{weight.label} Weight</p>
+              <p className="text-sm font-medium text-gray-900">{thresholds.weights[weight.key]}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-6 lg:col-span-2">
+      <h3 className="font-semibold text-gray-900">Edit Targets &amp; Thresholds</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">
+          <p>{error}</p>
+          {Object.keys(fieldErrors).length > 0 && (
+            <ul className="list-disc list-inside mt-1">
+              {Object.entries(fieldErrors).map(([field, message]) => (
+                <li key={field}>
+                  <span className="font-mono text-xs">{field}</span>: {message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Success metrics */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Success Metrics</p>
+        <p className="text-xs text-gray-500">
+          Goals such as subscribers or cac. Enter rates with a % sign (e.g. ctr 2%).
+        </p>
+        {form.successMetrics.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              placeholder="metric"
+              value={row.key}
+              onChange={(e) => setSuccessMetric(index, 'key', e.target.value)}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="value"
+              value={row.value}
+              onChange={(e) => setSuccessMetric(index, 'value', e.target.value)}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() =>
+                setForm((prev) => ({ ...prev, successMetrics: prev.successMetrics.filter((_, i) => i !== index) }))
+              }
+              className="mt-1 text-sm text-red-600 hover:text-red-700"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setForm((prev) => ({ ...prev, successMetrics: [...prev.successMetrics, { key: '', value: '' }] }))}
+          className="text-sm text-blue-600 hover:text-blue-700"
+        >
+          + Add metric
+        </button>
+      </div>
+
+      {/* Threshold bands */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {(['exceeding', 'below'] as const).map((band) => (
+          <div key={band} className="space-y-3">
+            <p className="text-sm font-medium text-gray-700 capitalize">{band}</p>
+            {METRICS.map((metric) => {
+              const field = `performanceThresholds.${band}.${metric.key}`
+              const comparison = (metric.key === 'cpa') === (band === 'exceeding') ? 'under' : 'over'
+              return (
+                <div key={metric.key}>
+                  <label htmlFor={field} className="block text-sm text-gray-600">
+                    {metric.label} {comparison} ({metric.unit})
+                  </label>
+                  <input
+                    type="number"
+                    id={field}
+                    min="0"
+                    step="any"
+                    value={form[band][metric.key]}
+                    onChange={(e) => setBandValue(band, metric.key, e.target.value)}
+                    className={`${inputClass} ${fieldErrors[field] ? 'border-red-300' : ''}`}
+                  />
+                  {fieldErrors[field] && <p className="text-xs text-red-600 mt-1">{fieldErrors[field]}</p>}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* Persistent failure & weights */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div>
+          <label htmlFor="persistentFailureDays" className="block text-sm text-gray-600">
+            Persistent failure (days)
+          </label>
+          <input
+            type="number"
+            id="persistentFailureDays"
+            min="1"
+            max={MAX_PERSISTENT_FAILURE_DAYS}
+            step="1"
+            value={form.persistentFailureDays}
+            onChange={(e) => setForm((prev) => ({ ...prev, persistentFailureDays: e.target.value }))}
+            className={inputClass}
+          />
+        </div>
+        {WEIGHTS.map((weight) => (
+          <div key={weight.key}>
+            <label htmlFor={`weight-${weight.key}`} className="block text-sm text-gray-600">
+              {weight.label} weight
+            </label>
+            <input
+              type="number"
+              id={`weight-${weight.key}`}
+              min="0"
+              max="1"
+              step="0.05"
+              value={form.weights[weight.key]}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, weights: { ...prev.weights, [weight.key]: e.target.value } }))
+              }
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={() => setEditing(false)}
+          disabled={saving}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// --- Helpers ---
+
+function readThresholds(value: Record<string, unknown> | null) {
+  const readBand = (band: unknown, defaults: MetricBand) => {
+    const record = (band && typeof band === 'object' ? band : {}) as Record<string, unknown>
+    const result: Partial<Record<EditableMetric, number>> = {}
+    for (const metric of METRICS) {
+      const parsed = parseThresholdValue(record[metric.key])
+      const fallback = defaults[metric.key]
+      if (parsed !== null) result[metric.key] = parsed
+      else if (fallback !== undefined) result[metric.key] = fallback
+    }
+    return result
+  }
+
+  const weights = (value?.scoreWeights && typeof value.scoreWeights === 'object'
+    ? value.scoreWeights
+    : {}) as Partial<ScoreWeights>
+
+  return {
+    exceeding: readBand(value?.exceeding, DEFAULT_PERFORMANCE_THRESHOLDS.exceeding),
+    below: readBand(value?.below, DEFAULT_PERFORMANCE_THRESHOLDS.below),
+    persistentFailureDays:
+      parseThresholdValue(value?.persistent_failure_days) ?? DEFAULT_PERFORMANCE_THRESHOLDS.persistent_failure_days,
+    weights: { ...DEFAULT_SCORE_WEIGHTS, ...weights },
+  }
+}
+
+function toFormState(
+  successMetrics: Record<string, unknown> | null,
+  performanceThresholds: Record<string, unknown> | null
+): FormState {
+  const thresholds = readThresholds(performanceThresholds)
+  const bandToForm = (band: Partial<Record<EditableMetric, number>>) =>
+    Object.fromEntries(
+      METRICS.map((metric) => {
+        const value = band[metric.key]
+        if (value === undefined) return [metric.key, '']
+        return [metric.key, metric.unit === '%' ? String(round(value * 100)) : String(value)]
+      })
+    ) as Record<EditableMetric, string>
+
+  return {
+    exceeding: bandToForm(thresholds.exceeding),
+    below: bandToForm(thresholds.below),
+    persistentFailureDays: String(thresholds.persistentFailureDays),
+    weights: Object.fromEntries(
+      WEIGHTS.map((weight) => [weight.key, String(thresholds.weights[weight.key])])
+    ) as Record<keyof ScoreWeights, string>,
+    successMetrics: Object.entries(successMetrics || {}).map(([key, value]) => ({
+      key,
+      value: formatSuccessMetric(key, value),
+    })),
+  }
+}
+
+function toPayload(form: FormState) {
+  const bandToPayload = (band: Record<EditableMetric, string>) =>
+    Object.fromEntries(
+      METRICS.filter((metric) => band[metric.key].trim() !== '').map((metric) => {
+        const value = Number(band[metric.key])
+        return [metric.key, metric.unit === '%' ? value / 100 : value]
+      })
+    )
+
+  return {
+    successMetrics: Object.fromEntries(
+      form.successMetrics.filter((row) => row.key.trim() !== '').map((row) => [row.key.trim(), row.value.trim()])
+    ),
+    performanceThresholds: {
+      exceeding: bandToPayload(form.exceeding),
+      below: bandToPayload(form.below),
+      persistent_failure_days: Number(form.persistentFailureDays),
+      scoreWeights: Object.fromEntries(WEIGHTS.map((weight) => [weight.key, Number(form.weights[weight.key])])),
+    },
+  }
+}
+
+function formatBandValue(metric: EditableMetric, value: number): string {
+  return metric === 'cpa' ? `$${value}` : `${round(value * 100)}%`
+}
+
+function formatSuccessMetric(key: string, value: unknown): string {
+  if (typeof value === 'number' && isRateMetric(key)) return `${round(value * 100)}%`
+  return String(value)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+
+interface PostingScheduleProps {
+  campaignId: string
+  campaignStatus: string
+  postingSchedule: Record<string, unknown> | null
+  resumePolicy: string
+  onSaved: () => Promise<void>
+}
+
+interface ArmSample {
+  contentId: string
+  hookSource: string | null
+  alpha: number
+  beta: number
+  sample: number
+}
+
+interface Allocation {
+  id: string
+  platform: string
+  slotAt: string
+  metric: string
+  strategy: 'exploit' | 'explore'
+  sampledValue: string
+  arms: ArmSample[]
+  content: { id: string; headline: string | null; hookSource: string | null }
+  post: { id: string; status: string; postedAt: string | null } | null
+}
+
+const PLATFORMS = [
+  { key: 'facebook', label: 'Facebook' },
+  { key: 'instagram', label: 'Instagram' },
+]
+
+const RESUME_POLICIES = [
+  { key: 'shift', label: 'Shift by the time paused' },
+  { key: 'post_now', label: 'Post right away' },
+  { key: 'skip', label: 'Skip them' },
+]
+
+const inputClass =
+  'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function PostingSchedule({
+  campaignId,
+  campaignStatus,
+  postingSchedule,
+  resumePolicy,
+  onSaved,
+}: PostingScheduleProps) {
+  const schedule = readSchedule(postingSchedule)
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [times, setTimes] = useState('')
+  const [platforms, setPlatforms] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [allocations, setAllocations] = useState<Allocation[]>([])
+
+  const canEdit = campaignStatus !== 'live'
+
+  const fetchAllocations = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}/allocations?limit=10`)
+      const data = await res.json()
+      if (data.success) setAllocations(data.data.allocations)
+    } catch {
+      // The schedule is still usable without the audit trail
+    }
+  }, [campaignId])
+
+  useEffect(() => {
+    fetchAllocations()
+  }, [fetchAllocations])
+
+  function startEditing() {
+    setTimes(schedule?.times.join(', ') ?? '09:00, 17:00')
+    setPlatforms(schedule?.platforms ?? ['facebook'])
+    setError(null)
+    setEditing(true)
+  }
+
+  async function save(update: {
+    postingSchedule?: { times: string[]; platforms: string[] } | null
+    resumePolicy?: string
+  }) {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/campaigns/${campaignId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      })
+      const data = await res.json()
+      if (data.success) {
+        await onSaved()
+        setEditing(false)
+      } else if (res.status === 422 && data.data) {
+        setError(Object.values(data.data as Record<string, string>).join('. '))
+      } else {
+        setError(data.error || 'Failed to save posting schedule')
+      }
+    } catch {
+      setError('Failed to save posting schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  function handleSave() {
+    save({
+      postingSchedule: {
+        times: times.split(',').map((t) => t.trim()).filter(Boolean),
+        platforms,
+      },
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4 lg:col-span-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Posting Schedule</h3>
+        {!editing &&
+          (canEdit ? (
+            <button onClick={startEditing} className="text-sm text-blue-600 hover:text-blue-700">
+              {schedule ? 'Edit' : 'Set up'}
+            </button>
+          ) : (
+            <span className="text-xs text-gray-400">Pause the campaign to edit</span>
+          ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">{error}</div>
+      )}
+
+      {editing ? (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="postingTimes" className="block text-sm text-gray-600">
+              Times (24-hour, UTC, comma separated)
+            </label>
+            <input
+              type="text"
+              id="postingTimes"
+              value={times}
+              onChange={(e) => setTimes(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            {PLATFORMS.map((platform) => (
+              <label key={platform.key} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={platforms.includes(platform.key)}
+                  onChange={(e) =>
+                    setPlatforms((prev) =>
+                      e.target.checked ? [...prev, platform.key] : prev.filter((p) => p !== platform.key)
+                    )
+                  }
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {platform.label}
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3">
+            {schedule && (
+              <button
+                onClick={() => save({ postingSchedule: null })}
+                disabled={saving}
+                className="px-4 py-2 text-red-600 hover:text-red-700 disabled:opacity-50 mr-auto"
+              >
+                Turn off
+              </button>
+            )}
+            <button
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      ) : schedule ? (
+        <p className="text-sm text-gray-700">
+          {schedule.times.join(', ')} UTC on{' '}
+          {schedule.platforms.map((p) => PLATFORMS.find((x) => x.key === p)?.label ?? p).join(' & ')}. Approved
+          content is assigned to slots automatically, favouring the best-performing hooks.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400">No schedule set. Posts are only created when scheduled manually.</p>
+      )}
+
+      {!editing && (
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <label htmlFor="resumePolicy" className="text-gray-600">
+            Posts missed while paused
+          </label>
+          <select
+            id="resumePolicy"
+            value={resumePolicy}
+            onChange={(e) => save({ resumePolicy: e.target.value })}
+            disabled={!canEdit || saving}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+          >
+            {RESUME_POLICIES.map((policy) => (
+              <option key={policy.key} value={policy.key}>
+                {policy.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {allocations.length > 0 && (
+        <div className="pt-4 border-t border-gray-100">
+          <p className="text-sm font-medium text-gray-600 mb-2">Recent Allocations</p>
+          <ul className="divide-y divide-gray-100">
+            {allocations.map((allocation) => (
+              <li key={allocation.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-900 line-clamp-1">
+                    {allocation.content.headline || allocation.content.hookSource || 'Untitled'}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(allocation.slotAt).toLocaleString()} · {allocation.platform} · best of{' '}
+                    {allocation.arms.length} on {allocation.metric === 'ctr' ? 'CTR' : 'conversion rate'} (sampled{' '}
+                    {(Number(allocation.sampledValue) * 100).toFixed(2)}%)
+                  </p>
+                </div>
+                <span
+                  className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${
+                    allocation.strategy === 'explore' ? 'bg-purple-100 text-purple-700' : 'bg-blue-100 text-blue-700'
+                  }`}
+                >
+                  {allocation.strategy === 'explore' ? 'Explore' : 'Exploit'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function readSchedule(value: Record<string, unknown> | null): { times: string[]; platforms: string[] } | null {
+  if (!value || !Array.isArray(value.times) || !Array.isArray(value.platforms)) return null
+  return { times: value.times as string[], platforms: value.platforms as string[] }
+}
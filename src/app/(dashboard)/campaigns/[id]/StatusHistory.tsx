@@ -0,0 +1,59 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface TransitionRecord {
+  id: string
+  transition: string | null
+  from: string | null
+  to: string
+  actor: string
+  by: string | null
+  reason: string | null
+  at: string
+}
+
+export default function StatusHistory({ campaignId }: { campaignId: string }) {
+  const [history, setHistory] = useState<TransitionRecord[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      try {
+        const res = await fetch(`/api/campaigns/${campaignId}/transitions`)
+        const data = await res.json()
+        if (data.success) setHistory(data.data.history)
+      } catch {
+        // Card stays hidden if the history can't be loaded
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchHistory()
+  }, [campaignId])
+
+  if (loading || history.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <h3 className="font-semibold text-gray-900">Status History</h3>
+
+      <ul className="space-y-3">
+        {history.map((entry) => (
+          <li key={entry.id} className="text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-800">
+                {entry.from ? `${entry.from} → ${entry.to}` : entry.to}
+              </span>
+              <span className="text-xs text-gray-400">{new Date(entry.at).toLocaleString()}</span>
+            </div>
+            <p className="text-xs text-gray-500">
+              {entry.actor === 'system' ? 'System' : entry.by ?? 'Team member'}
+              {entry.reason && ` · ${entry.reason}`}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -4,6 +4,11 @@ import { useState, useEffect, useCallback, use } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
+import PerformanceSettings from './PerformanceSettings'
+import PostingSchedule from './PostingSchedule'
+import BudgetPacing from './BudgetPacing'
+import StatusHistory from './StatusHistory'
+import ExperimentsTab from './ExperimentsTab'
 
 // --- Types ---
 
@@ -85,7 +90,12 @@ interface Campaign {
   startDate: string | null
   endDate: string | null
   successMetrics: Record<string, unknown> | null
+  performanceThresholds: Record<string, unknown> | null
+  postingSchedule: Record<string, unknown> | null
+  resumePolicy: string
   autoOptimize: boolean
+  performanceStatus: string | null
+  lastOptimizedAt: string | null
   approvedAt: string | null
   approvedBy: string | null
   createdAt: string
@@ -132,6 +142,13 @@ const contentStatusColors: Record<string, string> = {
   retired: 'bg-red-100 text-red-700',
 }
 
+const performanceStatusConfig: Record<string, { label: string; className: string }> = {
+  exceeding: { label: 'Exceeding', className: 'bg-green-100 text-green-700' },
+  meeting: { label: 'Meeting targets', className: 'bg-blue-100 text-blue-700' },
+  below: { label: 'Below threshold', className: 'bg-yellow-100 text-yellow-700' },
+  persistent_fail: { label: 'Persistent failure', className: 'bg-red-100 text-red-700' },
+}
+
 const severityColors: Record<string, string> = {
   info: 'bg-blue-100 text-blue-700',
   warning: 'bg-yellow-100 text-yellow-700',
@@ -147,7 +164,7 @@ export default function CampaignDetailPage({ params }: { params: Promise<{ id: s
   const [loading, setLoading] = useState(true)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'content' | 'posts' | 'escalations'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'content' | 'experiments' | 'posts' | 'escalations'>('overview')
   const [posts, setPosts] = useState<PostItem[]>([])
   const [postsLoading, setPostsLoading] = useState(false)
 
@@ -212,6 +229,52 @@ export default function CampaignDetailPage({ params }: { params: Promise<{ id: s
     }
   }
 
+  async function handleFail() {
+    const reason = prompt('Why is this campaign being marked as failed? Unpublished posts will be cancelled.')
+    if (!reason?.trim()) return
+
+    setActionLoading('fail')
+    setError(null)
+    try {
+      const res = await fetch(`/api/campaigns/${id}/fail`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        await fetchCampaign()
+      } else {
+        setError(data.error || 'Failed to mark campaign as failed')
+      }
+    } catch {
+      setError('Failed to mark campaign as failed')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  async function handleRefreshMetrics() {
+    setActionLoading('refresh-metrics')
+    setError(null)
+    try {
+      const res = await fetch(`/api/campaigns/${id}/refresh-metrics`, { method: 'POST' })
+      const data = await res.json()
+      if (data.success) {
+        if (data.data.rateLimited) {
+          setError('Meta rate limit reached. Some posts will be refreshed on the next poll.')
+        }
+        if (activeTab === 'posts') await fetchPosts()
+      } else {
+        setError(data.error || 'Failed to refresh metrics')
+      }
+    } catch {
+      setError('Failed to refresh metrics')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   async function handleDelete() {
     if (!confirm('Are you sure you want to delete this campaign? This cannot be undone.')) return
 
@@ -285,6 +348,14 @@ export default function CampaignDetailPage({ params }: { params: Promise<{ id: s
                 {campaign.targetAudience}
               </span>
             )}
+            {campaign.performanceStatus && performanceStatusConfig[campaign.performanceStatus] && (
+              <span
+                className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${performanceStatusConfig[campaign.performanceStatus].className}`}
+                title={campaign.lastOptimizedAt ? `Last evaluated ${new Date(campaign.lastOptimizedAt).toLocaleString()}` : undefined}
+              >
+                {performanceStatusConfig[campaign.performanceStatus].label}
+              </span>
+            )}
             {campaign.autoOptimize && (
               <span className="text-xs text-gray-500">Auto-optimize on</span>
             )}
@@ -338,6 +409,24 @@ export default function CampaignDetailPage({ params }: { params: Promise<{ id: s
               {actionLoading === 'complete' ? 'Completing...' : 'Complete'}
             </button>
           )}
+          {['approved', 'setup', 'live', 'paused'].includes(campaign.status) && (
+            <button
+              onClick={handleFail}
+              disabled={actionLoading !== null}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+            >
+              {actionLoading === 'fail' ? 'Marking...' : 'Mark Failed'}
+            </button>
+          )}
+          {(campaign.status === 'live' || campaign.status === 'paused' || campaign.status === 'completed') && (
+            <button
+              onClick={handleRefreshMetrics}
+              disabled={actionLoading !== null}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              {actionLoading === 'refresh-metrics' ? 'Refreshing...' : 'Refresh Metrics'}
+            </button>
+          )}
           {campaign.status !== 'live' && (
             <button
               onClick={handleDelete}
@@ -360,6 +449,7 @@ export default function CampaignDetailPage({ params }: { params: Promise<{ id: s
             { key: 'overview', label: 'Overview' },
             { key: 'tasks', label: `Tasks (${campaign._count.tasks})` },
             { key: 'content', label: `Content (${campaign._count.contents})` },
+            { key: 'experiments', label: 'Experiments' },
             { key: 'posts', label: `Posts${posts.length > 0 ? ` (${posts.length})` : ''}` },
             { key: 'escalations', label: `Escalations (${campaign._count.escalations})` },
           ] as const).map((tab) => (
@@ -379,9 +469,10 @@ export default function CampaignDetailPage({ params }: { params: Promise<{ id: s
       </div>
 
       {/* Tab content */}
-      {activeTab === 'overview' && <OverviewTab campaign={campaign} />}
+      {activeTab === 'overview' && <OverviewTab campaign={campaign} onRefresh={fetchCampaign} />}
       {activeTab === 'tasks' && <TasksTab tasks={campaign.tasks} onRefresh={fetchCampaign} />}
       {activeTab === 'content' && <ContentTab contents={campaign.contents} />}
+      {activeTab === 'experiments' && <ExperimentsTab campaignId={campaign.id} />}
       {activeTab === 'posts' && <PostsTab posts={posts} loading={postsLoading} onRefresh={fetchPosts} />}
       {activeTab === 'escalations' && <EscalationsTab escalations={campaign.escalations} />}
     </div>
@@ -455,7 +546,7 @@ function StatusWorkflow({ currentStatus }: { currentStatus: string }) {
 
 // --- Overview Tab ---
 
-function OverviewTab({ campaign }: { campaign: Campaign }) {
+function OverviewTab({ campaign, onRefresh }: { campaign: Campaign; onRefresh: () => Promise<void> }) {
   const channels = campaign.channels as string[] | null
   const createdAt = new Date(campaign.createdAt).toLocaleDateString()
   const updatedAt = new Date(campaign.updatedAt).toLocaleDateString()
@@ -526,20 +617,29 @@ function OverviewTab({ campaign }: { campaign: Campaign }) {
         )}
       </div>
 
-      {/* Success Metrics */}
-      {campaign.successMetrics && Object.keys(campaign.successMetrics).length > 0 && (
-        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
-          <h3 className="font-semibold text-gray-900">Success Metrics</h3>
-          <div className="grid grid-cols-2 gap-4">
-            {Object.entries(campaign.successMetrics).map(([key, value]) => (
-              <div key={key}>
-                <p className="text-sm text-gray-500 capitalize">{key.replace(/_/g, ' ')}</p>
-                <p className="text-lg font-semibold text-gray-900">{String(value)}</p>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
+      {/* Spend vs budget */}
+      <BudgetPacing campaignId={campaign.id} />
+
+      {/* Targets & thresholds */}
+      <PerformanceSettings
+        campaignId={campaign.id}
+        campaignStatus={campaign.status}
+        successMetrics={campaign.successMetrics}
+        performanceThresholds={campaign.performanceThresholds}
+        onSaved={onRefresh}
+      />
+
+      {/* Slot allocation */}
+      <PostingSchedule
+        campaignId={campaign.id}
+        campaignStatus={campaign.status}
+        postingSchedule={campaign.postingSchedule}
+        resumePolicy={campaign.resumePolicy}
+        onSaved={onRefresh}
+      />
+
+      {/* Who moved the campaign and when */}
+      <StatusHistory key={campaign.status} campaignId={campaign.id} />
 
       {/* Summary Counts */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -820,6 +920,8 @@ function TaskRow({
 // --- Content Tab ---
 
 function ContentTab({ contents }: { contents: ContentItem[] }) {
+  const [sortBy, setSortBy] = useState<'newest' | 'score'>('newest')
+
   if (contents.length === 0) {
     return (
       <div className="bg-white rounded-lg border border-gray-200 p-8 text-center">
@@ -831,9 +933,27 @@ function ContentTab({ contents }: { contents: ContentItem[] }) {
     )
   }
 
+  // Unscored content sorts last
+  const sorted = sortBy === 'score'
+    ? [...contents].sort(
+        (a, b) => (b.performanceScore === null ? -1 : Number(b.performanceScore)) -
+          (a.performanceScore === null ? -1 : Number(a.performanceScore))
+      )
+    : contents
+
   return (
     <div className="space-y-4">
-      {contents.map((content) => (
+      <div className="flex justify-end">
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'newest' | 'score')}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="newest">Newest First</option>
+          <option value="score">Highest Score</option>
+        </select>
+      </div>
+      {sorted.map((content) => (
         <div key={content.id} className="bg-white rounded-lg border border-gray-200 p-5">
           <div className="flex items-start justify-between">
             <div className="flex-1 min-w-0">
@@ -895,6 +1015,7 @@ function ContentTab({ contents }: { contents: ContentItem[] }) {
 const postStatusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-700',
   scheduled: 'bg-purple-100 text-purple-700',
+  held: 'bg-orange-100 text-orange-700',
   posting: 'bg-blue-100 text-blue-700',
   posted: 'bg-green-100 text-green-700',
   failed: 'bg-red-100 text-red-700',
@@ -1026,7 +1147,7 @@ function PostsTab({
                         Posted {new Date(post.postedAt).toLocaleString()}
                       </span>
                     )}
-                    {post.scheduledFor && post.status === 'scheduled' && (
+                    {post.scheduledFor && (post.status === 'scheduled' || post.status === 'held') && (
                       <span className="text-xs text-purple-600">
                         Scheduled for {new Date(post.scheduledFor).toLocaleString()}
                       </span>
@@ -1068,7 +1189,7 @@ function PostsTab({
                       {isLoading ? 'Retrying...' : 'Retry'}
                     </button>
                   )}
-                  {post.status === 'scheduled' && (
+                  {(post.status === 'scheduled' || post.status === 'held') && (
                     <button
                       onClick={() => handleCancel(post.id)}
                       disabled={isLoading || actionLoading !== null}
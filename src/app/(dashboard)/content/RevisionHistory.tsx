@@ -0,0 +1,124 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { diffWords } from '@/lib/text-diff'
+
+interface Copy {
+  headline: string | null
+  body: string | null
+  ctaText: string | null
+}
+
+interface Revision extends Copy {
+  id: string
+  replacedBy: 'edit' | 'regenerate' | 'revert'
+  instructions: string | null
+  createdAt: string
+}
+
+const FIELDS: Array<[keyof Copy, string]> = [
+  ['headline', 'Headline'],
+  ['body', 'Body'],
+  ['ctaText', 'CTA'],
+]
+
+const changeLabels: Record<Revision['replacedBy'], string> = {
+  edit: 'Edited by hand',
+  regenerate: 'Regenerated',
+  revert: 'Reverted',
+}
+
+// Prior versions of a piece's copy, each diffed against the version that replaced it
+export default function RevisionHistory({
+  contentId,
+  current,
+  canRevert,
+  reverting,
+  onRevert,
+}: {
+  contentId: string
+  current: Copy
+  canRevert: boolean
+  reverting: boolean
+  onRevert: (revisionId: string) => void
+}) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchRevisions() {
+      try {
+        const res = await fetch(`/api/content/${contentId}/revisions`)
+        const data = await res.json()
+        if (data.success) setRevisions(data.data.revisions)
+      } catch {
+        // Panel shows as empty if the history can't be loaded
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchRevisions()
+  }, [contentId])
+
+  if (loading) {
+    return <p className="mt-3 text-xs text-gray-400">Loading history...</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="mt-3 text-xs text-gray-400">No earlier versions</p>
+  }
+
+  return (
+    <ul className="mt-3 space-y-3 border-t border-gray-100 pt-3">
+      {revisions.map((revision, i) => {
+        const replacement = i === 0 ? current : revisions[i - 1]
+        const changed = FIELDS.filter(([field]) => (revision[field] ?? '') !== (replacement[field] ?? ''))
+
+        return (
+          <li key={revision.id} className="text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-500">
+                <span className="font-medium text-gray-700">{changeLabels[revision.replacedBy]}</span>
+                {revision.instructions && <> &ldquo;{revision.instructions}&rdquo;</>}
+                {' · '}
+                {new Date(revision.createdAt).toLocaleString()}
+              </span>
+              {canRevert && (
+                <button
+                  onClick={() => onRevert(revision.id)}
+                  disabled={reverting}
+                  className="px-2 py-1 text-xs font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Revert to this
+                </button>
+              )}
+            </div>
+            {changed.length === 0 ? (
+              <p className="text-xs text-gray-400 mt-1">Copy unchanged (platform variants only)</p>
+            ) : (
+              changed.map(([field, label]) => (
+                <p key={field} className="text-xs text-gray-600 mt-1 whitespace-pre-line">
+                  <span className="text-gray-400">{label}: </span>
+                  {diffWords(revision[field] ?? '', replacement[field] ?? '').map((segment, j) => (
+                    <span
+                      key={j}
+                      className={
+                        segment.type === 'added'
+                          ? 'bg-green-50 text-green-700'
+                          : segment.type === 'removed'
+                            ? 'bg-red-50 text-red-700 line-through'
+                            : undefined
+                      }
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+              ))
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -1,7 +1,12 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import Link from 'next/link'
+import { buildPlatformMessage, resolvePlatformVariant } from '@/lib/platform-variants'
+import type { QualityScore } from '@/lib/content-quality'
+import type { ComplianceCheck } from '@/lib/content-compliance'
+import { createServerSentEventParser } from '@/lib/streaming'
+import RevisionHistory from './RevisionHistory'
 
 // --- Types ---
 
@@ -28,14 +33,20 @@ interface ContentItem {
   ctaUrl: string | null
   hookSource: string | null
   audienceSegment: string | null
+  platformVariants: Record<string, unknown> | null
+  generationMetadata: Record<string, unknown> | null
+  complianceCheck: ComplianceCheck | null
   performanceScore: number | null
   createdAt: string
   updatedAt: string
   campaign: Campaign
   image: ContentImage | null
-  _count: { posts: number }
+  _count: { posts: number; revisions: number }
 }
 
+/** A piece saved by the streaming generator, shown in the modal as it arrives */
+type StreamedContent = Pick<ContentItem, 'id' | 'headline' | 'body' | 'hookSource' | 'generationMetadata'>
+
 // --- Status config ---
 
 const statusColors: Record<string, string> = {
@@ -56,12 +67,16 @@ export default function ContentPage() {
   const [error, setError] = useState<string | null>(null)
   const [filterStatus, setFilterStatus] = useState('')
   const [filterCampaign, setFilterCampaign] = useState('')
+  const [sortBy, setSortBy] = useState('')
 
   // Generation state
   const [showGenerateModal, setShowGenerateModal] = useState(false)
   const [generating, setGenerating] = useState(false)
   const [generateProgress, setGenerateProgress] = useState('')
   const [lastGeneratedCount, setLastGeneratedCount] = useState(0)
+  const [streamedContent, setStreamedContent] = useState<StreamedContent[]>([])
+  const [discardedCount, setDiscardedCount] = useState(0)
+  const generateAbort = useRef<AbortController | null>(null)
 
   // Editing state
   const [editingId, setEditingId] = useState<string | null>(null)
@@ -75,6 +90,7 @@ export default function ContentPage() {
       const params = new URLSearchParams()
       if (filterStatus) params.append('status', filterStatus)
       if (filterCampaign) params.append('campaignId', filterCampaign)
+      if (sortBy) params.append('sort', sortBy)
       const res = await fetch(`/api/content?${params}`)
       const data = await res.json()
       if (data.success) {
@@ -85,7 +101,7 @@ export default function ContentPage() {
     } finally {
       setLoading(false)
     }
-  }, [filterStatus, filterCampaign])
+  }, [filterStatus, filterCampaign, sortBy])
 
   const fetchCampaigns = useCallback(async () => {
     try {
@@ -109,33 +125,88 @@ export default function ContentPage() {
     count: number
     contentType: string
     platform: string
+    minQualityScore?: number
   }) {
+    const abort = new AbortController()
+    generateAbort.current = abort
     setGenerating(true)
-    setGenerateProgress(`Generating ${opts.count} content pieces... This may take 15-30 seconds.`)
+    setGenerateProgress(`Generating ${opts.count} content pieces...`)
+    setStreamedContent([])
+    setDiscardedCount(0)
     setError(null)
+
+    // Pieces are saved as they stream in, so count them even if the stream breaks
+    let saved = 0
+    let discarded = 0
+    const finish = async (message: string) => {
+      setLastGeneratedCount(saved)
+      setGenerateProgress(message)
+      setShowGenerateModal(false)
+      // Set filter to show the generated campaign's content
+      setFilterCampaign(opts.campaignId)
+      await fetchContent()
+    }
+
     try {
-      const res = await fetch('/api/content/generate', {
+      const res = await fetch('/api/content/generate/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(opts),
+        signal: abort.signal,
       })
-      const data = await res.json()
-      if (data.success) {
-        const count = data.data.content?.length || 0
-        setLastGeneratedCount(count)
-        setGenerateProgress(`Generated ${count} content pieces!`)
-        setShowGenerateModal(false)
-        // Set filter to show the generated campaign's content
-        setFilterCampaign(opts.campaignId)
-        await fetchContent()
-      } else {
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}))
         setError(data.error || 'Failed to generate content')
         setGenerateProgress('')
+        return
       }
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+      const parser = createServerSentEventParser()
+      let failure: string | null = null
+
+      while (true) {
+        const { value, done } = await reader.read()
+        if (done) break
+
+        for (const { event, data } of parser.push(value)) {
+          const payload = data as Record<string, unknown>
+          if (event === 'variation') {
+            saved++
+            setStreamedContent((prev) => [...prev, payload.content as StreamedContent])
+          } else if (event === 'discarded') {
+            discarded++
+            setDiscardedCount(discarded)
+          } else if (event === 'error') {
+            failure = (payload.error as string) || 'Failed to generate content'
+          }
+        }
+      }
+
+      if (failure) {
+        setError(saved > 0 ? `${failure}. The ${saved} pieces generated before the failure were kept.` : failure)
+        if (saved > 0) await finish(`Generated ${saved} content pieces before the failure`)
+        else setGenerateProgress('')
+        return
+      }
+
+      await finish(
+        discarded > 0
+          ? `Generated ${saved} content pieces (${discarded} below the quality bar replaced or dropped)`
+          : `Generated ${saved} content pieces!`
+      )
     } catch {
-      setError('Failed to generate content. Check that the Claude API key is configured.')
-      setGenerateProgress('')
+      if (abort.signal.aborted) {
+        await finish(`Generation cancelled. Kept ${saved} content piece${saved === 1 ? '' : 's'}.`)
+      } else if (saved > 0) {
+        setError(`Lost connection to the generator. The ${saved} pieces generated so far were kept.`)
+        await finish(`Generated ${saved} content pieces before the connection dropped`)
+      } else {
+        setError('Failed to generate content. Check that the Claude API key is configured.')
+        setGenerateProgress('')
+      }
     } finally {
+      generateAbort.current = null
       setGenerating(false)
     }
   }
@@ -152,6 +223,9 @@ export default function ContentPage() {
       const data = await res.json()
       if (data.success) {
         await fetchContent()
+      } else if (res.status === 422 && data.data?.violations) {
+        const critical = (data.data as ComplianceCheck).violations.filter((v) => v.severity === 'critical')
+        setError(`${data.error}: ${critical.map((v) => v.message).join('; ')}`)
       } else {
         setError(data.error || `Failed to ${newStatus} content`)
       }
@@ -189,6 +263,53 @@ export default function ContentPage() {
     }
   }
 
+  async function handleRegenerate(contentId: string, instructions: string): Promise<boolean> {
+    setActionLoading(contentId)
+    setError(null)
+    try {
+      const res = await fetch(`/api/content/${contentId}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instructions }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        await fetchContent()
+        return true
+      }
+      setError(data.error || 'Failed to regenerate content')
+      return false
+    } catch {
+      setError('Failed to regenerate content')
+      return false
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  async function handleRevert(contentId: string, revisionId: string) {
+    if (!confirm('Revert to this version? The current copy is kept in the history.')) return
+    setActionLoading(contentId)
+    setError(null)
+    try {
+      const res = await fetch(`/api/content/${contentId}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionId }),
+      })
+      const data = await res.json()
+      if (data.success) {
+        await fetchContent()
+      } else {
+        setError(data.error || 'Failed to revert content')
+      }
+    } catch {
+      setError('Failed to revert content')
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
   async function handleDelete(contentId: string) {
     if (!confirm('Delete this content piece?')) return
     setActionLoading(contentId)
@@ -324,6 +445,14 @@ export default function ContentPage() {
             <option key={c.id} value={c.id}>{c.name}</option>
           ))}
         </select>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">Newest First</option>
+          <option value="score">Highest Score</option>
+        </select>
       </div>
 
       {/* Content list */}
@@ -364,6 +493,8 @@ export default function ContentPage() {
               onStartEdit={() => setEditingId(item.id)}
               onCancelEdit={() => setEditingId(null)}
               onSaveEdit={(updates) => handleSaveEdit(item.id, updates)}
+              onRegenerate={(instructions) => handleRegenerate(item.id, instructions)}
+              onRevert={(revisionId) => handleRevert(item.id, revisionId)}
               onStatusChange={(status) => handleStatusChange(item.id, status)}
               onDelete={() => handleDelete(item.id)}
               onPost={() => setPostingContentId(item.id)}
@@ -377,7 +508,10 @@ export default function ContentPage() {
         <GenerateModal
           campaigns={campaigns}
           generating={generating}
+          streamed={streamedContent}
+          discardedCount={discardedCount}
           onGenerate={handleGenerate}
+          onCancel={() => generateAbort.current?.abort()}
           onClose={() => setShowGenerateModal(false)}
         />
       )}
@@ -400,6 +534,11 @@ export default function ContentPage() {
 
 // --- Content Card ---
 
+function readQuality(metadata: Record<string, unknown> | null): QualityScore | null {
+  const quality = metadata?.quality as QualityScore | undefined
+  return quality && typeof quality.overall === 'number' ? quality : null
+}
+
 function ContentCard({
   item,
   isEditing,
@@ -407,6 +546,8 @@ function ContentCard({
   onStartEdit,
   onCancelEdit,
   onSaveEdit,
+  onRegenerate,
+  onRevert,
   onStatusChange,
   onDelete,
   onPost,
@@ -417,12 +558,18 @@ function ContentCard({
   onStartEdit: () => void
   onCancelEdit: () => void
   onSaveEdit: (updates: { headline?: string; body?: string; ctaText?: string }) => void
+  onRegenerate: (instructions: string) => Promise<boolean>
+  onRevert: (revisionId: string) => void
   onStatusChange: (status: string) => void
   onDelete: () => void
   onPost: () => void
 }) {
+  const [refining, setRefining] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const isLoading = actionLoading === item.id
   const canEdit = item.status === 'generated' || item.status === 'approved'
+  const canRevise = canEdit || item.status === 'paused' || item.status === 'retired'
+  const quality = readQuality(item.generationMetadata)
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
@@ -474,9 +621,48 @@ function ContentCard({
             {item.ctaText && (
               <p className="text-sm text-blue-600 mt-2 font-medium">{item.ctaText}</p>
             )}
+            {item.complianceCheck && item.complianceCheck.violations.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {item.complianceCheck.violations.map((violation, i) => (
+                  <li
+                    key={i}
+                    className={`text-xs px-2 py-1 rounded ${
+                      violation.severity === 'critical' ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-700'
+                    }`}
+                  >
+                    {violation.message}
+                    {violation.text && <span className="font-medium"> &ldquo;{violation.text}&rdquo;</span>}
+                    {violation.field.startsWith('platformVariants.') && (
+                      <span className="text-gray-500"> ({violation.field.split('.')[1]})</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
+        {refining && !isEditing && (
+          <RefineForm
+            isLoading={isLoading}
+            onCancel={() => setRefining(false)}
+            onSubmit={async (instructions) => {
+              if (await onRegenerate(instructions)) setRefining(false)
+            }}
+          />
+        )}
+
+        {showHistory && !isEditing && (
+          <RevisionHistory
+            key={item.updatedAt}
+            contentId={item.id}
+            current={item}
+            canRevert={canRevise}
+            reverting={actionLoading !== null}
+            onRevert={onRevert}
+          />
+        )}
+
         {/* Footer: actions + metadata */}
         {!isEditing && (
           <div className="flex items-center justify-between mt-4 pt-3 border-t border-gray-100">
@@ -484,15 +670,48 @@ function ContentCard({
               <span className="text-xs text-gray-400">
                 {new Date(item.createdAt).toLocaleDateString()}
               </span>
+              {quality && (
+                <span
+                  title={quality.issues.join('\n') || 'No issues found'}
+                  className={`text-xs px-1.5 py-0.5 rounded ${
+                    quality.overall >= 75
+                      ? 'bg-green-50 text-green-700'
+                      : quality.overall >= 50
+                        ? 'bg-yellow-50 text-yellow-700'
+                        : 'bg-red-50 text-red-700'
+                  }`}
+                >
+                  Quality: {quality.overall}
+                </span>
+              )}
               {item.performanceScore !== null && (
                 <span className="text-xs text-gray-500">Score: {item.performanceScore}</span>
               )}
               {item._count.posts > 0 && (
                 <span className="text-xs text-gray-500">{item._count.posts} posts</span>
               )}
+              {item._count.revisions > 0 && (
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="text-xs text-blue-600 hover:text-blue-700"
+                >
+                  {showHistory ? 'Hide history' : `History (${item._count.revisions})`}
+                </button>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
+              {/* Refine button */}
+              {canRevise && !refining && (
+                <button
+                  onClick={() => setRefining(true)}
+                  disabled={isLoading || actionLoading !== null}
+                  className="px-3 py-1.5 text-xs font-medium border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Refine
+                </button>
+              )}
+
               {/* Edit button */}
               {canEdit && (
                 <button
@@ -641,22 +860,87 @@ function EditForm({
   )
 }
 
+const REFINE_SUGGESTIONS = ['Shorter', 'More urgency', 'Address the price objection']
+
+// Separate component so the instructions reset each time refining starts
+function RefineForm({
+  isLoading,
+  onCancel,
+  onSubmit,
+}: {
+  isLoading: boolean
+  onCancel: () => void
+  onSubmit: (instructions: string) => void
+}) {
+  const [instructions, setInstructions] = useState('')
+
+  return (
+    <div className="mt-4 space-y-2 bg-gray-50 rounded-lg p-3">
+      <label className="block text-xs font-medium text-gray-500">Regenerate with instructions</label>
+      <textarea
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        rows={2}
+        maxLength={1000}
+        placeholder="e.g. shorter, more urgency, address the price objection"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {REFINE_SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => setInstructions(instructions ? `${instructions}; ${suggestion.toLowerCase()}` : suggestion)}
+              className="px-2 py-0.5 text-xs bg-white border border-gray-200 text-gray-600 rounded-full hover:bg-gray-100"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            disabled={isLoading}
+            className="px-3 py-1.5 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSubmit(instructions)}
+            disabled={isLoading || !instructions.trim()}
+            className="px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {isLoading ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
 // --- Generate Modal ---
 
 function GenerateModal({
   campaigns,
   generating,
+  streamed,
+  discardedCount,
   onGenerate,
+  onCancel,
   onClose,
 }: {
   campaigns: Campaign[]
   generating: boolean
+  streamed: StreamedContent[]
+  discardedCount: number
   onGenerate: (opts: {
     campaignId: string
     count: number
     contentType: string
     platform: string
+    minQualityScore?: number
   }) => void
+  onCancel: () => void
   onClose: () => void
 }) {
   // Only show campaigns that are eligible (have playbooks)
@@ -668,6 +952,7 @@ function GenerateModal({
   const [count, setCount] = useState(5)
   const [contentType, setContentType] = useState('organic_post')
   const [platform, setPlatform] = useState('both')
+  const [minQualityScore, setMinQualityScore] = useState('')
   const [formError, setFormError] = useState('')
 
   function handleSubmit() {
@@ -679,7 +964,12 @@ function GenerateModal({
       setFormError('Count must be between 1 and 20')
       return
     }
-    onGenerate({ campaignId, count, contentType, platform })
+    const minScore = minQualityScore.trim() ? Number(minQualityScore) : undefined
+    if (minScore !== undefined && (Number.isNaN(minScore) || minScore < 0 || minScore > 100)) {
+      setFormError('Minimum quality score must be between 0 and 100')
+      return
+    }
+    onGenerate({ campaignId, count, contentType, platform, minQualityScore: minScore })
   }
 
   return (
@@ -688,7 +978,7 @@ function GenerateModal({
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-900">Generate Content</h2>
-            <button onClick={onClose} disabled={generating} className="text-gray-400 hover:text-gray-600 disabled:opacity-50">
+            <button onClick={generating ? onCancel : onClose} className="text-gray-400 hover:text-gray-600">
               <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
@@ -778,32 +1068,72 @@ function GenerateModal({
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Minimum Quality Score
+                </label>
+                <input
+                  type="number"
+                  value={minQualityScore}
+                  onChange={(e) => setMinQualityScore(e.target.value)}
+                  min={0}
+                  max={100}
+                  placeholder="Keep everything"
+                  disabled={generating}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  0-100. Pieces scoring lower are discarded and regenerated, which takes longer.
+                </p>
+              </div>
+
               {generating && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <div className="flex items-center gap-3">
                     <div className="animate-spin rounded-full h-5 w-5 border-2 border-blue-600 border-t-transparent"></div>
                     <div>
                       <p className="text-sm font-medium text-blue-800">
-                        Generating {count} content pieces...
+                        Generated {streamed.length} of {count} content pieces...
                       </p>
                       <p className="text-xs text-blue-600 mt-0.5">
-                        Claude is writing platform-optimized content from your playbook. This typically takes 15-30 seconds.
+                        Pieces appear below as soon as they are saved. Cancelling keeps the ones already here.
+                        {discardedCount > 0 && ` ${discardedCount} below the quality bar discarded.`}
                       </p>
                     </div>
                   </div>
                 </div>
               )}
+
+              {streamed.length > 0 && (
+                <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {streamed.map((piece) => {
+                    const quality = readQuality(piece.generationMetadata)
+                    return (
+                      <li key={piece.id} className="p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium text-gray-900 line-clamp-1">
+                            {piece.headline || 'Untitled'}
+                          </p>
+                          {quality && (
+                            <span className="shrink-0 text-xs text-gray-500">Quality: {quality.overall}</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-600 line-clamp-2 mt-0.5">{piece.body}</p>
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
             </>
           )}
         </div>
 
         <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
           <button
-            onClick={onClose}
-            disabled={generating}
+            onClick={generating ? onCancel : onClose}
             className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
           >
-            Cancel
+            {generating ? 'Stop' : 'Cancel'}
           </button>
           <button
             onClick={handleSubmit}
@@ -845,12 +1175,10 @@ function PostNowModal({
     }
   }
 
-  // Build preview message
-  const previewParts: string[] = []
-  if (content.headline) previewParts.push(content.headline)
-  if (content.body) previewParts.push(content.body)
-  if (content.ctaText) previewParts.push(content.ctaText)
-  const previewMessage = previewParts.join('\n\n')
+  // Preview the platform's variant as it will be published (Instagram shows the link in the caption)
+  const previewMessage = selectedPlatform
+    ? buildPlatformMessage(resolvePlatformVariant(content, selectedPlatform), selectedPlatform, content.ctaUrl)
+    : ''
 
   const hasImage = !!content.image
 
@@ -950,9 +1278,6 @@ function PostNowModal({
                 {content.ctaUrl && selectedPlatform === 'facebook' && (
                   <p className="text-xs text-blue-600 mt-2 truncate">{content.ctaUrl}</p>
                 )}
-                {content.ctaUrl && selectedPlatform === 'instagram' && (
-                  <p className="text-xs text-blue-600 mt-2 truncate">{content.ctaUrl}</p>
-                )}
               </div>
             </div>
           )}
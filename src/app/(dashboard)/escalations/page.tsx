@@ -3,6 +3,14 @@
 import { useState, useEffect, useCallback } from 'react'
 import Link from 'next/link'
 
+interface SuggestedAction {
+  type: string
+  label: string
+  reason: string
+  params: Record<string, unknown>
+  appliedAt: string | null
+}
+
 interface Escalation {
   id: string
   campaignId: string
@@ -12,6 +20,9 @@ interface Escalation {
   description: string | null
   aiAnalysis: string | null
   aiRecommendation: string | null
+  aiDiagnosis: string | null
+  suggestedActions: SuggestedAction[] | null
+  analysisStatus: 'pending' | 'complete' | 'failed' | 'skipped'
   status: string
   humanResponse: string | null
   resolvedAt: string | null
@@ -44,6 +55,7 @@ export default function EscalationsPage() {
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(
     null
   )
+  const [applyingAction, setApplyingAction] = useState<string | null>(null)
 
   const fetchEscalations = useCallback(async () => {
     try {
@@ -98,6 +110,53 @@ export default function EscalationsPage() {
     }
   }
 
+  async function handleApply(escalationId: string, index: number) {
+    setApplyingAction(`${escalationId}:${index}`)
+    setFeedback(null)
+    try {
+      const res = await fetch(`/api/escalations/${escalationId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ index }),
+      })
+      const json = await res.json()
+      if (json.success) {
+        setFeedback({ type: 'success', message: json.data.summary })
+        await fetchEscalations()
+      } else {
+        setFeedback({ type: 'error', message: json.error || 'Failed to apply action' })
+      }
+    } catch {
+      setFeedback({ type: 'error', message: 'Network error' })
+    } finally {
+      setApplyingAction(null)
+    }
+  }
+
+  async function handleReanalyze(escalationId: string) {
+    setActionLoading(escalationId)
+    setFeedback(null)
+    try {
+      const res = await fetch(`/api/escalations/${escalationId}/analyze`, { method: 'POST' })
+      const json = await res.json()
+      if (json.success) {
+        await fetchEscalations()
+      } else {
+        setFeedback({ type: 'error', message: json.error || 'Analysis failed' })
+      }
+    } catch {
+      setFeedback({ type: 'error', message: 'Network error' })
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  const diagnosisLabels: Record<string, string> = {
+    messaging: 'Messaging',
+    targeting: 'Targeting',
+    product_market_fit: 'Product/Market Fit',
+  }
+
   const severityColors: Record<string, string> = {
     info: 'bg-blue-100 text-blue-800',
     warning: 'bg-yellow-100 text-yellow-800',
@@ -277,14 +336,36 @@ export default function EscalationsPage() {
                   )}
 
                   {/* AI Analysis - shown prominently */}
-                  {escalation.aiAnalysis && (
+                  {escalation.aiAnalysis ? (
                     <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-100">
-                      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
-                        AI Analysis
-                      </p>
-                      <p className="text-sm text-gray-700 mt-1">{escalation.aiAnalysis}</p>
+                      <div className="flex items-center gap-2">
+                        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                          AI Analysis
+                        </p>
+                        {escalation.aiDiagnosis && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700">
+                            {diagnosisLabels[escalation.aiDiagnosis] || escalation.aiDiagnosis}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{escalation.aiAnalysis}</p>
                     </div>
-                  )}
+                  ) : escalation.analysisStatus === 'pending' ? (
+                    <p className="text-xs text-gray-400 mt-3">AI analysis in progress...</p>
+                  ) : escalation.analysisStatus === 'failed' || escalation.analysisStatus === 'skipped' ? (
+                    <div className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+                      <span>{escalation.analysisStatus === 'failed' ? 'AI analysis failed.' : 'Not analyzed.'}</span>
+                      <button
+                        onClick={() => handleReanalyze(escalation.id)}
+                        disabled={actionLoading === escalation.id}
+                        className="text-blue-600 hover:underline disabled:opacity-50"
+                      >
+                        {actionLoading === escalation.id
+                          ? 'Analyzing...'
+                          : escalation.analysisStatus === 'failed' ? 'Retry' : 'Analyze'}
+                      </button>
+                    </div>
+                  ) : null}
 
                   {/* AI Recommendation - shown prominently */}
                   {escalation.aiRecommendation && (
@@ -298,6 +379,40 @@ export default function EscalationsPage() {
                     </div>
                   )}
 
+                  {/* Suggested actions - one click to apply */}
+                  {escalation.suggestedActions && escalation.suggestedActions.length > 0 && (
+                    <div className="mt-2 space-y-2">
+                      {escalation.suggestedActions.map((action, index) => {
+                        const key = `${escalation.id}:${index}`
+                        const closed = escalation.status === 'resolved' || escalation.status === 'dismissed'
+                        return (
+                          <div
+                            key={key}
+                            className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-100"
+                          >
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-gray-900">{action.label}</p>
+                              {action.reason && <p className="text-xs text-gray-500">{action.reason}</p>}
+                            </div>
+                            {action.appliedAt ? (
+                              <span className="shrink-0 text-xs text-green-700">
+                                Applied {new Date(action.appliedAt).toLocaleDateString()}
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => handleApply(escalation.id, index)}
+                                disabled={closed || applyingAction !== null}
+                                className="shrink-0 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                              >
+                                {applyingAction === key ? 'Applying...' : 'Apply'}
+                              </button>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+
                   {/* Human Response (if already provided) */}
                   {escalation.humanResponse && (
                     <div className="mt-2 p-3 bg-green-50 rounded-lg border border-green-100">
@@ -44,7 +44,7 @@ interface PostItem {
   errorMessage: string | null
   createdAt: string
   content: PostContent
-  _count: { performances: number }
+  _count: { performances: number; conversions: number }
 }
 
 // --- Status config ---
@@ -52,6 +52,7 @@ interface PostItem {
 const postStatusColors: Record<string, string> = {
   draft: 'bg-gray-100 text-gray-700',
   scheduled: 'bg-purple-100 text-purple-700',
+  held: 'bg-orange-100 text-orange-700',
   posting: 'bg-blue-100 text-blue-700',
   posted: 'bg-green-100 text-green-700',
   failed: 'bg-red-100 text-red-700',
@@ -211,6 +212,7 @@ export default function PostsPage() {
         >
           <option value="">All Statuses</option>
           <option value="scheduled">Scheduled</option>
+          <option value="held">On Hold</option>
           <option value="posting">Posting</option>
           <option value="posted">Posted</option>
           <option value="failed">Failed</option>
@@ -353,12 +355,12 @@ function PostCard({
                 Posted {new Date(post.postedAt).toLocaleString()}
               </span>
             )}
-            {post.scheduledFor && post.status === 'scheduled' && (
+            {post.scheduledFor && (post.status === 'scheduled' || post.status === 'held') && (
               <span className="text-xs text-purple-600">
                 Scheduled for {new Date(post.scheduledFor).toLocaleString()}
               </span>
             )}
-            {!post.postedAt && post.status !== 'scheduled' && (
+            {!post.postedAt && post.status !== 'scheduled' && post.status !== 'held' && (
               <span className="text-xs text-gray-400">
                 Created {new Date(post.createdAt).toLocaleString()}
               </span>
@@ -368,6 +370,11 @@ function PostCard({
                 {post._count.performances} performance records
               </span>
             )}
+            {post._count.conversions > 0 && (
+              <span className="text-xs text-green-600">
+                {post._count.conversions} conversion{post._count.conversions === 1 ? '' : 's'}
+              </span>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -394,7 +401,7 @@ function PostCard({
                 {isLoading ? 'Retrying...' : 'Retry'}
               </button>
             )}
-            {post.status === 'scheduled' && (
+            {(post.status === 'scheduled' || post.status === 'held') && (
               <button
                 onClick={onCancel}
                 disabled={isLoading || actionLoading !== null}
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { successResponse, serverErrorResponse } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
+import { getLastPolledAt } from '@/lib/metrics'
 
 // GET /api/analytics - Aggregate performance data
 export async function GET(request: NextRequest) {
@@ -182,6 +183,8 @@ export async function GET(request: NextRequest) {
       campaignId ? { where: { content: { campaignId } } } : undefined
     )
 
+    const lastPolledAt = await getLastPolledAt(campaignId || undefined)
+
     return successResponse({
       overview,
       campaigns: campaignBreakdown,
@@ -190,6 +193,7 @@ export async function GET(request: NextRequest) {
         posts: postCount,
         performanceRecords: performance._count,
       },
+      lastPolledAt,
     })
   } catch (error) {
     return serverErrorResponse(error, 'Failed to fetch analytics')
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import { Prisma } from '@prisma/client'
 import prisma from '@/lib/prisma'
 import { getSession } from '@/lib/auth'
+import { validateContentRules } from '@/lib/content-compliance'
 import {
   successResponse,
   errorResponse,
@@ -9,9 +10,9 @@ import {
   unauthorizedResponse,
   serverErrorResponse,
   parseBody,
+  validationErrorResponse,
 } from '@/lib/api'
-
-const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+import { UUID_REGEX } from '@/lib/utils'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -91,6 +92,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     const body = await parseBody<UpdateBusinessInput>(request)
 
+    const ruleErrors = validateContentRules(body.settings?.contentRules)
+    if (Object.keys(ruleErrors).length > 0) {
+      return validationErrorResponse(ruleErrors)
+    }
+
     // If updating slug, check for conflicts
     if (body.slug && body.slug !== existing.slug) {
       const slugConflict = await prisma.business.findUnique({
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { getSession } from '@/lib/auth'
+import { encryptToken } from '@/lib/meta'
+import { generateWebhookSecret } from '@/lib/conversions'
+import {
+  successResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  serverErrorResponse,
+} from '@/lib/api'
+import { UUID_REGEX } from '@/lib/utils'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/businesses/:id/webhook-secret - Generate (or rotate) the conversion webhook secret
+// The plaintext secret is only returned once; it is stored encrypted.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getSession()
+    if (!session) {
+      return unauthorizedResponse()
+    }
+
+    const { id } = await params
+
+    const isUUID = UUID_REGEX.test(id)
+    const existing = await prisma.business.findFirst({
+      where: isUUID ? { OR: [{ id }, { slug: id }] } : { slug: id },
+      select: { id: true, webhookSecret: true },
+    })
+
+    if (!existing) {
+      return notFoundResponse('Business not found')
+    }
+
+    const secret = generateWebhookSecret()
+
+    await prisma.business.update({
+      where: { id: existing.id },
+      data: { webhookSecret: encryptToken(secret) },
+    })
+
+    await prisma.activityLog.create({
+      data: {
+        businessId: existing.id,
+        actor: 'human',
+        action: existing.webhookSecret ? 'webhook_secret_rotated' : 'webhook_secret_created',
+        entityType: 'business',
+        entityId: existing.id,
+      },
+    })
+
+    return successResponse({ secret })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to generate webhook secret')
+  }
+}
@@ -2,12 +2,14 @@ import { NextRequest } from 'next/server'
 import { Prisma } from '@prisma/client'
 import prisma from '@/lib/prisma'
 import { getSession } from '@/lib/auth'
+import { validateContentRules } from '@/lib/content-compliance'
 import {
   successResponse,
   errorResponse,
   unauthorizedResponse,
   serverErrorResponse,
   parseBody,
+  validationErrorResponse,
   getQueryParams,
   getPagination,
   paginatedResponse,
@@ -82,6 +84,11 @@ export async function POST(request: NextRequest) {
       return errorResponse('Business name is required', 400)
     }
 
+    const ruleErrors = validateContentRules(body.settings?.contentRules)
+    if (Object.keys(ruleErrors).length > 0) {
+      return validationErrorResponse(ruleErrors)
+    }
+
     // Generate slug if not provided
     const slug =
       body.slug || body.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
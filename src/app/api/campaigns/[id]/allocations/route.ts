@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/campaigns/:id/allocations?limit=50 - Recent posting slot allocations with the bandit's samples
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200)
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id },
+      select: { id: true, postingSchedule: true },
+    })
+
+    if (!campaign) {
+      return errorResponse('Campaign not found', 404)
+    }
+
+    const allocations = await prisma.postAllocation.findMany({
+      where: { campaignId: id },
+      orderBy: { slotAt: 'desc' },
+      take: limit,
+      include: {
+        content: { select: { id: true, headline: true, hookSource: true } },
+        post: { select: { id: true, status: true, postedAt: true } },
+      },
+    })
+
+    return successResponse({ postingSchedule: campaign.postingSchedule, allocations })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to load allocations')
+  }
+}
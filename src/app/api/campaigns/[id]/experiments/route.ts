@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import {
+  getCampaignExperiment,
+  EXPERIMENT_DIMENSIONS,
+  ExperimentDimension,
+  ExperimentMetric,
+} from '@/lib/experiments'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const METRICS: ExperimentMetric[] = ['ctr', 'conversion_rate']
+
+// GET /api/campaigns/:id/experiments?dimension=hook&metric=ctr - Compare content arms by hook, image or CTA
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const { searchParams } = new URL(request.url)
+    const dimension = (searchParams.get('dimension') || 'hook') as ExperimentDimension
+    const metric = searchParams.get('metric') as ExperimentMetric | null
+
+    if (!EXPERIMENT_DIMENSIONS.includes(dimension)) {
+      return errorResponse(`dimension must be one of: ${EXPERIMENT_DIMENSIONS.join(', ')}`)
+    }
+
+    if (metric && !METRICS.includes(metric)) {
+      return errorResponse(`metric must be one of: ${METRICS.join(', ')}`)
+    }
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!campaign) {
+      return errorResponse('Campaign not found', 404)
+    }
+
+    const experiment = await getCampaignExperiment(id, { dimension, metric: metric ?? undefined })
+
+    return successResponse(experiment)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to load experiment results')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { transitionCampaign } from '@/lib/campaign-state'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/campaigns/:id/fail - Mark campaign as failed and cancel unpublished posts
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await ensureAuthenticated()
+    const { id } = await context.params
+
+    const body = await parseBody<{ reason?: string }>(request)
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : ''
+
+    if (!reason) {
+      return errorResponse('A reason is required to mark a campaign as failed', 400)
+    }
+
+    const result = await transitionCampaign(id, 'fail', { actor: 'human', by: session.email, reason })
+
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, result.code)
+    }
+
+    return successResponse(result.campaign)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to mark campaign as failed')
+  }
+}
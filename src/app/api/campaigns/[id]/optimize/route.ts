@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { optimizeCampaigns } from '@/lib/optimizer'
+import { resolveExperiments } from '@/lib/experiments'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/campaigns/:id/optimize - Run the optimizer for this campaign now
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id },
+      select: { id: true, status: true },
+    })
+
+    if (!campaign) {
+      return errorResponse('Campaign not found', 404)
+    }
+
+    if (campaign.status !== 'live') {
+      return errorResponse(`Only live campaigns can be optimized (campaign is ${campaign.status})`, 400)
+    }
+
+    const experiments = await resolveExperiments({ campaignId: id })
+    const optimization = await optimizeCampaigns({ campaignId: id })
+
+    return successResponse({ experiments, optimization })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to optimize campaign')
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { getCampaignPacing } from '@/lib/pacing'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/campaigns/:id/pacing - Spend against daily/total budget with projected depletion
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const pacing = await getCampaignPacing(id)
+
+    if (!pacing) {
+      return errorResponse('Campaign not found', 404)
+    }
+
+    return successResponse(pacing)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to load budget pacing')
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { pollMetrics } from '@/lib/metrics'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/campaigns/:id/refresh-metrics - Poll Meta insights for this campaign's posts now
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!campaign) {
+      return errorResponse('Campaign not found', 404)
+    }
+
+    const result = await pollMetrics({ campaignId: id })
+
+    return successResponse(result)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to refresh metrics')
+  }
+}
@@ -1,59 +1,37 @@
 import { NextRequest } from 'next/server'
-import prisma from '@/lib/prisma'
-import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
+import { transitionCampaign } from '@/lib/campaign-state'
+import { isResumePolicy, RESUME_POLICIES } from '@/lib/campaign-pause'
 
 interface RouteContext {
   params: Promise<{ id: string }>
 }
 
-// POST /api/campaigns/:id/resume - Resume a paused campaign
+// POST /api/campaigns/:id/resume - Resume a paused campaign and release its held posts
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
-    await ensureAuthenticated()
+    const session = await ensureAuthenticated()
     const { id } = await context.params
 
-    const campaign = await prisma.campaign.findUnique({
-      where: { id },
-      include: { playbook: { select: { businessId: true } } },
-    })
-
-    if (!campaign) {
-      return errorResponse('Campaign not found', 404)
-    }
+    // The body is optional; { policy } overrides the campaign's resume policy once
+    const body = await parseBody<{ policy?: string }>(request).catch(() => ({ policy: undefined }))
 
-    if (campaign.status !== 'paused') {
-      return errorResponse(`Campaign cannot be resumed from ${campaign.status} status`, 400)
+    if (body.policy !== undefined && !isResumePolicy(body.policy)) {
+      return errorResponse(`policy must be one of: ${RESUME_POLICIES.join(', ')}`, 400)
     }
 
-    const updatedCampaign = await prisma.campaign.update({
-      where: { id },
-      data: { status: 'live' },
-      include: {
-        playbook: {
-          select: {
-            id: true,
-            name: true,
-            business: {
-              select: { id: true, name: true, slug: true },
-            },
-          },
-        },
-      },
+    const result = await transitionCampaign(id, 'resume', {
+      actor: 'human',
+      by: session.email,
+      resumePolicy: body.policy,
     })
 
-    await prisma.activityLog.create({
-      data: {
-        businessId: campaign.playbook.businessId,
-        campaignId: id,
-        actor: 'human',
-        action: 'campaign_resumed',
-        entityType: 'campaign',
-        entityId: id,
-      },
-    })
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, result.code)
+    }
 
-    return successResponse(updatedCampaign)
+    return successResponse(result.campaign)
   } catch (error) {
     return serverErrorResponse(error, 'Failed to resume campaign')
   }
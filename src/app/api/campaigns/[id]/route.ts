@@ -1,8 +1,16 @@
 import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
-import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { successResponse, errorResponse, serverErrorResponse, validationErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
 import { Prisma } from '@prisma/client'
+import {
+  validatePerformanceThresholds,
+  validateSuccessMetrics,
+  PerformanceThresholds,
+  SuccessMetrics,
+} from '@/lib/thresholds'
+import { validatePostingSchedule, PostingSchedule } from '@/lib/allocator'
+import { isResumePolicy, RESUME_POLICIES } from '@/lib/campaign-pause'
 
 interface RouteContext {
   params: Promise<{ id: string }>
@@ -105,8 +113,10 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       budgetTotal?: number
       startDate?: string
       endDate?: string
-      successMetrics?: Record<string, unknown>
-      performanceThresholds?: Record<string, unknown>
+      successMetrics?: Record<string, unknown> | null
+      performanceThresholds?: Record<string, unknown> | null
+      postingSchedule?: Record<string, unknown> | null
+      resumePolicy?: string
       autoOptimize?: boolean
     }>(request)
 
@@ -125,6 +135,43 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       return errorResponse('Cannot edit a live campaign. Pause it first.', 400)
     }
 
+    const errors: Record<string, string> = {}
+    let successMetrics: SuccessMetrics | null | undefined
+    let performanceThresholds: PerformanceThresholds | null | undefined
+    let postingSchedule: PostingSchedule | null | undefined
+
+    if (body.successMetrics === null) {
+      successMetrics = null
+    } else if (body.successMetrics !== undefined) {
+      const result = validateSuccessMetrics(body.successMetrics)
+      Object.assign(errors, result.errors)
+      successMetrics = result.value
+    }
+
+    if (body.performanceThresholds === null) {
+      performanceThresholds = null
+    } else if (body.performanceThresholds !== undefined) {
+      const result = validatePerformanceThresholds(body.performanceThresholds)
+      Object.assign(errors, result.errors)
+      performanceThresholds = result.value
+    }
+
+    if (body.postingSchedule === null) {
+      postingSchedule = null
+    } else if (body.postingSchedule !== undefined) {
+      const result = validatePostingSchedule(body.postingSchedule)
+      Object.assign(errors, result.errors)
+      postingSchedule = result.value
+    }
+
+    if (body.resumePolicy !== undefined && !isResumePolicy(body.resumePolicy)) {
+      errors.resumePolicy = `Must be one of: ${RESUME_POLICIES.join(', ')}`
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return validationErrorResponse(errors)
+    }
+
     const updateData: Prisma.CampaignUpdateInput = {}
     if (body.name !== undefined) updateData.name = body.name
     if (body.targetAudience !== undefined) updateData.targetAudience = body.targetAudience
@@ -134,8 +181,20 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     if (body.budgetTotal !== undefined) updateData.budgetTotal = body.budgetTotal
     if (body.startDate !== undefined) updateData.startDate = new Date(body.startDate)
     if (body.endDate !== undefined) updateData.endDate = body.endDate ? new Date(body.endDate) : null
-    if (body.successMetrics !== undefined) updateData.successMetrics = body.successMetrics as Prisma.InputJsonValue
-    if (body.performanceThresholds !== undefined) updateData.performanceThresholds = body.performanceThresholds as Prisma.InputJsonValue
+    if (successMetrics !== undefined) {
+      updateData.successMetrics = successMetrics === null ? Prisma.DbNull : (successMetrics as Prisma.InputJsonValue)
+    }
+    if (performanceThresholds !== undefined) {
+      updateData.performanceThresholds = performanceThresholds === null
+        ? Prisma.DbNull
+        : (performanceThresholds as unknown as Prisma.InputJsonValue)
+    }
+    if (postingSchedule !== undefined) {
+      updateData.postingSchedule = postingSchedule === null
+        ? Prisma.DbNull
+        : (postingSchedule as unknown as Prisma.InputJsonValue)
+    }
+    if (body.resumePolicy !== undefined) updateData.resumePolicy = body.resumePolicy
     if (body.autoOptimize !== undefined) updateData.autoOptimize = body.autoOptimize
 
     const campaign = await prisma.campaign.update({
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { availableTransitions, getTransitionHistory } from '@/lib/campaign-state'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/campaigns/:id/transitions - Status history and the transitions available now
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id },
+      select: { id: true, status: true },
+    })
+
+    if (!campaign) {
+      return errorResponse('Campaign not found', 404)
+    }
+
+    const history = await getTransitionHistory(id)
+
+    return successResponse({
+      status: campaign.status,
+      available: availableTransitions(campaign.status),
+      history,
+    })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to fetch campaign transitions')
+  }
+}
@@ -1,8 +1,16 @@
 import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
-import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { successResponse, errorResponse, serverErrorResponse, validationErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
 import { Prisma } from '@prisma/client'
+import {
+  validatePerformanceThresholds,
+  validateSuccessMetrics,
+  thresholdsFromSuccessMetrics,
+  PerformanceThresholds,
+  SuccessMetrics,
+} from '@/lib/thresholds'
+import { validatePostingSchedule, PostingSchedule } from '@/lib/allocator'
 
 // GET /api/campaigns - List all campaigns
 export async function GET(request: NextRequest) {
@@ -63,6 +71,7 @@ export async function POST(request: NextRequest) {
       endDate?: string
       successMetrics?: Record<string, unknown>
       performanceThresholds?: Record<string, unknown>
+      postingSchedule?: Record<string, unknown>
     }>(request)
 
     if (!body.playbookId || !body.name) {
@@ -79,6 +88,42 @@ export async function POST(request: NextRequest) {
       return errorResponse('Playbook not found', 404)
     }
 
+    // Success metrics default to the playbook's; thresholds are then shaped around them
+    const errors: Record<string, string> = {}
+    let successMetrics: SuccessMetrics | undefined
+
+    if (body.successMetrics !== undefined) {
+      const result = validateSuccessMetrics(body.successMetrics)
+      Object.assign(errors, result.errors)
+      successMetrics = result.value
+    } else {
+      const playbookContent = playbook.content as { successMetrics?: unknown } | null
+      if (playbookContent?.successMetrics) {
+        // Keep whatever the document parser extracted cleanly
+        successMetrics = validateSuccessMetrics(playbookContent.successMetrics).value
+      }
+    }
+
+    let performanceThresholds: PerformanceThresholds
+    if (body.performanceThresholds !== undefined) {
+      const result = validatePerformanceThresholds(body.performanceThresholds)
+      Object.assign(errors, result.errors)
+      performanceThresholds = result.value
+    } else {
+      performanceThresholds = thresholdsFromSuccessMetrics(successMetrics)
+    }
+
+    let postingSchedule: PostingSchedule | undefined
+    if (body.postingSchedule !== undefined) {
+      const result = validatePostingSchedule(body.postingSchedule)
+      Object.assign(errors, result.errors)
+      postingSchedule = result.value
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return validationErrorResponse(errors)
+    }
+
     const campaign = await prisma.campaign.create({
       data: {
         playbookId: body.playbookId,
@@ -91,8 +136,9 @@ export async function POST(request: NextRequest) {
         budgetTotal: body.budgetTotal,
         startDate: body.startDate ? new Date(body.startDate) : undefined,
         endDate: body.endDate ? new Date(body.endDate) : undefined,
-        successMetrics: body.successMetrics as Prisma.InputJsonValue | undefined,
-        performanceThresholds: body.performanceThresholds as Prisma.InputJsonValue | undefined,
+        successMetrics: successMetrics as Prisma.InputJsonValue | undefined,
+        performanceThresholds: performanceThresholds as unknown as Prisma.InputJsonValue,
+        postingSchedule: postingSchedule as unknown as Prisma.InputJsonValue | undefined,
       },
       include: {
         playbook: {
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { regenerateContent } from '@/lib/content-revisions'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/content/:id/regenerate - Rewrite a content piece from guidance, keeping the old copy as a revision
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await ensureAuthenticated()
+    const { id } = await context.params
+
+    const body = await parseBody<{ instructions?: string }>(request)
+
+    if (typeof body.instructions !== 'string') {
+      return errorResponse('Instructions are required', 400)
+    }
+
+    const result = await regenerateContent(id, body.instructions, { by: session.email })
+
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, result.code)
+    }
+
+    return successResponse({ content: result.content, revision: result.revision })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to regenerate content')
+  }
+}
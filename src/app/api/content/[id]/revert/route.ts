@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { revertContent } from '@/lib/content-revisions'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/content/:id/revert - Restore a content piece's copy from one of its revisions
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await ensureAuthenticated()
+    const { id } = await context.params
+
+    const body = await parseBody<{ revisionId?: string }>(request)
+
+    if (!body.revisionId) {
+      return errorResponse('Revision ID is required', 400)
+    }
+
+    const result = await revertContent(id, body.revisionId, { by: session.email })
+
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, result.code)
+    }
+
+    return successResponse({ content: result.content, revision: result.revision })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to revert content')
+  }
+}
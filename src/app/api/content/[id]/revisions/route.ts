@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { getContentRevisions } from '@/lib/content-revisions'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/content/:id/revisions - Prior versions of a content piece's copy, newest first
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const content = await prisma.content.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!content) {
+      return errorResponse('Content not found', 404)
+    }
+
+    const revisions = await getContentRevisions(id)
+
+    return successResponse({ revisions })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to fetch content revisions')
+  }
+}
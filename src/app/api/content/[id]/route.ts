@@ -2,12 +2,18 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
-import { Prisma } from '@prisma/client'
+import { Content, Prisma } from '@prisma/client'
+import { PLATFORM_RULES, VariantPlatform, applyBaseEdits, sanitizePlatformVariant } from '@/lib/platform-variants'
+import { getContentRules, hasCriticalViolations, lintContent } from '@/lib/content-compliance'
+import { copyChanged, revisionSnapshot } from '@/lib/content-revisions'
 
 interface RouteContext {
   params: Promise<{ id: string }>
 }
 
+/** Statuses that put copy in front of the audience, or queue it to be */
+const RELEASED_STATUSES: Content['status'][] = ['approved', 'scheduled', 'posted']
+
 // GET /api/content/:id - Get single content piece
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
@@ -62,13 +68,18 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       ctaUrl?: string
       status?: 'generated' | 'approved' | 'scheduled' | 'posted' | 'paused' | 'retired'
       imageId?: string | null
+      platformVariants?: Record<string, unknown>
     }>(request)
 
     const existing = await prisma.content.findUnique({
       where: { id },
       include: {
         campaign: {
-          select: { playbook: { select: { businessId: true } } },
+          select: {
+            playbook: {
+              select: { businessId: true, visualDirection: true, business: { select: { settings: true } } },
+            },
+          },
         },
       },
     })
@@ -82,7 +93,61 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     if (body.body !== undefined) updateData.body = body.body
     if (body.ctaText !== undefined) updateData.ctaText = body.ctaText
     if (body.ctaUrl !== undefined) updateData.ctaUrl = body.ctaUrl
-    if (body.status !== undefined) updateData.status = body.status
+    if (body.platformVariants !== undefined) {
+      const base = {
+        headline: body.headline ?? existing.headline ?? '',
+        body: body.body ?? existing.body ?? '',
+        ctaText: body.ctaText ?? existing.ctaText ?? '',
+      }
+      const platforms = (Object.keys(PLATFORM_RULES) as VariantPlatform[]).filter((p) => body.platformVariants![p])
+      updateData.platformVariants = Object.fromEntries(
+        platforms.map((p) => [p, sanitizePlatformVariant(body.platformVariants![p], p, base)])
+      ) as unknown as Prisma.InputJsonValue
+    } else if (existing.platformVariants && [body.headline, body.body, body.ctaText].some((v) => v !== undefined)) {
+      const variants = applyBaseEdits(existing.platformVariants, {
+        headline: body.headline,
+        body: body.body,
+        ctaText: body.ctaText,
+      })
+      if (variants) updateData.platformVariants = variants as unknown as Prisma.InputJsonValue
+    }
+    // Re-lint the copy as it will be saved, with the business's current rules
+    const playbook = existing.campaign.playbook
+    const complianceCheck = lintContent(
+      {
+        type: existing.type,
+        headline: body.headline ?? existing.headline,
+        body: body.body ?? existing.body,
+        ctaText: body.ctaText ?? existing.ctaText,
+        platformVariants: updateData.platformVariants ?? existing.platformVariants,
+      },
+      getContentRules(playbook.business.settings, (playbook.visualDirection as { doNots?: unknown } | null)?.doNots)
+    )
+    const copyEdited = copyChanged(existing, {
+      headline: body.headline,
+      body: body.body,
+      ctaText: body.ctaText,
+      platformVariants: updateData.platformVariants as Prisma.JsonValue | undefined,
+    })
+    // Edited approved copy goes back for review, like a regenerated piece
+    const status =
+      body.status ?? (copyEdited && existing.status === 'approved' ? 'generated' : existing.status)
+    if (status !== existing.status) updateData.status = status
+    // Copy can't reach approved, scheduled or posted with critical violations,
+    // whether by a status change or an edit to copy that's already there
+    if (
+      RELEASED_STATUSES.includes(status) &&
+      (status !== existing.status || copyEdited) &&
+      hasCriticalViolations(complianceCheck)
+    ) {
+      return errorResponse(
+        `Content has ${complianceCheck.critical} critical compliance violation${complianceCheck.critical === 1 ? '' : 's'} to resolve before it can be ${status}`,
+        422,
+        complianceCheck
+      )
+    }
+    updateData.complianceCheck = complianceCheck as unknown as Prisma.InputJsonValue
+
     if (body.imageId !== undefined) {
       if (body.imageId === null) {
         updateData.image = { disconnect: true }
@@ -91,6 +156,11 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       }
     }
 
+    // Keep the copy being replaced so a hand edit can be reverted
+    if (copyEdited) {
+      await prisma.contentRevision.create({ data: revisionSnapshot(existing, 'edit') })
+    }
+
     const content = await prisma.content.update({
       where: { id },
       data: updateData,
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server'
+import { errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { streamScoredContent } from '@/lib/content-quality'
+import { GenerationInput, prepareGeneration, saveGeneratedContent } from '@/lib/content-generation'
+import { formatServerSentEvent } from '@/lib/streaming'
+
+// POST /api/content/generate/stream - Generate content, streaming each variation as server-sent events
+//
+// Events: start {count}, variation {content} once saved, discarded {variation, quality, round},
+// done {created, discarded, metadata, quality}, error {error}. Closing the connection cancels
+// generation; content already sent has been saved and is kept.
+export async function POST(request: NextRequest) {
+  try {
+    await ensureAuthenticated()
+
+    const body = await parseBody<GenerationInput>(request)
+
+    const prepared = await prepareGeneration(body)
+    if (prepared.status === 'rejected') {
+      return errorResponse(prepared.error, prepared.code)
+    }
+
+    // Cancelled by the client going away or by the response stream being cancelled
+    const cancel = new AbortController()
+    request.signal.addEventListener('abort', () => cancel.abort())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (cancel.signal.aborted) return
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+        }
+
+        let created = 0
+        try {
+          send('start', { count: prepared.request.count })
+
+          const result = await streamScoredContent(
+            prepared.request,
+            {
+              onVariation: async (variation, metadata) => {
+                const [content] = await saveGeneratedContent({
+                  campaignId: prepared.campaignId,
+                  contentType: prepared.contentType,
+                  result: { variations: [variation], metadata },
+                })
+                created++
+                send('variation', { content })
+              },
+              onDiscarded: async (discarded) => send('discarded', discarded),
+            },
+            { minScore: prepared.minQualityScore, signal: cancel.signal }
+          )
+
+          send('done', {
+            created,
+            discarded: result.discarded.length,
+            metadata: result.metadata,
+            quality: result.quality,
+          })
+        } catch (error) {
+          if (!cancel.signal.aborted) {
+            console.error('Streaming generation failed:', error)
+            send('error', { error: 'Failed to generate content', created })
+          }
+        } finally {
+          if (!cancel.signal.aborted) controller.close()
+        }
+      },
+      cancel() {
+        cancel.abort()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to generate content')
+  }
+}
@@ -3,6 +3,7 @@ import prisma from '@/lib/prisma'
 import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
 import { Prisma } from '@prisma/client'
+import { lintContent, loadCampaignContentRules } from '@/lib/content-compliance'
 
 // GET /api/content - List all content
 export async function GET(request: NextRequest) {
@@ -13,6 +14,7 @@ export async function GET(request: NextRequest) {
     const campaignId = searchParams.get('campaignId')
     const status = searchParams.get('status')
     const type = searchParams.get('type')
+    const sort = searchParams.get('sort') // "score" = highest performance score first
 
     const where: Prisma.ContentWhereInput = {}
     if (campaignId) where.campaignId = campaignId
@@ -29,10 +31,12 @@ export async function GET(request: NextRequest) {
           select: { id: true, filename: true, storageUrl: true, thumbnailUrl: true },
         },
         _count: {
-          select: { posts: true },
+          select: { posts: true, revisions: true },
         },
       },
-      orderBy: { createdAt: 'desc' },
+      orderBy: sort === 'score'
+        ? [{ performanceScore: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }]
+        : { createdAt: 'desc' },
     })
 
     return successResponse(content)
@@ -71,6 +75,16 @@ export async function POST(request: NextRequest) {
       return errorResponse('Campaign not found', 404)
     }
 
+    const complianceCheck = lintContent(
+      {
+        type: body.type || 'organic_post',
+        headline: body.headline ?? null,
+        body: body.body ?? null,
+        ctaText: body.ctaText ?? null,
+      },
+      await loadCampaignContentRules(campaign.id)
+    )
+
     const content = await prisma.content.create({
       data: {
         campaignId: body.campaignId,
@@ -83,6 +97,7 @@ export async function POST(request: NextRequest) {
         imageId: body.imageId,
         hookSource: body.hookSource,
         audienceSegment: body.audienceSegment,
+        complianceCheck: complianceCheck as unknown as Prisma.InputJsonValue,
       },
       include: {
         campaign: {
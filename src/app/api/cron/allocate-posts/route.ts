@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { successResponse, unauthorizedResponse, serverErrorResponse } from '@/lib/api'
+import { verifyCronRequest } from '@/lib/cron'
+import { allocatePostingSlots } from '@/lib/allocator'
+
+// GET /api/cron/allocate-posts - Fill upcoming posting slots of live campaigns with bandit-chosen content (Vercel Cron)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const result = await allocatePostingSlots()
+    return successResponse(result)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to allocate posting slots')
+  }
+}
+
+// POST /api/cron/allocate-posts - Manual trigger (same secret)
+export const POST = GET
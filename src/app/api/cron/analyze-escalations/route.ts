@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { successResponse, unauthorizedResponse, serverErrorResponse } from '@/lib/api'
+import { verifyCronRequest } from '@/lib/cron'
+import { processPendingAnalyses } from '@/lib/escalation-analysis'
+
+// GET /api/cron/analyze-escalations - Write AI analysis and suggested actions for new escalations (Vercel Cron)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const result = await processPendingAnalyses()
+    return successResponse(result)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to analyze escalations')
+  }
+}
+
+// POST /api/cron/analyze-escalations - Manual trigger (same secret)
+export const POST = GET
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { successResponse, unauthorizedResponse, serverErrorResponse } from '@/lib/api'
+import { verifyCronRequest } from '@/lib/cron'
+import { checkMetaTokens } from '@/lib/token-health'
+
+// GET /api/cron/check-meta-tokens - Validate and refresh Meta tokens (Vercel Cron)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const result = await checkMetaTokens()
+
+    return successResponse(result)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to check Meta tokens')
+  }
+}
+
+// POST /api/cron/check-meta-tokens - Manual trigger (same secret)
+export const POST = GET
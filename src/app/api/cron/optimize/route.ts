@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { successResponse, unauthorizedResponse, serverErrorResponse } from '@/lib/api'
+import { verifyCronRequest } from '@/lib/cron'
+import { optimizeCampaigns } from '@/lib/optimizer'
+import { resolveExperiments } from '@/lib/experiments'
+
+// GET /api/cron/optimize - Resolve hook experiments, then classify live campaigns and take optimizer actions (Vercel Cron)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    // Settle hook experiments first so the optimizer sees the retired content
+    const experiments = await resolveExperiments()
+    const optimization = await optimizeCampaigns()
+
+    return successResponse({ experiments, optimization })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to optimize campaigns')
+  }
+}
+
+// POST /api/cron/optimize - Manual trigger (same secret)
+export const POST = GET
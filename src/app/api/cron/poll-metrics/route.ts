@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { successResponse, unauthorizedResponse, serverErrorResponse } from '@/lib/api'
+import { verifyCronRequest } from '@/lib/cron'
+import { pollMetrics } from '@/lib/metrics'
+
+// GET /api/cron/poll-metrics - Pull Meta insights for recent posts (Vercel Cron)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '', 10)
+
+    const result = await pollMetrics({ days: Number.isNaN(days) ? undefined : days })
+
+    return successResponse(result)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to poll metrics')
+  }
+}
+
+// POST /api/cron/poll-metrics - Manual trigger (same secret)
+export const POST = GET
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, unauthorizedResponse, serverErrorResponse } from '@/lib/api'
+import { verifyCronRequest } from '@/lib/cron'
+import { failStalePosts, publishPost } from '@/lib/publisher'
+
+// Max posts handled per invocation (keeps each run well inside the function timeout)
+const BATCH_SIZE = 10
+
+interface ProcessResult {
+  postId: string
+  platform: string
+  status: 'posted' | 'failed' | 'skipped'
+  platformPostId?: string
+  error?: string
+}
+
+// GET /api/cron/process-posts - Publish scheduled posts that are due (Vercel Cron)
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return unauthorizedResponse()
+  }
+
+  try {
+    // Posts whose publisher died mid-publish are failed and escalated, not re-sent
+    const timedOut = await failStalePosts()
+
+    const duePosts = await prisma.post.findMany({
+      where: {
+        status: 'scheduled',
+        scheduledFor: { lte: new Date() },
+      },
+      select: { id: true, platform: true },
+      orderBy: { scheduledFor: 'asc' },
+      take: BATCH_SIZE,
+    })
+
+    const results: ProcessResult[] = []
+
+    // Process sequentially so one failure never stops the rest of the batch.
+    // publishPost claims each post atomically, so overlapping runs skip
+    // anything another invocation has already picked up.
+    for (const duePost of duePosts) {
+      const result = await publishPost(duePost.id, { trigger: 'scheduled', claimFrom: ['scheduled'] })
+
+      results.push({
+        postId: duePost.id,
+        platform: duePost.platform,
+        status: result.status,
+        platformPostId: result.status === 'posted' ? result.platformPostId : undefined,
+        error: result.status === 'failed' ? result.error : undefined,
+      })
+    }
+
+    return successResponse({
+      processed: results.filter((r) => r.status !== 'skipped').length,
+      posted: results.filter((r) => r.status === 'posted').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+      skipped: results.filter((r) => r.status === 'skipped').length,
+      timedOut: timedOut.length,
+      results,
+    })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to process scheduled posts')
+  }
+}
+
+// POST /api/cron/process-posts - Manual trigger (same secret)
+export const POST = GET
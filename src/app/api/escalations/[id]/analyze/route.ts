@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { runEscalationAnalysis } from '@/lib/escalation-analysis'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/escalations/:id/analyze - Re-run the AI analysis now
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    await ensureAuthenticated()
+    const { id } = await context.params
+
+    const existing = await prisma.escalation.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return errorResponse('Escalation not found', 404)
+    }
+
+    // Requeue first so a failure here is retried by the cron
+    await prisma.escalation.update({
+      where: { id },
+      data: { analysisStatus: 'pending', analysisAttempts: 0 },
+    })
+
+    await runEscalationAnalysis(id)
+
+    const escalation = await prisma.escalation.findUnique({ where: { id } })
+    return successResponse(escalation)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to analyze escalation')
+  }
+}
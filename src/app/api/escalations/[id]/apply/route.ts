@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { applySuggestedAction } from '@/lib/escalation-analysis'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/escalations/:id/apply - Apply one of the escalation's suggested actions
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await ensureAuthenticated()
+    const { id } = await context.params
+
+    const body = await parseBody<{ index?: number }>(request)
+
+    if (typeof body.index !== 'number' || !Number.isInteger(body.index) || body.index < 0) {
+      return errorResponse('index of the suggested action is required', 400)
+    }
+
+    const result = await applySuggestedAction(id, body.index, session.email)
+
+    if (result.status === 'rejected') {
+      return errorResponse(result.error, result.code)
+    }
+
+    return successResponse({ action: result.action, summary: result.summary })
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to apply suggested action')
+  }
+}
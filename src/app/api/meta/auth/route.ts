@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ensureAuthenticated } from '@/lib/auth'
+import { ensureAuthenticated, createOAuthState } from '@/lib/auth'
 import { getOAuthUrl } from '@/lib/meta'
 
 // GET /api/meta/auth?businessId=xxx — Redirect to Meta OAuth dialog
 export async function GET(request: NextRequest) {
   try {
-    await ensureAuthenticated()
+    const session = await ensureAuthenticated()
 
     const { searchParams } = new URL(request.url)
     const businessId = searchParams.get('businessId')
@@ -17,8 +17,8 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Use businessId as the OAuth state param so the callback knows which business to update
-    const state = businessId
+    // Signed, single-use state ties the callback to this user and business
+    const state = await createOAuthState(session.userId, businessId)
     const oauthUrl = getOAuthUrl(state)
 
     return NextResponse.redirect(oauthUrl)
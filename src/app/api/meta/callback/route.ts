@@ -1,21 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
-import { ensureAuthenticated } from '@/lib/auth'
-import {
-  exchangeCodeForToken,
-  getLongLivedToken,
-  getPages,
-  getIgAccount,
-  getPageAccessToken,
-  encryptToken,
-} from '@/lib/meta'
+import { ensureAuthenticated, consumeOAuthState, OAuthStateError } from '@/lib/auth'
+import { exchangeCodeForToken, getLongLivedToken, getPages } from '@/lib/meta'
+import { stashPageSelection } from '@/lib/meta-connection'
+import { DAY_MS } from '@/lib/utils'
 
 // GET /api/meta/callback — Handle Meta OAuth callback
-// Meta redirects here with ?code=xxx&state=businessId
+// Meta redirects here with ?code=xxx&state=<signed state from /api/meta/auth>
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const code = searchParams.get('code')
-  const state = searchParams.get('state') // businessId
+  const state = searchParams.get('state')
   const error = searchParams.get('error')
   const errorDescription = searchParams.get('error_description')
 
@@ -33,13 +28,21 @@ export async function GET(request: NextRequest) {
     )
   }
 
+  let session
   try {
-    await ensureAuthenticated()
+    session = await ensureAuthenticated()
   } catch {
     return NextResponse.redirect(`${appUrl}/login`)
   }
 
-  const businessId = state
+  let businessId: string
+  try {
+    const payload = await consumeOAuthState(state, session)
+    businessId = payload.businessId
+  } catch (err) {
+    const msg = err instanceof OAuthStateError ? err.message : 'Invalid OAuth state'
+    return NextResponse.redirect(`${appUrl}/businesses?meta_error=${encodeURIComponent(msg)}`)
+  }
 
   // Verify business exists
   const business = await prisma.business.findUnique({ where: { id: businessId } })
@@ -65,54 +68,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // For now, auto-select the first page. If user has multiple pages,
-    // they'll be able to change via the page selector UI.
-    const selectedPage = pages[0]
-
-    // Step 4: Get long-lived page access token
-    const pageToken = await getPageAccessToken(longLivedToken.access_token, selectedPage.id)
-
-    // Step 5: Check for Instagram Business Account
-    const igAccount = await getIgAccount(selectedPage.id, pageToken)
-
-    // Step 6: Encrypt token and store on business
-    const encryptedToken = encryptToken(pageToken)
-
     const tokenExpiresAt = longLivedToken.expires_in
       ? new Date(Date.now() + longLivedToken.expires_in * 1000)
-      : new Date(Date.now() + 60 * 24 * 60 * 60 * 1000) // Default 60 days
-
-    await prisma.business.update({
-      where: { id: businessId },
-      data: {
-        metaPageId: selectedPage.id,
-        metaPageName: selectedPage.name,
-        metaPageToken: encryptedToken,
-        metaIgAccountId: igAccount?.id || null,
-        metaConnectedAt: new Date(),
-        metaTokenExpiresAt: tokenExpiresAt,
-      },
-    })
-
-    // Log activity
-    await prisma.activityLog.create({
-      data: {
-        businessId,
-        actor: 'human',
-        action: 'meta_connected',
-        entityType: 'business',
-        entityId: businessId,
-        details: {
-          pageName: selectedPage.name,
-          pageId: selectedPage.id,
-          hasInstagram: !!igAccount,
-          igUsername: igAccount?.username || null,
-        },
-      },
+      : new Date(Date.now() + 60 * DAY_MS) // Default 60 days
+
+    // Step 4: Stash the candidate pages and let the user pick one.
+    // The page token and IG account are fetched when the choice is finalized.
+    await stashPageSelection({
+      businessId,
+      userToken: longLivedToken.access_token,
+      userTokenExpiresAt: tokenExpiresAt.toISOString(),
+      pages: pages.map((page) => ({
+        id: page.id,
+        name: page.name,
+        category: page.category || null,
+      })),
     })
 
     return NextResponse.redirect(
-      `${appUrl}/businesses/${business.slug}?meta_connected=true`
+      `${appUrl}/businesses/${business.slug}?meta_select_page=true`
     )
   } catch (err) {
     console.error('Meta OAuth callback error:', err)
@@ -28,9 +28,13 @@ export async function POST(request: NextRequest) {
         metaPageId: null,
         metaPageName: null,
         metaPageToken: null,
+        metaUserToken: null,
         metaIgAccountId: null,
         metaConnectedAt: null,
         metaTokenExpiresAt: null,
+        metaTokenStatus: null,
+        metaTokenError: null,
+        metaTokenCheckedAt: null,
       },
     })
 
@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { checkMetaTokens } from '@/lib/token-health'
+
+// POST /api/meta/health — Check a business's Meta token now
+export async function POST(request: NextRequest) {
+  try {
+    await ensureAuthenticated()
+
+    const body = await parseBody<{ businessId: string }>(request)
+
+    if (!body.businessId) {
+      return errorResponse('businessId is required')
+    }
+
+    const business = await prisma.business.findUnique({
+      where: { id: body.businessId },
+      select: { id: true, metaPageToken: true },
+    })
+
+    if (!business) {
+      return errorResponse('Business not found', 404)
+    }
+
+    if (!business.metaPageToken) {
+      return errorResponse('Business is not connected to Meta')
+    }
+
+    const result = await checkMetaTokens({ businessId: business.id })
+
+    if (result.errors.length > 0) {
+      return errorResponse(`Token check failed: ${result.errors[0].error}`, 502)
+    }
+    if (result.rateLimited) {
+      return errorResponse('Meta is rate limiting requests. Try again shortly.', 429)
+    }
+
+    const updated = await prisma.business.findUnique({
+      where: { id: business.id },
+      select: { metaTokenStatus: true, metaTokenError: true, metaTokenCheckedAt: true, metaTokenExpiresAt: true },
+    })
+
+    return successResponse(updated)
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to check Meta token')
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
+import { ensureAuthenticated } from '@/lib/auth'
+import { decryptToken, getPages, MetaError } from '@/lib/meta'
+import {
+  getPendingPageSelection,
+  clearPendingPageSelection,
+  connectPage,
+  PageOption,
+} from '@/lib/meta-connection'
+import { DAY_MS } from '@/lib/utils'
+
+interface PageSource {
+  source: 'pending' | 'connected'
+  userToken: string
+  userTokenExpiresAt: Date
+  pages: PageOption[]
+}
+
+/**
+ * Resolve the Pages a business can choose from: the pending OAuth selection
+ * if there is one, otherwise the Pages visible to the stored user token.
+ */
+async function getPageSource(business: {
+  id: string
+  metaUserToken: string | null
+  metaTokenExpiresAt: Date | null
+}): Promise<PageSource | null> {
+  const pending = await getPendingPageSelection(business.id)
+  if (pending) {
+    return {
+      source: 'pending',
+      userToken: pending.userToken,
+      userTokenExpiresAt: new Date(pending.userTokenExpiresAt),
+      pages: pending.pages,
+    }
+  }
+
+  if (!business.metaUserToken) return null
+
+  let userToken: string
+  try {
+    userToken = decryptToken(business.metaUserToken)
+  } catch {
+    return null
+  }
+
+  const pages = await getPages(userToken)
+  return {
+    source: 'connected',
+    userToken,
+    userTokenExpiresAt: business.metaTokenExpiresAt ?? new Date(Date.now() + 60 * DAY_MS),
+    pages: pages.map((page) => ({ id: page.id, name: page.name, category: page.category || null })),
+  }
+}
+
+function pageSourceError(error: unknown) {
+  if (error instanceof MetaError && error.isTokenExpired) {
+    return errorResponse('Meta session has expired. Reconnect to Meta to choose a Page.', 400)
+  }
+  return null
+}
+
+// GET /api/meta/pages?businessId=xxx — List Facebook Pages available to connect
+export async function GET(request: NextRequest) {
+  try {
+    await ensureAuthenticated()
+
+    const { searchParams } = new URL(request.url)
+    const businessId = searchParams.get('businessId')
+
+    if (!businessId) {
+      return errorResponse('businessId is required')
+    }
+
+    const business = await prisma.business.findUnique({
+      where: { id: businessId },
+      select: { id: true, metaPageId: true, metaUserToken: true, metaTokenExpiresAt: true },
+    })
+
+    if (!business) {
+      return errorResponse('Business not found', 404)
+    }
+
+    const pageSource = await getPageSource(business)
+    if (!pageSource) {
+      return errorResponse('No Meta session available. Reconnect to Meta to choose a Page.')
+    }
+
+    return successResponse({
+      source: pageSource.source,
+      currentPageId: business.metaPageId,
+      pages: pageSource.pages,
+    })
+  } catch (error) {
+    return pageSourceError(error) ?? serverErrorResponse(error, 'Failed to list Facebook Pages')
+  }
+}
+
+// POST /api/meta/pages — Connect the chosen Facebook Page to a business
+export async function POST(request: NextRequest) {
+  try {
+    await ensureAuthenticated()
+
+    const body = await parseBody<{ businessId: string; pageId: string }>(request)
+
+    if (!body.businessId || !body.pageId) {
+      return errorResponse('businessId and pageId are required')
+    }
+
+    const business = await prisma.business.findUnique({
+      where: { id: body.businessId },
+      select: {
+        id: true,
+        metaPageId: true,
+        metaPageName: true,
+        metaUserToken: true,
+        metaTokenExpiresAt: true,
+      },
+    })
+
+    if (!business) {
+      return errorResponse('Business not found', 404)
+    }
+
+    const pageSource = await getPageSource(business)
+    if (!pageSource) {
+      return errorResponse('No Meta session available. Reconnect to Meta to choose a Page.')
+    }
+
+    const page = pageSource.pages.find((p) => p.id === body.pageId)
+    if (!page) {
+      return errorResponse('Page not found or not accessible with this Meta account', 404)
+    }
+
+    const { igAccount } = await connectPage({
+      businessId: business.id,
+      userToken: pageSource.userToken,
+      userTokenExpiresAt: pageSource.userTokenExpiresAt,
+      page,
+    })
+
+    if (pageSource.source === 'pending') {
+      await clearPendingPageSelection()
+    }
+
+    await prisma.activityLog.create({
+      data: {
+        businessId: business.id,
+        actor: 'human',
+        action: pageSource.source === 'pending' ? 'meta_connected' : 'meta_page_switched',
+        entityType: 'business',
+        entityId: business.id,
+        details: {
+          pageName: page.name,
+          pageId: page.id,
+          previousPageName: business.metaPageName,
+          previousPageId: business.metaPageId,
+          hasInstagram: !!igAccount,
+          igUsername: igAccount?.username || null,
+        },
+      },
+    })
+
+    return successResponse({
+      pageId: page.id,
+      pageName: page.name,
+      igAccountId: igAccount?.id || null,
+      igUsername: igAccount?.username || null,
+    })
+  } catch (error) {
+    return pageSourceError(error) ?? serverErrorResponse(error, 'Failed to connect Facebook Page')
+  }
+}
@@ -3,14 +3,7 @@ import prisma from '@/lib/prisma'
 import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
 import { Prisma } from '@prisma/client'
-import {
-  decryptToken,
-  postToFacebook,
-  postToInstagram,
-  MetaError,
-  getEscalationSeverity,
-  getEscalationType,
-} from '@/lib/meta'
+import { publishPost } from '@/lib/publisher'
 
 interface RouteContext {
   params: Promise<{ id: string }>
@@ -124,8 +117,8 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 
     // Handle cancel
     if (body.action === 'cancel') {
-      if (post.status !== 'scheduled' && post.status !== 'draft') {
-        return errorResponse('Can only cancel scheduled or draft posts')
+      if (post.status !== 'scheduled' && post.status !== 'held' && post.status !== 'draft') {
+        return errorResponse('Can only cancel scheduled, held or draft posts')
       }
 
       const updated = await prisma.post.update({
@@ -146,7 +139,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       const activePostCount = await prisma.post.count({
         where: {
           contentId: post.contentId,
-          status: { in: ['scheduled', 'posting', 'posted'] },
+          status: { in: ['scheduled', 'held', 'posting', 'posted'] },
         },
       })
       if (activePostCount === 0) {
@@ -187,142 +180,15 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return errorResponse('Business does not have an Instagram account connected')
     }
 
-    // Set status to posting
-    await prisma.post.update({
-      where: { id },
-      data: { status: 'posting', errorMessage: null },
-    })
+    const result = await publishPost(id, { trigger: 'retry', claimFrom: ['failed'] })
 
-    // Build message
-    const messageParts: string[] = []
-    if (post.content.headline) messageParts.push(post.content.headline)
-    if (post.content.body) messageParts.push(post.content.body)
-    if (post.content.ctaText) messageParts.push(post.content.ctaText)
-    const message = messageParts.join('\n\n')
-
-    let pageToken: string
-    try {
-      pageToken = decryptToken(business.metaPageToken!)
-    } catch {
-      await prisma.post.update({
-        where: { id },
-        data: { status: 'failed', errorMessage: 'Failed to decrypt Meta page token' },
-      })
-      return errorResponse('Failed to decrypt Meta page token', 500)
+    if (result.status === 'posted') {
+      return successResponse(result.post)
     }
-
-    try {
-      let platformPostId: string
-
-      if (post.platform === 'facebook') {
-        const result = await postToFacebook(business.metaPageId!, pageToken, {
-          message,
-          link: post.content.ctaUrl || undefined,
-          imageUrl: post.content.image?.storageUrl || undefined,
-        })
-        platformPostId = result.id
-      } else {
-        if (!post.content.image?.storageUrl) {
-          await prisma.post.update({
-            where: { id },
-            data: { status: 'failed', errorMessage: 'Instagram posts require an image' },
-          })
-          return errorResponse('Instagram posts require an image')
-        }
-        const caption = post.content.ctaUrl
-          ? `${message}\n\n${post.content.ctaUrl}`
-          : message
-        const result = await postToInstagram(business.metaIgAccountId!, pageToken, {
-          imageUrl: post.content.image.storageUrl,
-          caption,
-        })
-        platformPostId = result.id
-      }
-
-      const updatedPost = await prisma.post.update({
-        where: { id },
-        data: {
-          status: 'posted',
-          platformPostId,
-          postedAt: new Date(),
-          errorMessage: null,
-        },
-        include: {
-          content: {
-            select: {
-              id: true,
-              headline: true,
-              campaign: { select: { id: true, name: true } },
-            },
-          },
-        },
-      })
-
-      // Update content status
-      await prisma.content.update({
-        where: { id: post.contentId },
-        data: { status: 'posted' },
-      })
-
-      await prisma.activityLog.create({
-        data: {
-          businessId: business.id,
-          campaignId: post.content.campaign.id,
-          actor: 'system',
-          action: 'post_retried_success',
-          entityType: 'post',
-          entityId: id,
-          details: {
-            platform: post.platform,
-            platformPostId,
-          } as Prisma.InputJsonValue,
-        },
-      })
-
-      return successResponse(updatedPost)
-    } catch (err) {
-      const errorMessage = err instanceof MetaError
-        ? `Meta API Error (${err.code}): ${err.message}`
-        : err instanceof Error
-          ? err.message
-          : 'Unknown posting error'
-
-      await prisma.post.update({
-        where: { id },
-        data: { status: 'failed', errorMessage },
-      })
-
-      const severity = err instanceof MetaError ? getEscalationSeverity(err) : 'warning'
-      const escalationType = err instanceof MetaError ? getEscalationType(err) : 'persistent_failure'
-
-      await prisma.escalation.create({
-        data: {
-          campaignId: post.content.campaign.id,
-          type: escalationType,
-          severity,
-          title: `Post Retry Failed: ${post.content.headline || 'Untitled'} on ${post.platform}`,
-          description: errorMessage,
-          status: 'open',
-        },
-      })
-
-      await prisma.activityLog.create({
-        data: {
-          businessId: business.id,
-          campaignId: post.content.campaign.id,
-          actor: 'system',
-          action: 'post_retried_failed',
-          entityType: 'post',
-          entityId: id,
-          details: {
-            platform: post.platform,
-            error: errorMessage,
-          } as Prisma.InputJsonValue,
-        },
-      })
-
-      return errorResponse(`Retry failed: ${errorMessage}`, 502)
+    if (result.status === 'failed') {
+      return errorResponse(`Retry failed: ${result.error}`, 502)
     }
+    return errorResponse(result.reason, 409)
   } catch (error) {
     return serverErrorResponse(error, 'Failed to update post')
   }
@@ -3,14 +3,8 @@ import prisma from '@/lib/prisma'
 import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
 import { Prisma } from '@prisma/client'
-import {
-  decryptToken,
-  postToFacebook,
-  postToInstagram,
-  MetaError,
-  getEscalationSeverity,
-  getEscalationType,
-} from '@/lib/meta'
+import { publishPost } from '@/lib/publisher'
+import { hasCriticalViolations, lintContent, loadCampaignContentRules } from '@/lib/content-compliance'
 
 // GET /api/posts - List posts with optional filters
 export async function GET(request: NextRequest) {
@@ -62,7 +56,7 @@ export async function GET(request: NextRequest) {
           },
         },
         _count: {
-          select: { performances: true },
+          select: { performances: true, conversions: true },
         },
       },
       orderBy: { createdAt: 'desc' },
@@ -103,6 +97,7 @@ export async function POST(request: NextRequest) {
           select: {
             id: true,
             name: true,
+            status: true,
             playbook: {
               select: {
                 business: {
@@ -131,6 +126,21 @@ export async function POST(request: NextRequest) {
       return errorResponse('Content must be approved before posting')
     }
 
+    // Approval is checked on the copy as it is now, against the current rules
+    const complianceCheck = lintContent(content, await loadCampaignContentRules(content.campaignId))
+    if (hasCriticalViolations(complianceCheck)) {
+      return errorResponse(
+        `Content has ${complianceCheck.critical} critical compliance violation${complianceCheck.critical === 1 ? '' : 's'} to resolve before posting`,
+        422,
+        complianceCheck
+      )
+    }
+
+    // Pausing holds a campaign's posts; new ones would slip past the hold
+    if (content.campaign.status === 'paused') {
+      return errorResponse('Campaign is paused. Resume it before posting')
+    }
+
     const business = content.campaign.playbook.business
 
     // Validate Meta connection
@@ -147,13 +157,6 @@ export async function POST(request: NextRequest) {
       return errorResponse('Instagram posts require an image. Assign an image to this content first.')
     }
 
-    // Build the post message from content fields
-    const messageParts: string[] = []
-    if (content.headline) messageParts.push(content.headline)
-    if (content.body) messageParts.push(content.body)
-    if (content.ctaText) messageParts.push(content.ctaText)
-    const message = messageParts.join('\n\n')
-
     // If scheduling for later, just create the post record
     if (body.scheduledFor) {
       const scheduledDate = new Date(body.scheduledFor)
@@ -209,144 +212,24 @@ export async function POST(request: NextRequest) {
       return successResponse(post, 201)
     }
 
-    // Immediate posting: create post record with 'posting' status
+    // Immediate posting: create the post record, then publish it
     const post = await prisma.post.create({
       data: {
         contentId: body.contentId,
         platform: body.platform,
-        status: 'posting',
+        status: 'draft',
       },
     })
 
-    // Decrypt the page token
-    let pageToken: string
-    try {
-      pageToken = decryptToken(business.metaPageToken!)
-    } catch {
-      await prisma.post.update({
-        where: { id: post.id },
-        data: { status: 'failed', errorMessage: 'Failed to decrypt Meta page token' },
-      })
-      return errorResponse('Failed to decrypt Meta page token. Try reconnecting to Meta.', 500)
-    }
-
-    // Post to the platform
-    try {
-      let platformPostId: string
-
-      if (body.platform === 'facebook') {
-        const result = await postToFacebook(business.metaPageId!, pageToken, {
-          message,
-          link: content.ctaUrl || undefined,
-          imageUrl: content.image?.storageUrl || undefined,
-        })
-        platformPostId = result.id
-      } else {
-        // Instagram
-        const caption = content.ctaUrl
-          ? `${message}\n\n${content.ctaUrl}`
-          : message
-        const result = await postToInstagram(business.metaIgAccountId!, pageToken, {
-          imageUrl: content.image!.storageUrl,
-          caption,
-        })
-        platformPostId = result.id
-      }
-
-      // Update post as successful
-      const updatedPost = await prisma.post.update({
-        where: { id: post.id },
-        data: {
-          status: 'posted',
-          platformPostId,
-          postedAt: new Date(),
-        },
-        include: {
-          content: {
-            select: {
-              id: true,
-              headline: true,
-              status: true,
-              campaign: { select: { id: true, name: true } },
-            },
-          },
-        },
-      })
-
-      // Update content status to posted
-      await prisma.content.update({
-        where: { id: body.contentId },
-        data: { status: 'posted' },
-      })
+    const result = await publishPost(post.id, { trigger: 'immediate', claimFrom: ['draft'] })
 
-      // Log success
-      await prisma.activityLog.create({
-        data: {
-          businessId: business.id,
-          campaignId: content.campaign.id,
-          actor: 'system',
-          action: 'post_published',
-          entityType: 'post',
-          entityId: post.id,
-          details: {
-            platform: body.platform,
-            platformPostId,
-            contentHeadline: content.headline,
-          } as Prisma.InputJsonValue,
-        },
-      })
-
-      return successResponse(updatedPost, 201)
-    } catch (err) {
-      // Post failed - update status and create escalation
-      const errorMessage = err instanceof MetaError
-        ? `Meta API Error (${err.code}): ${err.message}`
-        : err instanceof Error
-          ? err.message
-          : 'Unknown posting error'
-
-      await prisma.post.update({
-        where: { id: post.id },
-        data: {
-          status: 'failed',
-          errorMessage,
-        },
-      })
-
-      // Create escalation for the failure
-      const severity = err instanceof MetaError ? getEscalationSeverity(err) : 'warning'
-      const escalationType = err instanceof MetaError ? getEscalationType(err) : 'persistent_failure'
-
-      await prisma.escalation.create({
-        data: {
-          campaignId: content.campaign.id,
-          type: escalationType,
-          severity,
-          title: `Post Failed: ${content.headline || 'Untitled'} on ${body.platform}`,
-          description: errorMessage,
-          status: 'open',
-        },
-      })
-
-      // Log failure
-      await prisma.activityLog.create({
-        data: {
-          businessId: business.id,
-          campaignId: content.campaign.id,
-          actor: 'system',
-          action: 'post_failed',
-          entityType: 'post',
-          entityId: post.id,
-          details: {
-            platform: body.platform,
-            error: errorMessage,
-            contentHeadline: content.headline,
-          } as Prisma.InputJsonValue,
-        },
-      })
-
-      return errorResponse(`Failed to post to ${body.platform}: ${errorMessage}`, 502)
+    if (result.status === 'posted') {
+      return successResponse(result.post, 201)
+    }
+    if (result.status === 'failed') {
+      return errorResponse(`Failed to post to ${body.platform}: ${result.error}`, 502)
     }
+    return errorResponse(result.reason, 409)
   } catch (error) {
     return serverErrorResponse(error, 'Failed to create post')
   }
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { successResponse, errorResponse, serverErrorResponse, parseBody } from '@/lib/api'
 import { ensureAuthenticated } from '@/lib/auth'
+import { canTransition, transitionCampaign } from '@/lib/campaign-state'
 import { Prisma } from '@prisma/client'
 
 interface RouteContext {
@@ -22,7 +23,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       where: { id },
       include: {
         campaign: {
-          select: { playbook: { select: { businessId: true } } },
+          select: { status: true, playbook: { select: { businessId: true } } },
         },
         dependsOn: true,
       },
@@ -74,7 +75,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
       },
     })
 
-    // Check if all human tasks are completed - update campaign to setup status
+    // Once every human task is done, an approved campaign moves on to setup
     const pendingHumanTasks = await prisma.task.count({
       where: {
         campaignId: existing.campaignId,
@@ -83,11 +84,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
       },
     })
 
-    if (pendingHumanTasks === 0) {
-      await prisma.campaign.update({
-        where: { id: existing.campaignId },
-        data: { status: 'setup' },
-      })
+    if (pendingHumanTasks === 0 && canTransition(existing.campaign.status, 'complete_setup')) {
+      await transitionCampaign(existing.campaignId, 'complete_setup', { actor: 'system', details: { taskId: id } })
     }
 
     return successResponse(task)
@@ -0,0 +1,170 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
+import {
+  successResponse,
+  errorResponse,
+  notFoundResponse,
+  unauthorizedResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api'
+import { decryptToken } from '@/lib/meta'
+import { SIGNATURE_HEADER, verifyWebhookSignature, resolveAttribution } from '@/lib/conversions'
+import { UUID_REGEX } from '@/lib/utils'
+
+const CONVERSION_TYPES = ['click', 'signup', 'trial', 'purchase'] as const
+
+interface ConversionPayload {
+  business: string // Business id or slug
+  eventId: string
+  type: (typeof CONVERSION_TYPES)[number]
+  value?: number
+  utm_source?: string
+  utm_medium?: string
+  utm_campaign?: string
+  utm_content?: string
+  sessionId?: string
+  userAgent?: string
+  ipAddress?: string
+  geoMarket?: string
+  occurredAt?: string
+}
+
+// POST /api/webhooks/conversion - Receive a conversion event from a landing page
+// Signed with the business's webhook secret: X-Signature: sha256=<hmac of raw body>
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text()
+
+    let body: ConversionPayload
+    try {
+      body = JSON.parse(rawBody) as ConversionPayload
+    } catch {
+      return errorResponse('Invalid JSON body')
+    }
+
+    const errors = validatePayload(body)
+    if (Object.keys(errors).length > 0) {
+      return validationErrorResponse(errors)
+    }
+
+    const business = await prisma.business.findFirst({
+      where: UUID_REGEX.test(body.business)
+        ? { OR: [{ id: body.business }, { slug: body.business }] }
+        : { slug: body.business },
+      select: { id: true, webhookSecret: true },
+    })
+
+    if (!business) {
+      return notFoundResponse('Business not found')
+    }
+
+    if (!business.webhookSecret) {
+      return unauthorizedResponse('Webhook secret not configured for this business')
+    }
+
+    let secret: string
+    try {
+      secret = decryptToken(business.webhookSecret)
+    } catch {
+      return serverErrorResponse(new Error('Failed to decrypt webhook secret'), 'Webhook secret is unreadable')
+    }
+
+    if (!verifyWebhookSignature(rawBody, request.headers.get(SIGNATURE_HEADER), secret)) {
+      return unauthorizedResponse('Invalid signature')
+    }
+
+    // De-duplicate on the sender's event id
+    const existing = await prisma.conversion.findUnique({
+      where: { businessId_eventId: { businessId: business.id, eventId: body.eventId } },
+      select: { id: true },
+    })
+
+    if (existing) {
+      return successResponse({ conversionId: existing.id, duplicate: true })
+    }
+
+    const attribution = await resolveAttribution(business.id, {
+      source: body.utm_source,
+      medium: body.utm_medium,
+      campaign: body.utm_campaign,
+      content: body.utm_content,
+    })
+
+    try {
+      const conversion = await prisma.conversion.create({
+        data: {
+          businessId: business.id,
+          eventId: body.eventId,
+          type: body.type,
+          value: body.value,
+          postId: attribution.postId,
+          contentId: attribution.contentId,
+          campaignId: attribution.campaignId,
+          utmSource: body.utm_source,
+          utmMedium: body.utm_medium,
+          utmCampaign: body.utm_campaign,
+          utmContent: body.utm_content,
+          sessionId: body.sessionId,
+          userAgent: body.userAgent,
+          ipAddress: body.ipAddress,
+          geoMarket: body.geoMarket,
+          createdAt: body.occurredAt ? new Date(body.occurredAt) : undefined,
+        },
+      })
+
+      return successResponse({ conversionId: conversion.id, duplicate: false, ...attribution }, 201)
+    } catch (err) {
+      // A concurrent delivery of the same event won the insert
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+        const duplicate = await prisma.conversion.findUnique({
+          where: { businessId_eventId: { businessId: business.id, eventId: body.eventId } },
+          select: { id: true },
+        })
+        return successResponse({ conversionId: duplicate?.id ?? null, duplicate: true })
+      }
+      throw err
+    }
+  } catch (error) {
+    return serverErrorResponse(error, 'Failed to record conversion')
+  }
+}
+
+function validatePayload(body: ConversionPayload): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  if (!body || typeof body !== 'object') {
+    return { body: 'Payload must be a JSON object' }
+  }
+  if (typeof body.business !== 'string' || !body.business.trim()) {
+    errors.business = 'Business id or slug is required'
+  }
+  if (typeof body.eventId !== 'string' || !body.eventId.trim() || body.eventId.length > 255) {
+    errors.eventId = 'eventId is required (max 255 characters)'
+  }
+  if (!CONVERSION_TYPES.includes(body.type)) {
+    errors.type = `type must be one of: ${CONVERSION_TYPES.join(', ')}`
+  }
+  if (body.value !== undefined && (typeof body.value !== 'number' || !Number.isFinite(body.value) || body.value < 0)) {
+    errors.value = 'value must be a non-negative number'
+  }
+  if (body.occurredAt !== undefined && isNaN(new Date(body.occurredAt).getTime())) {
+    errors.occurredAt = 'occurredAt must be an ISO date'
+  }
+
+  for (const key of ['utm_source', 'utm_medium', 'utm_campaign', 'utm_content', 'sessionId', 'geoMarket'] as const) {
+    const value = body[key]
+    if (value !== undefined && (typeof value !== 'string' || value.length > 255)) {
+      errors[key] = `${key} must be a string (max 255 characters)`
+    }
+  }
+  if (body.ipAddress !== undefined && (typeof body.ipAddress !== 'string' || body.ipAddress.length > 45)) {
+    errors.ipAddress = 'ipAddress must be a valid IP string'
+  }
+  if (body.userAgent !== undefined && typeof body.userAgent !== 'string') {
+    errors.userAgent = 'userAgent must be a string'
+  }
+
+  return errors
+}
@@ -0,0 +1,538 @@
+import prisma from './prisma'
+import { Prisma, Platform } from '@prisma/client'
+import { sumLatestSnapshots, SCORED_CONVERSION_TYPES } from './scoring'
+import { MIN_CONVERSIONS_FOR_CONVERSION_METRIC, ExperimentMetric } from './experiments'
+import { ValidationResult } from './thresholds'
+import { HOUR_MS } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SlotPlatform = Extract<Platform, 'facebook' | 'instagram'>
+
+/** Stored in `Campaign.postingSchedule`. Times are HH:MM in UTC, one slot per time per platform per day. */
+export interface PostingSchedule {
+  times: string[]
+  platforms: SlotPlatform[]
+}
+
+export interface Slot {
+  slotAt: Date
+  platform: SlotPlatform
+}
+
+/** One piece of content competing for slots */
+export interface BanditArm {
+  contentId: string
+  hookSource: string | null
+  /** Clicks (CTR) or conversions (conversion rate) */
+  successes: number
+  /** Impressions (CTR) or clicks (conversion rate) */
+  trials: number
+}
+
+export interface ArmSample {
+  contentId: string
+  hookSource: string | null
+  alpha: number
+  beta: number
+  sample: number
+}
+
+export interface SlotChoice {
+  contentId: string
+  strategy: 'exploit' | 'explore'
+  sample: number
+  samples: ArmSample[]
+}
+
+export interface AllocationHistory {
+  total: number
+  explored: number
+}
+
+export interface AllocatePostsResult {
+  allocatedAt: string
+  campaignsConsidered: number
+  slotsConsidered: number
+  postsScheduled: number
+  explored: number
+  unfilled: number
+  errors: Array<{ campaignId: string; error: string }>
+}
+
+export type RandomSource = () => number
+
+export const SLOT_PLATFORMS: SlotPlatform[] = ['facebook', 'instagram']
+
+// How far ahead slots are filled on each run
+export const ALLOCATION_HORIZON_HOURS = 24
+
+// Arms with fewer trials than this are still being explored
+export const EXPLORATION_MIN_TRIALS = 200
+
+// At most this share of recent allocations may go to unproven content
+export const MAX_EXPLORATION_SHARE = 0.25
+
+// Allocations considered when enforcing the exploration share
+const EXPLORATION_WINDOW = 20
+
+// The same content is not reposted on a platform within this window
+export const REPOST_COOLDOWN_HOURS = 72
+
+// A manually scheduled post this close to a slot fills it
+const SLOT_CLEARANCE_MS = HOUR_MS
+
+// Content that can be given a slot
+const ALLOCATABLE_CONTENT_STATUSES = ['approved', 'scheduled', 'posted'] as const
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// =============================================================================
+// Schedule
+// =============================================================================
+
+/**
+ * Validate a posting schedule: a non-empty list of HH:MM (UTC) times and the
+ * platforms to fill. Duplicate times are dropped and the list is sorted.
+ */
+export function validatePostingSchedule(input: unknown): ValidationResult<PostingSchedule> {
+  const errors: Record<string, string> = {}
+  const value: PostingSchedule = { times: [], platforms: [] }
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { value, errors: { postingSchedule: 'Must be an object' } }
+  }
+
+  const { times, platforms } = input as Record<string, unknown>
+
+  if (!Array.isArray(times) || times.length === 0) {
+    errors['postingSchedule.times'] = 'At least one posting time is required'
+  } else {
+    const invalid = times.filter((t) => typeof t !== 'string' || !TIME_PATTERN.test(t))
+    if (invalid.length > 0) {
+      errors['postingSchedule.times'] = `Times must be HH:MM (24-hour, UTC): ${invalid.join(', ')}`
+    } else {
+      value.times = [...new Set(times as string[])].sort()
+    }
+  }
+
+  if (!Array.isArray(platforms) || platforms.length === 0) {
+    errors['postingSchedule.platforms'] = 'At least one platform is required'
+  } else if (platforms.some((p) => !SLOT_PLATFORMS.includes(p as SlotPlatform))) {
+    errors['postingSchedule.platforms'] = `Platforms must be one of: ${SLOT_PLATFORMS.join(', ')}`
+  } else {
+    value.platforms = [...new Set(platforms as SlotPlatform[])]
+  }
+
+  return { value, errors }
+}
+
+/**
+ * Every slot in the schedule that falls after `from` and within `hours`.
+ */
+export function upcomingSlots(schedule: PostingSchedule, from: Date, hours = ALLOCATION_HORIZON_HOURS): Slot[] {
+  const until = from.getTime() + hours * HOUR_MS
+  const slots: Slot[] = []
+
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()))
+  for (; day.getTime() <= until; day.setUTCDate(day.getUTCDate() + 1)) {
+    for (const time of schedule.times) {
+      const [hour, minute] = time.split(':').map(Number)
+      const slotAt = new Date(day)
+      slotAt.setUTCHours(hour, minute, 0, 0)
+      if (slotAt.getTime() <= from.getTime() || slotAt.getTime() > until) continue
+
+      for (const platform of schedule.platforms) {
+        slots.push({ slotAt, platform })
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.slotAt.getTime() - b.slotAt.getTime())
+}
+
+// =============================================================================
+// Thompson Sampling
+// =============================================================================
+
+/**
+ * Draw from Beta(alpha, beta) as X / (X + Y) with X ~ Gamma(alpha), Y ~ Gamma(beta).
+ */
+export function sampleBeta(alpha: number, beta: number, random: RandomSource = Math.random): number {
+  const x = sampleGamma(alpha, random)
+  const y = sampleGamma(beta, random)
+  return x + y === 0 ? 0.5 : x / (x + y)
+}
+
+/**
+ * Pick content for one slot by Thompson sampling: draw a plausible rate for
+ * each arm from its Beta(1 + successes, 1 + failures) posterior and take the
+ * highest. Unproven arms (fewer than EXPLORATION_MIN_TRIALS) only compete
+ * when `allowExploration` is set or there are no proven arms yet.
+ */
+export function chooseArm(
+  arms: BanditArm[],
+  options: { allowExploration: boolean; random?: RandomSource }
+): SlotChoice | null {
+  if (arms.length === 0) return null
+
+  const random = options.random ?? Math.random
+  const proven = arms.filter((arm) => arm.trials >= EXPLORATION_MIN_TRIALS)
+  const candidates = options.allowExploration || proven.length === 0 ? arms : proven
+
+  const samples: ArmSample[] = candidates.map((arm) => {
+    const alpha = 1 + arm.successes
+    const beta = 1 + Math.max(arm.trials - arm.successes, 0)
+    return { contentId: arm.contentId, hookSource: arm.hookSource, alpha, beta, sample: sampleBeta(alpha, beta, random) }
+  })
+
+  const best = samples.reduce((a, b) => (b.sample > a.sample ? b : a))
+  const chosen = candidates.find((arm) => arm.contentId === best.contentId)!
+
+  return {
+    contentId: best.contentId,
+    strategy: chosen.trials >= EXPLORATION_MIN_TRIALS ? 'exploit' : 'explore',
+    sample: best.sample,
+    samples,
+  }
+}
+
+/**
+ * Whether one more exploratory allocation keeps recent exploration within
+ * MAX_EXPLORATION_SHARE.
+ */
+export function canExplore(history: AllocationHistory, maxShare = MAX_EXPLORATION_SHARE): boolean {
+  return (history.explored + 1) / (history.total + 1) <= maxShare
+}
+
+// =============================================================================
+// Allocation Run
+// =============================================================================
+
+/**
+ * Fill the upcoming posting slots of every live campaign with a posting
+ * schedule (or just one campaign). Each filled slot becomes a scheduled Post
+ * for the publisher cron, a PostAllocation audit row and a `post_allocated`
+ * activity entry.
+ */
+export async function allocatePostingSlots(
+  options: { campaignId?: string; now?: Date; random?: RandomSource } = {}
+): Promise<AllocatePostsResult> {
+  const now = options.now ?? new Date()
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      status: 'live',
+      postingSchedule: { not: Prisma.DbNull },
+      ...(options.campaignId ? { id: options.campaignId } : {}),
+    },
+    select: {
+      id: true,
+      postingSchedule: true,
+      playbook: {
+        select: {
+          business: { select: { id: true, metaPageId: true, metaPageToken: true, metaIgAccountId: true } },
+        },
+      },
+    },
+  })
+
+  const result: AllocatePostsResult = {
+    allocatedAt: now.toISOString(),
+    campaignsConsidered: 0,
+    slotsConsidered: 0,
+    postsScheduled: 0,
+    explored: 0,
+    unfilled: 0,
+    errors: [],
+  }
+
+  for (const campaign of campaigns) {
+    try {
+      const { value: schedule, errors } = validatePostingSchedule(campaign.postingSchedule)
+      if (Object.keys(errors).length > 0) {
+        throw new Error(`Invalid posting schedule: ${Object.values(errors).join('; ')}`)
+      }
+
+      const business = campaign.playbook.business
+      if (!business.metaPageId || !business.metaPageToken) {
+        throw new Error('Business does not have a Meta connection')
+      }
+
+      // Instagram slots need a connected Instagram account
+      const platforms = schedule.platforms.filter((p) => p !== 'instagram' || business.metaIgAccountId)
+
+      result.campaignsConsidered++
+      const outcome = await allocateCampaignSlots(
+        campaign.id,
+        business.id,
+        { ...schedule, platforms },
+        now,
+        options.random ?? Math.random
+      )
+      result.slotsConsidered += outcome.slotsConsidered
+      result.postsScheduled += outcome.postsScheduled
+      result.explored += outcome.explored
+      result.unfilled += outcome.unfilled
+    } catch (err) {
+      result.errors.push({
+        campaignId: campaign.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
+
+async function allocateCampaignSlots(
+  campaignId: string,
+  businessId: string,
+  schedule: PostingSchedule,
+  now: Date,
+  random: RandomSource
+) {
+  const outcome = { slotsConsidered: 0, postsScheduled: 0, explored: 0, unfilled: 0 }
+
+  const horizonEnd = new Date(now.getTime() + ALLOCATION_HORIZON_HOURS * HOUR_MS)
+  const cooldownMs = REPOST_COOLDOWN_HOURS * HOUR_MS
+
+  const [contents, existingPosts, recentAllocations] = await Promise.all([
+    prisma.content.findMany({
+      where: { campaignId, status: { in: [...ALLOCATABLE_CONTENT_STATUSES] } },
+      select: {
+        id: true,
+        status: true,
+        headline: true,
+        hookSource: true,
+        imageId: true,
+        posts: {
+          where: { status: 'posted' },
+          select: {
+            performances: {
+              orderBy: { recordedAt: 'desc' },
+              take: 1,
+            },
+          },
+        },
+        _count: {
+          select: {
+            conversions: { where: { type: { in: [...SCORED_CONVERSION_TYPES] } } },
+          },
+        },
+      },
+    }),
+    // Posts that occupy slots or put content in cooldown
+    prisma.post.findMany({
+      where: {
+        content: { campaignId },
+        status: { in: ['scheduled', 'posting', 'posted'] },
+        OR: [
+          { scheduledFor: { gte: new Date(now.getTime() - cooldownMs), lte: new Date(horizonEnd.getTime() + cooldownMs) } },
+          { postedAt: { gte: new Date(now.getTime() - cooldownMs) } },
+        ],
+      },
+      select: { contentId: true, platform: true, scheduledFor: true, postedAt: true },
+    }),
+    prisma.postAllocation.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: 'desc' },
+      take: EXPLORATION_WINDOW,
+      select: { strategy: true, slotAt: true, platform: true },
+    }),
+  ])
+
+  if (contents.length === 0) return outcome
+
+  const totals = contents.map((content) => ({
+    content,
+    totals: sumLatestSnapshots(content.posts, content._count.conversions),
+  }))
+  const conversions = totals.reduce((sum, t) => sum + t.totals.conversions, 0)
+  const metric: ExperimentMetric = conversions >= MIN_CONVERSIONS_FOR_CONVERSION_METRIC ? 'conversion_rate' : 'ctr'
+
+  const arms = new Map<string, BanditArm & { hasImage: boolean; headline: string | null; status: string }>(
+    totals.map(({ content, totals }) => [
+      content.id,
+      {
+        contentId: content.id,
+        hookSource: content.hookSource,
+        successes: metric === 'ctr' ? totals.clicks : totals.conversions,
+        trials: metric === 'ctr' ? totals.impressions : totals.clicks,
+        hasImage: !!content.imageId,
+        headline: content.headline,
+        status: content.status,
+      },
+    ])
+  )
+
+  // When each content was last (or will next be) on each platform
+  const occupied = existingPosts.map((post) => ({
+    contentId: post.contentId,
+    platform: post.platform,
+    at: (post.scheduledFor ?? post.postedAt)!,
+  }))
+  const filledSlots = new Set(recentAllocations.map((a) => `${a.platform}:${a.slotAt.toISOString()}`))
+  const history: AllocationHistory = {
+    total: recentAllocations.length,
+    explored: recentAllocations.filter((a) => a.strategy === 'explore').length,
+  }
+
+  for (const slot of upcomingSlots(schedule, now)) {
+    outcome.slotsConsidered++
+
+    const slotKey = `${slot.platform}:${slot.slotAt.toISOString()}`
+    const taken = filledSlots.has(slotKey) || occupied.some(
+      (o) => o.platform === slot.platform && Math.abs(o.at.getTime() - slot.slotAt.getTime()) < SLOT_CLEARANCE_MS
+    )
+    if (taken) continue
+
+    const candidates = [...arms.values()].filter((arm) => {
+      if (slot.platform === 'instagram' && !arm.hasImage) return false
+      return !occupied.some(
+        (o) =>
+          o.contentId === arm.contentId &&
+          o.platform === slot.platform &&
+          Math.abs(o.at.getTime() - slot.slotAt.getTime()) < cooldownMs
+      )
+    })
+
+    const choice = chooseArm(candidates, { allowExploration: canExplore(history), random })
+    if (!choice) {
+      outcome.unfilled++
+      continue
+    }
+
+    const arm = arms.get(choice.contentId)!
+    const postId = await schedulePost(campaignId, businessId, slot, choice, metric, arm)
+    if (!postId) continue // another run filled the slot first
+
+    filledSlots.add(slotKey)
+    occupied.push({ contentId: arm.contentId, platform: slot.platform, at: slot.slotAt })
+    history.total++
+    if (choice.strategy === 'explore') {
+      history.explored++
+      outcome.explored++
+    }
+    outcome.postsScheduled++
+  }
+
+  return outcome
+}
+
+/**
+ * Create the scheduled post and its allocation record together. Returns null
+ * if the slot was already allocated by a concurrent run.
+ */
+async function schedulePost(
+  campaignId: string,
+  businessId: string,
+  slot: Slot,
+  choice: SlotChoice,
+  metric: ExperimentMetric,
+  arm: { contentId: string; headline: string | null; status: string }
+): Promise<string | null> {
+  let postId: string
+
+  try {
+    postId = await prisma.$transaction(async (tx) => {
+      const allocation = await tx.postAllocation.create({
+        data: {
+          campaignId,
+          contentId: arm.contentId,
+          platform: slot.platform,
+          slotAt: slot.slotAt,
+          metric,
+          strategy: choice.strategy,
+          sampledValue: choice.sample,
+          arms: choice.samples as unknown as Prisma.InputJsonValue,
+        },
+      })
+
+      const post = await tx.post.create({
+        data: {
+          contentId: arm.contentId,
+          platform: slot.platform,
+          status: 'scheduled',
+          scheduledFor: slot.slotAt,
+        },
+      })
+
+      await tx.postAllocation.update({
+        where: { id: allocation.id },
+        data: { postId: post.id },
+      })
+
+      if (arm.status === 'approved') {
+        await tx.content.update({
+          where: { id: arm.contentId },
+          data: { status: 'scheduled' },
+        })
+      }
+
+      return post.id
+    })
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null
+    throw err
+  }
+
+  await prisma.activityLog.create({
+    data: {
+      businessId,
+      campaignId,
+      actor: 'system',
+      action: 'post_allocated',
+      entityType: 'post',
+      entityId: postId,
+      details: {
+        platform: slot.platform,
+        scheduledFor: slot.slotAt.toISOString(),
+        contentId: arm.contentId,
+        contentHeadline: arm.headline,
+        strategy: choice.strategy,
+        metric,
+        sampledValue: choice.sample,
+        candidates: choice.samples.length,
+      } as Prisma.InputJsonValue,
+    },
+  })
+
+  return postId
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Marsaglia & Tsang (2000); shapes below 1 are boosted via Gamma(a + 1) × U^(1/a)
+function sampleGamma(shape: number, random: RandomSource): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape)
+  }
+
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+
+  for (;;) {
+    let x: number
+    let v: number
+    do {
+      x = sampleNormal(random)
+      v = 1 + c * x
+    } while (v <= 0)
+
+    v = v * v * v
+    const u = random()
+    if (u < 1 - 0.0331 * x ** 4) return d * v
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v
+  }
+}
+
+// Box–Muller
+function sampleNormal(random: RandomSource): number {
+  const u = 1 - random() // (0, 1]
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
@@ -0,0 +1,546 @@
+import prisma from './prisma'
+import { Prisma, Platform } from '@prisma/client'
+import { SCORED_CONVERSION_TYPES } from './scoring'
+import { DAY_MS, HOUR_MS } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AnomalyKind = 'impression_drop' | 'ctr_collapse' | 'spend_spike'
+
+export type SeriesScale = 'hour' | 'day'
+
+/** A cumulative Performance snapshot */
+export interface MetricSnapshot {
+  postId: string
+  recordedAt: Date
+  impressions: number
+  clicks: number
+  spend: Prisma.Decimal | number
+}
+
+/** Increase in each metric over one hour or day */
+export interface SeriesPoint {
+  bucket: string
+  impressions: number
+  clicks: number
+  spend: number
+}
+
+export interface RobustScore {
+  z: number
+  median: number
+  mad: number
+}
+
+export interface SeriesAnomaly extends RobustScore {
+  kind: AnomalyKind
+  bucket: string
+  value: number
+}
+
+export interface ConversionEvent {
+  campaignId: string
+  ipAddress: string
+  type: string
+  createdAt: Date
+}
+
+export interface ConversionBurst {
+  campaignId: string
+  ipAddress: string
+  count: number
+  firstAt: Date
+  lastAt: Date
+  types: Record<string, number>
+}
+
+export interface AnomalyRules {
+  kinds: AnomalyKind[]
+  /** Points needed before the baseline is trusted */
+  minBaselinePoints: number
+  /** Baseline median impressions below which drops aren't judged */
+  minImpressions: number
+  /** Impressions a point needs for its CTR to count */
+  minCtrImpressions: number
+  /** Spend a point needs before it can be a spike */
+  minSpikeSpend: number
+}
+
+export interface DetectAnomaliesResult {
+  checkedAt: string
+  postsChecked: number
+  campaignsChecked: number
+  anomaliesFound: number
+  escalationsRaised: number
+  errors: Array<{ campaignId: string; error: string }>
+}
+
+// Modified z-score cut-off (Iglewicz & Hoaglin)
+export const Z_THRESHOLD = 3.5
+
+// A flagged drop or collapse must also lose at least this share of the median,
+// and a spike must be at least this multiple of it
+export const MIN_DROP_SHARE = 0.5
+export const MIN_SPIKE_MULTIPLE = 2
+
+// Post-level: hourly buckets over the last day. Organic impressions decay
+// naturally after publishing, so only CTR and spend are judged per post.
+export const HOURLY_RULES: AnomalyRules = {
+  kinds: ['ctr_collapse', 'spend_spike'],
+  minBaselinePoints: 6,
+  minImpressions: 0,
+  minCtrImpressions: 50,
+  minSpikeSpend: 5,
+}
+
+// Campaign-level: daily buckets over the last two weeks
+export const DAILY_RULES: AnomalyRules = {
+  kinds: ['impression_drop', 'ctr_collapse', 'spend_spike'],
+  minBaselinePoints: 5,
+  minImpressions: 100,
+  minCtrImpressions: 200,
+  minSpikeSpend: 20,
+}
+
+export const HOURLY_BASELINE_POINTS = 24
+export const DAILY_BASELINE_POINTS = 14
+
+// Conversions from one IP within this window that count as a burst
+export const CONVERSION_BURST_WINDOW_MINUTES = 60
+export const CONVERSION_BURST_MIN_COUNT = 5
+
+// An anomaly with the same title isn't raised again within this window
+const DEDUPE_HOURS = 24
+
+const KIND_TITLES: Record<AnomalyKind, string> = {
+  impression_drop: 'Impression Drop',
+  ctr_collapse: 'CTR Collapse',
+  spend_spike: 'Spend Spike',
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+/**
+ * Modified z-score of `value` against a baseline: 0.6745 × (x − median) / MAD.
+ * The MAD is floored at 10% of the median so a flat baseline doesn't turn
+ * every small wobble into an outlier.
+ */
+export function robustZScore(value: number, baseline: number[]): RobustScore | null {
+  if (baseline.length === 0) return null
+
+  const med = median(baseline)
+  const mad = median(baseline.map((v) => Math.abs(v - med)))
+  const scale = Math.max(mad, Math.abs(med) * 0.1, 1e-9)
+
+  return { z: (0.6745 * (value - med)) / scale, median: med, mad }
+}
+
+// =============================================================================
+// Series
+// =============================================================================
+
+/**
+ * Turn cumulative snapshots into per-hour or per-day increases. Each snapshot
+ * contributes its difference from the post's previous snapshot to the bucket
+ * it was recorded in; a post's first snapshot only sets its starting point.
+ * Daily series are filled with zero days so a day with no delivery shows up.
+ */
+export function bucketDeltas(snapshots: MetricSnapshot[], scale: SeriesScale): SeriesPoint[] {
+  const sorted = [...snapshots].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  const previous = new Map<string, MetricSnapshot>()
+  const buckets = new Map<string, SeriesPoint>()
+
+  for (const snapshot of sorted) {
+    const prior = previous.get(snapshot.postId)
+    previous.set(snapshot.postId, snapshot)
+    if (!prior) continue
+
+    const key = bucketKey(snapshot.recordedAt, scale)
+    const point = buckets.get(key) ?? { bucket: key, impressions: 0, clicks: 0, spend: 0 }
+    point.impressions += Math.max(snapshot.impressions - prior.impressions, 0)
+    point.clicks += Math.max(snapshot.clicks - prior.clicks, 0)
+    point.spend += Math.max(Number(snapshot.spend) - Number(prior.spend), 0)
+    buckets.set(key, point)
+  }
+
+  const points = [...buckets.values()].sort((a, b) => a.bucket.localeCompare(b.bucket))
+
+  if (scale === 'day' && points.length > 0) {
+    const filled: SeriesPoint[] = []
+    const last = Date.parse(points[points.length - 1].bucket)
+    for (let day = Date.parse(points[0].bucket); day <= last; day += DAY_MS) {
+      const key = bucketKey(new Date(day), 'day')
+      filled.push(buckets.get(key) ?? { bucket: key, impressions: 0, clicks: 0, spend: 0 })
+    }
+    return filled
+  }
+
+  return points
+}
+
+/**
+ * Judge the last point of a series against the points before it. Each
+ * anomaly needs both a modified z-score beyond Z_THRESHOLD and a material
+ * change from the median, so tiny baselines can't trigger on noise.
+ */
+export function detectSeriesAnomalies(points: SeriesPoint[], rules: AnomalyRules): SeriesAnomaly[] {
+  if (points.length < rules.minBaselinePoints + 1) return []
+
+  const latest = points[points.length - 1]
+  const baseline = points.slice(0, -1)
+  const anomalies: SeriesAnomaly[] = []
+
+  if (rules.kinds.includes('impression_drop')) {
+    const score = robustZScore(latest.impressions, baseline.map((p) => p.impressions))
+    if (
+      score &&
+      score.median >= rules.minImpressions &&
+      score.z <= -Z_THRESHOLD &&
+      latest.impressions <= score.median * (1 - MIN_DROP_SHARE)
+    ) {
+      anomalies.push({ kind: 'impression_drop', bucket: latest.bucket, value: latest.impressions, ...score })
+    }
+  }
+
+  if (rules.kinds.includes('ctr_collapse') && latest.impressions >= rules.minCtrImpressions) {
+    const ctrs = baseline.filter((p) => p.impressions >= rules.minCtrImpressions).map((p) => p.clicks / p.impressions)
+    const ctr = latest.clicks / latest.impressions
+    const score = ctrs.length >= rules.minBaselinePoints ? robustZScore(ctr, ctrs) : null
+    if (score && score.median > 0 && score.z <= -Z_THRESHOLD && ctr <= score.median * (1 - MIN_DROP_SHARE)) {
+      anomalies.push({ kind: 'ctr_collapse', bucket: latest.bucket, value: ctr, ...score })
+    }
+  }
+
+  if (rules.kinds.includes('spend_spike') && latest.spend >= rules.minSpikeSpend) {
+    const score = robustZScore(latest.spend, baseline.map((p) => p.spend))
+    if (score && score.z >= Z_THRESHOLD && latest.spend >= score.median * MIN_SPIKE_MULTIPLE) {
+      anomalies.push({ kind: 'spend_spike', bucket: latest.bucket, value: latest.spend, ...score })
+    }
+  }
+
+  return anomalies
+}
+
+/**
+ * Group conversions by campaign and IP and report any IP with at least
+ * CONVERSION_BURST_MIN_COUNT conversions inside a sliding window.
+ */
+export function detectConversionBursts(
+  events: ConversionEvent[],
+  windowMinutes = CONVERSION_BURST_WINDOW_MINUTES,
+  minCount = CONVERSION_BURST_MIN_COUNT
+): ConversionBurst[] {
+  const groups = new Map<string, ConversionEvent[]>()
+  for (const event of events) {
+    const key = `${event.campaignId}|${event.ipAddress}`
+    groups.set(key, [...(groups.get(key) ?? []), event])
+  }
+
+  const bursts: ConversionBurst[] = []
+  const windowMs = windowMinutes * 60 * 1000
+
+  for (const group of groups.values()) {
+    const sorted = group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+
+    // Widest run of events that fits in the window
+    let best: ConversionEvent[] = []
+    for (let start = 0, end = 0; end < sorted.length; end++) {
+      while (sorted[end].createdAt.getTime() - sorted[start].createdAt.getTime() > windowMs) start++
+      if (end - start + 1 > best.length) best = sorted.slice(start, end + 1)
+    }
+
+    if (best.length >= minCount) {
+      const types: Record<string, number> = {}
+      for (const event of best) types[event.type] = (types[event.type] ?? 0) + 1
+
+      bursts.push({
+        campaignId: best[0].campaignId,
+        ipAddress: best[0].ipAddress,
+        count: best.length,
+        firstAt: best[0].createdAt,
+        lastAt: best[best.length - 1].createdAt,
+        types,
+      })
+    }
+  }
+
+  return bursts
+}
+
+// =============================================================================
+// Detection Run
+// =============================================================================
+
+type MonitoredCampaign = {
+  id: string
+  name: string
+  playbook: { businessId: string }
+}
+
+type AnomalyEscalation = {
+  campaign: MonitoredCampaign
+  entityType: 'post' | 'campaign'
+  entityId: string
+  severity: 'warning' | 'critical'
+  title: string
+  description: string
+  dataSnapshot: Record<string, unknown>
+}
+
+/**
+ * Check the performance time series of the given campaigns (or all live
+ * ones): hourly deltas per post, daily deltas per campaign (judging the last
+ * complete day) and conversion bursts from a single IP. Each new anomaly opens
+ * an `anomaly_detected` escalation whose dataSnapshot holds the window that
+ * triggered it.
+ */
+export async function detectAnomalies(
+  options: { campaignIds?: string[]; now?: Date } = {}
+): Promise<DetectAnomaliesResult> {
+  const now = options.now ?? new Date()
+  const campaigns = await prisma.campaign.findMany({
+    where: options.campaignIds ? { id: { in: options.campaignIds } } : { status: 'live' },
+    select: { id: true, name: true, playbook: { select: { businessId: true } } },
+  })
+
+  const result: DetectAnomaliesResult = {
+    checkedAt: now.toISOString(),
+    postsChecked: 0,
+    campaignsChecked: 0,
+    anomaliesFound: 0,
+    escalationsRaised: 0,
+    errors: [],
+  }
+
+  for (const campaign of campaigns) {
+    try {
+      const found = await findCampaignAnomalies(campaign, now, result)
+      result.anomaliesFound += found.length
+
+      for (const anomaly of found) {
+        if (await raiseAnomaly(anomaly, now)) result.escalationsRaised++
+      }
+      result.campaignsChecked++
+    } catch (err) {
+      result.errors.push({
+        campaignId: campaign.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
+
+async function findCampaignAnomalies(
+  campaign: MonitoredCampaign,
+  now: Date,
+  result: DetectAnomaliesResult
+): Promise<AnomalyEscalation[]> {
+  const since = new Date(now.getTime() - (DAILY_BASELINE_POINTS + 2) * DAY_MS)
+  const hourlySince = new Date(now.getTime() - (HOURLY_BASELINE_POINTS + 2) * HOUR_MS)
+
+  const [snapshots, posts, conversions] = await Promise.all([
+    prisma.performance.findMany({
+      where: { recordedAt: { gte: since, lte: now }, post: { content: { campaignId: campaign.id } } },
+      select: { postId: true, recordedAt: true, impressions: true, clicks: true, spend: true },
+    }),
+    prisma.post.findMany({
+      where: { content: { campaignId: campaign.id }, status: 'posted' },
+      select: { id: true, platform: true, content: { select: { headline: true } } },
+    }),
+    prisma.conversion.findMany({
+      where: {
+        campaignId: campaign.id,
+        ipAddress: { not: null },
+        type: { in: [...SCORED_CONVERSION_TYPES] },
+        createdAt: { gte: new Date(now.getTime() - CONVERSION_BURST_WINDOW_MINUTES * 60 * 1000), lte: now },
+      },
+      select: { campaignId: true, ipAddress: true, type: true, createdAt: true },
+    }),
+  ])
+
+  const found: AnomalyEscalation[] = []
+  const postsById = new Map(posts.map((p) => [p.id, p]))
+
+  // Post level, hourly: the latest hour may be partial, which can only hide a
+  // spike or understate clicks and impressions alike, never fake a collapse
+  const byPost = new Map<string, MetricSnapshot[]>()
+  for (const snapshot of snapshots) {
+    if (snapshot.recordedAt < hourlySince) continue
+    byPost.set(snapshot.postId, [...(byPost.get(snapshot.postId) ?? []), snapshot])
+  }
+
+  for (const [postId, postSnapshots] of byPost) {
+    const post = postsById.get(postId)
+    if (!post) continue
+    result.postsChecked++
+
+    const series = bucketDeltas(postSnapshots, 'hour').slice(-(HOURLY_BASELINE_POINTS + 1))
+    for (const anomaly of detectSeriesAnomalies(series, HOURLY_RULES)) {
+      found.push(
+        toEscalation(campaign, anomaly, series, 'hour', {
+          entityType: 'post',
+          entityId: postId,
+          subject: `${post.content.headline || 'Untitled'} on ${post.platform}`,
+          platform: post.platform,
+        })
+      )
+    }
+  }
+
+  // Campaign level, daily: judge yesterday, the last complete day
+  const today = bucketKey(now, 'day')
+  const daily = bucketDeltas(snapshots, 'day').filter((p) => p.bucket < today).slice(-(DAILY_BASELINE_POINTS + 1))
+  const yesterday = bucketKey(new Date(now.getTime() - DAY_MS), 'day')
+
+  if (daily.length > 0 && daily[daily.length - 1].bucket === yesterday) {
+    for (const anomaly of detectSeriesAnomalies(daily, DAILY_RULES)) {
+      found.push(
+        toEscalation(campaign, anomaly, daily, 'day', {
+          entityType: 'campaign',
+          entityId: campaign.id,
+          subject: `${campaign.name} (${anomaly.bucket})`,
+        })
+      )
+    }
+  }
+
+  const events = conversions.map((c) => ({ ...c, campaignId: c.campaignId!, ipAddress: c.ipAddress! }))
+  for (const burst of detectConversionBursts(events)) {
+    found.push({
+      campaign,
+      entityType: 'campaign',
+      entityId: campaign.id,
+      severity: 'warning',
+      title: `Conversion Burst: ${burst.ipAddress} on ${campaign.name}`,
+      description: `${burst.count} conversions from ${burst.ipAddress} between ${burst.firstAt.toISOString()} and ${burst.lastAt.toISOString()}. Check for bot or test traffic before trusting this campaign's conversion numbers.`,
+      dataSnapshot: {
+        kind: 'conversion_burst',
+        level: 'campaign',
+        ipAddress: burst.ipAddress,
+        count: burst.count,
+        types: burst.types,
+        window: { start: burst.firstAt.toISOString(), end: burst.lastAt.toISOString() },
+      },
+    })
+  }
+
+  return found
+}
+
+function toEscalation(
+  campaign: MonitoredCampaign,
+  anomaly: SeriesAnomaly,
+  series: SeriesPoint[],
+  scale: SeriesScale,
+  target: { entityType: 'post' | 'campaign'; entityId: string; subject: string; platform?: Platform }
+): AnomalyEscalation {
+  const period = scale === 'hour' ? 'hour' : 'day'
+  const baselineLabel = `${series.length - 1}-${period} median`
+
+  const change =
+    anomaly.kind === 'impression_drop'
+      ? `Impressions fell to ${anomaly.value.toLocaleString()} against a ${baselineLabel} of ${Math.round(anomaly.median).toLocaleString()}`
+      : anomaly.kind === 'ctr_collapse'
+        ? `CTR fell to ${percent(anomaly.value)} against a ${baselineLabel} of ${percent(anomaly.median)}`
+        : `Spend rose to $${anomaly.value.toFixed(2)} against a ${baselineLabel} of $${anomaly.median.toFixed(2)}`
+
+  return {
+    campaign,
+    entityType: target.entityType,
+    entityId: target.entityId,
+    severity: anomaly.kind === 'spend_spike' ? 'critical' : 'warning',
+    title: `${KIND_TITLES[anomaly.kind]}: ${target.subject}`,
+    description: `${change} in the ${period} starting ${anomaly.bucket} (z = ${anomaly.z.toFixed(1)}).`,
+    dataSnapshot: {
+      kind: anomaly.kind,
+      level: target.entityType,
+      ...(target.entityType === 'post' ? { postId: target.entityId, platform: target.platform } : {}),
+      scale,
+      window: { start: anomaly.bucket, end: bucketEnd(anomaly.bucket, scale) },
+      value: anomaly.value,
+      baselineMedian: anomaly.median,
+      mad: anomaly.mad,
+      z: Math.round(anomaly.z * 100) / 100,
+      series: series.map((p) => ({ ...p, spend: Math.round(p.spend * 100) / 100 })),
+    },
+  }
+}
+
+/**
+ * Open the escalation unless the same anomaly is still open or was raised
+ * within DEDUPE_HOURS. Returns whether a new escalation was created.
+ */
+async function raiseAnomaly(anomaly: AnomalyEscalation, now: Date): Promise<boolean> {
+  const existing = await prisma.escalation.findFirst({
+    where: {
+      campaignId: anomaly.campaign.id,
+      type: 'anomaly_detected',
+      title: anomaly.title,
+      OR: [
+        { status: { in: ['open', 'acknowledged'] } },
+        { createdAt: { gte: new Date(now.getTime() - DEDUPE_HOURS * HOUR_MS) } },
+      ],
+    },
+    select: { id: true },
+  })
+  if (existing) return false
+
+  const escalation = await prisma.escalation.create({
+    data: {
+      campaignId: anomaly.campaign.id,
+      type: 'anomaly_detected',
+      severity: anomaly.severity,
+      title: anomaly.title,
+      description: anomaly.description,
+      dataSnapshot: anomaly.dataSnapshot as Prisma.InputJsonValue,
+      status: 'open',
+    },
+  })
+
+  await prisma.activityLog.create({
+    data: {
+      businessId: anomaly.campaign.playbook.businessId,
+      campaignId: anomaly.campaign.id,
+      actor: 'system',
+      action: 'anomaly_detected',
+      entityType: anomaly.entityType,
+      entityId: anomaly.entityId,
+      details: {
+        escalationId: escalation.id,
+        kind: anomaly.dataSnapshot.kind,
+        title: anomaly.title,
+      } as Prisma.InputJsonValue,
+    },
+  })
+
+  return true
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+}
+
+function bucketKey(date: Date, scale: SeriesScale): string {
+  const iso = date.toISOString()
+  return scale === 'hour' ? `${iso.slice(0, 13)}:00:00.000Z` : iso.slice(0, 10)
+}
+
+function bucketEnd(bucket: string, scale: SeriesScale): string {
+  return new Date(Date.parse(bucket) + (scale === 'hour' ? HOUR_MS : DAY_MS)).toISOString()
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`
+}
@@ -11,8 +11,8 @@ export function successResponse<T>(data: T, status = 200): NextResponse<ApiRespo
   return NextResponse.json({ success: true, data }, { status })
 }
 
-export function errorResponse(error: string, status = 400): NextResponse<ApiResponse> {
-  return NextResponse.json({ success: false, error }, { status })
+export function errorResponse(error: string, status = 400, data?: unknown): NextResponse<ApiResponse> {
+  return NextResponse.json({ success: false, error, ...(data !== undefined && { data }) }, { status })
 }
 
 export function notFoundResponse(message = 'Resource not found'): NextResponse<ApiResponse> {
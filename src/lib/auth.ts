@@ -8,6 +8,8 @@ const SECRET_KEY = new TextEncoder().encode(
 )
 
 const COOKIE_NAME = 'campaign-engine-session'
+const OAUTH_NONCE_COOKIE = 'campaign-engine-oauth-nonce'
+const OAUTH_STATE_TTL_SECONDS = 10 * 60 // 10 minutes
 
 export interface SessionPayload {
   userId: string
@@ -15,6 +17,19 @@ export interface SessionPayload {
   exp: number
 }
 
+export interface OAuthStatePayload {
+  userId: string
+  businessId: string
+  nonce: string
+}
+
+export class OAuthStateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OAuthStateError'
+  }
+}
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12)
 }
@@ -101,3 +116,55 @@ export async function ensureAuthenticated(): Promise<SessionPayload> {
   }
   return session
 }
+
+// OAuth state: a signed, expiring token bound to the session user and business.
+// Its nonce is also set in an httpOnly cookie and cleared on first use, so a
+// state is only accepted once and only in the browser that started the flow.
+
+export async function createOAuthState(userId: string, businessId: string): Promise<string> {
+  const nonce = crypto.randomUUID()
+
+  const state = await new SignJWT({ userId, businessId, nonce })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS)
+    .sign(SECRET_KEY)
+
+  const cookieStore = await cookies()
+  cookieStore.set(OAUTH_NONCE_COOKIE, nonce, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: OAUTH_STATE_TTL_SECONDS,
+    path: '/',
+  })
+
+  return state
+}
+
+export async function consumeOAuthState(
+  state: string,
+  session: SessionPayload
+): Promise<OAuthStatePayload> {
+  const cookieStore = await cookies()
+  const expectedNonce = cookieStore.get(OAUTH_NONCE_COOKIE)?.value
+  cookieStore.delete(OAUTH_NONCE_COOKIE)
+
+  let payload: OAuthStatePayload
+  try {
+    const result = await jwtVerify(state, SECRET_KEY)
+    payload = result.payload as unknown as OAuthStatePayload
+  } catch {
+    throw new OAuthStateError('Meta authorization link is invalid or has expired. Please try connecting again.')
+  }
+
+  if (!expectedNonce || payload.nonce !== expectedNonce) {
+    throw new OAuthStateError('Meta authorization has already been used or was started in another browser. Please try connecting again.')
+  }
+
+  if (payload.userId !== session.userId) {
+    throw new OAuthStateError('Meta authorization was started by a different user. Please try connecting again.')
+  }
+
+  return payload
+}
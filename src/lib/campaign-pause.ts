@@ -0,0 +1,363 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import { decryptToken, getAdSetStatus, updateAdSetStatus } from './meta'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const RESUME_POLICIES = ['skip', 'post_now', 'shift'] as const
+
+/**
+ * What happens on resume to held posts whose scheduled time passed while
+ * the campaign was paused:
+ * - skip: cancel them
+ * - post_now: publish on the next scheduler run
+ * - shift: move them later by however long the campaign was paused
+ */
+export type ResumePolicy = (typeof RESUME_POLICIES)[number]
+
+export type HeldPostOutcome = { action: 'restore'; scheduledFor: Date | null } | { action: 'skip' }
+
+export interface HoldSummary {
+  pauseId: string
+  postsHeld: number
+}
+
+export interface ReleaseSummary {
+  pauseId: string | null
+  resumePolicy: ResumePolicy
+  postsRestored: number
+  postsRetimed: number
+  postsSkipped: number
+}
+
+export interface AdSetSummary {
+  adSetIds: string[]
+  errors: Array<{ adSetId: string; error: string }>
+}
+
+export function isResumePolicy(value: unknown): value is ResumePolicy {
+  return typeof value === 'string' && (RESUME_POLICIES as readonly string[]).includes(value)
+}
+
+// =============================================================================
+// Held Posts
+// =============================================================================
+
+/**
+ * Decide when a held post goes out on resume. Posts still in the future keep
+ * their time; overdue posts follow the resume policy.
+ */
+export function retimeHeldPost(
+  scheduledFor: Date | null,
+  pausedAt: Date,
+  now: Date,
+  policy: ResumePolicy
+): HeldPostOutcome {
+  if (!scheduledFor || scheduledFor > now) {
+    return { action: 'restore', scheduledFor }
+  }
+
+  switch (policy) {
+    case 'skip':
+      return { action: 'skip' }
+    case 'post_now':
+      return { action: 'restore', scheduledFor: now }
+    case 'shift': {
+      const pausedFor = now.getTime() - pausedAt.getTime()
+      const shifted = new Date(scheduledFor.getTime() + pausedFor)
+      return { action: 'restore', scheduledFor: shifted > now ? shifted : now }
+    }
+  }
+}
+
+/**
+ * Put a campaign's scheduled posts on hold and open a pause record listing
+ * them, marked as still pausing ad sets until pauseCampaignAdSets is done.
+ * Runs inside the pause transition's transaction.
+ */
+export async function holdCampaignPosts(
+  tx: Prisma.TransactionClient,
+  campaignId: string,
+  now: Date
+): Promise<HoldSummary> {
+  const scheduled = await tx.post.findMany({
+    where: { content: { campaignId }, status: 'scheduled' },
+    select: { id: true },
+  })
+  const heldPostIds = scheduled.map((p) => p.id)
+
+  if (heldPostIds.length > 0) {
+    await tx.post.updateMany({
+      where: { id: { in: heldPostIds }, status: 'scheduled' },
+      data: { status: 'held' },
+    })
+  }
+
+  const pause = await tx.campaignPause.create({
+    data: { campaignId, pausedAt: now, heldPostIds, pausingAdSets: true },
+  })
+
+  return { pauseId: pause.id, postsHeld: heldPostIds.length }
+}
+
+/**
+ * Reschedule the posts held by the campaign's open pause, re-timing overdue
+ * ones by `policy`, and close the pause. Posts changed while on hold (e.g.
+ * deleted) are left alone. Runs inside the resume transition's transaction.
+ */
+export async function releaseHeldPosts(
+  tx: Prisma.TransactionClient,
+  campaignId: string,
+  policy: ResumePolicy,
+  now: Date
+): Promise<ReleaseSummary> {
+  const summary: ReleaseSummary = {
+    pauseId: null,
+    resumePolicy: policy,
+    postsRestored: 0,
+    postsRetimed: 0,
+    postsSkipped: 0,
+  }
+
+  const pause = await tx.campaignPause.findFirst({
+    where: { campaignId, resumedAt: null },
+    orderBy: { pausedAt: 'desc' },
+  })
+  if (!pause) return summary
+  summary.pauseId = pause.id
+
+  const posts = await tx.post.findMany({
+    where: { id: { in: pause.heldPostIds as string[] }, status: 'held' },
+    select: { id: true, scheduledFor: true },
+  })
+
+  for (const post of posts) {
+    const outcome = retimeHeldPost(post.scheduledFor, pause.pausedAt, now, policy)
+
+    if (outcome.action === 'skip') {
+      await tx.post.update({ where: { id: post.id }, data: { status: 'deleted' } })
+      summary.postsSkipped++
+      continue
+    }
+
+    await tx.post.update({
+      where: { id: post.id },
+      data: { status: 'scheduled', scheduledFor: outcome.scheduledFor },
+    })
+    summary.postsRestored++
+    if (outcome.scheduledFor?.getTime() !== post.scheduledFor?.getTime()) summary.postsRetimed++
+  }
+
+  await tx.campaignPause.update({
+    where: { id: pause.id },
+    data: {
+      resumedAt: now,
+      resumePolicy: policy,
+      resumeSummary: {
+        postsRestored: summary.postsRestored,
+        postsRetimed: summary.postsRetimed,
+        postsSkipped: summary.postsSkipped,
+      },
+    },
+  })
+
+  return summary
+}
+
+// =============================================================================
+// Ad Sets
+// =============================================================================
+
+/**
+ * Pause the active ad sets behind a paused campaign's posts and record them
+ * on the pause. Ad sets that were already paused are left out, so resume
+ * doesn't switch on delivery someone stopped by hand. Called after the pause
+ * transition commits; Meta failures are recorded and escalated, never thrown.
+ *
+ * A resume that commits while this runs skips the ad sets, since the pause
+ * is still marked as pausing them. So the pause is only marked done while it
+ * is open; if it was resumed in the meantime, this re-activates them itself.
+ */
+export async function pauseCampaignAdSets(pauseId: string): Promise<AdSetSummary> {
+  const pause = await prisma.campaignPause.findUniqueOrThrow({
+    where: { id: pauseId },
+    include: { campaign: { select: adSetCampaignSelect } },
+  })
+
+  const summary: AdSetSummary = pause.resumedAt
+    ? { adSetIds: [], errors: [] }
+    : await pauseActiveAdSets(pause.campaign, await campaignAdSetIds(pause.campaignId))
+
+  const data = {
+    adSetIds: summary.adSetIds,
+    adSetErrors: summary.errors.length > 0 ? summary.errors : Prisma.DbNull,
+    pausingAdSets: false,
+  }
+  const finished = await prisma.campaignPause.updateMany({ where: { id: pauseId, resumedAt: null }, data })
+
+  await recordAdSetOutcome(pause.campaign, 'ad_sets_paused', pauseId, summary)
+
+  if (finished.count === 0) {
+    await prisma.campaignPause.update({ where: { id: pauseId }, data })
+    await resumeCampaignAdSets(pauseId)
+  }
+
+  return summary
+}
+
+/**
+ * Re-activate exactly the ad sets a pause switched off. Called after the
+ * resume transition commits. A pause still pausing its ad sets is skipped;
+ * pauseCampaignAdSets re-activates them once it sees the resume.
+ */
+export async function resumeCampaignAdSets(pauseId: string): Promise<AdSetSummary> {
+  const pause = await prisma.campaignPause.findUniqueOrThrow({
+    where: { id: pauseId },
+    include: { campaign: { select: adSetCampaignSelect } },
+  })
+
+  const summary: AdSetSummary = { adSetIds: [], errors: [] }
+  const adSetIds = pause.adSetIds as string[]
+  if (pause.pausingAdSets || adSetIds.length === 0) return summary
+
+  const token = adsToken(pause.campaign.playbook.business)
+
+  for (const adSetId of adSetIds) {
+    try {
+      if (!token) throw new Error('Business does not have a Meta connection')
+      await updateAdSetStatus(adSetId, token, 'ACTIVE')
+      summary.adSetIds.push(adSetId)
+    } catch (err) {
+      summary.errors.push({ adSetId, error: err instanceof Error ? err.message : 'Unknown error' })
+    }
+  }
+
+  await prisma.campaignPause.update({
+    where: { id: pauseId },
+    data: {
+      resumeSummary: {
+        ...((pause.resumeSummary ?? {}) as Record<string, unknown>),
+        adSetsResumed: summary.adSetIds,
+        adSetErrors: summary.errors,
+      } as Prisma.InputJsonValue,
+    },
+  })
+
+  await recordAdSetOutcome(pause.campaign, 'ad_sets_resumed', pauseId, summary)
+  return summary
+}
+
+/**
+ * Pause the active ad sets of a campaign that was completed or failed while
+ * live, so paid delivery ends with it. Nothing is kept for a resume since a
+ * finished campaign can't be resumed. Called after the transition commits.
+ */
+export async function stopCampaignAdSets(campaignId: string): Promise<AdSetSummary> {
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: adSetCampaignSelect,
+  })
+
+  const summary = await pauseActiveAdSets(campaign, await campaignAdSetIds(campaignId))
+  await recordAdSetOutcome(campaign, 'ad_sets_paused', null, summary)
+  return summary
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const adSetCampaignSelect = {
+  id: true,
+  name: true,
+  playbook: {
+    select: {
+      businessId: true,
+      business: { select: { metaPageToken: true, metaUserToken: true } },
+    },
+  },
+} satisfies Prisma.CampaignSelect
+
+type AdSetCampaign = Prisma.CampaignGetPayload<{ select: typeof adSetCampaignSelect }>
+
+/** Pause the ad sets that are active, leaving ones already stopped out of the summary */
+async function pauseActiveAdSets(campaign: AdSetCampaign, adSetIds: string[]): Promise<AdSetSummary> {
+  const summary: AdSetSummary = { adSetIds: [], errors: [] }
+  if (adSetIds.length === 0) return summary
+
+  const token = adsToken(campaign.playbook.business)
+
+  for (const adSetId of adSetIds) {
+    try {
+      if (!token) throw new Error('Business does not have a Meta connection')
+      if ((await getAdSetStatus(adSetId, token)) !== 'ACTIVE') continue
+      await updateAdSetStatus(adSetId, token, 'PAUSED')
+      summary.adSetIds.push(adSetId)
+    } catch (err) {
+      summary.errors.push({ adSetId, error: err instanceof Error ? err.message : 'Unknown error' })
+    }
+  }
+
+  return summary
+}
+
+async function campaignAdSetIds(campaignId: string): Promise<string[]> {
+  const posts = await prisma.post.findMany({
+    where: { content: { campaignId }, adSetId: { not: null }, status: { not: 'deleted' } },
+    select: { adSetId: true },
+    distinct: ['adSetId'],
+  })
+  return posts.map((p) => p.adSetId!)
+}
+
+/** Ad sets belong to the ad account, so prefer the user token over the page token */
+function adsToken(business: { metaPageToken: string | null; metaUserToken: string | null }): string | null {
+  const encrypted = business.metaUserToken ?? business.metaPageToken
+  if (!encrypted) return null
+  try {
+    return decryptToken(encrypted)
+  } catch {
+    return null
+  }
+}
+
+async function recordAdSetOutcome(
+  campaign: AdSetCampaign,
+  action: 'ad_sets_paused' | 'ad_sets_resumed',
+  pauseId: string | null,
+  summary: AdSetSummary
+): Promise<void> {
+  if (summary.adSetIds.length === 0 && summary.errors.length === 0) return
+
+  await prisma.activityLog.create({
+    data: {
+      businessId: campaign.playbook.businessId,
+      campaignId: campaign.id,
+      actor: 'system',
+      action,
+      entityType: 'campaign',
+      entityId: campaign.id,
+      details: { pauseId, adSetIds: summary.adSetIds, errors: summary.errors } as Prisma.InputJsonValue,
+    },
+  })
+
+  if (summary.errors.length === 0) return
+
+  // A paused campaign whose ad sets still deliver keeps spending
+  const pausing = action === 'ad_sets_paused'
+  await prisma.escalation.create({
+    data: {
+      campaignId: campaign.id,
+      type: 'persistent_failure',
+      severity: pausing ? 'critical' : 'warning',
+      title: `${pausing ? 'Ad Sets Not Paused' : 'Ad Sets Not Resumed'}: ${campaign.name}`,
+      description: `Meta rejected ${summary.errors.length} ad set update(s). Check them in Ads Manager. ${summary.errors
+        .map((e) => `${e.adSetId}: ${e.error}`)
+        .join('; ')}`,
+      dataSnapshot: { pauseId, errors: summary.errors } as Prisma.InputJsonValue,
+      status: 'open',
+    },
+  })
+}
@@ -0,0 +1,460 @@
+import prisma from './prisma'
+import { Prisma, CampaignStatus } from '@prisma/client'
+import { getCampaignPacing } from './pacing'
+import {
+  holdCampaignPosts,
+  releaseHeldPosts,
+  pauseCampaignAdSets,
+  resumeCampaignAdSets,
+  stopCampaignAdSets,
+  isResumePolicy,
+  ResumePolicy,
+} from './campaign-pause'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CampaignTransition =
+  | 'approve'
+  | 'complete_setup'
+  | 'launch'
+  | 'pause'
+  | 'resume'
+  | 'complete'
+  | 'fail'
+
+export type Precondition = 'playbook_ready' | 'tasks_done' | 'content_exists' | 'meta_connected' | 'budget_set' | 'budget_remaining'
+
+export interface TransitionDefinition {
+  from: CampaignStatus[]
+  to: CampaignStatus
+  /** Activity log action recorded for the transition */
+  action: string
+  /** Past tense used in "cannot be X from Y status" errors */
+  verb: string
+  preconditions: Precondition[]
+}
+
+export interface TransitionOptions {
+  actor: 'human' | 'system'
+  /** Email of the user making a human transition */
+  by?: string
+  reason?: string
+  /** How overdue held posts are re-timed on resume (default: the campaign's policy) */
+  resumePolicy?: ResumePolicy
+  /** Extra fields for the activity log entry */
+  details?: Record<string, unknown>
+}
+
+export const transitionCampaignInclude = {
+  playbook: {
+    select: {
+      id: true,
+      name: true,
+      business: {
+        select: { id: true, name: true, slug: true },
+      },
+    },
+  },
+  tasks: {
+    select: { id: true, assignee: true, type: true, title: true, status: true },
+  },
+} satisfies Prisma.CampaignInclude
+
+export type TransitionedCampaign = Prisma.CampaignGetPayload<{ include: typeof transitionCampaignInclude }>
+
+export type TransitionResult =
+  | { status: 'ok'; campaign: TransitionedCampaign; from: CampaignStatus; to: CampaignStatus }
+  | { status: 'rejected'; code: 400 | 404; error: string }
+
+export interface TransitionRecord {
+  id: string
+  transition: CampaignTransition | null
+  action: string
+  from: CampaignStatus | null
+  to: CampaignStatus
+  actor: string
+  by: string | null
+  reason: string | null
+  at: Date
+}
+
+// =============================================================================
+// Transitions
+// =============================================================================
+
+export const CAMPAIGN_TRANSITIONS: Record<CampaignTransition, TransitionDefinition> = {
+  approve: {
+    from: ['draft', 'review'],
+    to: 'approved',
+    action: 'campaign_approved',
+    verb: 'approved',
+    preconditions: ['playbook_ready'],
+  },
+  complete_setup: {
+    from: ['approved'],
+    to: 'setup',
+    action: 'campaign_setup_complete',
+    verb: 'moved to setup',
+    preconditions: ['tasks_done'],
+  },
+  launch: {
+    from: ['approved', 'setup'],
+    to: 'live',
+    action: 'campaign_launched',
+    verb: 'launched',
+    preconditions: ['tasks_done', 'content_exists', 'meta_connected', 'budget_set'],
+  },
+  pause: {
+    from: ['live'],
+    to: 'paused',
+    action: 'campaign_paused',
+    verb: 'paused',
+    preconditions: [],
+  },
+  resume: {
+    from: ['paused'],
+    to: 'live',
+    action: 'campaign_resumed',
+    verb: 'resumed',
+    preconditions: ['meta_connected', 'budget_remaining'],
+  },
+  complete: {
+    from: ['live', 'paused'],
+    to: 'completed',
+    action: 'campaign_completed',
+    verb: 'completed',
+    preconditions: [],
+  },
+  fail: {
+    from: ['approved', 'setup', 'live', 'paused'],
+    to: 'failed',
+    action: 'campaign_failed',
+    verb: 'marked as failed',
+    preconditions: [],
+  },
+}
+
+// Tasks generated on campaign approval
+export const DEFAULT_HUMAN_TASKS = [
+  {
+    type: 'review_content',
+    title: 'Review Generated Content',
+    description: 'Review all AI-generated content for brand voice and accuracy',
+    priority: 8,
+  },
+  {
+    type: 'upload_images',
+    title: 'Upload Campaign Images',
+    description: 'Upload images for content that needs visuals',
+    priority: 7,
+  },
+  {
+    type: 'setup_meta',
+    title: 'Configure Meta Ads Manager',
+    description: 'Set up ad sets and targeting in Meta Business Suite',
+    priority: 9,
+  },
+]
+
+export const DEFAULT_SYSTEM_TASKS = [
+  {
+    type: 'generate_content',
+    title: 'Generate Initial Content Batch',
+    description: 'AI generates content variations from playbook',
+    priority: 10,
+  },
+  {
+    type: 'match_images',
+    title: 'Match Images to Content',
+    description: 'Auto-match library images to generated content',
+    priority: 6,
+  },
+  {
+    type: 'generate_utm',
+    title: 'Generate UTM Parameters',
+    description: 'Create tracking parameters for all content',
+    priority: 5,
+  },
+]
+
+// Unpublished posts are cancelled when a campaign ends
+const CANCELLABLE_POST_STATUSES = ['draft', 'scheduled', 'held'] as const
+
+const ACTION_TRANSITIONS = new Map(
+  (Object.entries(CAMPAIGN_TRANSITIONS) as Array<[CampaignTransition, TransitionDefinition]>).map(([name, def]) => [
+    def.action,
+    name,
+  ])
+)
+
+/**
+ * Whether `transition` may start from `status` (preconditions aside).
+ */
+export function canTransition(status: CampaignStatus, transition: CampaignTransition): boolean {
+  return CAMPAIGN_TRANSITIONS[transition].from.includes(status)
+}
+
+/**
+ * Transitions that may start from `status`, in definition order.
+ */
+export function availableTransitions(status: CampaignStatus): CampaignTransition[] {
+  return (Object.keys(CAMPAIGN_TRANSITIONS) as CampaignTransition[]).filter((t) => canTransition(status, t))
+}
+
+/**
+ * Move a campaign through one transition: check the source status and
+ * preconditions, then atomically update the status, run the side effects
+ * (task creation on approval, holding and releasing posts on pause and
+ * resume, post cancellation when the campaign ends) and record the move in
+ * the activity log. A concurrent transition that got there first makes this
+ * one fail with a status error. Ad sets are paused and resumed through Meta
+ * once the transition has committed, and paused for good when a live
+ * campaign is completed or failed.
+ */
+export async function transitionCampaign(
+  campaignId: string,
+  transition: CampaignTransition,
+  options: TransitionOptions
+): Promise<TransitionResult> {
+  const definition = CAMPAIGN_TRANSITIONS[transition]
+
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    include: {
+      playbook: {
+        select: {
+          businessId: true,
+          positioning: true,
+          hooks: true,
+          audiences: true,
+          business: { select: { metaPageId: true, metaPageToken: true, metaTokenStatus: true } },
+        },
+      },
+      tasks: {
+        where: { assignee: 'human', status: { not: 'completed' } },
+        select: { title: true },
+      },
+      _count: { select: { contents: true } },
+    },
+  })
+
+  if (!campaign) {
+    return { status: 'rejected', code: 404, error: 'Campaign not found' }
+  }
+
+  if (!canTransition(campaign.status, transition)) {
+    return statusError(definition, campaign.status)
+  }
+
+  for (const precondition of definition.preconditions) {
+    const error = await checkPrecondition(precondition, campaign)
+    if (error) return { status: 'rejected', code: 400, error }
+  }
+
+  const from = campaign.status
+  const now = new Date()
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const claim = await tx.campaign.updateMany({
+      where: { id: campaignId, status: from },
+      data: { status: definition.to, ...transitionData(transition, options) },
+    })
+    if (claim.count === 0) return null
+
+    const sideEffects = await runSideEffects(tx, transition, campaign, options, now)
+
+    await tx.activityLog.create({
+      data: {
+        businessId: campaign.playbook.businessId,
+        campaignId,
+        actor: options.actor,
+        action: definition.action,
+        entityType: 'campaign',
+        entityId: campaignId,
+        details: {
+          transition,
+          from,
+          to: definition.to,
+          by: options.by ?? null,
+          reason: options.reason ?? null,
+          ...sideEffects,
+          ...options.details,
+        } as Prisma.InputJsonValue,
+      },
+    })
+
+    const result = await tx.campaign.findUniqueOrThrow({
+      where: { id: campaignId },
+      include: transitionCampaignInclude,
+    })
+    return { campaign: result, pauseId: sideEffects.pauseId as string | null | undefined }
+  })
+
+  if (!updated) {
+    const current = await prisma.campaign.findUnique({ where: { id: campaignId }, select: { status: true } })
+    return statusError(definition, current?.status ?? from)
+  }
+
+  if (updated.pauseId && transition === 'pause') await pauseCampaignAdSets(updated.pauseId)
+  if (updated.pauseId && transition === 'resume') await resumeCampaignAdSets(updated.pauseId)
+  if (from === 'live' && (transition === 'complete' || transition === 'fail')) await stopCampaignAdSets(campaignId)
+
+  return { status: 'ok', campaign: updated.campaign, from, to: definition.to }
+}
+
+/**
+ * A campaign's status changes, newest first, from the activity log.
+ */
+export async function getTransitionHistory(campaignId: string): Promise<TransitionRecord[]> {
+  const entries = await prisma.activityLog.findMany({
+    where: { campaignId, action: { in: [...ACTION_TRANSITIONS.keys()] } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, action: true, actor: true, details: true, createdAt: true },
+  })
+
+  return entries.map((entry) => {
+    const details = (entry.details ?? {}) as Record<string, unknown>
+    const transition = ACTION_TRANSITIONS.get(entry.action) ?? null
+
+    return {
+      id: entry.id,
+      transition,
+      action: entry.action,
+      // Entries written before the state machine don't record the source status
+      from: (details.from as CampaignStatus | undefined) ?? null,
+      to: (details.to as CampaignStatus | undefined) ?? CAMPAIGN_TRANSITIONS[transition!].to,
+      actor: entry.actor,
+      by: (details.by as string | undefined) ?? (details.approvedBy as string | undefined) ?? null,
+      reason: (details.reason as string | undefined) ?? null,
+      at: entry.createdAt,
+    }
+  })
+}
+
+// =============================================================================
+// Preconditions & Side Effects
+// =============================================================================
+
+type TransitionCandidate = {
+  id: string
+  resumePolicy: string
+  budgetDaily: Prisma.Decimal | null
+  budgetTotal: Prisma.Decimal | null
+  playbook: {
+    positioning: string | null
+    hooks: Prisma.JsonValue
+    audiences: Prisma.JsonValue
+    business: { metaPageId: string | null; metaPageToken: string | null; metaTokenStatus: string | null }
+  }
+  tasks: Array<{ title: string }>
+  _count: { contents: number }
+}
+
+async function checkPrecondition(precondition: Precondition, campaign: TransitionCandidate): Promise<string | null> {
+  switch (precondition) {
+    case 'playbook_ready': {
+      const { positioning, hooks, audiences } = campaign.playbook
+      return positioning && hooks && audiences
+        ? null
+        : 'Playbook must have positioning, hooks, and audiences before campaign approval'
+    }
+
+    case 'tasks_done':
+      return campaign.tasks.length === 0
+        ? null
+        : `Complete these tasks before launch: ${campaign.tasks.map((t) => t.title).join(', ')}`
+
+    case 'content_exists':
+      return campaign._count.contents > 0 ? null : 'Campaign must have at least one piece of content before launch'
+
+    case 'meta_connected': {
+      const business = campaign.playbook.business
+      if (!business.metaPageId || !business.metaPageToken) {
+        return 'Connect a Meta page for this business first'
+      }
+      return business.metaTokenStatus === 'invalid' ? 'The Meta connection is invalid. Reconnect Meta first' : null
+    }
+
+    case 'budget_set':
+      return campaign.budgetDaily !== null || campaign.budgetTotal !== null
+        ? null
+        : 'Set a daily or total budget before launch'
+
+    case 'budget_remaining': {
+      if (campaign.budgetTotal === null) return null
+      const pacing = await getCampaignPacing(campaign.id)
+      return pacing?.status === 'depleted'
+        ? 'The total budget is exhausted. Raise the budget before resuming'
+        : null
+    }
+  }
+}
+
+function transitionData(transition: CampaignTransition, options: TransitionOptions): Prisma.CampaignUpdateManyMutationInput {
+  switch (transition) {
+    case 'approve':
+      return {
+        approvedAt: new Date(),
+        approvedBy: options.by ?? null,
+        humanTasks: DEFAULT_HUMAN_TASKS as unknown as Prisma.InputJsonValue,
+        aiTasks: DEFAULT_SYSTEM_TASKS as unknown as Prisma.InputJsonValue,
+      }
+    case 'resume':
+      // Start a fresh optimizer window so the campaign isn't paused again straight away
+      return { belowThresholdSince: null }
+    default:
+      return {}
+  }
+}
+
+async function runSideEffects(
+  tx: Prisma.TransactionClient,
+  transition: CampaignTransition,
+  campaign: TransitionCandidate,
+  options: TransitionOptions,
+  now: Date
+): Promise<Record<string, unknown>> {
+  const campaignId = campaign.id
+
+  switch (transition) {
+    case 'approve': {
+      const created = await tx.task.createMany({
+        data: [
+          ...DEFAULT_HUMAN_TASKS.map((task) => ({ campaignId, assignee: 'human' as const, ...task })),
+          ...DEFAULT_SYSTEM_TASKS.map((task) => ({ campaignId, assignee: 'system' as const, ...task })),
+        ],
+      })
+      return { tasksCreated: created.count }
+    }
+
+    case 'pause':
+      return { ...(await holdCampaignPosts(tx, campaignId, now)) }
+
+    case 'resume': {
+      const policy = options.resumePolicy ?? (isResumePolicy(campaign.resumePolicy) ? campaign.resumePolicy : 'shift')
+      return { ...(await releaseHeldPosts(tx, campaignId, policy, now)) }
+    }
+
+    case 'complete':
+    case 'fail': {
+      const cancelled = await tx.post.updateMany({
+        where: { content: { campaignId }, status: { in: [...CANCELLABLE_POST_STATUSES] } },
+        data: { status: 'deleted' },
+      })
+      return { postsCancelled: cancelled.count }
+    }
+
+    default:
+      return {}
+  }
+}
+
+function statusError(definition: TransitionDefinition, status: CampaignStatus): TransitionResult {
+  return {
+    status: 'rejected',
+    code: 400,
+    error: `Campaign cannot be ${definition.verb} from ${status} status`,
+  }
+}
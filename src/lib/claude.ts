@@ -1,4 +1,13 @@
 import Anthropic from '@anthropic-ai/sdk'
+import {
+  PLATFORM_RULES,
+  PlatformSelection,
+  PlatformVariants,
+  requestedPlatforms,
+  sanitizePlatformVariant,
+} from './platform-variants'
+import type { QualityScore } from './content-quality'
+import { createJsonArrayStreamParser } from './streaming'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -31,13 +40,17 @@ export interface Hook {
 }
 
 export interface ContentVariation {
+  /** Base message, used wherever no platform variant applies */
   headline: string
   body: string
   ctaText: string
   hookSource: string
   audienceSegment: string
-  platform: 'facebook' | 'instagram'
+  /** A tailored variant for every requested platform */
+  platformVariants: PlatformVariants
   reasoning?: string
+  /** Set when the variation went through the scoring pass */
+  quality?: QualityScore
 }
 
 export interface GenerationRequest {
@@ -45,7 +58,7 @@ export interface GenerationRequest {
   targetAudience: string
   hooks: Hook[]
   contentType: 'ad' | 'organic_post' | 'story'
-  platform: 'facebook' | 'instagram' | 'both'
+  platform: PlatformSelection
   count: number
 }
 
@@ -58,6 +71,8 @@ export interface GenerationResponse {
   }
 }
 
+export type GenerationMetadata = GenerationResponse['metadata']
+
 const CONTENT_GENERATION_PROMPT = `You are an expert social media copywriter creating content for a marketing campaign.
 
 BUSINESS CONTEXT:
@@ -83,17 +98,12 @@ Generate {{count}} unique content variations. Each variation should:
 2. Speak directly to the target audience's pain points and desires
 3. Use conversational, authentic language (not corporate speak)
 4. Include a clear call-to-action
-5. Be optimized for {{platform}} (character limits, tone, style)
 
-For Facebook:
-- Headlines: Max 40 characters for best engagement
-- Body: 125-250 characters for feed posts, can be longer for ads
-- Use emojis sparingly and appropriately
+Each variation has a platform-neutral base message plus a tailored version for
+every platform listed below, rewritten for that platform's limits, tone and
+hashtag norms (not just copied).
 
-For Instagram:
-- Headlines: Max 40 characters
-- Body: 125-150 characters for feed, can use more in caption
-- More emoji-friendly, casual tone
+{{platformRules}}
 
 Respond in JSON format:
 {
@@ -104,7 +114,9 @@ Respond in JSON format:
       "ctaText": "Call to action button text",
       "hookSource": "ID of the hook used",
       "audienceSegment": "Target audience name",
-      "platform": "facebook or instagram",
+      "platformVariants": {
+{{variantShape}}
+      },
       "reasoning": "Brief explanation of why this variation works"
     }
   ]
@@ -132,6 +144,8 @@ function buildPrompt(request: GenerationRequest): string {
     .replace('{{hooks}}', hooksText)
     .replace('{{contentType}}', contentType)
     .replace(/\{\{platform\}\}/g, platform === 'both' ? 'Facebook and Instagram' : platform)
+    .replace('{{platformRules}}', buildPlatformRulesText(platform))
+    .replace('{{variantShape}}', buildVariantShape(platform))
     .replace(/\{\{count\}\}/g, count.toString())
 
   // Handle optional founder story
@@ -145,6 +159,34 @@ function buildPrompt(request: GenerationRequest): string {
   return prompt
 }
 
+function buildPlatformRulesText(platform: PlatformSelection): string {
+  return requestedPlatforms(platform)
+    .map((key) => {
+      const rules = PLATFORM_RULES[key]
+      return [
+        `For ${rules.label} ("${key}"):`,
+        `- Headline: Max ${rules.maxHeadlineLength} characters`,
+        `- Body: ${rules.bodyGuidance}; the whole post must stay under ${rules.maxMessageLength} characters`,
+        `- Hashtags: at most ${rules.maxHashtags}, without the # sign`,
+        `- ${rules.styleNotes}`,
+      ].join('\n')
+    })
+    .join('\n\n')
+}
+
+function buildVariantShape(platform: PlatformSelection): string {
+  return requestedPlatforms(platform)
+    .map(
+      (key) =>
+        `        "${key}": { "headline": "...", "body": "...", "ctaText": "...", "hashtags": ["tag"] }`
+    )
+    .join(',\n')
+}
+
+/**
+ * Generate content variations, each with a base message and a variant for
+ * every requested platform (see toContentVariation).
+ */
 export async function generateContent(request: GenerationRequest): Promise<GenerationResponse> {
   const prompt = buildPrompt(request)
 
@@ -171,10 +213,189 @@ export async function generateContent(request: GenerationRequest): Promise<Gener
     throw new Error('Could not parse JSON from Claude response')
   }
 
-  const parsed = JSON.parse(jsonMatch[0])
+  const parsed = JSON.parse(jsonMatch[0]) as { variations: Array<Record<string, unknown>> }
+  const variations = parsed.variations.map((raw) => toContentVariation(raw, request.platform))
+
+  return {
+    variations,
+    metadata: {
+      model: message.model,
+      tokensUsed: message.usage.input_tokens + message.usage.output_tokens,
+      generatedAt: new Date().toISOString(),
+    },
+  }
+}
+
+/**
+ * Like generateContent, but streams the response and hands each variation to
+ * `onVariation` as soon as it has been parsed, waiting for it before reading
+ * on. Aborting `signal` stops generation; variations already handed over are
+ * unaffected.
+ */
+export async function streamContent(
+  request: GenerationRequest,
+  onVariation: (variation: ContentVariation, metadata: Omit<GenerationMetadata, 'tokensUsed'>) => Promise<void>,
+  options: { signal?: AbortSignal } = {}
+): Promise<GenerationResponse> {
+  const prompt = buildPrompt(request)
+  const generatedAt = new Date().toISOString()
+
+  const stream = anthropic.messages.stream(
+    {
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 4096,
+      messages: [{ role: 'user', content: prompt }],
+    },
+    { signal: options.signal }
+  )
+
+  const parser = createJsonArrayStreamParser('variations')
+  const variations: ContentVariation[] = []
+  let model = 'claude-sonnet-4-20250514'
+
+  for await (const event of stream) {
+    if (event.type === 'message_start') {
+      model = event.message.model
+      continue
+    }
+    if (event.type !== 'content_block_delta' || event.delta.type !== 'text_delta') continue
+
+    for (const raw of parser.push(event.delta.text)) {
+      if (!raw || typeof raw !== 'object' || variations.length >= request.count) continue
+      const variation = toContentVariation(raw as Record<string, unknown>, request.platform)
+      variations.push(variation)
+      await onVariation(variation, { model, generatedAt })
+    }
+  }
+
+  const message = await stream.finalMessage()
+  if (variations.length === 0) {
+    throw new Error('Could not parse any variations from Claude response')
+  }
+
+  return {
+    variations,
+    metadata: {
+      model: message.model,
+      tokensUsed: message.usage.input_tokens + message.usage.output_tokens,
+      generatedAt,
+    },
+  }
+}
+
+/**
+ * Normalize one model-produced variation: a base message plus a variant for
+ * every requested platform. Variants the model leaves out fall back to the
+ * base copy, and all variants are clamped to their platform's limits.
+ */
+function toContentVariation(raw: Record<string, unknown>, platform: PlatformSelection): ContentVariation {
+  const base = {
+    headline: String(raw.headline ?? ''),
+    body: String(raw.body ?? ''),
+    ctaText: String(raw.ctaText ?? ''),
+  }
+  const rawVariants = (raw.platformVariants ?? {}) as Record<string, unknown>
+
+  return {
+    ...base,
+    hookSource: String(raw.hookSource ?? ''),
+    audienceSegment: String(raw.audienceSegment ?? ''),
+    platformVariants: Object.fromEntries(
+      requestedPlatforms(platform).map((key) => [key, sanitizePlatformVariant(rawVariants[key], key, base)])
+    ),
+    reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : undefined,
+  }
+}
+
+export interface RefinementRequest {
+  playbook: PlaybookContext
+  targetAudience: string
+  /** The hook the piece leads with; null for pieces without a playbook hook */
+  hook: Hook | null
+  contentType: 'ad' | 'organic_post' | 'story'
+  platform: PlatformSelection
+  current: Pick<ContentVariation, 'headline' | 'body' | 'ctaText'>
+  instructions: string
+}
+
+/**
+ * Rewrite a single content piece following free-text guidance, keeping its
+ * hook, audience and playbook context. Returns the piece in the same shape as
+ * a generated variation.
+ */
+export async function refineContent(
+  request: RefinementRequest
+): Promise<{ variation: ContentVariation; metadata: GenerationMetadata }> {
+  const { playbook, targetAudience, hook, contentType, platform, current } = request
+
+  const audience = playbook.audiences.find((a) => a.name === targetAudience)
+  if (!audience) {
+    throw new Error(`Audience segment "${targetAudience}" not found in playbook`)
+  }
+
+  const prompt = `You are an expert social media copywriter revising one piece of campaign content.
+
+BUSINESS CONTEXT:
+Business: ${playbook.businessName}
+Positioning: ${playbook.positioning}
+${playbook.founderStory ? `Founder Story: ${playbook.founderStory}\n` : ''}
+TARGET AUDIENCE: ${audience.name}
+Description: ${audience.description}
+Pain Points: ${audience.painPoints.join(', ')}
+Desires: ${audience.desires.join(', ')}
+
+HOOK: ${hook ? `[${hook.id}] "${hook.text}" (Angle: ${hook.angle})` : 'None; keep the current opening idea'}
+
+CONTENT TYPE: ${contentType}
+
+CURRENT VERSION:
+Headline: ${current.headline}
+Body: ${current.body}
+CTA: ${current.ctaText}
+
+REVISION INSTRUCTIONS:
+${request.instructions}
+
+Rewrite the piece following the instructions. Keep leading with the same hook
+and speaking to the same audience; change only what the instructions ask for,
+and keep a clear call-to-action. Also rewrite the version for every platform
+listed below.
+
+${buildPlatformRulesText(platform)}
+
+Respond in JSON format:
+{
+  "headline": "...",
+  "body": "...",
+  "ctaText": "...",
+  "platformVariants": {
+${buildVariantShape(platform)}
+  },
+  "reasoning": "Brief explanation of what changed and why"
+}`
+
+  const message = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 2048,
+    messages: [{ role: 'user', content: prompt }],
+  })
+
+  const textContent = message.content.find((c) => c.type === 'text')
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text response from Claude')
+  }
+
+  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    throw new Error('Could not parse JSON from Claude response')
+  }
+
+  const raw = JSON.parse(jsonMatch[0]) as Record<string, unknown>
+  const variation = toContentVariation(raw, platform)
 
   return {
-    variations: parsed.variations,
+    // The hook and audience stay the piece's own, whatever the model reports
+    variation: { ...variation, hookSource: hook?.id ?? '', audienceSegment: audience.name },
     metadata: {
       model: message.model,
       tokensUsed: message.usage.input_tokens + message.usage.output_tokens,
@@ -183,6 +404,87 @@ export async function generateContent(request: GenerationRequest): Promise<Gener
   }
 }
 
+export interface RubricScore {
+  index: number
+  /** 0-10: fit with the playbook's positioning and brand tone */
+  brandVoice: number
+  /** 0-10: how strongly the copy leads with and pays off its hook */
+  hookAlignment: number
+  /** 0-10: how easy the message is to read and act on */
+  clarity: number
+  notes?: string
+}
+
+// Rate generated variations against the brand voice, their hooks and clarity
+export async function scoreContentVariations(input: {
+  businessName: string
+  positioning: string
+  tone?: string
+  doNots?: string[]
+  audience: string
+  hooks: Hook[]
+  variations: Array<Pick<ContentVariation, 'headline' | 'body' | 'ctaText' | 'hookSource'>>
+}): Promise<{ scores: RubricScore[]; model: string; tokensUsed: number }> {
+  const prompt = `You are reviewing social media copy before it goes to a human editor.
+
+BUSINESS: ${input.businessName}
+POSITIONING: ${input.positioning}
+BRAND TONE: ${input.tone || 'Not specified; judge against the positioning'}
+${input.doNots && input.doNots.length > 0 ? `AVOID: ${input.doNots.join('; ')}\n` : ''}TARGET AUDIENCE: ${input.audience}
+
+HOOKS:
+${input.hooks.map((h) => `- [${h.id}] "${h.text}" (Angle: ${h.angle})`).join('\n')}
+
+VARIATIONS:
+${input.variations
+  .map(
+    (v, i) =>
+      `#${i} (hook: ${v.hookSource || 'none'})\nHeadline: ${v.headline}\nBody: ${v.body}\nCTA: ${v.ctaText}`
+  )
+  .join('\n\n')}
+
+Score every variation from 0 to 10 (integers) on:
+- brandVoice: does it sound like this brand's tone and positioning, and avoid anything listed under AVOID?
+- hookAlignment: does it open with its hook and deliver on the hook's angle?
+- clarity: is the message easy to understand, with one clear idea and a clear next step?
+
+Be strict: 7 is good, 9-10 is exceptional.
+
+Respond in JSON:
+{
+  "scores": [
+    { "index": 0, "brandVoice": 0, "hookAlignment": 0, "clarity": 0, "notes": "One sentence on the biggest weakness" }
+  ]
+}`
+
+  const message = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 2048,
+    messages: [{ role: 'user', content: prompt }],
+  })
+
+  const textContent = message.content.find((c) => c.type === 'text')
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text response from Claude')
+  }
+
+  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    throw new Error('Could not parse JSON from Claude response')
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]) as { scores?: RubricScore[] }
+  if (!Array.isArray(parsed.scores)) {
+    throw new Error('Claude response has no scores list')
+  }
+
+  return {
+    scores: parsed.scores,
+    model: message.model,
+    tokensUsed: message.usage.input_tokens + message.usage.output_tokens,
+  }
+}
+
 // Generate playbook from a brief
 export async function generatePlaybookFromBrief(brief: {
   businessName: string
@@ -318,3 +620,105 @@ Respond in JSON:
 
   return JSON.parse(jsonMatch[0])
 }
+
+// Diagnose an escalation and suggest concrete actions the business owner can apply
+export async function analyzeEscalation(escalation: {
+  type: string
+  severity: string
+  title: string
+  description: string | null
+  dataSnapshot: unknown
+  campaign: {
+    name: string
+    status: string
+    targetAudience: string | null
+    budgetDaily: number | null
+    budgetTotal: number | null
+    thresholds: unknown
+  }
+  businessContext: string
+  metrics: {
+    impressions: number
+    clicks: number
+    conversions: number
+    spend: number
+    ctr: number
+    conversionRate: number
+    cpa: number | null
+  }
+  content: Array<{ id: string; headline: string | null; hookSource: string | null; status: string; score: number | null }>
+  hooks: Array<{ id: string; text: string }>
+  recentActivity: Array<{ action: string; actor: string; createdAt: string }>
+  contentReview?: { analysis: string; suggestions: string[] }
+}): Promise<{
+  diagnosis: 'messaging' | 'targeting' | 'product_market_fit'
+  analysis: string
+  recommendation: string
+  suggestedActions: unknown[]
+}> {
+  const prompt = `An automated marketing system raised an escalation that needs a human decision.
+
+ESCALATION: ${escalation.title}
+TYPE: ${escalation.type} (${escalation.severity})
+DETAILS: ${escalation.description || 'None'}
+DATA: ${JSON.stringify(escalation.dataSnapshot ?? {})}
+
+CAMPAIGN: ${escalation.campaign.name} (status: ${escalation.campaign.status})
+TARGET AUDIENCE: ${escalation.campaign.targetAudience || 'Not specified'}
+BUDGET: daily ${escalation.campaign.budgetDaily !== null ? `$${escalation.campaign.budgetDaily}` : 'none'}, total ${escalation.campaign.budgetTotal !== null ? `$${escalation.campaign.budgetTotal}` : 'none'}
+THRESHOLDS: ${JSON.stringify(escalation.campaign.thresholds ?? {})}
+BUSINESS CONTEXT: ${escalation.businessContext}
+
+METRICS (campaign totals):
+- Impressions: ${escalation.metrics.impressions}
+- Clicks: ${escalation.metrics.clicks} (CTR: ${(escalation.metrics.ctr * 100).toFixed(2)}%)
+- Conversions: ${escalation.metrics.conversions} (Conv Rate: ${(escalation.metrics.conversionRate * 100).toFixed(2)}%)
+- Spend: $${escalation.metrics.spend.toFixed(2)}${escalation.metrics.cpa !== null ? ` (CPA: $${escalation.metrics.cpa.toFixed(2)})` : ''}
+
+CONTENT:
+${escalation.content.map((c) => `- [${c.id}] "${c.headline || 'Untitled'}" (hook: ${c.hookSource || 'n/a'}, status: ${c.status}, score: ${c.score ?? 'n/a'})`).join('\n') || '- (none)'}
+
+PLAYBOOK HOOKS:
+${escalation.hooks.map((h) => `- [${h.id}] ${h.text}`).join('\n') || '- (none)'}
+
+RECENT ACTIVITY (newest first):
+${escalation.recentActivity.map((a) => `- ${a.createdAt} ${a.actor}: ${a.action}`).join('\n') || '- (none)'}
+${escalation.contentReview ? `\nREVIEW OF THE AFFECTED CONTENT:\n${escalation.contentReview.analysis}\nSuggestions: ${escalation.contentReview.suggestions.join('; ')}\n` : ''}
+Decide whether the underlying problem is primarily messaging, targeting, or product/market fit, explain why, and recommend what the business owner should do next.
+
+Then suggest up to 4 actions the owner can apply with one click. Only use these types, with exactly these params:
+- "pause_campaign": {}
+- "pause_content": {"contentId": "<id from CONTENT>"}
+- "generate_content": {"hookIds": ["<ids from PLAYBOOK HOOKS>"], "count": 1-5}
+- "update_budget": {"budgetDaily": number, "budgetTotal": number} (either or both)
+- "update_target_audience": {"targetAudience": "..."}
+- "create_task": {"title": "...", "description": "..."} (for anything that needs a person)
+
+Respond in JSON:
+{
+  "diagnosis": "messaging" | "targeting" | "product_market_fit",
+  "analysis": "...",
+  "recommendation": "...",
+  "suggestedActions": [
+    { "type": "...", "label": "Short button label", "reason": "One sentence", "params": {...} }
+  ]
+}`
+
+  const message = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 1536,
+    messages: [{ role: 'user', content: prompt }],
+  })
+
+  const textContent = message.content.find((c) => c.type === 'text')
+  if (!textContent || textContent.type !== 'text') {
+    throw new Error('No text response from Claude')
+  }
+
+  const jsonMatch = textContent.text.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    throw new Error('Could not parse JSON from Claude response')
+  }
+
+  return JSON.parse(jsonMatch[0])
+}
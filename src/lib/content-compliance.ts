@@ -0,0 +1,428 @@
+import prisma from './prisma'
+import { PLATFORM_RULES, VariantPlatform } from './platform-variants'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ViolationSeverity = 'critical' | 'warning'
+
+export type ComplianceRuleKind =
+  | 'forbidden_term'
+  | 'required_disclaimer'
+  | 'regulated_claim'
+  | 'emoji_limit'
+  | 'all_caps'
+  | 'meta_policy'
+
+export interface ComplianceViolation {
+  rule: ComplianceRuleKind
+  ruleId: string
+  severity: ViolationSeverity
+  message: string
+  /** "headline", "body", "ctaText" or e.g. "platformVariants.instagram.body" */
+  field: string
+  /** Character offsets into the field; null when the problem is something missing */
+  span: { start: number; end: number } | null
+  text?: string
+}
+
+/** Stored on Content.complianceCheck after every create and edit */
+export interface ComplianceCheck {
+  violations: ComplianceViolation[]
+  critical: number
+  warnings: number
+  checkedAt: string
+}
+
+export interface ClaimRule {
+  id: string
+  /** Case-insensitive regular expression source */
+  pattern: string
+  message: string
+  severity: ViolationSeverity
+}
+
+export interface DisclaimerRule {
+  text: string
+  /** Content types the disclaimer applies to; all types when omitted */
+  contentTypes?: string[]
+}
+
+/**
+ * A business's content rules, read from `Business.settings.contentRules`.
+ * The built-in claim and Meta policy checks always run alongside them.
+ */
+export interface ContentRules {
+  forbiddenTerms: string[]
+  requiredDisclaimers: DisclaimerRule[]
+  regulatedClaims: ClaimRule[]
+  /** Per field; null for no limit */
+  maxEmojis: number | null
+  /** Per field; null for no limit */
+  maxAllCapsWords: number | null
+  metaPolicyChecks: boolean
+}
+
+export interface LintableContent {
+  type: string
+  headline: string | null
+  body: string | null
+  ctaText: string | null
+  platformVariants?: unknown
+}
+
+export const DEFAULT_CONTENT_RULES: ContentRules = {
+  forbiddenTerms: [],
+  requiredDisclaimers: [],
+  regulatedClaims: [],
+  maxEmojis: 6,
+  maxAllCapsWords: 3,
+  metaPolicyChecks: true,
+}
+
+/** Claims that need substantiation whatever the business */
+export const BUILT_IN_CLAIM_RULES: ClaimRule[] = [
+  {
+    id: 'health_claim',
+    pattern: String.raw`\b(?:cures?|heals?|treats?|prevents?|reverses?)\b[^.!?\n]{0,40}\b(?:disease|cancer|diabetes|anxiety|depression|illness|infection|arthritis)\b`,
+    message: 'Health claims are regulated and need substantiation',
+    severity: 'critical',
+  },
+  {
+    id: 'earnings_claim',
+    pattern: String.raw`\b(?:make|earn)\s+\$?\d[\d,.]*k?\b[^.!?\n]{0,30}\b(?:a|per|every)\s+(?:day|week|month)\b`,
+    message: 'Earnings claims need substantiation',
+    severity: 'critical',
+  },
+  {
+    id: 'guarantee',
+    pattern: String.raw`\bguarantee[ds]?\b`,
+    message: 'Guarantees need terms that back them up',
+    severity: 'warning',
+  },
+  {
+    id: 'risk_free',
+    pattern: String.raw`\b(?:risk[- ]free|no risk)\b`,
+    message: '"Risk-free" is an unverifiable claim',
+    severity: 'warning',
+  },
+  {
+    id: 'superlative',
+    pattern: String.raw`(?:^|\s)#1\b|\bnumber one\b|\bbest in the (?:world|country)\b`,
+    message: 'Superlative claims need a source',
+    severity: 'warning',
+  },
+  {
+    id: 'absolute',
+    pattern: String.raw`\b100\s?% (?:effective|safe|natural|guaranteed)\b`,
+    message: 'Absolute claims are rarely verifiable',
+    severity: 'warning',
+  },
+]
+
+/**
+ * Heuristics for Meta's advertising policies. They block approval of ads
+ * only; on organic posts they are warnings.
+ */
+export const META_POLICY_RULES: Array<Omit<ClaimRule, 'severity'>> = [
+  {
+    id: 'personal_attributes',
+    pattern: String.raw`\b(?:are you|you're|you are)\s+(?:still\s+|so\s+)?(?:overweight|fat|obese|depressed|anxious|diabetic|divorced|single|broke|in debt|pregnant|unemployed|bankrupt)\b`,
+    message: "Meta ad policy: copy can't assert or imply a person's attributes",
+  },
+  {
+    id: 'weight_loss_timeframe',
+    pattern: String.raw`\blose\s+\d+\s*(?:lbs?|pounds|kg|kilos)\b[^.!?\n]{0,20}\b(?:in|within)\s+\d+\s*(?:days?|weeks?)\b`,
+    message: 'Meta ad policy: no weight loss claims with a timeframe',
+  },
+  {
+    id: 'before_after',
+    pattern: String.raw`\bbefore\s+(?:and|&)\s+after\b`,
+    message: 'Meta ad policy: before-and-after claims are restricted',
+  },
+  {
+    id: 'engagement_bait',
+    pattern: String.raw`\b(?:tag a friend|like (?:and|&) share|share (?:this )?if you|like (?:this )?if you|comment \S+ (?:below )?if)\b`,
+    message: 'Meta demotes engagement bait',
+  },
+]
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+/**
+ * Read a business's content rules from `Business.settings.contentRules`,
+ * adding the playbook's `visualDirection.doNots` to the forbidden terms.
+ * Malformed entries are skipped.
+ */
+export function getContentRules(settings: unknown, doNots?: unknown): ContentRules {
+  const raw = ((settings as { contentRules?: Record<string, unknown> } | null)?.contentRules ?? {}) as Record<
+    string,
+    unknown
+  >
+
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim()) : []
+  const limit = (value: unknown, fallback: number | null) =>
+    value === null ? null : typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : fallback
+
+  const requiredDisclaimers: DisclaimerRule[] = []
+  for (const entry of Array.isArray(raw.requiredDisclaimers) ? raw.requiredDisclaimers : []) {
+    if (typeof entry === 'string' && entry.trim()) {
+      requiredDisclaimers.push({ text: entry.trim() })
+    } else if (entry && typeof entry === 'object' && typeof entry.text === 'string' && entry.text.trim()) {
+      requiredDisclaimers.push({
+        text: entry.text.trim(),
+        contentTypes: Array.isArray(entry.contentTypes) ? strings(entry.contentTypes) : undefined,
+      })
+    }
+  }
+
+  const regulatedClaims: ClaimRule[] = []
+  const claims = Array.isArray(raw.regulatedClaims) ? raw.regulatedClaims : []
+  claims.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object' || typeof entry.pattern !== 'string' || !isValidPattern(entry.pattern)) return
+    regulatedClaims.push({
+      id: typeof entry.id === 'string' && entry.id ? entry.id : `custom_${index + 1}`,
+      pattern: entry.pattern,
+      message: typeof entry.message === 'string' && entry.message ? entry.message : 'Regulated claim needs review',
+      severity: entry.severity === 'warning' ? 'warning' : 'critical',
+    })
+  })
+
+  return {
+    forbiddenTerms: [...new Set([...strings(raw.forbiddenTerms), ...strings(doNots)])],
+    requiredDisclaimers,
+    regulatedClaims,
+    maxEmojis: limit(raw.maxEmojis, DEFAULT_CONTENT_RULES.maxEmojis),
+    maxAllCapsWords: limit(raw.maxAllCapsWords, DEFAULT_CONTENT_RULES.maxAllCapsWords),
+    metaPolicyChecks: raw.metaPolicyChecks !== false,
+  }
+}
+
+/**
+ * Validate `settings.contentRules` before it is saved. Returns field errors
+ * keyed like validationErrorResponse expects; empty when valid.
+ */
+export function validateContentRules(value: unknown): Record<string, string> {
+  const errors: Record<string, string> = {}
+  if (value === undefined) return errors
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { contentRules: 'Content rules must be an object' }
+  }
+
+  const rules = value as Record<string, unknown>
+  for (const key of ['maxEmojis', 'maxAllCapsWords'] as const) {
+    const limit = rules[key]
+    if (limit !== undefined && limit !== null && !(typeof limit === 'number' && Number.isInteger(limit) && limit >= 0)) {
+      errors[key] = `${key} must be a whole number of 0 or more, or null`
+    }
+  }
+
+  if (rules.regulatedClaims !== undefined) {
+    if (!Array.isArray(rules.regulatedClaims)) {
+      errors.regulatedClaims = 'regulatedClaims must be a list'
+    } else {
+      const invalid = rules.regulatedClaims.find(
+        (c) => !c || typeof c !== 'object' || typeof c.pattern !== 'string' || !isValidPattern(c.pattern)
+      )
+      if (invalid) errors.regulatedClaims = `Invalid claim pattern: ${JSON.stringify(invalid?.pattern ?? invalid)}`
+    }
+  }
+
+  for (const key of ['forbiddenTerms', 'requiredDisclaimers'] as const) {
+    if (rules[key] !== undefined && !Array.isArray(rules[key])) {
+      errors[key] = `${key} must be a list`
+    }
+  }
+
+  return errors
+}
+
+/** Load the rules that apply to a campaign's content */
+export async function loadCampaignContentRules(campaignId: string): Promise<ContentRules> {
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: { playbook: { select: { visualDirection: true, business: { select: { settings: true } } } } },
+  })
+  const visualDirection = campaign.playbook.visualDirection as { doNots?: unknown } | null
+  return getContentRules(campaign.playbook.business.settings, visualDirection?.doNots)
+}
+
+// =============================================================================
+// Linting
+// =============================================================================
+
+/**
+ * Check a content piece's base copy and platform variants against the rules.
+ * Variant fields identical to the base copy are not checked twice.
+ */
+export function lintContent(content: LintableContent, rules: ContentRules, now = new Date()): ComplianceCheck {
+  const violations: ComplianceViolation[] = []
+  const base = { headline: content.headline ?? '', body: content.body ?? '', ctaText: content.ctaText ?? '' }
+
+  const messages: Array<{ prefix: string; copy: typeof base; hashtags: string[] }> = [
+    { prefix: '', copy: base, hashtags: [] },
+  ]
+  const variants = (content.platformVariants ?? {}) as Record<string, Record<string, unknown> | undefined>
+  for (const platform of Object.keys(PLATFORM_RULES) as VariantPlatform[]) {
+    const variant = variants[platform]
+    if (!variant) continue
+    messages.push({
+      prefix: `platformVariants.${platform}.`,
+      copy: {
+        headline: typeof variant.headline === 'string' ? variant.headline : base.headline,
+        body: typeof variant.body === 'string' ? variant.body : base.body,
+        ctaText: typeof variant.ctaText === 'string' ? variant.ctaText : base.ctaText,
+      },
+      hashtags: Array.isArray(variant.hashtags) ? variant.hashtags.filter((t): t is string => typeof t === 'string') : [],
+    })
+  }
+
+  for (const message of messages) {
+    for (const key of ['headline', 'body', 'ctaText'] as const) {
+      const text = message.copy[key]
+      if (!text || (message.prefix && text === base[key])) continue
+      violations.push(...lintField(`${message.prefix}${key}`, text, content.type, rules))
+    }
+    if (message.hashtags.length > 0) {
+      violations.push(...lintField(`${message.prefix}hashtags`, message.hashtags.join(' '), content.type, rules))
+    }
+
+    for (const disclaimer of rules.requiredDisclaimers) {
+      if (disclaimer.contentTypes && !disclaimer.contentTypes.includes(content.type)) continue
+      const copy = `${message.copy.body}\n${message.copy.ctaText}`.toLowerCase()
+      if (copy.includes(disclaimer.text.toLowerCase())) continue
+      violations.push({
+        rule: 'required_disclaimer',
+        ruleId: disclaimer.text,
+        severity: 'critical',
+        message: `Missing required disclaimer: "${disclaimer.text}"`,
+        field: `${message.prefix}body`,
+        span: null,
+      })
+    }
+  }
+
+  return {
+    violations,
+    critical: violations.filter((v) => v.severity === 'critical').length,
+    warnings: violations.filter((v) => v.severity === 'warning').length,
+    checkedAt: now.toISOString(),
+  }
+}
+
+export function hasCriticalViolations(check: ComplianceCheck): boolean {
+  return check.critical > 0
+}
+
+function lintField(field: string, text: string, contentType: string, rules: ContentRules): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = []
+
+  for (const term of rules.forbiddenTerms) {
+    for (const match of matchAll(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, 'giu'), text)) {
+      violations.push({
+        rule: 'forbidden_term',
+        ruleId: term,
+        severity: 'critical',
+        message: `"${match.text}" is on the forbidden list`,
+        field,
+        span: match.span,
+        text: match.text,
+      })
+    }
+  }
+
+  for (const claim of [...BUILT_IN_CLAIM_RULES, ...rules.regulatedClaims]) {
+    for (const match of matchAll(new RegExp(claim.pattern, 'giu'), text)) {
+      violations.push({
+        rule: 'regulated_claim',
+        ruleId: claim.id,
+        severity: claim.severity,
+        message: claim.message,
+        field,
+        span: match.span,
+        text: match.text,
+      })
+    }
+  }
+
+  if (rules.metaPolicyChecks) {
+    for (const policy of META_POLICY_RULES) {
+      for (const match of matchAll(new RegExp(policy.pattern, 'giu'), text)) {
+        violations.push({
+          rule: 'meta_policy',
+          ruleId: policy.id,
+          severity: contentType === 'ad' ? 'critical' : 'warning',
+          message: policy.message,
+          field,
+          span: match.span,
+          text: match.text,
+        })
+      }
+    }
+  }
+
+  if (rules.maxEmojis !== null) {
+    const emojis = matchAll(/\p{Extended_Pictographic}/gu, text)
+    for (const match of emojis.slice(rules.maxEmojis)) {
+      violations.push({
+        rule: 'emoji_limit',
+        ruleId: 'max_emojis',
+        severity: 'warning',
+        message: `More than ${rules.maxEmojis} emojis (${emojis.length})`,
+        field,
+        span: match.span,
+        text: match.text,
+      })
+    }
+  }
+
+  if (rules.maxAllCapsWords !== null) {
+    const words = matchAll(/(?<![\p{L}\p{N}])\p{Lu}{3,}(?![\p{L}\p{N}])/gu, text)
+    for (const match of words.slice(rules.maxAllCapsWords)) {
+      violations.push({
+        rule: 'all_caps',
+        ruleId: 'max_all_caps_words',
+        severity: 'warning',
+        message: `More than ${rules.maxAllCapsWords} all-caps words (${words.length})`,
+        field,
+        span: match.span,
+        text: match.text,
+      })
+    }
+  }
+
+  return violations
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function matchAll(pattern: RegExp, text: string): Array<{ text: string; span: { start: number; end: number } }> {
+  return [...text.matchAll(pattern)]
+    .filter((m) => m[0].trim() !== '')
+    .map((m) => {
+      // Patterns may match a leading space (e.g. before "#1"); the span covers the claim itself
+      const lead = m[0].length - m[0].trimStart().length
+      const matched = m[0].trim()
+      return { text: matched, span: { start: m.index! + lead, end: m.index! + lead + matched.length } }
+    })
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function isValidPattern(pattern: string): boolean {
+  if (!pattern.trim()) return false
+  try {
+    new RegExp(pattern, 'giu')
+    return true
+  } catch {
+    return false
+  }
+}
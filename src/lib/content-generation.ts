@@ -0,0 +1,197 @@
+import prisma from './prisma'
+import { Prisma, Playbook } from '@prisma/client'
+import { PlaybookContext, Hook, AudienceSegment, ContentVariation, GenerationMetadata, GenerationRequest } from './claude'
+import { lintContent, loadCampaignContentRules } from './content-compliance'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type GeneratedContentType = 'ad' | 'organic_post' | 'story'
+
+export interface GenerationInput {
+  campaignId?: string
+  count?: number
+  contentType?: GeneratedContentType
+  platform?: 'facebook' | 'instagram' | 'both'
+  /** Specific hooks to use (optional) */
+  hookIds?: string[]
+  /** Discard and replace variations scoring below this (0-100, optional) */
+  minQualityScore?: number
+}
+
+export type PreparedGeneration =
+  | {
+      status: 'ok'
+      campaignId: string
+      contentType: GeneratedContentType
+      request: GenerationRequest
+      minQualityScore?: number
+    }
+  | { status: 'rejected'; code: 400 | 404; error: string }
+
+export interface SaveGeneratedContentInput {
+  campaignId: string
+  contentType: GeneratedContentType
+  result: { variations: ContentVariation[]; metadata: Omit<GenerationMetadata, 'tokensUsed'> }
+  /** Extra fields merged into each row's generationMetadata (e.g. who queued it) */
+  metadata?: Record<string, unknown>
+}
+
+// =============================================================================
+// Playbook Context
+// =============================================================================
+
+/**
+ * Build the prompt context for content generation from a playbook.
+ * Callers are expected to have checked that positioning, hooks and audiences exist.
+ */
+export function buildPlaybookContext(
+  playbook: Playbook & { business: { name: string } }
+): PlaybookContext {
+  return {
+    businessName: playbook.business.name,
+    positioning: playbook.positioning || '',
+    founderStory: playbook.founderStory || undefined,
+    audiences: playbook.audiences as unknown as AudienceSegment[],
+    hooks: playbook.hooks as unknown as Hook[],
+    keyMessages: playbook.keyMessages as unknown as Record<string, string[]> | undefined,
+    objectionHandlers: playbook.objectionHandlers as unknown as Record<string, string> | undefined,
+    visualDirection: (playbook.visualDirection as Record<string, unknown> | null) ?? undefined,
+  }
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+/**
+ * Validate a generation request from the API and build the prompt input from
+ * the campaign's playbook. Shared by the blocking and streaming endpoints.
+ */
+export async function prepareGeneration(input: GenerationInput): Promise<PreparedGeneration> {
+  if (!input.campaignId) {
+    return { status: 'rejected', code: 400, error: 'Campaign ID is required' }
+  }
+
+  if (input.platform && !['facebook', 'instagram', 'both'].includes(input.platform)) {
+    return { status: 'rejected', code: 400, error: 'Platform must be "facebook", "instagram" or "both"' }
+  }
+
+  if (
+    input.minQualityScore !== undefined &&
+    (typeof input.minQualityScore !== 'number' || input.minQualityScore < 0 || input.minQualityScore > 100)
+  ) {
+    return { status: 'rejected', code: 400, error: 'minQualityScore must be a number between 0 and 100' }
+  }
+
+  // Get campaign with playbook
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: input.campaignId },
+    include: {
+      playbook: {
+        include: {
+          business: true,
+        },
+      },
+    },
+  })
+
+  if (!campaign) {
+    return { status: 'rejected', code: 404, error: 'Campaign not found' }
+  }
+
+  if (!campaign.playbook) {
+    return { status: 'rejected', code: 400, error: 'Campaign has no associated playbook' }
+  }
+
+  const playbook = campaign.playbook
+
+  // Validate playbook has required data
+  if (!playbook.positioning) {
+    return { status: 'rejected', code: 400, error: 'Playbook must have positioning defined' }
+  }
+
+  if (!playbook.hooks || !Array.isArray(playbook.hooks) || playbook.hooks.length === 0) {
+    return { status: 'rejected', code: 400, error: 'Playbook must have hooks defined' }
+  }
+
+  if (!playbook.audiences || !Array.isArray(playbook.audiences) || playbook.audiences.length === 0) {
+    return { status: 'rejected', code: 400, error: 'Playbook must have audiences defined' }
+  }
+
+  const playbookContext = buildPlaybookContext(playbook)
+
+  // Select hooks to use
+  let hooks = playbookContext.hooks
+  if (input.hookIds && input.hookIds.length > 0) {
+    hooks = hooks.filter((h) => input.hookIds!.includes(h.id))
+    if (hooks.length === 0) {
+      return { status: 'rejected', code: 400, error: 'No valid hooks found matching provided IDs' }
+    }
+  }
+
+  const contentType = input.contentType || 'organic_post'
+
+  return {
+    status: 'ok',
+    campaignId: campaign.id,
+    contentType,
+    request: {
+      playbook: playbookContext,
+      // Campaign's target audience, or the playbook's first
+      targetAudience: campaign.targetAudience || playbookContext.audiences[0].name,
+      hooks,
+      contentType,
+      platform: input.platform || 'both',
+      count: input.count || 5,
+    },
+    minQualityScore: input.minQualityScore,
+  }
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+/**
+ * Store each generated variation as a `generated` content row on the campaign,
+ * with its per-platform variants under `platformVariants` and its quality
+ * score, when it was scored, under `generationMetadata.quality`. Each row is
+ * linted against the business's content rules on the way in.
+ */
+export async function saveGeneratedContent(input: SaveGeneratedContentInput) {
+  const { campaignId, contentType, result, metadata } = input
+  const rules = await loadCampaignContentRules(campaignId)
+
+  return Promise.all(
+    result.variations.map((variation) =>
+      prisma.content.create({
+        data: {
+          campaignId,
+          type: contentType,
+          status: 'generated',
+          headline: variation.headline,
+          body: variation.body,
+          ctaText: variation.ctaText,
+          hookSource: variation.hookSource,
+          audienceSegment: variation.audienceSegment,
+          platformVariants: variation.platformVariants as unknown as Prisma.InputJsonValue,
+          complianceCheck: lintContent({ ...variation, type: contentType }, rules) as unknown as Prisma.InputJsonValue,
+          generationMetadata: {
+            model: result.metadata.model,
+            generatedAt: result.metadata.generatedAt,
+            reasoning: variation.reasoning,
+            quality: variation.quality,
+            ...metadata,
+          } as Prisma.InputJsonValue,
+        },
+        include: {
+          campaign: {
+            select: { id: true, name: true },
+          },
+        },
+      })
+    )
+  )
+}
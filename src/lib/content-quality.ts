@@ -0,0 +1,383 @@
+import {
+  ContentVariation,
+  GenerationMetadata,
+  GenerationRequest,
+  GenerationResponse,
+  RubricScore,
+  generateContent,
+  scoreContentVariations,
+  streamContent,
+} from './claude'
+import { PLATFORM_RULES, PlatformVariant, VariantPlatform } from './platform-variants'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type QualityDimension = 'brandVoice' | 'hookAlignment' | 'clarity' | 'lengthCompliance' | 'ctaPresence'
+
+/**
+ * A variation's quality, stored under Content.generationMetadata.quality.
+ * Dimensions are 0-10; `overall` is their weighted average scaled to 0-100.
+ * brandVoice and clarity are null when the LLM rubric couldn't be run, and
+ * hookAlignment when no hook was requested; `overall` is then computed from
+ * the remaining dimensions.
+ */
+export interface QualityScore {
+  overall: number
+  dimensions: Record<QualityDimension, number | null>
+  issues: string[]
+  notes?: string
+  rubricModel?: string
+  rubricError?: string
+  scoredAt: string
+}
+
+export interface DiscardedVariation {
+  variation: ContentVariation
+  quality: QualityScore
+  round: number
+}
+
+export interface ScoredGenerationResponse extends GenerationResponse {
+  /** Variations scored below `minScore` and replaced */
+  discarded: DiscardedVariation[]
+  quality: {
+    minScore: number | null
+    rounds: number
+    /** Set when a replacement round failed; the variations kept so far are still returned */
+    regenerationError?: string
+  }
+}
+
+export const QUALITY_WEIGHTS: Record<QualityDimension, number> = {
+  brandVoice: 0.25,
+  hookAlignment: 0.25,
+  clarity: 0.2,
+  lengthCompliance: 0.15,
+  ctaPresence: 0.15,
+}
+
+/** Replacement rounds after the first batch when variations fall below the threshold */
+export const MAX_REGENERATION_ROUNDS = 2
+
+/** Variations scored per rubric call while streaming */
+export const STREAM_SCORING_BATCH_SIZE = 3
+
+/** CTAs are button-like; anything longer reads as a second body */
+const MAX_CTA_LENGTH = 60
+
+// =============================================================================
+// Deterministic Checks
+// =============================================================================
+
+/**
+ * Score body length against the platform's recommended range. Short bodies
+ * lose points in proportion; long ones are allowed (both platforms tolerate
+ * longer copy) but lose a little, and breaking the hard limit scores 0.
+ */
+export function scoreVariantLength(
+  variant: PlatformVariant,
+  platform: VariantPlatform
+): { score: number; issue?: string } {
+  const rules = PLATFORM_RULES[platform]
+  const { min, max } = rules.recommendedBodyLength
+  const length = variant.body.length
+
+  const message = [variant.headline, variant.body, variant.ctaText, variant.hashtags.join(' ')]
+    .filter(Boolean)
+    .join('\n\n')
+  if (message.length > rules.maxMessageLength) {
+    return { score: 0, issue: `${rules.label} post exceeds ${rules.maxMessageLength} characters` }
+  }
+
+  if (length < min) {
+    return {
+      score: Math.round((10 * length) / min),
+      issue: `${rules.label} body is ${length} characters, under the recommended ${min}-${max}`,
+    }
+  }
+  if (length <= max) return { score: 10 }
+  if (length <= max * 2) {
+    return { score: 8, issue: `${rules.label} body is ${length} characters, over the recommended ${min}-${max}` }
+  }
+  return { score: 6, issue: `${rules.label} body is ${length} characters, well over the recommended ${min}-${max}` }
+}
+
+export function scoreLengthCompliance(variation: ContentVariation): { score: number; issues: string[] } {
+  const variants = Object.entries(variation.platformVariants) as Array<[VariantPlatform, PlatformVariant]>
+  if (variants.length === 0) {
+    variants.push(['facebook', { ...variation, hashtags: [] }])
+  }
+
+  const results = variants.map(([platform, variant]) => scoreVariantLength(variant, platform))
+  return {
+    score: Math.min(...results.map((r) => r.score)),
+    issues: results.flatMap((r) => (r.issue ? [r.issue] : [])),
+  }
+}
+
+export function scoreCtaPresence(variation: ContentVariation): { score: number; issues: string[] } {
+  const ctas = [variation.ctaText, ...Object.values(variation.platformVariants).map((v) => v?.ctaText ?? '')]
+
+  if (ctas.some((cta) => !cta.trim())) {
+    return { score: 0, issues: ['Missing call to action'] }
+  }
+  if (ctas.some((cta) => cta.length > MAX_CTA_LENGTH)) {
+    return { score: 6, issues: [`Call to action is longer than ${MAX_CTA_LENGTH} characters`] }
+  }
+  return { score: 10, issues: [] }
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * Weighted average of the available dimensions, scaled to 0-100. Missing
+ * (null) dimensions drop out and the remaining weights are renormalized.
+ */
+export function combineQualityScore(dimensions: Record<QualityDimension, number | null>): number {
+  let total = 0
+  let weight = 0
+  for (const [dimension, score] of Object.entries(dimensions) as Array<[QualityDimension, number | null]>) {
+    if (score === null) continue
+    total += QUALITY_WEIGHTS[dimension] * clampScore(score)
+    weight += QUALITY_WEIGHTS[dimension]
+  }
+  return weight === 0 ? 0 : Math.round((total / weight) * 10)
+}
+
+/**
+ * Combine the deterministic checks with an LLM rubric result (if any) into a
+ * QualityScore. A hook that isn't one of the requested hooks scores 0 on hook
+ * alignment whatever the rubric says; without a rubric, a valid hook scores 10.
+ * Copy written without a hook isn't scored on hook alignment at all.
+ */
+export function buildQualityScore(
+  variation: ContentVariation,
+  hookIds: string[],
+  rubric: { score?: RubricScore; model?: string; error?: string },
+  now = new Date()
+): QualityScore {
+  const length = scoreLengthCompliance(variation)
+  const cta = scoreCtaPresence(variation)
+  const issues = [...length.issues, ...cta.issues]
+
+  const hooked = hookIds.length > 0
+  const hookValid = hookIds.includes(variation.hookSource)
+  if (hooked && !hookValid) {
+    issues.push(`Hook "${variation.hookSource || 'none'}" is not one of the requested hooks`)
+  }
+
+  const dimensions: Record<QualityDimension, number | null> = {
+    brandVoice: rubric.score ? clampScore(rubric.score.brandVoice) : null,
+    hookAlignment: !hooked ? null : !hookValid ? 0 : rubric.score ? clampScore(rubric.score.hookAlignment) : 10,
+    clarity: rubric.score ? clampScore(rubric.score.clarity) : null,
+    lengthCompliance: length.score,
+    ctaPresence: cta.score,
+  }
+
+  return {
+    overall: combineQualityScore(dimensions),
+    dimensions,
+    issues,
+    notes: rubric.score?.notes,
+    rubricModel: rubric.score ? rubric.model : undefined,
+    rubricError: rubric.error,
+    scoredAt: now.toISOString(),
+  }
+}
+
+/**
+ * Score a batch of variations for a generation request. The rubric is one
+ * batched LLM call; if it fails, or skips a variation, the deterministic
+ * checks still produce a score.
+ */
+export async function scoreVariations(
+  request: GenerationRequest,
+  variations: ContentVariation[]
+): Promise<{ scores: QualityScore[]; tokensUsed: number }> {
+  if (variations.length === 0) return { scores: [], tokensUsed: 0 }
+
+  const visualDirection = request.playbook.visualDirection ?? {}
+  let rubric: { scores: RubricScore[]; model: string; tokensUsed: number } | null = null
+  let rubricError: string | undefined
+
+  try {
+    rubric = await scoreContentVariations({
+      businessName: request.playbook.businessName,
+      positioning: request.playbook.positioning,
+      tone: typeof visualDirection.tone === 'string' ? visualDirection.tone : undefined,
+      doNots: Array.isArray(visualDirection.doNots) ? (visualDirection.doNots as string[]) : undefined,
+      audience: request.targetAudience,
+      hooks: request.hooks,
+      variations,
+    })
+  } catch (err) {
+    rubricError = err instanceof Error ? err.message : 'Unknown error'
+  }
+
+  const hookIds = request.hooks.map((h) => h.id)
+  const scores = variations.map((variation, index) => {
+    const score = rubric?.scores.find((s) => s.index === index)
+    return buildQualityScore(variation, hookIds, {
+      score,
+      model: rubric?.model,
+      error: rubricError ?? (rubric && !score ? 'Rubric returned no score for this variation' : undefined),
+    })
+  })
+
+  return { scores, tokensUsed: rubric?.tokensUsed ?? 0 }
+}
+
+// =============================================================================
+// Scored Generation
+// =============================================================================
+
+/**
+ * Generate and score variations. With `minScore`, variations scoring below it
+ * are discarded and replacements generated, for up to MAX_REGENERATION_ROUNDS
+ * extra rounds; the result may hold fewer than `count` variations if the
+ * replacements keep falling short.
+ */
+export async function generateScoredContent(
+  request: GenerationRequest,
+  options: { minScore?: number } = {}
+): Promise<ScoredGenerationResponse> {
+  const minScore = options.minScore ?? null
+  const first = await generateContent(request)
+
+  const kept: ContentVariation[] = []
+  const discarded: DiscardedVariation[] = []
+  let tokensUsed = first.metadata.tokensUsed
+  let batch = first.variations
+  let round = 0
+  let regenerationError: string | undefined
+
+  while (true) {
+    const scored = await scoreVariations(request, batch)
+    tokensUsed += scored.tokensUsed
+
+    batch.forEach((variation, i) => {
+      const quality = scored.scores[i]
+      if (minScore !== null && quality.overall < minScore) {
+        discarded.push({ variation: { ...variation, quality }, quality, round })
+      } else {
+        kept.push({ ...variation, quality })
+      }
+    })
+
+    const missing = request.count - kept.length
+    if (minScore === null || missing <= 0 || round >= MAX_REGENERATION_ROUNDS) break
+
+    round++
+    try {
+      const replacement = await generateContent({ ...request, count: missing })
+      tokensUsed += replacement.metadata.tokensUsed
+      batch = replacement.variations.slice(0, missing)
+    } catch (err) {
+      regenerationError = err instanceof Error ? err.message : 'Unknown error'
+      break
+    }
+  }
+
+  return {
+    variations: kept,
+    discarded,
+    metadata: { ...first.metadata, tokensUsed },
+    quality: { minScore, rounds: round + 1, regenerationError },
+  }
+}
+
+/**
+ * Streaming counterpart of generateScoredContent. Variations are scored in
+ * groups of STREAM_SCORING_BATCH_SIZE as they arrive (a round's remainder
+ * when it ends), so a round costs a rubric call per group rather than per
+ * variation; each is then handed to `onVariation` (kept) or `onDiscarded`.
+ * Replacement rounds stream too. When `signal` aborts, generation stops and
+ * the abort error is thrown; everything already handed over stays handed
+ * over, and variations still waiting to be scored are dropped.
+ */
+export async function streamScoredContent(
+  request: GenerationRequest,
+  handlers: {
+    onVariation: (variation: ContentVariation, metadata: Omit<GenerationMetadata, 'tokensUsed'>) => Promise<void>
+    onDiscarded?: (discarded: DiscardedVariation) => Promise<void>
+  },
+  options: { minScore?: number; signal?: AbortSignal } = {}
+): Promise<ScoredGenerationResponse> {
+  const minScore = options.minScore ?? null
+  const kept: ContentVariation[] = []
+  const discarded: DiscardedVariation[] = []
+  let metadata: GenerationMetadata | null = null
+  let tokensUsed = 0
+  let round = 0
+  let regenerationError: string | undefined
+  let unscored: Array<{ variation: ContentVariation; metadata: Omit<GenerationMetadata, 'tokensUsed'> }> = []
+
+  const scoreUnscored = async () => {
+    if (unscored.length === 0) return
+    const batch = unscored
+    unscored = []
+    const scored = await scoreVariations(request, batch.map((b) => b.variation))
+    tokensUsed += scored.tokensUsed
+
+    for (const [i, { variation, metadata: streamMetadata }] of batch.entries()) {
+      const quality = scored.scores[i]
+      if (minScore !== null && quality.overall < minScore) {
+        const entry = { variation: { ...variation, quality }, quality, round }
+        discarded.push(entry)
+        await handlers.onDiscarded?.(entry)
+      } else {
+        kept.push({ ...variation, quality })
+        await handlers.onVariation({ ...variation, quality }, streamMetadata)
+      }
+    }
+  }
+
+  while (true) {
+    const missing = request.count - kept.length
+    try {
+      const result = await streamContent(
+        { ...request, count: missing },
+        async (variation, streamMetadata) => {
+          unscored.push({ variation, metadata: streamMetadata })
+          if (unscored.length >= STREAM_SCORING_BATCH_SIZE) await scoreUnscored()
+        },
+        { signal: options.signal }
+      )
+      await scoreUnscored()
+      metadata ??= result.metadata
+      tokensUsed += result.metadata.tokensUsed
+    } catch (err) {
+      if (options.signal?.aborted) throw err
+      // Variations that arrived before a failure are still worth keeping
+      await scoreUnscored()
+      // The first round failing is the caller's problem; a failed
+      // replacement round just ends the run with what's been kept
+      if (round === 0) throw err
+      regenerationError = err instanceof Error ? err.message : 'Unknown error'
+      break
+    }
+
+    if (minScore === null || kept.length >= request.count || round >= MAX_REGENERATION_ROUNDS) break
+    round++
+  }
+
+  return {
+    variations: kept,
+    discarded,
+    metadata: { ...metadata!, tokensUsed },
+    quality: { minScore, rounds: round + 1, regenerationError },
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function clampScore(value: unknown): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? value : 0
+  return Math.min(Math.max(n, 0), 10)
+}
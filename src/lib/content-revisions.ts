@@ -0,0 +1,287 @@
+import prisma from './prisma'
+import { Content, ContentChange, ContentRevision, Prisma } from '@prisma/client'
+import { refineContent } from './claude'
+import { buildPlaybookContext } from './content-generation'
+import { scoreVariations } from './content-quality'
+import { getContentRules, lintContent } from './content-compliance'
+import { PLATFORM_RULES, PlatformSelection, VariantPlatform } from './platform-variants'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type RevisedCopy = Pick<Content, 'headline' | 'body' | 'ctaText' | 'platformVariants'>
+
+const contentInclude = {
+  campaign: { select: { id: true, name: true } },
+  image: { select: { id: true, filename: true, storageUrl: true, thumbnailUrl: true } },
+} satisfies Prisma.ContentInclude
+
+export type RevisedContent = Prisma.ContentGetPayload<{ include: typeof contentInclude }>
+
+export type RevisionResult =
+  | { status: 'ok'; content: RevisedContent; revision: ContentRevision }
+  | { status: 'rejected'; code: 400 | 404 | 409; error: string }
+
+export const MAX_REVISION_INSTRUCTIONS_LENGTH = 1000
+
+/** Copy that is scheduled or out there can't be swapped underneath its posts */
+const LOCKED_STATUSES: Content['status'][] = ['scheduled', 'posted']
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+
+/**
+ * The revision row that keeps `content`'s current copy, written just before
+ * the copy is replaced by `replacedBy`.
+ */
+export function revisionSnapshot(
+  content: Content,
+  replacedBy: ContentChange,
+  instructions?: string
+): Prisma.ContentRevisionUncheckedCreateInput {
+  return {
+    contentId: content.id,
+    replacedBy,
+    instructions: instructions ?? null,
+    headline: content.headline,
+    body: content.body,
+    ctaText: content.ctaText,
+    platformVariants: jsonValue(content.platformVariants),
+    generationMetadata: jsonValue(content.generationMetadata),
+    complianceCheck: jsonValue(content.complianceCheck),
+  }
+}
+
+/** Whether saving `next` over `current` changes any of the copy a revision keeps */
+export function copyChanged(current: RevisedCopy, next: Partial<RevisedCopy>): boolean {
+  return (['headline', 'body', 'ctaText', 'platformVariants'] as const).some(
+    (field) => next[field] !== undefined && JSON.stringify(next[field]) !== JSON.stringify(current[field])
+  )
+}
+
+/** The platforms a piece has variants for; pieces without variants get both */
+export function platformSelectionOf(platformVariants: unknown): PlatformSelection {
+  const stored = Object.keys((platformVariants ?? {}) as object).filter(
+    (key): key is VariantPlatform => key in PLATFORM_RULES
+  )
+  return stored.length === 1 ? stored[0] : 'both'
+}
+
+export async function getContentRevisions(contentId: string) {
+  return prisma.contentRevision.findMany({
+    where: { contentId },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+// =============================================================================
+// Regenerate
+// =============================================================================
+
+/**
+ * Rewrite one content piece from free-text guidance, with the same hook,
+ * audience and playbook context it was generated with. The previous copy is
+ * kept as a revision; the new copy is scored and linted like freshly
+ * generated content, and approved pieces go back to `generated` for review.
+ */
+export async function regenerateContent(
+  contentId: string,
+  instructions: string,
+  options: { by?: string } = {}
+): Promise<RevisionResult> {
+  const guidance = instructions.trim()
+  if (!guidance) {
+    return { status: 'rejected', code: 400, error: 'Instructions are required' }
+  }
+  if (guidance.length > MAX_REVISION_INSTRUCTIONS_LENGTH) {
+    return {
+      status: 'rejected',
+      code: 400,
+      error: `Instructions must be at most ${MAX_REVISION_INSTRUCTIONS_LENGTH} characters`,
+    }
+  }
+
+  const existing = await prisma.content.findUnique({
+    where: { id: contentId },
+    include: { campaign: { include: { playbook: { include: { business: true } } } } },
+  })
+
+  if (!existing) {
+    return { status: 'rejected', code: 404, error: 'Content not found' }
+  }
+  if (LOCKED_STATUSES.includes(existing.status)) {
+    return { status: 'rejected', code: 400, error: `Cannot regenerate ${existing.status} content` }
+  }
+
+  const playbook = existing.campaign.playbook
+  if (!playbook.positioning) {
+    return { status: 'rejected', code: 400, error: 'Playbook must have positioning defined' }
+  }
+  if (!Array.isArray(playbook.audiences) || playbook.audiences.length === 0) {
+    return { status: 'rejected', code: 400, error: 'Playbook must have audiences defined' }
+  }
+
+  const playbookContext = buildPlaybookContext(playbook)
+  const audienceNames = playbookContext.audiences.map((a) => a.name)
+  // The piece's own segment, else the campaign's, else the playbook's first
+  const targetAudience =
+    [existing.audienceSegment, existing.campaign.targetAudience].find(
+      (name): name is string => !!name && audienceNames.includes(name)
+    ) ?? audienceNames[0]
+  const hook = (playbookContext.hooks ?? []).find((h) => h.id === existing.hookSource) ?? null
+  const contentType = existing.type
+  const platform = platformSelectionOf(existing.platformVariants)
+
+  const { variation, metadata } = await refineContent({
+    playbook: playbookContext,
+    targetAudience,
+    hook,
+    contentType,
+    platform,
+    current: { headline: existing.headline ?? '', body: existing.body ?? '', ctaText: existing.ctaText ?? '' },
+    instructions: guidance,
+  })
+
+  const { scores } = await scoreVariations(
+    { playbook: playbookContext, targetAudience, hooks: hook ? [hook] : [], contentType, platform, count: 1 },
+    [variation]
+  )
+
+  const complianceCheck = lintContent(
+    { ...variation, type: contentType },
+    getContentRules(playbook.business.settings, (playbook.visualDirection as { doNots?: unknown } | null)?.doNots)
+  )
+
+  return applyRevision(existing, playbook.businessId, {
+    replacedBy: 'regenerate',
+    instructions: guidance,
+    data: {
+      headline: variation.headline,
+      body: variation.body,
+      ctaText: variation.ctaText,
+      platformVariants: variation.platformVariants as unknown as Prisma.InputJsonValue,
+      complianceCheck: complianceCheck as unknown as Prisma.InputJsonValue,
+      generationMetadata: {
+        ...((existing.generationMetadata as Record<string, unknown> | null) ?? {}),
+        model: metadata.model,
+        generatedAt: metadata.generatedAt,
+        reasoning: variation.reasoning,
+        quality: scores[0],
+        instructions: guidance,
+      } as unknown as Prisma.InputJsonValue,
+    },
+    details: { instructions: guidance, by: options.by ?? null },
+  })
+}
+
+// =============================================================================
+// Revert
+// =============================================================================
+
+/**
+ * Restore a piece's copy from one of its revisions. The copy being replaced
+ * becomes a revision itself, so a revert can be reverted. Compliance is
+ * re-checked against the business's current rules rather than restored.
+ */
+export async function revertContent(
+  contentId: string,
+  revisionId: string,
+  options: { by?: string } = {}
+): Promise<RevisionResult> {
+  const existing = await prisma.content.findUnique({
+    where: { id: contentId },
+    include: { campaign: { include: { playbook: { include: { business: true } } } } },
+  })
+
+  if (!existing) {
+    return { status: 'rejected', code: 404, error: 'Content not found' }
+  }
+
+  const revision = await prisma.contentRevision.findFirst({ where: { id: revisionId, contentId } })
+  if (!revision) {
+    return { status: 'rejected', code: 404, error: 'Revision not found' }
+  }
+  if (LOCKED_STATUSES.includes(existing.status)) {
+    return { status: 'rejected', code: 400, error: `Cannot revert ${existing.status} content` }
+  }
+
+  const playbook = existing.campaign.playbook
+  const complianceCheck = lintContent(
+    { ...revision, type: existing.type },
+    getContentRules(playbook.business.settings, (playbook.visualDirection as { doNots?: unknown } | null)?.doNots)
+  )
+
+  return applyRevision(existing, playbook.businessId, {
+    replacedBy: 'revert',
+    data: {
+      headline: revision.headline,
+      body: revision.body,
+      ctaText: revision.ctaText,
+      platformVariants: jsonValue(revision.platformVariants),
+      generationMetadata: jsonValue(revision.generationMetadata),
+      complianceCheck: complianceCheck as unknown as Prisma.InputJsonValue,
+    },
+    details: { revisionId, by: options.by ?? null },
+  })
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Keep the current copy as a revision and write the new copy, unless the
+ * piece changed since it was read (e.g. edited while the model was working).
+ */
+async function applyRevision(
+  existing: Content,
+  businessId: string,
+  change: {
+    replacedBy: ContentChange
+    instructions?: string
+    data: Prisma.ContentUncheckedUpdateManyInput
+    details: Record<string, unknown>
+  }
+): Promise<RevisionResult> {
+  const updated = await prisma.$transaction(async (tx) => {
+    const claim = await tx.content.updateMany({
+      where: { id: existing.id, updatedAt: existing.updatedAt },
+      data: {
+        ...change.data,
+        status: existing.status === 'approved' ? 'generated' : existing.status,
+      },
+    })
+    if (claim.count === 0) return null
+
+    const revision = await tx.contentRevision.create({
+      data: revisionSnapshot(existing, change.replacedBy, change.instructions),
+    })
+
+    await tx.activityLog.create({
+      data: {
+        businessId,
+        campaignId: existing.campaignId,
+        actor: 'human',
+        action: change.replacedBy === 'regenerate' ? 'content_regenerated' : 'content_reverted',
+        entityType: 'content',
+        entityId: existing.id,
+        details: { ...change.details, revisionKept: revision.id } as Prisma.InputJsonValue,
+      },
+    })
+
+    const content = await tx.content.findUniqueOrThrow({ where: { id: existing.id }, include: contentInclude })
+    return { content, revision }
+  })
+
+  if (!updated) {
+    return { status: 'rejected', code: 409, error: 'Content changed while it was being revised; try again' }
+  }
+
+  return { status: 'ok', ...updated }
+}
+
+function jsonValue(value: Prisma.JsonValue): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue)
+}
@@ -0,0 +1,121 @@
+import crypto from 'crypto'
+import prisma from './prisma'
+import { slugify } from './utm'
+import { UUID_REGEX } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UtmValues {
+  source?: string | null
+  medium?: string | null
+  campaign?: string | null
+  content?: string | null
+}
+
+export interface Attribution {
+  postId: string | null
+  contentId: string | null
+  campaignId: string | null
+}
+
+// Header carrying the HMAC: "sha256=<hex digest of the raw request body>"
+export const SIGNATURE_HEADER = 'x-signature'
+
+// =============================================================================
+// Signature Verification
+// =============================================================================
+
+/**
+ * Generate a new random webhook secret (returned to the user once, stored encrypted).
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`
+}
+
+/**
+ * Compute the HMAC-SHA256 signature for a webhook body.
+ */
+export function signWebhookPayload(rawBody: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')}`
+}
+
+/**
+ * Verify a webhook signature header against the raw body (constant-time).
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, secret))
+  const provided = Buffer.from(signature.trim())
+  if (expected.length !== provided.length) return false
+
+  return crypto.timingSafeEqual(expected, provided)
+}
+
+// =============================================================================
+// Attribution
+// =============================================================================
+
+/**
+ * Resolve UTM values back to Post / Content / Campaign ids for a business.
+ *
+ * `utm_content` carries a post or content id. Anything that doesn't belong to
+ * the business is ignored, so a sender can't attribute conversions to another
+ * business's campaigns. If nothing matches on utm_content, `utm_campaign` is
+ * matched against the business's campaigns by id or name slug.
+ */
+export async function resolveAttribution(
+  businessId: string,
+  utm: UtmValues
+): Promise<Attribution> {
+  const attribution: Attribution = { postId: null, contentId: null, campaignId: null }
+  const utmContent = utm.content?.trim()
+
+  if (utmContent && UUID_REGEX.test(utmContent)) {
+    const post = await prisma.post.findFirst({
+      where: {
+        id: utmContent,
+        content: { campaign: { playbook: { businessId } } },
+      },
+      select: { id: true, contentId: true, content: { select: { campaignId: true } } },
+    })
+
+    if (post) {
+      return { postId: post.id, contentId: post.contentId, campaignId: post.content.campaignId }
+    }
+
+    const content = await prisma.content.findFirst({
+      where: {
+        id: utmContent,
+        campaign: { playbook: { businessId } },
+      },
+      select: { id: true, campaignId: true },
+    })
+
+    if (content) {
+      return { postId: null, contentId: content.id, campaignId: content.campaignId }
+    }
+  }
+
+  const utmCampaign = utm.campaign?.trim()
+  if (utmCampaign) {
+    const campaigns = await prisma.campaign.findMany({
+      where: { playbook: { businessId } },
+      select: { id: true, name: true },
+    })
+    const match = campaigns.find(
+      (c) => c.id === utmCampaign || slugify(c.name) === slugify(utmCampaign)
+    )
+    if (match) {
+      attribution.campaignId = match.id
+    }
+  }
+
+  return attribution
+}
@@ -0,0 +1,20 @@
+import crypto from 'crypto'
+
+/**
+ * Verify that a request comes from the cron scheduler.
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; manual triggers
+ * may use the same header. Requests are rejected when CRON_SECRET is unset.
+ */
+export function verifyCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const header = request.headers.get('authorization') || ''
+  const provided = header.startsWith('Bearer ') ? header.slice(7) : ''
+
+  const expectedBuf = Buffer.from(secret)
+  const providedBuf = Buffer.from(provided)
+  if (expectedBuf.length !== providedBuf.length) return false
+
+  return crypto.timingSafeEqual(expectedBuf, providedBuf)
+}
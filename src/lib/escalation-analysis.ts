@@ -0,0 +1,653 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import { analyzeEscalation, analyzeContentPerformance, Hook } from './claude'
+import { buildPlaybookContext, saveGeneratedContent } from './content-generation'
+import { generateScoredContent } from './content-quality'
+import { sumLatestSnapshots, ContentTotals, SCORED_CONVERSION_TYPES } from './scoring'
+import { toCampaignMetrics } from './optimizer'
+import { transitionCampaign } from './campaign-state'
+import { DAY_MS } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AnalysisStatus = 'pending' | 'complete' | 'failed' | 'skipped'
+
+export type Diagnosis = 'messaging' | 'targeting' | 'product_market_fit'
+
+export type SuggestedActionType =
+  | 'pause_campaign'
+  | 'pause_content'
+  | 'generate_content'
+  | 'update_budget'
+  | 'update_target_audience'
+  | 'create_task'
+
+/** Stored in `Escalation.suggestedActions` */
+export interface SuggestedAction {
+  type: SuggestedActionType
+  label: string
+  reason: string
+  params: Record<string, unknown>
+  appliedAt: string | null
+  /** Set while the action is being applied, so concurrent applies can't run it twice */
+  applyingAt?: string | null
+}
+
+export interface ProcessAnalysesResult {
+  /** Pending escalations taken off the queue without a Claude call */
+  skipped: number
+  processed: number
+  completed: number
+  failed: number
+  errors: Array<{ escalationId: string; error: string }>
+}
+
+export type ApplyActionResult =
+  | { status: 'applied'; action: SuggestedAction; summary: string }
+  | { status: 'rejected'; code: 400 | 404 | 409; error: string }
+
+export const SUGGESTED_ACTION_TYPES: SuggestedActionType[] = [
+  'pause_campaign',
+  'pause_content',
+  'generate_content',
+  'update_budget',
+  'update_target_audience',
+  'create_task',
+]
+
+export const DIAGNOSES: Diagnosis[] = ['messaging', 'targeting', 'product_market_fit']
+
+// Suggestions kept per escalation
+export const MAX_SUGGESTED_ACTIONS = 4
+
+// Attempts before an analysis is marked failed
+export const MAX_ANALYSIS_ATTEMPTS = 3
+
+// Escalations analyzed per cron run (each is one or two Claude calls)
+export const ANALYSIS_BATCH_SIZE = 5
+
+// Never-attempted pending escalations older than this are skipped, not analyzed
+export const ANALYSIS_MAX_AGE_MS = 2 * DAY_MS
+
+const MAX_GENERATE_COUNT = 5
+
+// A claim older than this is treated as abandoned (e.g. the process died mid-apply)
+const APPLY_CLAIM_LEASE_MS = 10 * 60 * 1000
+const RECENT_ACTIVITY_LIMIT = 15
+
+// =============================================================================
+// Suggested Actions
+// =============================================================================
+
+/**
+ * Keep only well-formed suggestions whose params point at this campaign's own
+ * content and playbook hooks. Claude's output is never trusted as-is because
+ * each suggestion becomes a one-click button.
+ */
+export function sanitizeSuggestedActions(
+  raw: unknown,
+  context: { contentIds: string[]; hookIds: string[] }
+): SuggestedAction[] {
+  if (!Array.isArray(raw)) return []
+
+  const actions: SuggestedAction[] = []
+
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue
+    const { type, label, reason, params: rawParams } = item as Record<string, unknown>
+    if (!SUGGESTED_ACTION_TYPES.includes(type as SuggestedActionType)) continue
+
+    const input = rawParams && typeof rawParams === 'object' ? (rawParams as Record<string, unknown>) : {}
+    const params = sanitizeParams(type as SuggestedActionType, input, context)
+    if (!params) continue
+
+    actions.push({
+      type: type as SuggestedActionType,
+      label: typeof label === 'string' && label.trim() ? label.trim().slice(0, 60) : defaultLabel(type as SuggestedActionType),
+      reason: typeof reason === 'string' ? reason.trim() : '',
+      params,
+      appliedAt: null,
+    })
+
+    if (actions.length === MAX_SUGGESTED_ACTIONS) break
+  }
+
+  return actions
+}
+
+function sanitizeParams(
+  type: SuggestedActionType,
+  input: Record<string, unknown>,
+  context: { contentIds: string[]; hookIds: string[] }
+): Record<string, unknown> | null {
+  switch (type) {
+    case 'pause_campaign':
+      return {}
+
+    case 'pause_content':
+      return typeof input.contentId === 'string' && context.contentIds.includes(input.contentId)
+        ? { contentId: input.contentId }
+        : null
+
+    case 'generate_content': {
+      const hookIds = Array.isArray(input.hookIds)
+        ? input.hookIds.filter((id): id is string => typeof id === 'string' && context.hookIds.includes(id))
+        : []
+      if (hookIds.length === 0) return null
+      const count = Number(input.count)
+      return {
+        hookIds,
+        count: Number.isInteger(count) ? Math.min(Math.max(count, 1), MAX_GENERATE_COUNT) : 3,
+      }
+    }
+
+    case 'update_budget': {
+      const params: Record<string, number> = {}
+      for (const key of ['budgetDaily', 'budgetTotal'] as const) {
+        const value = Number(input[key])
+        if (input[key] !== undefined && Number.isFinite(value) && value > 0) {
+          params[key] = Math.round(value * 100) / 100
+        }
+      }
+      return Object.keys(params).length > 0 ? params : null
+    }
+
+    case 'update_target_audience':
+      return typeof input.targetAudience === 'string' && input.targetAudience.trim()
+        ? { targetAudience: input.targetAudience.trim() }
+        : null
+
+    case 'create_task':
+      return typeof input.title === 'string' && input.title.trim()
+        ? {
+            title: input.title.trim().slice(0, 200),
+            description: typeof input.description === 'string' ? input.description.trim() : null,
+          }
+        : null
+  }
+}
+
+function defaultLabel(type: SuggestedActionType): string {
+  return {
+    pause_campaign: 'Pause campaign',
+    pause_content: 'Pause content',
+    generate_content: 'Generate new variations',
+    update_budget: 'Update budget',
+    update_target_audience: 'Change target audience',
+    create_task: 'Create task',
+  }[type]
+}
+
+// =============================================================================
+// Analysis Queue
+// =============================================================================
+
+/**
+ * Analyze the oldest pending escalations. New escalations start out
+ * `pending`, so every escalation raised anywhere in the app is picked up.
+ *
+ * The column default also marked every escalation that existed before the
+ * queue as pending, so never-attempted ones that are resolved, dismissed or
+ * older than ANALYSIS_MAX_AGE_MS are marked `skipped` first instead of being
+ * sent to Claude. They can still be analyzed on demand.
+ */
+export async function processPendingAnalyses(
+  options: { limit?: number; now?: Date } = {}
+): Promise<ProcessAnalysesResult> {
+  const now = options.now ?? new Date()
+  const stale = await prisma.escalation.updateMany({
+    where: {
+      analysisStatus: 'pending',
+      analysisAttempts: 0,
+      OR: [
+        { status: { in: ['resolved', 'dismissed'] } },
+        { createdAt: { lt: new Date(now.getTime() - ANALYSIS_MAX_AGE_MS) } },
+      ],
+    },
+    data: { analysisStatus: 'skipped' },
+  })
+
+  const pending = await prisma.escalation.findMany({
+    where: { analysisStatus: 'pending', analysisAttempts: { lt: MAX_ANALYSIS_ATTEMPTS } },
+    orderBy: { createdAt: 'asc' },
+    take: options.limit ?? ANALYSIS_BATCH_SIZE,
+    select: { id: true },
+  })
+
+  const result: ProcessAnalysesResult = { skipped: stale.count, processed: 0, completed: 0, failed: 0, errors: [] }
+
+  for (const { id } of pending) {
+    result.processed++
+    try {
+      await runEscalationAnalysis(id)
+      result.completed++
+    } catch (err) {
+      result.failed++
+      result.errors.push({ escalationId: id, error: err instanceof Error ? err.message : 'Unknown error' })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Gather the campaign's metrics, playbook positioning, content and recent
+ * activity, ask Claude for a diagnosis and store the analysis,
+ * recommendation and sanitized suggested actions on the escalation. A
+ * failure counts as an attempt; the escalation is marked `failed` once it
+ * runs out of attempts.
+ */
+export async function runEscalationAnalysis(escalationId: string): Promise<void> {
+  const escalation = await prisma.escalation.update({
+    where: { id: escalationId },
+    data: { analysisAttempts: { increment: 1 } },
+    include: {
+      campaign: {
+        include: {
+          playbook: { include: { business: { select: { id: true, name: true } } } },
+          contents: {
+            select: {
+              id: true,
+              headline: true,
+              body: true,
+              hookSource: true,
+              status: true,
+              performanceScore: true,
+              posts: {
+                where: { status: 'posted' },
+                select: {
+                  id: true,
+                  performances: { orderBy: { recordedAt: 'desc' }, take: 1 },
+                },
+              },
+              _count: {
+                select: { conversions: { where: { type: { in: [...SCORED_CONVERSION_TYPES] } } } },
+              },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 30,
+          },
+        },
+      },
+    },
+  })
+
+  const { campaign } = escalation
+  const playbook = campaign.playbook
+
+  try {
+    const totals: ContentTotals = { impressions: 0, clicks: 0, engagements: 0, conversions: 0, spend: 0 }
+    const contentTotals = new Map<string, ContentTotals>()
+    for (const content of campaign.contents) {
+      const t = sumLatestSnapshots(content.posts, content._count.conversions)
+      contentTotals.set(content.id, t)
+      totals.impressions += t.impressions
+      totals.clicks += t.clicks
+      totals.engagements += t.engagements
+      totals.conversions += t.conversions
+      totals.spend += t.spend
+    }
+
+    const recentActivity = await prisma.activityLog.findMany({
+      where: { campaignId: campaign.id },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_ACTIVITY_LIMIT,
+      select: { action: true, actor: true, createdAt: true },
+    })
+
+    const hooks = Array.isArray(playbook.hooks) ? (playbook.hooks as unknown as Hook[]) : []
+    const businessContext = playbook.positioning || playbook.business.name
+
+    // Escalations about a single post also get a review of that post's content
+    const snapshot = escalation.dataSnapshot as Record<string, unknown> | null
+    const postId = typeof snapshot?.postId === 'string' ? snapshot.postId : null
+    const affected = postId ? campaign.contents.find((c) => c.posts.some((p) => p.id === postId)) : undefined
+    let contentReview: { analysis: string; suggestions: string[] } | undefined
+
+    if (affected) {
+      const t = contentTotals.get(affected.id)!
+      if (t.impressions > 0 && t.clicks > 0) {
+        const review = await analyzeContentPerformance({
+          headline: affected.headline || '',
+          body: affected.body || '',
+          metrics: {
+            impressions: t.impressions,
+            clicks: t.clicks,
+            conversions: t.conversions,
+            spend: t.conversions > 0 ? t.spend : undefined,
+          },
+          businessContext,
+        })
+        contentReview = { analysis: review.analysis, suggestions: review.suggestions }
+      }
+    }
+
+    const analysis = await analyzeEscalation({
+      type: escalation.type,
+      severity: escalation.severity,
+      title: escalation.title,
+      description: escalation.description,
+      dataSnapshot: escalation.dataSnapshot,
+      campaign: {
+        name: campaign.name,
+        status: campaign.status,
+        targetAudience: campaign.targetAudience,
+        budgetDaily: campaign.budgetDaily !== null ? Number(campaign.budgetDaily) : null,
+        budgetTotal: campaign.budgetTotal !== null ? Number(campaign.budgetTotal) : null,
+        thresholds: campaign.performanceThresholds,
+      },
+      businessContext,
+      metrics: toCampaignMetrics(totals),
+      content: campaign.contents.map((c) => ({
+        id: c.id,
+        headline: c.headline,
+        hookSource: c.hookSource,
+        status: c.status,
+        score: c.performanceScore === null ? null : Number(c.performanceScore),
+      })),
+      hooks: hooks.map((h) => ({ id: h.id, text: h.text })),
+      recentActivity: recentActivity.map((a) => ({ ...a, createdAt: a.createdAt.toISOString() })),
+      contentReview,
+    })
+
+    const suggestedActions = sanitizeSuggestedActions(analysis.suggestedActions, {
+      contentIds: campaign.contents.map((c) => c.id),
+      hookIds: hooks.map((h) => h.id),
+    })
+
+    await prisma.escalation.update({
+      where: { id: escalation.id },
+      data: {
+        aiDiagnosis: DIAGNOSES.includes(analysis.diagnosis) ? analysis.diagnosis : null,
+        aiAnalysis: contentReview
+          ? `${analysis.analysis}\n\nContent review: ${contentReview.analysis}`
+          : analysis.analysis,
+        aiRecommendation: analysis.recommendation,
+        suggestedActions: suggestedActions as unknown as Prisma.InputJsonValue,
+        analysisStatus: 'complete',
+        analyzedAt: new Date(),
+      },
+    })
+
+    await prisma.activityLog.create({
+      data: {
+        businessId: playbook.businessId,
+        campaignId: campaign.id,
+        actor: 'system',
+        action: 'escalation_analyzed',
+        entityType: 'escalation',
+        entityId: escalation.id,
+        details: {
+          diagnosis: analysis.diagnosis,
+          suggestedActions: suggestedActions.map((a) => a.type),
+        } as Prisma.InputJsonValue,
+      },
+    })
+  } catch (err) {
+    if (escalation.analysisAttempts >= MAX_ANALYSIS_ATTEMPTS) {
+      await prisma.escalation.update({
+        where: { id: escalation.id },
+        data: { analysisStatus: 'failed' },
+      })
+    }
+    throw err
+  }
+}
+
+// =============================================================================
+// Applying Actions
+// =============================================================================
+
+/**
+ * Apply one of an escalation's suggested actions and mark it applied. The
+ * action is claimed under a row lock before its side effect runs, so a double
+ * click or a second tab gets a 409 instead of applying it twice, and a failed
+ * side effect releases the claim. Each action is logged as a human activity
+ * on the campaign; pausing goes through the campaign state machine like any
+ * other status change.
+ */
+export async function applySuggestedAction(
+  escalationId: string,
+  index: number,
+  appliedBy?: string
+): Promise<ApplyActionResult> {
+  const escalation = await prisma.escalation.findUnique({
+    where: { id: escalationId },
+    include: {
+      campaign: {
+        include: { playbook: { include: { business: { select: { name: true } } } } },
+      },
+    },
+  })
+
+  if (!escalation) {
+    return { status: 'rejected', code: 404, error: 'Escalation not found' }
+  }
+
+  if (escalation.status === 'resolved' || escalation.status === 'dismissed') {
+    return { status: 'rejected', code: 400, error: `Escalation is already ${escalation.status}` }
+  }
+
+  const claimedAt = new Date()
+  const claim = await updateActionLocked(escalation.id, index, (action) => {
+    if (action.appliedAt) return { error: 'This action has already been applied' }
+    if (action.applyingAt && claimedAt.getTime() - new Date(action.applyingAt).getTime() < APPLY_CLAIM_LEASE_MS) {
+      return { error: 'This action is already being applied' }
+    }
+    return { action: { ...action, applyingAt: claimedAt.toISOString() } }
+  })
+
+  if (!claim) {
+    return { status: 'rejected', code: 404, error: 'Suggested action not found' }
+  }
+  if ('error' in claim) {
+    return { status: 'rejected', code: 409, error: claim.error }
+  }
+
+  const release = () => updateActionLocked(escalation.id, index, (a) => ({ action: { ...a, applyingAt: null } }))
+  let outcome: { summary: string } | { error: string }
+  try {
+    outcome = await runSuggestedAction(claim.action, escalation, appliedBy)
+  } catch (err) {
+    await release()
+    throw err
+  }
+  if ('error' in outcome) {
+    await release()
+    return { status: 'rejected', code: 400, error: outcome.error }
+  }
+
+  const { summary } = outcome
+  const done = await updateActionLocked(
+    escalation.id,
+    index,
+    (a) => ({ action: { ...a, appliedAt: new Date().toISOString(), applyingAt: null } }),
+    { acknowledge: true }
+  )
+  const applied = done && 'action' in done ? done.action : claim.action
+  const { campaign } = escalation
+
+  await prisma.activityLog.create({
+    data: {
+      businessId: campaign.playbook.businessId,
+      campaignId: campaign.id,
+      actor: 'human',
+      action: 'escalation_action_applied',
+      entityType: 'escalation',
+      entityId: escalation.id,
+      details: { type: applied.type, params: applied.params, summary } as Prisma.InputJsonValue,
+    },
+  })
+
+  return { status: 'applied', action: applied, summary }
+}
+
+type EscalationWithCampaign = Prisma.EscalationGetPayload<{
+  include: { campaign: { include: { playbook: { include: { business: { select: { name: true } } } } } } }
+}>
+
+/** Run a claimed action's side effect */
+async function runSuggestedAction(
+  action: SuggestedAction,
+  escalation: EscalationWithCampaign,
+  appliedBy?: string
+): Promise<{ summary: string } | { error: string }> {
+  const { campaign } = escalation
+
+  switch (action.type) {
+    case 'pause_campaign': {
+      const paused = await transitionCampaign(campaign.id, 'pause', {
+        actor: 'human',
+        by: appliedBy,
+        reason: action.reason || escalation.title,
+        details: { escalationId: escalation.id },
+      })
+      if (paused.status === 'rejected') {
+        return { error: paused.error }
+      }
+      return { summary: 'Campaign paused' }
+    }
+
+    case 'pause_content': {
+      const contentId = action.params.contentId as string
+      const updated = await prisma.content.updateMany({
+        where: { id: contentId, campaignId: campaign.id, status: { in: ['approved', 'scheduled', 'posted'] } },
+        data: { status: 'paused' },
+      })
+      if (updated.count === 0) {
+        return { error: 'Content is no longer active' }
+      }
+      await prisma.post.updateMany({
+        where: { contentId, status: { in: ['draft', 'scheduled', 'held'] } },
+        data: { status: 'deleted' },
+      })
+      return { summary: 'Content paused' }
+    }
+
+    case 'generate_content': {
+      const playbook = campaign.playbook
+      const allHooks = Array.isArray(playbook.hooks) ? (playbook.hooks as unknown as Hook[]) : []
+      const hooks = allHooks.filter((h) => (action.params.hookIds as string[]).includes(h.id))
+      if (!playbook.positioning || hooks.length === 0 || !Array.isArray(playbook.audiences) || playbook.audiences.length === 0) {
+        return { error: 'Playbook is missing positioning, hooks or audiences' }
+      }
+
+      const playbookContext = buildPlaybookContext(playbook)
+      const result = await generateScoredContent({
+        playbook: playbookContext,
+        targetAudience: campaign.targetAudience || playbookContext.audiences[0].name,
+        hooks,
+        contentType: 'organic_post',
+        platform: 'both',
+        count: action.params.count as number,
+      })
+      const created = await saveGeneratedContent({
+        campaignId: campaign.id,
+        contentType: 'organic_post',
+        result,
+        metadata: { source: 'escalation', escalationId: escalation.id },
+      })
+      return { summary: `${created.length} variation${created.length === 1 ? '' : 's'} generated for review` }
+    }
+
+    case 'update_budget': {
+      // Stored params were sanitized at analysis time; check again before writing money
+      const data: Prisma.CampaignUpdateManyMutationInput = {}
+      for (const key of ['budgetDaily', 'budgetTotal'] as const) {
+        const value = action.params[key]
+        if (value === undefined) continue
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+          return { error: `${key} must be a positive number` }
+        }
+        data[key] = Math.round(value * 100) / 100
+      }
+      if (Object.keys(data).length === 0) {
+        return { error: 'No budget to update' }
+      }
+      return updateCampaignSettings(campaign.id, data, 'Budget updated')
+    }
+
+    case 'update_target_audience': {
+      const targetAudience = action.params.targetAudience
+      if (typeof targetAudience !== 'string' || !targetAudience.trim()) {
+        return { error: 'Target audience is required' }
+      }
+      return updateCampaignSettings(campaign.id, { targetAudience: targetAudience.trim() }, 'Target audience updated')
+    }
+
+    case 'create_task': {
+      await prisma.task.create({
+        data: {
+          campaignId: campaign.id,
+          assignee: 'human',
+          type: 'escalation_follow_up',
+          title: action.params.title as string,
+          description: (action.params.description as string | null) ?? undefined,
+          priority: escalation.severity === 'critical' ? 10 : 5,
+        },
+      })
+      return { summary: 'Task created' }
+    }
+
+    default:
+      return { error: 'Unknown action type' }
+  }
+}
+
+/**
+ * Change campaign settings on behalf of a suggestion. Same rule as
+ * PUT /api/campaigns/:id: a live campaign has to be paused first, so the
+ * status is part of the write.
+ */
+async function updateCampaignSettings(
+  campaignId: string,
+  data: Prisma.CampaignUpdateManyMutationInput,
+  summary: string
+): Promise<{ summary: string } | { error: string }> {
+  const updated = await prisma.campaign.updateMany({
+    where: { id: campaignId, status: { not: 'live' } },
+    data,
+  })
+  if (updated.count === 0) {
+    return { error: 'Cannot edit a live campaign. Pause it first.' }
+  }
+  return { summary }
+}
+
+/**
+ * Read-modify-write one suggested action while holding the escalation's row
+ * lock, so concurrent applies of the same or different actions never lose
+ * each other's changes. `change` returns the new action, or an error to leave
+ * the row as it is. Returns null when there is no action at `index`.
+ */
+async function updateActionLocked(
+  escalationId: string,
+  index: number,
+  change: (action: SuggestedAction) => { action: SuggestedAction } | { error: string },
+  options: { acknowledge?: boolean } = {}
+): Promise<{ action: SuggestedAction } | { error: string } | null> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM escalations WHERE id = ${escalationId} FOR UPDATE`
+    const row = await tx.escalation.findUniqueOrThrow({
+      where: { id: escalationId },
+      select: { status: true, suggestedActions: true },
+    })
+
+    const actions = (Array.isArray(row.suggestedActions) ? row.suggestedActions : []) as unknown as SuggestedAction[]
+    if (!actions[index]) return null
+
+    const result = change(actions[index])
+    if ('error' in result) return result
+
+    await tx.escalation.update({
+      where: { id: escalationId },
+      data: {
+        suggestedActions: actions.map((a, i) => (i === index ? result.action : a)) as unknown as Prisma.InputJsonValue,
+        ...(options.acknowledge && row.status === 'open' ? { status: 'acknowledged' as const } : {}),
+      },
+    })
+    return result
+  })
+}
@@ -0,0 +1,475 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import { sumLatestSnapshots, SCORED_CONVERSION_TYPES } from './scoring'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** What a campaign's content is grouped by: each distinct value is one arm */
+export type ExperimentDimension = 'hook' | 'image' | 'cta'
+
+/** CTR compares clicks per impression; conversion rate compares conversions per click */
+export type ExperimentMetric = 'ctr' | 'conversion_rate'
+
+export interface ArmTotals {
+  key: string
+  label: string
+  contentIds: string[]
+  /** Content in the arm that is not retired */
+  activeContentIds: string[]
+  impressions: number
+  clicks: number
+  conversions: number
+}
+
+export interface Interval {
+  low: number
+  high: number
+}
+
+export interface ArmResult extends ArmTotals {
+  ctr: number
+  ctrInterval: Interval
+  conversionRate: number
+  conversionInterval: Interval
+  /** Relative difference from the leader on the experiment metric (null for the leader) */
+  lift: number | null
+  /** Always-valid p-value against the leader (null for the leader) */
+  pValue: number | null
+  isLeader: boolean
+  isWinner: boolean
+}
+
+export interface ExperimentAnalysis {
+  dimension: ExperimentDimension
+  metric: ExperimentMetric
+  alpha: number
+  /** Significance level each comparison must beat (alpha split across comparisons) */
+  correctedAlpha: number
+  minExposure: number
+  arms: ArmResult[]
+  leader: string | null
+  winner: string | null
+  /** Where the experiment stands, e.g. "Not yet significant" */
+  status: string
+}
+
+export interface ResolveExperimentsResult {
+  evaluatedAt: string
+  campaignsEvaluated: number
+  winnersDeclared: number
+  contentRetired: number
+  errors: Array<{ campaignId: string; error: string }>
+}
+
+export const EXPERIMENT_DIMENSIONS: ExperimentDimension[] = ['hook', 'image', 'cta']
+
+export const DEFAULT_ALPHA = 0.05
+
+// Per-arm exposure before a comparison can be called: impressions for CTR, clicks for conversion rate
+export const MIN_EXPOSURE: Record<ExperimentMetric, number> = {
+  ctr: 500,
+  conversion_rate: 50,
+}
+
+// Switch from CTR to conversion rate once the campaign has this many conversions
+export const MIN_CONVERSIONS_FOR_CONVERSION_METRIC = 20
+
+// 95% two-sided
+const Z_95 = 1.959964
+
+// Spread of the true differences the sequential test is tuned to find, as a
+// fraction of the pooled rate (e.g. 3.0% vs 3.9% CTR). Any value keeps the
+// false-winner guarantee; this one just decides which lifts are called fastest.
+const MIXTURE_RELATIVE_LIFT = 0.3
+
+// Content that is still in play and can be retired when its arm loses
+const RETIRABLE_CONTENT_STATUSES = ['generated', 'approved', 'scheduled', 'posted', 'paused'] as const
+
+const experimentContentSelect = {
+  id: true,
+  status: true,
+  hookSource: true,
+  ctaText: true,
+  imageId: true,
+  image: { select: { filename: true } },
+  posts: {
+    where: { status: 'posted' },
+    select: {
+      performances: {
+        orderBy: { recordedAt: 'desc' },
+        take: 1,
+      },
+    },
+  },
+  _count: {
+    select: {
+      conversions: { where: { type: { in: [...SCORED_CONVERSION_TYPES] } } },
+    },
+  },
+} satisfies Prisma.ContentSelect
+
+type ExperimentContent = Prisma.ContentGetPayload<{ select: typeof experimentContentSelect }>
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+/**
+ * Wilson score interval for a proportion (95% by default).
+ * Behaves sensibly for small samples and rates near zero, unlike the normal approximation.
+ */
+export function wilsonInterval(successes: number, trials: number, z = Z_95): Interval {
+  if (trials <= 0) return { low: 0, high: 0 }
+
+  const p = successes / trials
+  const z2 = z * z
+  const denominator = 1 + z2 / trials
+  const centre = (p + z2 / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator
+
+  return { low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) }
+}
+
+/**
+ * Always-valid p-value for a difference between two proportions: a mixture
+ * sequential probability ratio test (Johari et al., "Always Valid Inference")
+ * on the normal approximation, with a N(0, tau^2) prior on the difference.
+ *
+ * Unlike a fixed-sample z-test, it can be recomputed from cumulative totals
+ * however often results are checked and acted on the first time it drops
+ * below alpha: the chance that it ever does when the arms are truly equal is
+ * at most alpha.
+ * Returns 1 when there is no variance to test (e.g. both arms at 0%).
+ */
+export function sequentialPValue(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): number {
+  if (trialsA <= 0 || trialsB <= 0) return 1
+
+  const pooled = (successesA + successesB) / (trialsA + trialsB)
+  const variance = pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB)
+  if (variance === 0) return 1
+
+  const difference = successesA / trialsA - successesB / trialsB
+  const tau2 = (MIXTURE_RELATIVE_LIFT * pooled) ** 2
+  const logLikelihoodRatio =
+    0.5 * Math.log(variance / (variance + tau2)) +
+    (tau2 * difference * difference) / (2 * variance * (variance + tau2))
+
+  return Math.min(1, Math.exp(-logLikelihoodRatio))
+}
+
+/**
+ * Compare arms on one metric. The leader is the active arm with the best
+ * rate; it is declared the winner once every other active arm has enough
+ * exposure and is significantly worse. The p-values are always-valid and
+ * Bonferroni-corrected, so the chance of ever declaring a false winner stays
+ * at alpha however many arms there are and however often this is re-run.
+ */
+export function analyzeArms(
+  arms: ArmTotals[],
+  options: { dimension: ExperimentDimension; metric: ExperimentMetric; alpha?: number; minExposure?: number }
+): ExperimentAnalysis {
+  const { dimension, metric } = options
+  const alpha = options.alpha ?? DEFAULT_ALPHA
+  const minExposure = options.minExposure ?? MIN_EXPOSURE[metric]
+
+  const counts = (arm: ArmTotals) =>
+    metric === 'ctr'
+      ? { successes: arm.clicks, trials: arm.impressions }
+      : { successes: arm.conversions, trials: arm.clicks }
+  const rate = (arm: ArmTotals) => {
+    const { successes, trials } = counts(arm)
+    return trials > 0 ? successes / trials : 0
+  }
+
+  const active = arms.filter((arm) => arm.activeContentIds.length > 0 && counts(arm).trials > 0)
+  const leader = [...active].sort((a, b) => rate(b) - rate(a) || counts(b).trials - counts(a).trials)[0] ?? null
+  const correctedAlpha = active.length > 1 ? alpha / (active.length - 1) : alpha
+
+  const results: ArmResult[] = arms.map((arm) => {
+    const ctr = arm.impressions > 0 ? arm.clicks / arm.impressions : 0
+    const conversionRate = arm.clicks > 0 ? arm.conversions / arm.clicks : 0
+    const isLeader = leader !== null && arm.key === leader.key
+
+    let lift: number | null = null
+    let pValue: number | null = null
+    if (leader && !isLeader) {
+      const leaderRate = rate(leader)
+      const ours = counts(arm)
+      const theirs = counts(leader)
+      lift = leaderRate > 0 ? (rate(arm) - leaderRate) / leaderRate : null
+      pValue = sequentialPValue(ours.successes, ours.trials, theirs.successes, theirs.trials)
+    }
+
+    return {
+      ...arm,
+      ctr,
+      ctrInterval: wilsonInterval(arm.clicks, arm.impressions),
+      conversionRate,
+      conversionInterval: wilsonInterval(arm.conversions, arm.clicks),
+      lift,
+      pValue,
+      isLeader,
+      isWinner: false,
+    }
+  })
+
+  let status: string
+  let winner: string | null = null
+
+  if (active.length < 2) {
+    status = 'Needs at least two active arms with data'
+  } else if (active.some((arm) => counts(arm).trials < minExposure)) {
+    status = `Waiting for ${minExposure} ${metric === 'ctr' ? 'impressions' : 'clicks'} per arm`
+  } else {
+    const challengers = results.filter((r) => !r.isLeader && active.some((a) => a.key === r.key))
+    if (challengers.every((r) => r.pValue !== null && r.pValue < correctedAlpha)) {
+      winner = leader!.key
+      status = 'Winner declared'
+      for (const result of results) result.isWinner = result.key === winner
+    } else {
+      status = 'Not yet significant'
+    }
+  }
+
+  return {
+    dimension,
+    metric,
+    alpha,
+    correctedAlpha,
+    minExposure,
+    arms: results,
+    leader: leader?.key ?? null,
+    winner,
+    status,
+  }
+}
+
+/**
+ * Judge on conversion rate once there are enough conversions to compare,
+ * otherwise on CTR.
+ */
+export function chooseMetric(arms: ArmTotals[]): ExperimentMetric {
+  const conversions = arms.reduce((sum, arm) => sum + arm.conversions, 0)
+  return conversions >= MIN_CONVERSIONS_FOR_CONVERSION_METRIC ? 'conversion_rate' : 'ctr'
+}
+
+// =============================================================================
+// Campaign Experiments
+// =============================================================================
+
+/**
+ * Group a campaign's content into arms by hook, image or CTA and analyse them.
+ * Content without a value for the dimension is left out.
+ */
+export async function getCampaignExperiment(
+  campaignId: string,
+  options: { dimension?: ExperimentDimension; metric?: ExperimentMetric } = {}
+): Promise<ExperimentAnalysis> {
+  const dimension = options.dimension ?? 'hook'
+
+  const campaign = await prisma.campaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: {
+      playbook: { select: { hooks: true } },
+      contents: { select: experimentContentSelect },
+    },
+  })
+
+  const hookLabels = new Map<string, string>()
+  if (Array.isArray(campaign.playbook.hooks)) {
+    for (const hook of campaign.playbook.hooks as Array<{ id?: string; text?: string }>) {
+      if (hook?.id && hook.text) hookLabels.set(hook.id, hook.text)
+    }
+  }
+
+  const arms = buildArms(campaign.contents, dimension, hookLabels)
+  return analyzeArms(arms, { dimension, metric: options.metric ?? chooseMetric(arms) })
+}
+
+/**
+ * Evaluate hook experiments on live, auto-optimized campaigns (or just one)
+ * and retire the losing arms' content once a winner is significant. This runs
+ * on every optimizer run (the optimize cron, every six hours, and manual runs)
+ * on ever-growing totals, which is why analyzeArms uses sequential p-values.
+ * Each declaration and retirement is written to the activity log.
+ */
+export async function resolveExperiments(options: { campaignId?: string } = {}): Promise<ResolveExperimentsResult> {
+  const campaigns = await prisma.campaign.findMany({
+    where: options.campaignId
+      ? { id: options.campaignId, status: 'live' }
+      : { status: 'live', autoOptimize: true },
+    select: { id: true, playbook: { select: { businessId: true } } },
+  })
+
+  const result: ResolveExperimentsResult = {
+    evaluatedAt: new Date().toISOString(),
+    campaignsEvaluated: 0,
+    winnersDeclared: 0,
+    contentRetired: 0,
+    errors: [],
+  }
+
+  for (const campaign of campaigns) {
+    try {
+      const analysis = await getCampaignExperiment(campaign.id, { dimension: 'hook' })
+      result.campaignsEvaluated++
+      if (!analysis.winner) continue
+
+      result.winnersDeclared++
+      result.contentRetired += await retireLosingArms(campaign.id, campaign.playbook.businessId, analysis)
+    } catch (err) {
+      result.errors.push({
+        campaignId: campaign.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
+
+async function retireLosingArms(
+  campaignId: string,
+  businessId: string,
+  analysis: ExperimentAnalysis
+): Promise<number> {
+  const winner = analysis.arms.find((arm) => arm.isWinner)!
+  // Only arms that were actually beaten; arms still without data keep running
+  const losers = analysis.arms.filter(
+    (arm) => !arm.isWinner && arm.pValue !== null && arm.pValue < analysis.correctedAlpha && arm.activeContentIds.length > 0
+  )
+
+  await prisma.activityLog.create({
+    data: {
+      businessId,
+      campaignId,
+      actor: 'system',
+      action: 'experiment_winner_declared',
+      entityType: 'campaign',
+      entityId: campaignId,
+      details: {
+        dimension: analysis.dimension,
+        metric: analysis.metric,
+        winner: winner.key,
+        winnerLabel: winner.label,
+        correctedAlpha: analysis.correctedAlpha,
+        arms: analysis.arms.map((arm) => ({
+          key: arm.key,
+          impressions: arm.impressions,
+          clicks: arm.clicks,
+          conversions: arm.conversions,
+          lift: arm.lift,
+          pValue: arm.pValue,
+        })),
+      } as Prisma.InputJsonValue,
+    },
+  })
+
+  let retired = 0
+
+  for (const arm of losers) {
+    const contents = await prisma.content.findMany({
+      where: { id: { in: arm.activeContentIds }, status: { in: [...RETIRABLE_CONTENT_STATUSES] } },
+      select: { id: true, status: true },
+    })
+
+    for (const content of contents) {
+      await prisma.content.update({
+        where: { id: content.id },
+        data: { status: 'retired' },
+      })
+
+      const cancelled = await prisma.post.updateMany({
+        where: { contentId: content.id, status: { in: ['draft', 'scheduled', 'held'] } },
+        data: { status: 'deleted' },
+      })
+
+      await prisma.activityLog.create({
+        data: {
+          businessId,
+          campaignId,
+          actor: 'system',
+          action: 'content_retired',
+          entityType: 'content',
+          entityId: content.id,
+          details: {
+            reason: `Lost the ${analysis.dimension} experiment to "${winner.label}"`,
+            arm: arm.key,
+            metric: analysis.metric,
+            lift: arm.lift,
+            pValue: arm.pValue,
+            previousStatus: content.status,
+            postsCancelled: cancelled.count,
+          } as Prisma.InputJsonValue,
+        },
+      })
+      retired++
+    }
+  }
+
+  return retired
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function buildArms(
+  contents: ExperimentContent[],
+  dimension: ExperimentDimension,
+  hookLabels: Map<string, string>
+): ArmTotals[] {
+  const arms = new Map<string, ArmTotals>()
+
+  for (const content of contents) {
+    const arm = armFor(content, dimension, hookLabels)
+    if (!arm) continue
+
+    const existing = arms.get(arm.key) ?? {
+      ...arm,
+      contentIds: [],
+      activeContentIds: [],
+      impressions: 0,
+      clicks: 0,
+      conversions: 0,
+    }
+
+    const totals = sumLatestSnapshots(content.posts, content._count.conversions)
+    existing.contentIds.push(content.id)
+    if (content.status !== 'retired') existing.activeContentIds.push(content.id)
+    existing.impressions += totals.impressions
+    existing.clicks += totals.clicks
+    existing.conversions += totals.conversions
+    arms.set(arm.key, existing)
+  }
+
+  return [...arms.values()]
+}
+
+function armFor(
+  content: ExperimentContent,
+  dimension: ExperimentDimension,
+  hookLabels: Map<string, string>
+): { key: string; label: string } | null {
+  switch (dimension) {
+    case 'hook':
+      return content.hookSource
+        ? { key: content.hookSource, label: hookLabels.get(content.hookSource) ?? content.hookSource }
+        : null
+    case 'image':
+      return content.imageId
+        ? { key: content.imageId, label: content.image?.filename ?? content.imageId }
+        : null
+    case 'cta': {
+      const cta = content.ctaText?.trim()
+      return cta ? { key: cta.toLowerCase(), label: cta } : null
+    }
+  }
+}
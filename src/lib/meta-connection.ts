@@ -0,0 +1,124 @@
+import { cookies } from 'next/headers'
+import prisma from './prisma'
+import {
+  encryptToken,
+  decryptToken,
+  getPageAccessToken,
+  getIgAccount,
+  MetaIgAccount,
+} from './meta'
+import { markTokenReconnected } from './token-health'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PageOption {
+  id: string
+  name: string
+  category: string | null
+}
+
+/**
+ * Candidate Pages returned by the OAuth callback, waiting for the user to pick one.
+ * Held in an encrypted, short-lived cookie — never in the database.
+ */
+export interface PendingPageSelection {
+  businessId: string
+  userToken: string
+  userTokenExpiresAt: string
+  pages: PageOption[]
+  expiresAt: string
+}
+
+const STASH_COOKIE = 'meta-page-selection'
+const STASH_TTL_SECONDS = 15 * 60 // 15 minutes
+
+// =============================================================================
+// Pending Selection Stash
+// =============================================================================
+
+/**
+ * Stash the candidate Pages for a business until the user picks one.
+ */
+export async function stashPageSelection(
+  selection: Omit<PendingPageSelection, 'expiresAt'>
+): Promise<void> {
+  const payload: PendingPageSelection = {
+    ...selection,
+    expiresAt: new Date(Date.now() + STASH_TTL_SECONDS * 1000).toISOString(),
+  }
+
+  const cookieStore = await cookies()
+  cookieStore.set(STASH_COOKIE, encryptToken(JSON.stringify(payload)), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: STASH_TTL_SECONDS,
+    path: '/',
+  })
+}
+
+/**
+ * Read the pending selection for a business.
+ * Returns null if there is none, it has expired, or it belongs to another business.
+ */
+export async function getPendingPageSelection(
+  businessId: string
+): Promise<PendingPageSelection | null> {
+  const cookieStore = await cookies()
+  const value = cookieStore.get(STASH_COOKIE)?.value
+  if (!value) return null
+
+  try {
+    const selection = JSON.parse(decryptToken(value)) as PendingPageSelection
+    if (selection.businessId !== businessId) return null
+    if (new Date(selection.expiresAt).getTime() < Date.now()) return null
+    return selection
+  } catch {
+    return null
+  }
+}
+
+export async function clearPendingPageSelection(): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.delete(STASH_COOKIE)
+}
+
+// =============================================================================
+// Connecting a Page
+// =============================================================================
+
+/**
+ * Connect a business to one of the user's Pages: fetch the Page token and
+ * linked Instagram account, store them (encrypted) on the business, and
+ * clear any token-health warnings from a previous connection.
+ */
+export async function connectPage(input: {
+  businessId: string
+  userToken: string
+  userTokenExpiresAt: Date
+  page: PageOption
+}): Promise<{ igAccount: MetaIgAccount | null }> {
+  const { businessId, userToken, userTokenExpiresAt, page } = input
+
+  const pageToken = await getPageAccessToken(userToken, page.id)
+  const igAccount = await getIgAccount(page.id, pageToken)
+
+  await prisma.business.update({
+    where: { id: businessId },
+    data: {
+      metaPageId: page.id,
+      metaPageName: page.name,
+      metaPageToken: encryptToken(pageToken),
+      metaUserToken: encryptToken(userToken),
+      metaIgAccountId: igAccount?.id || null,
+      metaConnectedAt: new Date(),
+      metaTokenExpiresAt: userTokenExpiresAt,
+    },
+  })
+
+  await markTokenReconnected(businessId)
+
+  return { igAccount }
+}
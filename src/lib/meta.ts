@@ -4,7 +4,8 @@ import crypto from 'crypto'
 // Configuration
 // =============================================================================
 
-const META_GRAPH_API = 'https://graph.facebook.com/v21.0'
+const DEFAULT_GRAPH_API = 'https://graph.facebook.com/v21.0'
+const DEFAULT_OAUTH_DIALOG = 'https://www.facebook.com/v21.0/dialog/oauth'
 const META_APP_ID = process.env.META_APP_ID!
 const META_APP_SECRET = process.env.META_APP_SECRET!
 const META_REDIRECT_URI =
@@ -17,11 +18,27 @@ const ENCRYPTION_KEY = crypto
   .update(process.env.AUTH_SECRET || 'development-secret-key-must-be-at-least-32-chars')
   .digest()
 
+/**
+ * Graph API base URL. Set META_GRAPH_API_URL to point at a local stand-in
+ * (see scripts/fake-meta-graph.ts). Read per call so tests can switch it.
+ */
+export function getGraphApiUrl(): string {
+  return (process.env.META_GRAPH_API_URL || DEFAULT_GRAPH_API).replace(/\/+$/, '')
+}
+
+/**
+ * OAuth dialog URL. The fake Graph server serves one that redirects straight back.
+ */
+export function getOAuthDialogUrl(): string {
+  return process.env.META_OAUTH_DIALOG_URL || DEFAULT_OAUTH_DIALOG
+}
+
 const OAUTH_SCOPES = [
   'pages_manage_posts',
   'pages_read_engagement',
   'instagram_basic',
   'instagram_content_publish',
+  'ads_management',
 ].join(',')
 
 // =============================================================================
@@ -88,6 +105,15 @@ export interface MetaTokenInfo {
   expires_in?: number
 }
 
+export interface MetaTokenDebugInfo {
+  is_valid: boolean
+  type?: string
+  expires_at?: number // Unix seconds; 0 means the token never expires
+  data_access_expires_at?: number
+  scopes?: string[]
+  error?: { code: number; message: string; subcode?: number }
+}
+
 export interface MetaPostResult {
   id: string // The platform post ID
 }
@@ -99,6 +125,7 @@ export interface MetaPostInsights {
   reactions: number
   comments: number
   shares: number
+  saves: number
 }
 
 // =============================================================================
@@ -154,7 +181,7 @@ export function getOAuthUrl(state: string): string {
     response_type: 'code',
     state,
   })
-  return `https://www.facebook.com/v21.0/dialog/oauth?${params.toString()}`
+  return `${getOAuthDialogUrl()}?${params.toString()}`
 }
 
 /**
@@ -249,6 +276,20 @@ export async function refreshUserToken(longLivedUserToken: string): Promise<Meta
   return getLongLivedToken(longLivedUserToken)
 }
 
+/**
+ * Inspect a token with the debug_token endpoint (authenticated as the app).
+ * Invalidated tokens come back with is_valid: false rather than an API error.
+ */
+export async function debugToken(inputToken: string): Promise<MetaTokenDebugInfo> {
+  const params = new URLSearchParams({
+    input_token: inputToken,
+    access_token: `${META_APP_ID}|${META_APP_SECRET}`,
+  })
+
+  const res = await metaFetch(`/debug_token?${params.toString()}`)
+  return (res as { data: MetaTokenDebugInfo }).data
+}
+
 // =============================================================================
 // Posting — Facebook
 // =============================================================================
@@ -343,6 +384,45 @@ export async function postToInstagram(
   return publishRes as MetaPostResult
 }
 
+// =============================================================================
+// Ads — Ad Set Delivery
+// =============================================================================
+
+export type AdSetStatus = 'ACTIVE' | 'PAUSED' | 'DELETED' | 'ARCHIVED'
+
+/**
+ * Get an ad set's configured status (not its effective delivery status).
+ */
+export async function getAdSetStatus(adSetId: string, token: string): Promise<AdSetStatus> {
+  const res = await metaFetch(`/${adSetId}?fields=status&access_token=${token}`)
+  return (res as { status: AdSetStatus }).status
+}
+
+/**
+ * Pause or re-activate an ad set.
+ */
+export async function updateAdSetStatus(
+  adSetId: string,
+  token: string,
+  status: 'ACTIVE' | 'PAUSED'
+): Promise<void> {
+  await metaFetch(`/${adSetId}`, {
+    method: 'POST',
+    body: { status, access_token: token },
+  })
+}
+
+/**
+ * Get an ad set's lifetime spend, in the ad account's currency. Ad sets that
+ * haven't delivered yet have no insights rows and report 0.
+ */
+export async function getAdSetSpend(adSetId: string, token: string): Promise<number> {
+  const res = await metaFetch(`/${adSetId}/insights?fields=spend&date_preset=maximum&access_token=${token}`)
+  const data = res as { data?: Array<{ spend?: string }> }
+  const spend = Number(data.data?.[0]?.spend ?? 0)
+  return Number.isFinite(spend) ? spend : 0
+}
+
 // =============================================================================
 // Metrics / Insights
 // =============================================================================
@@ -379,6 +459,7 @@ export async function getPostInsights(
     reactions: insightsMap['post_reactions_like_total'] ?? 0,
     comments: data.comments?.summary?.total_count ?? 0,
     shares: data.shares?.count ?? 0,
+    saves: 0, // Facebook doesn't expose saves for page posts
   }
 }
 
@@ -409,6 +490,7 @@ export async function getIgMediaInsights(
     reactions: insightsMap['likes'] ?? 0,
     comments: insightsMap['comments'] ?? 0,
     shares: insightsMap['shares'] ?? 0,
+    saves: insightsMap['saved'] ?? 0,
   }
 }
 
@@ -433,7 +515,7 @@ async function metaFetch(
   options: MetaFetchOptions = {},
   retries = 3
 ): Promise<unknown> {
-  const url = `${META_GRAPH_API}${path}`
+  const url = `${getGraphApiUrl()}${path}`
   const { method = 'GET', body } = options
 
   const fetchOptions: RequestInit = { method }
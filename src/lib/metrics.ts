@@ -0,0 +1,310 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import {
+  decryptToken,
+  getAdSetSpend,
+  getPostInsights,
+  getIgMediaInsights,
+  MetaError,
+  MetaPostInsights,
+} from './meta'
+import { recomputeContentScores } from './scoring'
+import { checkBudgetPacing } from './pacing'
+import { detectAnomalies } from './anomalies'
+import { DAY_MS } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PollMetricsOptions {
+  /** Restrict polling to a single campaign (manual refresh) */
+  campaignId?: string
+  /** Only poll posts published within the last N days (default 30) */
+  days?: number
+}
+
+export interface PollMetricsResult {
+  polledAt: string
+  postsConsidered: number
+  snapshotsCreated: number
+  /** Posts left unpolled because Meta rate-limited this run */
+  deferred: number
+  rateLimited: boolean
+  /** Content rows whose performance score changed */
+  scoresUpdated: number
+  /** Budget escalations raised and campaigns paused after checking spend */
+  budgetEscalations: number
+  budgetPaused: number
+  /** Anomaly escalations opened for the polled campaigns */
+  anomaliesFlagged: number
+  errors: Array<{ postId: string; error: string }>
+}
+
+const DEFAULT_LOOKBACK_DAYS = 30
+
+// Small pause between Graph calls so a full run doesn't trip the rate limiter
+const REQUEST_SPACING_MS = 200
+
+// Performance.ctr / engagementRate are Decimal(5,4)
+const MAX_RATE = 9.9999
+
+// =============================================================================
+// Polling
+// =============================================================================
+
+/**
+ * Poll Meta insights for recently posted posts and store Performance snapshots.
+ *
+ * Each run appends a time-stamped Performance row per post (snapshots are
+ * cumulative totals as reported by Meta). Boosted posts (those with an
+ * `adSetId`) also get a share of their ad set's lifetime spend, which budget
+ * pacing and the CPA terms in scoring build on. An ad set's spend is fetched
+ * once per run and split evenly between the posts boosted through it, so a
+ * shared ad set is never counted twice; boosted posts of live campaigns are
+ * polled past the lookback window for the same reason, since their ad sets
+ * keep spending. If Meta still rate-limits after metaFetch's own retries,
+ * the run stops early and the remaining posts are picked up on the next poll. Content performance scores, budget pacing and
+ * anomaly detection for the polled campaigns are then rerun, and a
+ * `metrics_polled` activity entry is written per campaign so the UI can show
+ * when metrics were last refreshed.
+ */
+export async function pollMetrics(options: PollMetricsOptions = {}): Promise<PollMetricsResult> {
+  const days = options.days ?? DEFAULT_LOOKBACK_DAYS
+  const since = new Date(Date.now() - days * DAY_MS)
+  const polledAt = new Date()
+
+  const posts = await prisma.post.findMany({
+    where: {
+      status: 'posted',
+      platformPostId: { not: null },
+      OR: [{ postedAt: { gte: since } }, { adSetId: { not: null }, content: { campaign: { status: 'live' } } }],
+      ...(options.campaignId ? { content: { campaignId: options.campaignId } } : {}),
+    },
+    select: {
+      id: true,
+      platform: true,
+      platformPostId: true,
+      adSetId: true,
+      content: {
+        select: {
+          campaignId: true,
+          campaign: {
+            select: {
+              playbook: {
+                select: {
+                  business: { select: { id: true, metaPageToken: true, metaUserToken: true } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { postedAt: 'desc' },
+  })
+
+  const result: PollMetricsResult = {
+    polledAt: polledAt.toISOString(),
+    postsConsidered: posts.length,
+    snapshotsCreated: 0,
+    deferred: 0,
+    rateLimited: false,
+    scoresUpdated: 0,
+    budgetEscalations: 0,
+    budgetPaused: 0,
+    anomaliesFlagged: 0,
+    errors: [],
+  }
+
+  // Decrypt each business's page token (and ads token) once per run
+  const tokens = new Map<string, string | null>()
+  const adsTokens = new Map<string, string | null>()
+  // Each ad set's spend is fetched once and shared by the posts boosted through it
+  const adSetSpend = new Map<string, number>()
+  const adSetPosts = new Map<string, number>()
+  for (const post of posts) {
+    if (post.adSetId) adSetPosts.set(post.adSetId, (adSetPosts.get(post.adSetId) ?? 0) + 1)
+  }
+  // Per-campaign counts for the activity log
+  const campaignStats = new Map<string, { businessId: string; snapshots: number; errors: number }>()
+
+  for (let i = 0; i < posts.length; i++) {
+    const post = posts[i]
+    const business = post.content.campaign.playbook.business
+    const campaignId = post.content.campaignId
+
+    if (!campaignStats.has(campaignId)) {
+      campaignStats.set(campaignId, { businessId: business.id, snapshots: 0, errors: 0 })
+    }
+    const stats = campaignStats.get(campaignId)!
+
+    if (!tokens.has(business.id)) {
+      tokens.set(business.id, safeDecrypt(business.metaPageToken))
+    }
+    const pageToken = tokens.get(business.id)
+
+    // Ad sets belong to the ad account, so prefer the user token over the page token
+    if (!adsTokens.has(business.id)) {
+      adsTokens.set(business.id, safeDecrypt(business.metaUserToken) ?? pageToken ?? null)
+    }
+
+    if (!pageToken) {
+      result.errors.push({ postId: post.id, error: 'Business has no usable Meta page token' })
+      stats.errors++
+      continue
+    }
+
+    try {
+      const insights = post.platform === 'instagram'
+        ? await getIgMediaInsights(post.platformPostId!, pageToken)
+        : await getPostInsights(post.platformPostId!, pageToken)
+      let spend = 0
+      if (post.adSetId) {
+        if (!adSetSpend.has(post.adSetId)) {
+          adSetSpend.set(post.adSetId, await getAdSetSpend(post.adSetId, adsTokens.get(business.id) ?? pageToken))
+        }
+        spend = adSetSpend.get(post.adSetId)! / adSetPosts.get(post.adSetId)!
+      }
+
+      await prisma.performance.create({
+        data: {
+          postId: post.id,
+          recordedAt: polledAt,
+          ...buildPerformanceSnapshot(insights, spend),
+        },
+      })
+
+      result.snapshotsCreated++
+      stats.snapshots++
+    } catch (err) {
+      if (err instanceof MetaError && err.isRateLimited) {
+        // Back off: leave the rest for the next run
+        result.rateLimited = true
+        result.deferred = posts.length - i
+        break
+      }
+
+      const message = err instanceof MetaError
+        ? `Meta API Error (${err.code}): ${err.message}`
+        : err instanceof Error
+          ? err.message
+          : 'Unknown error'
+      result.errors.push({ postId: post.id, error: message })
+      stats.errors++
+
+      // An expired token fails every post for that business — stop trying it
+      if (err instanceof MetaError && err.isTokenExpired) {
+        tokens.set(business.id, null)
+      }
+    }
+
+    if (i < posts.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, REQUEST_SPACING_MS))
+    }
+  }
+
+  // Record the poll even when a campaign has no posts yet, so a manual
+  // refresh still updates "last polled"
+  if (options.campaignId && !campaignStats.has(options.campaignId)) {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: options.campaignId },
+      select: { playbook: { select: { businessId: true } } },
+    })
+    if (campaign) {
+      campaignStats.set(options.campaignId, {
+        businessId: campaign.playbook.businessId,
+        snapshots: 0,
+        errors: 0,
+      })
+    }
+  }
+
+  if (campaignStats.size > 0) {
+    result.scoresUpdated = await recomputeContentScores({ campaignIds: [...campaignStats.keys()] })
+
+    const pacing = await checkBudgetPacing({ campaignIds: [...campaignStats.keys()] })
+    result.budgetEscalations = pacing.escalationsRaised
+    result.budgetPaused = pacing.campaignsPaused
+
+    const anomalies = await detectAnomalies({ campaignIds: [...campaignStats.keys()] })
+    result.anomaliesFlagged = anomalies.escalationsRaised
+  }
+
+  for (const [campaignId, stats] of campaignStats) {
+    await prisma.activityLog.create({
+      data: {
+        businessId: stats.businessId,
+        campaignId,
+        actor: 'system',
+        action: 'metrics_polled',
+        entityType: 'campaign',
+        entityId: campaignId,
+        details: {
+          snapshotsCreated: stats.snapshots,
+          errors: stats.errors,
+          rateLimited: result.rateLimited,
+          manual: !!options.campaignId,
+        } as Prisma.InputJsonValue,
+      },
+    })
+  }
+
+  return result
+}
+
+/**
+ * Get the time of the most recent metrics poll (optionally for one campaign).
+ */
+export async function getLastPolledAt(campaignId?: string): Promise<Date | null> {
+  const entry = await prisma.activityLog.findFirst({
+    where: {
+      action: 'metrics_polled',
+      ...(campaignId ? { campaignId } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  })
+  return entry?.createdAt ?? null
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Map Meta insights (and ad spend, for boosted posts) onto Performance
+ * columns, computing CTR, engagement rate and cost per click.
+ */
+export function buildPerformanceSnapshot(insights: MetaPostInsights, spend = 0) {
+  const engagements = insights.reactions + insights.comments + insights.shares + insights.saves
+
+  return {
+    impressions: insights.impressions,
+    reach: insights.reach,
+    clicks: insights.clicks,
+    likes: insights.reactions,
+    comments: insights.comments,
+    shares: insights.shares,
+    saves: insights.saves,
+    ctr: insights.impressions > 0
+      ? Math.min(insights.clicks / insights.impressions, MAX_RATE)
+      : null,
+    engagementRate: insights.impressions > 0
+      ? Math.min(engagements / insights.impressions, MAX_RATE)
+      : null,
+    spend: Math.round(spend * 100) / 100,
+    cpc: spend > 0 && insights.clicks > 0
+      ? Math.round((spend / insights.clicks) * 100) / 100
+      : null,
+  }
+}
+
+function safeDecrypt(encrypted: string | null): string | null {
+  if (!encrypted) return null
+  try {
+    return decryptToken(encrypted)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,615 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import { Hook } from './claude'
+import { buildPlaybookContext, saveGeneratedContent } from './content-generation'
+import { generateScoredContent } from './content-quality'
+import { transitionCampaign } from './campaign-state'
+import { parseThresholdValue, DEFAULT_PERFORMANCE_THRESHOLDS, MetricBand } from './thresholds'
+import {
+  sumLatestSnapshots,
+  MIN_IMPRESSIONS_FOR_SCORE,
+  SCORED_CONVERSION_TYPES,
+  ContentTotals,
+} from './scoring'
+import { DAY_MS, asRecord } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PerformanceClass = 'exceeding' | 'meeting' | 'below' | 'persistent_fail'
+
+export interface CampaignMetrics {
+  impressions: number
+  clicks: number
+  conversions: number
+  spend: number
+  ctr: number
+  conversionRate: number
+  /** Null until there is paid spend */
+  cpa: number | null
+}
+
+export interface MetricThresholds {
+  ctr: number | null
+  conversionRate: number | null
+  cpa: number | null
+}
+
+export interface OptimizationThresholds {
+  exceeding: MetricThresholds
+  below: MetricThresholds
+  persistentFailureDays: number
+}
+
+export interface PerformanceEvaluation {
+  /** Null when there isn't enough data to judge the campaign yet */
+  classification: PerformanceClass | null
+  reasons: string[]
+  /** When the current run of BELOW evaluations started */
+  belowSince: Date | null
+  daysBelow: number
+}
+
+export interface OptimizeCampaignsResult {
+  optimizedAt: string
+  campaignsEvaluated: number
+  exceeding: number
+  meeting: number
+  below: number
+  persistentFail: number
+  insufficientData: number
+  contentPaused: number
+  contentGenerated: number
+  campaignsPaused: number
+  errors: Array<{ campaignId: string; error: string }>
+}
+
+export const DEFAULT_OPTIMIZATION_THRESHOLDS: OptimizationThresholds = {
+  exceeding: toMetricThresholds(DEFAULT_PERFORMANCE_THRESHOLDS.exceeding),
+  below: toMetricThresholds(DEFAULT_PERFORMANCE_THRESHOLDS.below),
+  persistentFailureDays: DEFAULT_PERFORMANCE_THRESHOLDS.persistent_failure_days,
+}
+
+// Conversion rate is too noisy to judge on fewer clicks than this
+export const MIN_CLICKS_FOR_CONVERSION_RATE = 20
+
+// Content scoring under this is paused when a campaign is BELOW
+export const LOSING_SCORE = 30
+
+// Content scoring at least this supplies the hooks for new variations
+export const WINNING_SCORE = 60
+
+// Variations requested per optimizer generation
+const GENERATION_BATCH_SIZE = 3
+
+// Optimizer variations scoring below this (0-100) are discarded and replaced
+// before they reach the review queue
+const GENERATION_MIN_QUALITY = 60
+
+// Most winning hooks fed into a single generation
+const MAX_GENERATION_HOOKS = 3
+
+// Content the optimizer may pause
+const PAUSABLE_CONTENT_STATUSES = ['approved', 'scheduled', 'posted'] as const
+
+const optimizableCampaignInclude = {
+  playbook: { include: { business: true } },
+  contents: {
+    select: {
+      id: true,
+      status: true,
+      headline: true,
+      hookSource: true,
+      performanceScore: true,
+      posts: {
+        where: { status: 'posted' },
+        select: {
+          performances: {
+            orderBy: { recordedAt: 'desc' },
+            take: 1,
+          },
+        },
+      },
+      _count: {
+        select: {
+          conversions: { where: { type: { in: [...SCORED_CONVERSION_TYPES] } } },
+        },
+      },
+    },
+  },
+} satisfies Prisma.CampaignInclude
+
+type OptimizableCampaign = Prisma.CampaignGetPayload<{ include: typeof optimizableCampaignInclude }>
+
+type ScoredContent = OptimizableCampaign['contents'][number] & { score: number | null }
+
+interface CampaignOptimization {
+  classification: PerformanceClass | null
+  contentPaused: number
+  contentGenerated: number
+  campaignPaused: boolean
+}
+
+// =============================================================================
+// Thresholds & Classification
+// =============================================================================
+
+/**
+ * Read `Campaign.performanceThresholds` ({"exceeding": {"ctr": ">3%", ...},
+ * "below": {...}, "persistent_failure_days": 14}). Missing values fall back to
+ * the defaults.
+ */
+export function parseOptimizationThresholds(value: unknown): OptimizationThresholds {
+  const thresholds = asRecord(value)
+  const days = parseThresholdValue(thresholds.persistent_failure_days)
+
+  return {
+    exceeding: parseMetricThresholds(thresholds.exceeding, DEFAULT_OPTIMIZATION_THRESHOLDS.exceeding),
+    below: parseMetricThresholds(thresholds.below, DEFAULT_OPTIMIZATION_THRESHOLDS.below),
+    persistentFailureDays:
+      days !== null && days > 0 ? days : DEFAULT_OPTIMIZATION_THRESHOLDS.persistentFailureDays,
+  }
+}
+
+/**
+ * Classify campaign metrics against its thresholds.
+ *
+ * A campaign is BELOW if any measurable metric is in the "below" band,
+ * EXCEEDING if every measurable metric beats its "exceeding" threshold, and
+ * MEETING otherwise. Conversion rate needs enough clicks to count, and CPA
+ * only applies once there is spend (spend without conversions counts as a CPA
+ * of at least the spend). Returns null below the minimum impressions.
+ */
+export function classifyMetrics(
+  metrics: CampaignMetrics,
+  thresholds: OptimizationThresholds
+): { classification: Exclude<PerformanceClass, 'persistent_fail'> | null; reasons: string[] } {
+  if (metrics.impressions < MIN_IMPRESSIONS_FOR_SCORE) {
+    return {
+      classification: null,
+      reasons: [`Only ${metrics.impressions} impressions (need ${MIN_IMPRESSIONS_FOR_SCORE})`],
+    }
+  }
+
+  const measured: Array<{ name: string; value: number; higherIsBetter: boolean; key: keyof MetricThresholds }> = [
+    { name: 'CTR', value: metrics.ctr, higherIsBetter: true, key: 'ctr' },
+  ]
+  if (metrics.clicks >= MIN_CLICKS_FOR_CONVERSION_RATE) {
+    measured.push({ name: 'Conversion rate', value: metrics.conversionRate, higherIsBetter: true, key: 'conversionRate' })
+  }
+  if (metrics.spend > 0) {
+    measured.push({ name: 'CPA', value: metrics.cpa ?? metrics.spend, higherIsBetter: false, key: 'cpa' })
+  }
+
+  const belowReasons: string[] = []
+  let exceedsAll = true
+  let exceedingChecks = 0
+
+  for (const metric of measured) {
+    const below = thresholds.below[metric.key]
+    if (below !== null && (metric.higherIsBetter ? metric.value < below : metric.value > below)) {
+      belowReasons.push(`${metric.name} ${formatMetric(metric.key, metric.value)} is worse than ${formatMetric(metric.key, below)}`)
+    }
+
+    const exceeding = thresholds.exceeding[metric.key]
+    if (exceeding !== null) {
+      exceedingChecks++
+      if (metric.higherIsBetter ? metric.value <= exceeding : metric.value >= exceeding) exceedsAll = false
+    }
+  }
+
+  if (belowReasons.length > 0) {
+    return { classification: 'below', reasons: belowReasons }
+  }
+
+  if (exceedingChecks > 0 && exceedsAll) {
+    return {
+      classification: 'exceeding',
+      reasons: measured.map((m) => `${m.name} ${formatMetric(m.key, m.value)} beats the exceeding threshold`),
+    }
+  }
+
+  return { classification: 'meeting', reasons: ['All measured metrics are within thresholds'] }
+}
+
+/**
+ * Classify a campaign, escalating a BELOW run to PERSISTENT_FAIL once it has
+ * lasted `persistentFailureDays`. `belowSince` is when the current BELOW run
+ * started (null if the last evaluation wasn't BELOW). Insufficient data keeps
+ * the run going rather than resetting it.
+ */
+export function classifyPerformance(input: {
+  metrics: CampaignMetrics
+  thresholds: OptimizationThresholds
+  belowSince: Date | null
+  now?: Date
+}): PerformanceEvaluation {
+  const now = input.now ?? new Date()
+  const { classification, reasons } = classifyMetrics(input.metrics, input.thresholds)
+
+  if (classification === null) {
+    return { classification: null, reasons, belowSince: input.belowSince, daysBelow: 0 }
+  }
+
+  if (classification !== 'below') {
+    return { classification, reasons, belowSince: null, daysBelow: 0 }
+  }
+
+  const belowSince = input.belowSince ?? now
+  const daysBelow = Math.floor((now.getTime() - belowSince.getTime()) / DAY_MS)
+
+  if (daysBelow >= input.thresholds.persistentFailureDays) {
+    return {
+      classification: 'persistent_fail',
+      reasons: [...reasons, `Below thresholds for ${daysBelow} days`],
+      belowSince,
+      daysBelow,
+    }
+  }
+
+  return { classification, reasons, belowSince, daysBelow }
+}
+
+/**
+ * Campaign-level rates from summed content totals.
+ */
+export function toCampaignMetrics(totals: ContentTotals): CampaignMetrics {
+  return {
+    impressions: totals.impressions,
+    clicks: totals.clicks,
+    conversions: totals.conversions,
+    spend: totals.spend,
+    ctr: totals.impressions > 0 ? totals.clicks / totals.impressions : 0,
+    conversionRate: totals.clicks > 0 ? totals.conversions / totals.clicks : 0,
+    cpa: totals.spend > 0 && totals.conversions > 0 ? totals.spend / totals.conversions : null,
+  }
+}
+
+// =============================================================================
+// Optimization Run
+// =============================================================================
+
+/**
+ * Evaluate every live campaign with auto-optimize on (or just one campaign)
+ * and take the autonomous action for its classification:
+ *
+ * - EXCEEDING: generate more variations of the winning hooks
+ * - MEETING: leave it alone
+ * - BELOW: pause losing content and generate variations from winning (or untried) hooks
+ * - PERSISTENT_FAIL: pause the campaign and open an escalation (queued for AI diagnosis)
+ *
+ * Every decision is written to the activity log with a system actor.
+ */
+export async function optimizeCampaigns(options: { campaignId?: string } = {}): Promise<OptimizeCampaignsResult> {
+  const optimizedAt = new Date()
+  const campaigns = await prisma.campaign.findMany({
+    where: options.campaignId
+      ? { id: options.campaignId, status: 'live' }
+      : { status: 'live', autoOptimize: true },
+    include: optimizableCampaignInclude,
+  })
+
+  const result: OptimizeCampaignsResult = {
+    optimizedAt: optimizedAt.toISOString(),
+    campaignsEvaluated: 0,
+    exceeding: 0,
+    meeting: 0,
+    below: 0,
+    persistentFail: 0,
+    insufficientData: 0,
+    contentPaused: 0,
+    contentGenerated: 0,
+    campaignsPaused: 0,
+    errors: [],
+  }
+
+  for (const campaign of campaigns) {
+    try {
+      const outcome = await optimizeCampaign(campaign, optimizedAt)
+      result.campaignsEvaluated++
+      result.contentPaused += outcome.contentPaused
+      result.contentGenerated += outcome.contentGenerated
+      if (outcome.campaignPaused) result.campaignsPaused++
+
+      switch (outcome.classification) {
+        case 'exceeding': result.exceeding++; break
+        case 'meeting': result.meeting++; break
+        case 'below': result.below++; break
+        case 'persistent_fail': result.persistentFail++; break
+        default: result.insufficientData++
+      }
+    } catch (err) {
+      result.errors.push({
+        campaignId: campaign.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
+
+async function optimizeCampaign(campaign: OptimizableCampaign, now: Date): Promise<CampaignOptimization> {
+  const thresholds = parseOptimizationThresholds(campaign.performanceThresholds)
+
+  const contents: ScoredContent[] = campaign.contents.map((content) => ({
+    ...content,
+    score: content.performanceScore === null ? null : Number(content.performanceScore),
+  }))
+
+  const totals: ContentTotals = { impressions: 0, clicks: 0, engagements: 0, conversions: 0, spend: 0 }
+  for (const content of contents) {
+    const contentTotals = sumLatestSnapshots(content.posts, content._count.conversions)
+    totals.impressions += contentTotals.impressions
+    totals.clicks += contentTotals.clicks
+    totals.engagements += contentTotals.engagements
+    totals.conversions += contentTotals.conversions
+    totals.spend += contentTotals.spend
+  }
+  const metrics = toCampaignMetrics(totals)
+
+  const evaluation = classifyPerformance({
+    metrics,
+    thresholds,
+    belowSince: campaign.belowThresholdSince,
+    now,
+  })
+
+  await prisma.campaign.update({
+    where: { id: campaign.id },
+    data: {
+      performanceStatus: evaluation.classification ?? campaign.performanceStatus,
+      belowThresholdSince: evaluation.belowSince,
+      lastOptimizedAt: now,
+    },
+  })
+
+  await logDecision(campaign, 'optimization_evaluated', 'campaign', campaign.id, {
+    classification: evaluation.classification,
+    previousClassification: campaign.performanceStatus,
+    reasons: evaluation.reasons,
+    metrics: { ...metrics },
+    daysBelow: evaluation.daysBelow,
+  })
+
+  const outcome: CampaignOptimization = {
+    classification: evaluation.classification,
+    contentPaused: 0,
+    contentGenerated: 0,
+    campaignPaused: false,
+  }
+
+  switch (evaluation.classification) {
+    case 'exceeding':
+      outcome.contentGenerated = await generateFromHooks(campaign, contents, 'exceeding')
+      break
+    case 'below':
+      outcome.contentPaused = await pauseLosingContent(campaign, contents)
+      outcome.contentGenerated = await generateFromHooks(campaign, contents, 'below')
+      break
+    case 'persistent_fail':
+      outcome.campaignPaused = await pauseFailingCampaign(campaign, contents, metrics, evaluation)
+      break
+  }
+
+  return outcome
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Pause active content scoring under LOSING_SCORE and cancel its unpublished
+ * posts. The best-scoring active piece is always kept so the campaign never
+ * goes dark on its own.
+ */
+async function pauseLosingContent(campaign: OptimizableCampaign, contents: ScoredContent[]): Promise<number> {
+  const active = contents
+    .filter((c) => (PAUSABLE_CONTENT_STATUSES as readonly string[]).includes(c.status))
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1))
+
+  const losers = active.slice(1).filter((c) => c.score !== null && c.score < LOSING_SCORE)
+
+  for (const content of losers) {
+    await prisma.content.update({
+      where: { id: content.id },
+      data: { status: 'paused' },
+    })
+
+    const cancelled = await prisma.post.updateMany({
+      where: { contentId: content.id, status: { in: ['draft', 'scheduled', 'held'] } },
+      data: { status: 'deleted' },
+    })
+
+    await logDecision(campaign, 'content_paused', 'content', content.id, {
+      reason: `Performance score ${content.score} is below ${LOSING_SCORE}`,
+      score: content.score,
+      previousStatus: content.status,
+      headline: content.headline,
+      postsCancelled: cancelled.count,
+    })
+  }
+
+  return losers.length
+}
+
+/**
+ * Generate a small batch of new variations for review. EXCEEDING campaigns
+ * build on their winning hooks; BELOW campaigns use winners if they have any,
+ * otherwise hooks they haven't tried yet. Skipped while earlier variations are
+ * still waiting for review.
+ */
+async function generateFromHooks(
+  campaign: OptimizableCampaign,
+  contents: ScoredContent[],
+  classification: 'exceeding' | 'below'
+): Promise<number> {
+  const playbook = campaign.playbook
+  const playbookHooks = Array.isArray(playbook.hooks) ? (playbook.hooks as unknown as Hook[]) : []
+  const audiences = Array.isArray(playbook.audiences) ? playbook.audiences : []
+
+  if (!playbook.positioning || playbookHooks.length === 0 || audiences.length === 0) {
+    await logDecision(campaign, 'content_generation_skipped', 'campaign', campaign.id, {
+      reason: 'Playbook is missing positioning, hooks or audiences',
+    })
+    return 0
+  }
+
+  if (contents.some((c) => c.status === 'generated')) {
+    await logDecision(campaign, 'content_generation_skipped', 'campaign', campaign.id, {
+      reason: 'Generated content is still waiting for review',
+    })
+    return 0
+  }
+
+  const hookScores = new Map<string, number>()
+  for (const content of contents) {
+    if (!content.hookSource || content.score === null || content.score < WINNING_SCORE) continue
+    hookScores.set(content.hookSource, Math.max(hookScores.get(content.hookSource) ?? 0, content.score))
+  }
+
+  let hooks = playbookHooks
+    .filter((h) => hookScores.has(h.id))
+    .sort((a, b) => hookScores.get(b.id)! - hookScores.get(a.id)!)
+  let source: 'winning_hooks' | 'untried_hooks' = 'winning_hooks'
+
+  if (hooks.length === 0 && classification === 'below') {
+    const tried = new Set(contents.map((c) => c.hookSource).filter(Boolean))
+    hooks = playbookHooks.filter((h) => !tried.has(h.id))
+    source = 'untried_hooks'
+  }
+
+  if (hooks.length === 0) {
+    await logDecision(campaign, 'content_generation_skipped', 'campaign', campaign.id, {
+      reason: classification === 'below' ? 'No winning or untried hooks left' : 'No content has scored as a winner yet',
+    })
+    return 0
+  }
+
+  hooks = hooks.slice(0, MAX_GENERATION_HOOKS)
+
+  const playbookContext = buildPlaybookContext(playbook)
+  const result = await generateScoredContent(
+    {
+      playbook: playbookContext,
+      targetAudience: campaign.targetAudience || playbookContext.audiences[0].name,
+      hooks,
+      contentType: 'organic_post',
+      platform: 'both',
+      count: GENERATION_BATCH_SIZE,
+    },
+    { minScore: GENERATION_MIN_QUALITY }
+  )
+
+  const created = await saveGeneratedContent({
+    campaignId: campaign.id,
+    contentType: 'organic_post',
+    result,
+    metadata: { source: 'optimizer', classification },
+  })
+
+  await logDecision(campaign, 'content_generated', 'campaign', campaign.id, {
+    reason: source === 'winning_hooks'
+      ? `Generating variations of winning hooks (${classification})`
+      : 'Generating variations from untried hooks (below)',
+    hookIds: hooks.map((h) => h.id),
+    hookScores: Object.fromEntries(hooks.map((h) => [h.id, hookScores.get(h.id) ?? null])),
+    contentIds: created.map((c) => c.id),
+    minQualityScore: GENERATION_MIN_QUALITY,
+    discardedCount: result.discarded.length,
+  })
+
+  return created.length
+}
+
+/**
+ * Pause a persistently failing campaign and open a critical escalation. The
+ * escalation is queued for AI analysis, which adds the diagnosis (messaging,
+ * targeting or product/market fit) and suggested actions. Returns whether
+ * the campaign was paused (the transition is rejected if it already left live).
+ */
+async function pauseFailingCampaign(
+  campaign: OptimizableCampaign,
+  contents: ScoredContent[],
+  metrics: CampaignMetrics,
+  evaluation: PerformanceEvaluation
+): Promise<boolean> {
+  const scored = contents
+    .filter((c) => c.score !== null)
+    .sort((a, b) => b.score! - a.score!)
+    .map((c) => ({ headline: c.headline, hookSource: c.hookSource, score: c.score }))
+
+  const paused = await transitionCampaign(campaign.id, 'pause', {
+    actor: 'system',
+    reason: `Below thresholds for ${evaluation.daysBelow} days (persistent failure)`,
+  })
+  if (paused.status === 'rejected') return false
+
+  await prisma.escalation.create({
+    data: {
+      campaignId: campaign.id,
+      type: 'persistent_failure',
+      severity: 'critical',
+      title: `Campaign Paused: ${campaign.name}`,
+      description: `${campaign.name} has been below its performance thresholds for ${evaluation.daysBelow} days and was paused automatically. ${evaluation.reasons.join('. ')}.`,
+      dataSnapshot: {
+        metrics: { ...metrics },
+        thresholds: campaign.performanceThresholds ?? null,
+        belowSince: evaluation.belowSince?.toISOString() ?? null,
+        daysBelow: evaluation.daysBelow,
+        topContent: scored.slice(0, 3),
+        bottomContent: scored.slice(-3).reverse(),
+      } as Prisma.InputJsonValue,
+      status: 'open',
+    },
+  })
+
+  return true
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function logDecision(
+  campaign: OptimizableCampaign,
+  action: string,
+  entityType: string,
+  entityId: string,
+  details: Record<string, unknown>
+): Promise<void> {
+  await prisma.activityLog.create({
+    data: {
+      businessId: campaign.playbook.businessId,
+      campaignId: campaign.id,
+      actor: 'system',
+      action,
+      entityType,
+      entityId,
+      details: details as Prisma.InputJsonValue,
+    },
+  })
+}
+
+function parseMetricThresholds(value: unknown, defaults: MetricThresholds): MetricThresholds {
+  const metrics = asRecord(value)
+  return {
+    ctr: parseThresholdValue(metrics.ctr) ?? defaults.ctr,
+    conversionRate: parseThresholdValue(metrics.conversion_rate) ?? defaults.conversionRate,
+    cpa: parseThresholdValue(metrics.cpa) ?? defaults.cpa,
+  }
+}
+
+function toMetricThresholds(band: MetricBand): MetricThresholds {
+  return {
+    ctr: band.ctr ?? null,
+    conversionRate: band.conversion_rate ?? null,
+    cpa: band.cpa ?? null,
+  }
+}
+
+function formatMetric(key: keyof MetricThresholds, value: number): string {
+  return key === 'cpa' ? `$${value.toFixed(2)}` : `${(value * 100).toFixed(2)}%`
+}
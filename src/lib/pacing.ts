@@ -0,0 +1,394 @@
+import prisma from './prisma'
+import { Prisma, EscalationSeverity } from '@prisma/client'
+import { transitionCampaign } from './campaign-state'
+import { DAY_MS } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type PacingStatus = 'unbudgeted' | 'on_track' | 'overspending' | 'depleting_early' | 'depleted'
+
+/** A Performance snapshot's spend (cumulative for its post) */
+export interface SpendSnapshot {
+  postId: string
+  recordedAt: Date
+  spend: Prisma.Decimal | number
+}
+
+export interface SpendSummary {
+  /** Spend per UTC day, keyed YYYY-MM-DD */
+  daily: Record<string, number>
+  total: number
+  /** Latest cumulative spend per post */
+  byPost: Record<string, number>
+}
+
+export interface PacingInput {
+  budgetDaily: number | null
+  budgetTotal: number | null
+  endDate: Date | null
+  spend: SpendSummary
+  now: Date
+}
+
+export interface PacingReport {
+  status: PacingStatus
+  severity: Extract<EscalationSeverity, 'warning' | 'critical'> | null
+  budgetDaily: number | null
+  budgetTotal: number | null
+  spentToday: number
+  spentTotal: number
+  remaining: number | null
+  percentSpent: number | null
+  /** Trailing average over the pacing window */
+  averageDailySpend: number
+  projectedDepletionDate: string | null
+  endDate: string | null
+  reasons: string[]
+  daily: Array<{ date: string; spend: number }>
+}
+
+export interface PacingCheckResult {
+  checkedAt: string
+  campaignsChecked: number
+  escalationsRaised: number
+  campaignsPaused: number
+  errors: Array<{ campaignId: string; error: string }>
+}
+
+// Days of spend averaged to project depletion
+export const PACING_WINDOW_DAYS = 7
+
+// Daily spend this far over budgetDaily is overspending; double the margin is critical
+export const DAILY_OVERSPEND_TOLERANCE = 0.1
+
+// Share of the total budget spent that triggers a warning, then a critical alert
+export const TOTAL_WARNING_SHARE = 0.8
+export const TOTAL_CRITICAL_SHARE = 0.95
+
+// Projected depletion this close is critical rather than a warning
+export const CRITICAL_DEPLETION_DAYS = 3
+
+const SEVERITY_RANK = { info: 0, warning: 1, critical: 2 } as const
+
+const STATUS_RANK: Record<PacingStatus, number> = {
+  unbudgeted: 0,
+  on_track: 0,
+  overspending: 1,
+  depleting_early: 2,
+  depleted: 3,
+}
+
+// =============================================================================
+// Spend
+// =============================================================================
+
+/**
+ * Turn cumulative per-post spend snapshots into spend per day: each snapshot
+ * contributes its increase over the post's previous snapshot to the day it
+ * was recorded.
+ */
+export function summarizeSpend(snapshots: SpendSnapshot[]): SpendSummary {
+  const sorted = [...snapshots].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  const summary: SpendSummary = { daily: {}, total: 0, byPost: {} }
+
+  for (const snapshot of sorted) {
+    const spend = Number(snapshot.spend)
+    const previous = summary.byPost[snapshot.postId] ?? 0
+    const delta = Math.max(spend - previous, 0)
+
+    summary.byPost[snapshot.postId] = Math.max(spend, previous)
+    if (delta > 0) {
+      const day = dayKey(snapshot.recordedAt)
+      summary.daily[day] = (summary.daily[day] ?? 0) + delta
+    }
+  }
+
+  summary.total = Object.values(summary.byPost).reduce((sum, spend) => sum + spend, 0)
+  return summary
+}
+
+// =============================================================================
+// Pacing
+// =============================================================================
+
+/**
+ * Compare spend with the daily and total budgets and project when the total
+ * runs out at the trailing average rate. The flight ends at the close of
+ * `endDate` (UTC).
+ */
+export function evaluatePacing(input: PacingInput): PacingReport {
+  const { budgetDaily, budgetTotal, endDate, spend, now } = input
+  const today = dayKey(now)
+  const spentToday = spend.daily[today] ?? 0
+
+  const days = Object.keys(spend.daily).sort()
+  const windowStart = dayKey(new Date(now.getTime() - (PACING_WINDOW_DAYS - 1) * DAY_MS))
+  const firstDay = days[0] && days[0] > windowStart ? days[0] : windowStart
+  const windowDays = Math.max(Math.round((Date.parse(today) - Date.parse(firstDay)) / DAY_MS) + 1, 1)
+  const windowSpend = days.filter((d) => d >= firstDay && d <= today).reduce((sum, d) => sum + spend.daily[d], 0)
+  const averageDailySpend = days.length > 0 ? windowSpend / windowDays : 0
+
+  const report: PacingReport = {
+    status: 'on_track',
+    severity: null,
+    budgetDaily,
+    budgetTotal,
+    spentToday: round(spentToday),
+    spentTotal: round(spend.total),
+    remaining: budgetTotal !== null ? round(Math.max(budgetTotal - spend.total, 0)) : null,
+    percentSpent: budgetTotal ? spend.total / budgetTotal : null,
+    averageDailySpend: round(averageDailySpend),
+    projectedDepletionDate: null,
+    endDate: endDate ? dayKey(endDate) : null,
+    reasons: [],
+    daily: days.map((date) => ({ date, spend: round(spend.daily[date]) })),
+  }
+
+  if (budgetDaily === null && budgetTotal === null) {
+    report.status = 'unbudgeted'
+    return report
+  }
+
+  const raise = (status: PacingStatus, severity: 'warning' | 'critical', reason: string) => {
+    report.reasons.push(reason)
+    if (!report.severity || SEVERITY_RANK[severity] > SEVERITY_RANK[report.severity]) {
+      report.severity = severity
+    }
+    if (STATUS_RANK[status] > STATUS_RANK[report.status]) {
+      report.status = status
+    }
+  }
+
+  if (budgetTotal !== null) {
+    const remaining = budgetTotal - spend.total
+
+    if (remaining <= 0) {
+      raise('depleted', 'critical', `Total budget of ${money(budgetTotal)} is exhausted (${money(spend.total)} spent)`)
+    } else {
+      if (averageDailySpend > 0) {
+        const depletionAt = new Date(now.getTime() + (remaining / averageDailySpend) * DAY_MS)
+        report.projectedDepletionDate = depletionAt.toISOString()
+
+        const flightEnd = endDate ? endDate.getTime() + DAY_MS : null
+        if (flightEnd !== null && depletionAt.getTime() < flightEnd) {
+          const daysLeft = (depletionAt.getTime() - now.getTime()) / DAY_MS
+          raise(
+            'depleting_early',
+            daysLeft <= CRITICAL_DEPLETION_DAYS ? 'critical' : 'warning',
+            `At ${money(averageDailySpend)}/day the budget runs out on ${dayKey(depletionAt)}, before the campaign ends on ${dayKey(endDate!)}`
+          )
+        }
+      }
+
+      const share = spend.total / budgetTotal
+      if (share >= TOTAL_CRITICAL_SHARE) {
+        raise('depleting_early', 'critical', `${Math.round(share * 100)}% of the total budget is spent`)
+      } else if (share >= TOTAL_WARNING_SHARE) {
+        raise('depleting_early', 'warning', `${Math.round(share * 100)}% of the total budget is spent`)
+      }
+    }
+  }
+
+  if (budgetDaily !== null && budgetDaily > 0 && spentToday > budgetDaily * (1 + DAILY_OVERSPEND_TOLERANCE)) {
+    raise(
+      'overspending',
+      spentToday > budgetDaily * (1 + 2 * DAILY_OVERSPEND_TOLERANCE) ? 'critical' : 'warning',
+      `${money(spentToday)} spent today against a daily budget of ${money(budgetDaily)}`
+    )
+  }
+
+  return report
+}
+
+/**
+ * Pacing report for one campaign, from its Performance snapshots.
+ */
+export async function getCampaignPacing(campaignId: string, now = new Date()): Promise<PacingReport | null> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { budgetDaily: true, budgetTotal: true, endDate: true },
+  })
+  if (!campaign) return null
+
+  const spend = summarizeSpend(await loadSpendSnapshots(campaignId))
+  return evaluatePacing({
+    budgetDaily: campaign.budgetDaily !== null ? Number(campaign.budgetDaily) : null,
+    budgetTotal: campaign.budgetTotal !== null ? Number(campaign.budgetTotal) : null,
+    endDate: campaign.endDate,
+    spend,
+    now,
+  })
+}
+
+// =============================================================================
+// Budget Check
+// =============================================================================
+
+/**
+ * Check pacing for live campaigns with a budget (optionally just some). Syncs
+ * `Post.budgetSpent`, raises `budget_depleted` escalations when pacing is off
+ * (one per severity while open) and pauses campaigns whose total budget is
+ * exhausted.
+ */
+export async function checkBudgetPacing(
+  options: { campaignIds?: string[]; now?: Date } = {}
+): Promise<PacingCheckResult> {
+  const now = options.now ?? new Date()
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      status: 'live',
+      OR: [{ budgetDaily: { not: null } }, { budgetTotal: { not: null } }],
+      ...(options.campaignIds ? { id: { in: options.campaignIds } } : {}),
+    },
+    select: {
+      id: true,
+      name: true,
+      budgetDaily: true,
+      budgetTotal: true,
+      endDate: true,
+      playbook: { select: { businessId: true } },
+      escalations: {
+        where: { type: 'budget_depleted', status: { in: ['open', 'acknowledged'] } },
+        select: { severity: true },
+      },
+    },
+  })
+
+  const result: PacingCheckResult = {
+    checkedAt: now.toISOString(),
+    campaignsChecked: 0,
+    escalationsRaised: 0,
+    campaignsPaused: 0,
+    errors: [],
+  }
+
+  for (const campaign of campaigns) {
+    try {
+      const snapshots = await loadSpendSnapshots(campaign.id)
+      const spend = summarizeSpend(snapshots)
+      await syncPostSpend(spend.byPost)
+
+      const report = evaluatePacing({
+        budgetDaily: campaign.budgetDaily !== null ? Number(campaign.budgetDaily) : null,
+        budgetTotal: campaign.budgetTotal !== null ? Number(campaign.budgetTotal) : null,
+        endDate: campaign.endDate,
+        spend,
+        now,
+      })
+      result.campaignsChecked++
+
+      if (!report.severity) continue
+
+      // Pausing always gets its own escalation; pacing alerts are raised once per severity
+      const alreadyRaised =
+        report.status !== 'depleted' &&
+        campaign.escalations.some((e) => SEVERITY_RANK[e.severity] >= SEVERITY_RANK[report.severity!])
+      if (!alreadyRaised) {
+        await raiseBudgetEscalation(campaign, report)
+        result.escalationsRaised++
+      }
+
+      if (report.status === 'depleted') {
+        const paused = await transitionCampaign(campaign.id, 'pause', {
+          actor: 'system',
+          reason: 'Total budget exhausted',
+          details: { spentTotal: report.spentTotal, budgetTotal: report.budgetTotal },
+        })
+        if (paused.status === 'ok') result.campaignsPaused++
+      }
+    } catch (err) {
+      result.errors.push({
+        campaignId: campaign.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
+
+type BudgetedCampaign = {
+  id: string
+  name: string
+  playbook: { businessId: string }
+}
+
+async function raiseBudgetEscalation(campaign: BudgetedCampaign, report: PacingReport): Promise<void> {
+  const depleted = report.status === 'depleted'
+  const escalation = await prisma.escalation.create({
+    data: {
+      campaignId: campaign.id,
+      type: 'budget_depleted',
+      severity: report.severity!,
+      title: depleted ? `Budget Depleted: ${campaign.name}` : `Budget Pacing: ${campaign.name}`,
+      description: `${report.reasons.join('. ')}.${depleted ? ' The campaign was paused automatically.' : ''}`,
+      dataSnapshot: {
+        status: report.status,
+        spentToday: report.spentToday,
+        spentTotal: report.spentTotal,
+        budgetDaily: report.budgetDaily,
+        budgetTotal: report.budgetTotal,
+        averageDailySpend: report.averageDailySpend,
+        projectedDepletionDate: report.projectedDepletionDate,
+        endDate: report.endDate,
+      } as Prisma.InputJsonValue,
+      status: 'open',
+    },
+  })
+
+  await logActivity(campaign, 'budget_alert_raised', {
+    escalationId: escalation.id,
+    status: report.status,
+    severity: report.severity,
+    reasons: report.reasons,
+  })
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function loadSpendSnapshots(campaignId: string): Promise<SpendSnapshot[]> {
+  // Spend is cumulative, so zero rows add nothing to the daily deltas
+  return prisma.performance.findMany({
+    where: { spend: { gt: 0 }, post: { content: { campaignId } } },
+    select: { postId: true, recordedAt: true, spend: true },
+  })
+}
+
+async function syncPostSpend(byPost: Record<string, number>): Promise<void> {
+  for (const [postId, spend] of Object.entries(byPost)) {
+    await prisma.post.updateMany({
+      where: { id: postId, NOT: { budgetSpent: spend } },
+      data: { budgetSpent: spend },
+    })
+  }
+}
+
+async function logActivity(campaign: BudgetedCampaign, action: string, details: Record<string, unknown>) {
+  await prisma.activityLog.create({
+    data: {
+      businessId: campaign.playbook.businessId,
+      campaignId: campaign.id,
+      actor: 'system',
+      action,
+      entityType: 'campaign',
+      entityId: campaign.id,
+      details: details as Prisma.InputJsonValue,
+    },
+  })
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function money(value: number): string {
+  return `$${value.toFixed(2)}`
+}
@@ -0,0 +1,175 @@
+// =============================================================================
+// Types
+// =============================================================================
+
+export type VariantPlatform = 'facebook' | 'instagram'
+
+export type PlatformSelection = VariantPlatform | 'both'
+
+/** Copy tailored to one platform, stored under Content.platformVariants[platform] */
+export interface PlatformVariant {
+  headline: string
+  body: string
+  ctaText: string
+  hashtags: string[]
+}
+
+export type PlatformVariants = Partial<Record<VariantPlatform, PlatformVariant>>
+
+export interface PlatformRules {
+  label: string
+  /** Hard limit on the published message/caption, including hashtags and link */
+  maxMessageLength: number
+  /** Recommended body length, given to the model as guidance */
+  bodyGuidance: string
+  /** The same guidance as a character range, used when scoring length compliance */
+  recommendedBodyLength: { min: number; max: number }
+  maxHeadlineLength: number
+  /** House norm for hashtags per post */
+  maxHashtags: number
+  /**
+   * attachment: the tracked link goes in the post's link field (preview card)
+   * caption: links aren't clickable, so the tracked URL is written into the caption
+   */
+  linkPlacement: 'attachment' | 'caption'
+  styleNotes: string
+}
+
+export const PLATFORM_RULES: Record<VariantPlatform, PlatformRules> = {
+  facebook: {
+    label: 'Facebook',
+    maxMessageLength: 63206,
+    bodyGuidance: '125-250 characters for feed posts, can be longer for ads',
+    recommendedBodyLength: { min: 125, max: 250 },
+    maxHeadlineLength: 40,
+    maxHashtags: 3,
+    linkPlacement: 'attachment',
+    styleNotes: 'Use emojis sparingly. The link is attached as a preview, so do not paste URLs into the copy.',
+  },
+  instagram: {
+    label: 'Instagram',
+    maxMessageLength: 2200,
+    bodyGuidance: '125-150 characters before the "more" cut-off, can run longer in the caption',
+    recommendedBodyLength: { min: 125, max: 150 },
+    maxHeadlineLength: 40,
+    maxHashtags: 10,
+    linkPlacement: 'caption',
+    styleNotes: 'More emoji-friendly, casual tone. Links are not clickable, so the CTA should point people to the link shown below the caption.',
+  },
+}
+
+const PLATFORMS = Object.keys(PLATFORM_RULES) as VariantPlatform[]
+
+// =============================================================================
+// Variants
+// =============================================================================
+
+export function requestedPlatforms(selection: PlatformSelection): VariantPlatform[] {
+  return selection === 'both' ? PLATFORMS : [selection]
+}
+
+/**
+ * Normalize hashtags to "#tag" form, dropping duplicates and anything that
+ * isn't a single word.
+ */
+export function normalizeHashtags(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return []
+
+  const seen = new Set<string>()
+  const tags: string[] = []
+  for (const raw of value) {
+    if (typeof raw !== 'string') continue
+    const tag = raw.trim().replace(/^#+/, '')
+    if (!/^[\p{L}\p{N}_]+$/u.test(tag) || seen.has(tag.toLowerCase())) continue
+    seen.add(tag.toLowerCase())
+    tags.push(`#${tag}`)
+    if (tags.length === max) break
+  }
+  return tags
+}
+
+/**
+ * Coerce a model-produced variant into a PlatformVariant within the
+ * platform's limits, falling back to the base copy for missing fields.
+ */
+export function sanitizePlatformVariant(
+  raw: unknown,
+  platform: VariantPlatform,
+  base: { headline: string; body: string; ctaText: string }
+): PlatformVariant {
+  const rules = PLATFORM_RULES[platform]
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const text = (field: 'headline' | 'body' | 'ctaText') =>
+    typeof value[field] === 'string' && (value[field] as string).trim() ? (value[field] as string).trim() : base[field]
+
+  return {
+    headline: truncate(text('headline'), rules.maxHeadlineLength),
+    body: text('body'),
+    ctaText: text('ctaText'),
+    hashtags: normalizeHashtags(value.hashtags, rules.maxHashtags),
+  }
+}
+
+/**
+ * The variant to publish on `platform`: the stored one, or the base copy for
+ * content generated before variants existed or written by hand.
+ */
+export function resolvePlatformVariant(
+  content: { headline: string | null; body: string | null; ctaText: string | null; platformVariants: unknown },
+  platform: VariantPlatform
+): PlatformVariant {
+  const variants = (content.platformVariants ?? {}) as Record<string, unknown>
+  const stored = variants[platform] as Partial<PlatformVariant> | undefined
+
+  return {
+    headline: stored?.headline ?? content.headline ?? '',
+    body: stored?.body ?? content.body ?? '',
+    ctaText: stored?.ctaText ?? content.ctaText ?? '',
+    hashtags: Array.isArray(stored?.hashtags) ? stored.hashtags : [],
+  }
+}
+
+/**
+ * Carry hand edits of the base copy into every stored variant, so an edited
+ * headline, body or CTA is what gets published. Hashtags are kept.
+ */
+export function applyBaseEdits(
+  variants: unknown,
+  edits: Partial<Pick<PlatformVariant, 'headline' | 'body' | 'ctaText'>>
+): PlatformVariants | null {
+  if (!variants || typeof variants !== 'object') return null
+
+  const changed = Object.fromEntries(Object.entries(edits).filter(([, value]) => value !== undefined))
+  return Object.fromEntries(
+    Object.entries(variants as PlatformVariants).map(([platform, variant]) => [platform, { ...variant, ...changed }])
+  )
+}
+
+/**
+ * Compose the published message for a platform. The body is shortened (never
+ * the CTA, hashtags or link) when the whole message would exceed the
+ * platform's limit.
+ */
+export function buildPlatformMessage(variant: PlatformVariant, platform: VariantPlatform, link?: string | null): string {
+  const rules = PLATFORM_RULES[platform]
+  const tail: string[] = []
+  if (variant.ctaText) tail.push(variant.ctaText)
+  if (link && rules.linkPlacement === 'caption') tail.push(link)
+  if (variant.hashtags.length > 0) tail.push(variant.hashtags.join(' '))
+
+  const parts = (body: string) => [variant.headline, body, ...tail].filter(Boolean).join('\n\n')
+
+  const overflow = parts(variant.body).length - rules.maxMessageLength
+  if (overflow <= 0) return parts(variant.body)
+  return parts(truncate(variant.body, Math.max(variant.body.length - overflow, 0)))
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function truncate(text: string, max: number): string {
+  if (text.length <= max) return text
+  if (max <= 1) return text.slice(0, max)
+  return `${text.slice(0, max - 1).trimEnd()}…`
+}
@@ -0,0 +1,387 @@
+import prisma from './prisma'
+import { Prisma, PostStatus } from '@prisma/client'
+import {
+  decryptToken,
+  postToFacebook,
+  postToInstagram,
+  MetaError,
+  getEscalationSeverity,
+  getEscalationType,
+} from './meta'
+import { buildUtmParams, applyUtmParams, getUtmTemplate, UtmParams } from './utm'
+import { buildPlatformMessage, resolvePlatformVariant } from './platform-variants'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * The subset of the Meta client used for publishing.
+ * Defaults to the real Graph API functions; tests can pass a fake.
+ */
+export interface MetaPublishClient {
+  postToFacebook: typeof postToFacebook
+  postToInstagram: typeof postToInstagram
+}
+
+/** What initiated the publish — drives activity-log actions and escalation titles */
+export type PublishTrigger = 'immediate' | 'scheduled' | 'retry'
+
+export interface PublishOptions {
+  trigger?: PublishTrigger
+  /** Statuses the post may be claimed from (default: draft, scheduled, failed) */
+  claimFrom?: PostStatus[]
+  client?: MetaPublishClient
+}
+
+const publishedPostInclude = {
+  content: {
+    select: {
+      id: true,
+      headline: true,
+      status: true,
+      campaign: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.PostInclude
+
+export type PublishedPost = Prisma.PostGetPayload<{ include: typeof publishedPostInclude }>
+
+export type PublishResult =
+  | { status: 'posted'; post: PublishedPost; platformPostId: string }
+  | { status: 'failed'; post: PublishedPost; error: string }
+  | { status: 'skipped'; reason: string }
+
+const defaultClient: MetaPublishClient = { postToFacebook, postToInstagram }
+
+const ACTIONS: Record<PublishTrigger, { success: string; failure: string }> = {
+  immediate: { success: 'post_published', failure: 'post_failed' },
+  scheduled: { success: 'post_published', failure: 'post_failed' },
+  retry: { success: 'post_retried_success', failure: 'post_retried_failed' },
+}
+
+const ESCALATION_TITLES: Record<PublishTrigger, string> = {
+  immediate: 'Post Failed',
+  scheduled: 'Scheduled Post Failed',
+  retry: 'Post Retry Failed',
+}
+
+/** How long a post may sit in `posting` before the publisher is assumed dead */
+export const PUBLISH_LEASE_MS = 15 * 60 * 1000
+
+// =============================================================================
+// Publishing
+// =============================================================================
+
+/**
+ * Publish a post to its platform and record the outcome.
+ *
+ * The post is claimed with a conditional update (claimFrom -> posting), so
+ * concurrent callers can never publish the same post twice; the claim time
+ * is kept so failStalePosts can find publishes that never finished. Posts of
+ * paused campaigns are never claimed, whatever the caller. On success the
+ * post and its content move to `posted`; on failure the post moves to
+ * `failed` and an escalation is opened. Both outcomes are activity-logged.
+ * Once Meta has accepted the post it is recorded as `posted` whatever happens
+ * to the writes after that, so a retry can never publish it twice.
+ */
+export async function publishPost(
+  postId: string,
+  options: PublishOptions = {}
+): Promise<PublishResult> {
+  const {
+    trigger = 'immediate',
+    claimFrom = ['draft', 'scheduled', 'failed'],
+    client = defaultClient,
+  } = options
+
+  // The campaign check is part of the claim so a pause can't slip in between
+  const claim = await prisma.post.updateMany({
+    where: { id: postId, status: { in: claimFrom }, content: { campaign: { status: { not: 'paused' } } } },
+    data: { status: 'posting', claimedAt: new Date(), errorMessage: null },
+  })
+
+  if (claim.count === 0) {
+    const paused = await prisma.post.count({ where: { id: postId, content: { campaign: { status: 'paused' } } } })
+    return {
+      status: 'skipped',
+      reason: paused
+        ? 'Campaign is paused. Resume it before posting'
+        : 'Post is not in a publishable state or was claimed by another process',
+    }
+  }
+
+  const post = await prisma.post.findUniqueOrThrow({
+    where: { id: postId },
+    include: {
+      content: {
+        include: {
+          image: { select: { id: true, storageUrl: true } },
+          campaign: {
+            select: {
+              id: true,
+              name: true,
+              playbook: {
+                select: {
+                  business: {
+                    select: {
+                      id: true,
+                      slug: true,
+                      settings: true,
+                      metaPageId: true,
+                      metaPageToken: true,
+                      metaIgAccountId: true,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+
+  const { content } = post
+  const business = content.campaign.playbook.business
+  const actions = ACTIONS[trigger]
+
+  // Tag the outbound CTA link so conversions can be attributed to this post
+  let utmParams: UtmParams | null = null
+  let trackedUrl: string | null = null
+  if (content.ctaUrl) {
+    utmParams = buildUtmParams(
+      {
+        platform: post.platform,
+        campaignName: content.campaign.name,
+        campaignId: content.campaign.id,
+        contentId: content.id,
+        postId: post.id,
+        businessSlug: business.slug,
+      },
+      getUtmTemplate(business.settings)
+    )
+    trackedUrl = applyUtmParams(content.ctaUrl, utmParams)
+  }
+
+  let platformPostId: string
+  try {
+    if (!business.metaPageId || !business.metaPageToken) {
+      throw new Error('Business does not have a Meta connection')
+    }
+    if (post.platform === 'instagram' && !business.metaIgAccountId) {
+      throw new Error('Business does not have an Instagram account connected')
+    }
+    if (post.platform === 'instagram' && !content.image?.storageUrl) {
+      throw new Error('Instagram posts require an image')
+    }
+
+    let pageToken: string
+    try {
+      pageToken = decryptToken(business.metaPageToken)
+    } catch {
+      throw new Error('Failed to decrypt Meta page token. Try reconnecting to Meta.')
+    }
+
+    if (post.platform === 'facebook') {
+      const message = buildPlatformMessage(resolvePlatformVariant(content, 'facebook'), 'facebook', trackedUrl)
+      const result = await client.postToFacebook(business.metaPageId, pageToken, {
+        message,
+        link: trackedUrl || undefined,
+        imageUrl: content.image?.storageUrl || undefined,
+      })
+      platformPostId = result.id
+    } else if (post.platform === 'instagram') {
+      const caption = buildPlatformMessage(resolvePlatformVariant(content, 'instagram'), 'instagram', trackedUrl)
+      const result = await client.postToInstagram(business.metaIgAccountId!, pageToken, {
+        imageUrl: content.image!.storageUrl,
+        caption,
+      })
+      platformPostId = result.id
+    } else {
+      throw new Error(`Publishing to ${post.platform} is not supported`)
+    }
+  } catch (err) {
+    const { message: errorMessage, severity, type } = classifyPublishError(err)
+
+    const failedPost = await prisma.post.update({
+      where: { id: postId },
+      data: { status: 'failed', errorMessage, trackedUrl },
+      include: publishedPostInclude,
+    })
+
+    await prisma.escalation.create({
+      data: {
+        campaignId: content.campaign.id,
+        type,
+        severity,
+        title: `${ESCALATION_TITLES[trigger]}: ${content.headline || 'Untitled'} on ${post.platform}`,
+        description: errorMessage,
+        status: 'open',
+      },
+    })
+
+    await prisma.activityLog.create({
+      data: {
+        businessId: business.id,
+        campaignId: content.campaign.id,
+        actor: 'system',
+        action: actions.failure,
+        entityType: 'post',
+        entityId: postId,
+        details: {
+          platform: post.platform,
+          error: errorMessage,
+          trigger,
+          contentHeadline: content.headline,
+        } as Prisma.InputJsonValue,
+      },
+    })
+
+    return { status: 'failed', post: failedPost, error: errorMessage }
+  }
+
+  // Meta has the post now. Record it with its platform ID on its own, so nothing
+  // after this can turn it back into a failed post that a retry would publish
+  // again; if even this write fails, failStalePosts escalates it after the lease.
+  const updatedPost = await prisma.post.update({
+    where: { id: postId },
+    data: {
+      status: 'posted',
+      platformPostId,
+      postedAt: new Date(),
+      errorMessage: null,
+      trackedUrl,
+    },
+    include: publishedPostInclude,
+  })
+
+  // Bookkeeping errors are logged, never reported as a failed publish
+  try {
+    await prisma.content.update({
+      where: { id: content.id },
+      data: {
+        status: 'posted',
+        // Most recently applied UTM params
+        ...(utmParams ? { utmParams: utmParams as unknown as Prisma.InputJsonValue } : {}),
+      },
+    })
+
+    await prisma.activityLog.create({
+      data: {
+        businessId: business.id,
+        campaignId: content.campaign.id,
+        actor: 'system',
+        action: actions.success,
+        entityType: 'post',
+        entityId: postId,
+        details: {
+          platform: post.platform,
+          platformPostId,
+          trigger,
+          scheduledFor: post.scheduledFor?.toISOString() ?? null,
+          contentHeadline: content.headline,
+        } as Prisma.InputJsonValue,
+      },
+    })
+  } catch (err) {
+    console.error(`Post ${postId} was published as ${platformPostId} but its bookkeeping failed:`, err)
+  }
+
+  return { status: 'posted', post: updatedPost, platformPostId }
+}
+
+/**
+ * Fail posts that have been `posting` for longer than PUBLISH_LEASE_MS: their
+ * publisher crashed or timed out between claiming them and recording the
+ * outcome. Whether Meta received the post is unknown, so they are never
+ * re-published here; each gets an escalation so someone can check the page
+ * before retrying. Returns the IDs of the posts failed.
+ */
+export async function failStalePosts(now = new Date()): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - PUBLISH_LEASE_MS)
+  const stale = await prisma.post.findMany({
+    where: { status: 'posting', OR: [{ claimedAt: { lt: cutoff } }, { claimedAt: null }] },
+    include: {
+      content: {
+        select: {
+          headline: true,
+          campaign: { select: { id: true, playbook: { select: { businessId: true } } } },
+        },
+      },
+    },
+  })
+
+  const failed: string[] = []
+  for (const post of stale) {
+    const errorMessage = 'Publishing did not finish. Check the page for this post before retrying.'
+
+    // Conditional on the same claim, in case the publisher finished after all
+    const claim = await prisma.post.updateMany({
+      where: { id: post.id, status: 'posting', claimedAt: post.claimedAt },
+      data: { status: 'failed', errorMessage },
+    })
+    if (claim.count === 0) continue
+
+    const { campaign } = post.content
+    await prisma.escalation.create({
+      data: {
+        campaignId: campaign.id,
+        type: 'persistent_failure',
+        severity: 'warning',
+        title: `Post Stuck Publishing: ${post.content.headline || 'Untitled'} on ${post.platform}`,
+        description: errorMessage,
+        status: 'open',
+      },
+    })
+
+    await prisma.activityLog.create({
+      data: {
+        businessId: campaign.playbook.businessId,
+        campaignId: campaign.id,
+        actor: 'system',
+        action: 'post_publish_timed_out',
+        entityType: 'post',
+        entityId: post.id,
+        details: {
+          platform: post.platform,
+          claimedAt: post.claimedAt?.toISOString() ?? null,
+          contentHeadline: post.content.headline,
+        } as Prisma.InputJsonValue,
+      },
+    })
+
+    failed.push(post.id)
+  }
+
+  return failed
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Classify a publishing error into a message and escalation severity/type.
+ * Meta errors go through getEscalationSeverity/getEscalationType; anything
+ * else is treated as a persistent failure warning.
+ */
+export function classifyPublishError(err: unknown): {
+  message: string
+  severity: 'info' | 'warning' | 'critical'
+  type: 'persistent_failure' | 'anomaly_detected'
+} {
+  if (err instanceof MetaError) {
+    return {
+      message: `Meta API Error (${err.code}): ${err.message}`,
+      severity: getEscalationSeverity(err),
+      type: getEscalationType(err),
+    }
+  }
+
+  return {
+    message: err instanceof Error ? err.message : 'Unknown posting error',
+    severity: 'warning',
+    type: 'persistent_failure',
+  }
+}
@@ -0,0 +1,236 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import { parseThresholdValue, DEFAULT_SCORE_WEIGHTS, ScoreWeights } from './thresholds'
+import { asRecord } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Targets that count as full marks (or, for CPA, the point of maximum penalty) */
+export interface ScoreTargets {
+  conversionRate: number // conversions per click
+  engagementRate: number // engagements per impression
+  ctr: number // clicks per impression
+  maxCpa: number // cost per acquisition at which the cost penalty is maxed out
+}
+
+export interface ScoreConfig {
+  weights: ScoreWeights
+  targets: ScoreTargets
+}
+
+/** Aggregated metrics for one content piece across all of its posts */
+export interface ContentTotals {
+  impressions: number
+  clicks: number
+  engagements: number
+  conversions: number
+  spend: number
+}
+
+/** The Performance snapshot fields that feed into a score */
+export interface SnapshotTotals {
+  impressions: number
+  clicks: number
+  likes: number
+  comments: number
+  shares: number
+  saves: number
+  spend: Prisma.Decimal | number
+}
+
+export interface ScoreBreakdown {
+  score: number | null
+  conversionRate: number
+  engagementRate: number
+  ctr: number
+  cpa: number | null
+}
+
+// Defaults follow the "exceeding" thresholds (ctr > 3%, conversion rate > 10%)
+// and the "below" CPA (> $100) from the architecture doc §5.5
+export const DEFAULT_SCORE_TARGETS: ScoreTargets = {
+  conversionRate: 0.1,
+  engagementRate: 0.05,
+  ctr: 0.03,
+  maxCpa: 100,
+}
+
+// Below this many impressions a score is too noisy to be useful
+export const MIN_IMPRESSIONS_FOR_SCORE = 100
+
+// Conversion types that count towards the score (clicks are already counted via CTR)
+export const SCORED_CONVERSION_TYPES = ['signup', 'trial', 'purchase'] as const
+
+// Content.performanceScore is Decimal(5,2)
+const MAX_SCORE = 100
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/**
+ * Resolve scoring weights and targets for a campaign.
+ *
+ * Weights come from `performanceThresholds.scoreWeights` (or
+ * `successMetrics.scoreWeights`); any missing weight falls back to the default.
+ * Targets are read from `performanceThresholds.exceeding` (ctr,
+ * conversion_rate, engagement_rate) and `performanceThresholds.below.cpa`.
+ */
+export function getScoreConfig(campaign: {
+  successMetrics: unknown
+  performanceThresholds: unknown
+}): ScoreConfig {
+  const thresholds = asRecord(campaign.performanceThresholds)
+  const successMetrics = asRecord(campaign.successMetrics)
+  const weightOverrides = asRecord(thresholds.scoreWeights ?? successMetrics.scoreWeights)
+
+  const weights = { ...DEFAULT_SCORE_WEIGHTS }
+  for (const key of Object.keys(weights) as Array<keyof ScoreWeights>) {
+    const value = Number(weightOverrides[key])
+    if (weightOverrides[key] !== undefined && Number.isFinite(value) && value >= 0) {
+      weights[key] = value
+    }
+  }
+
+  const exceeding = asRecord(thresholds.exceeding)
+  const below = asRecord(thresholds.below)
+
+  return {
+    weights,
+    targets: {
+      conversionRate: parseThresholdValue(exceeding.conversion_rate) ?? DEFAULT_SCORE_TARGETS.conversionRate,
+      engagementRate: parseThresholdValue(exceeding.engagement_rate) ?? DEFAULT_SCORE_TARGETS.engagementRate,
+      ctr: parseThresholdValue(exceeding.ctr) ?? DEFAULT_SCORE_TARGETS.ctr,
+      maxCpa: parseThresholdValue(below.cpa) ?? DEFAULT_SCORE_TARGETS.maxCpa,
+    },
+  }
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * Compute a 0–100 performance score:
+ *
+ *   score = 100 × (w_conv × conversion rate + w_eng × engagement rate
+ *                  + w_click × CTR − w_cost × CPA)
+ *
+ * Each rate is normalised against its target and capped at 1, so content that
+ * hits every "exceeding" threshold scores 100 with the default weights. The
+ * CPA term is a penalty that only applies to paid content (spend > 0).
+ * Returns a null score until the content has enough impressions.
+ */
+export function computePerformanceScore(totals: ContentTotals, config: ScoreConfig): ScoreBreakdown {
+  const { weights, targets } = config
+
+  const ctr = totals.impressions > 0 ? totals.clicks / totals.impressions : 0
+  const engagementRate = totals.impressions > 0 ? totals.engagements / totals.impressions : 0
+  const conversionRate = totals.clicks > 0 ? totals.conversions / totals.clicks : 0
+  const cpa = totals.spend > 0 && totals.conversions > 0 ? totals.spend / totals.conversions : null
+
+  if (totals.impressions < MIN_IMPRESSIONS_FOR_SCORE) {
+    return { score: null, conversionRate, engagementRate, ctr, cpa }
+  }
+
+  let costPenalty = 0
+  if (totals.spend > 0) {
+    // Spending without converting is the worst case
+    costPenalty = cpa === null ? 1 : normalise(cpa, targets.maxCpa)
+  }
+
+  const raw =
+    weights.conversions * normalise(conversionRate, targets.conversionRate) +
+    weights.engagement * normalise(engagementRate, targets.engagementRate) +
+    weights.clicks * normalise(ctr, targets.ctr) -
+    weights.cost * costPenalty
+
+  const score = Math.round(Math.min(Math.max(raw * 100, 0), MAX_SCORE) * 100) / 100
+
+  return { score, conversionRate, engagementRate, ctr, cpa }
+}
+
+/**
+ * Recompute `Content.performanceScore` for posted content from each post's
+ * latest Performance snapshot and the content's attributed conversions.
+ * Returns the number of content rows updated.
+ */
+export async function recomputeContentScores(options: { campaignIds?: string[] } = {}): Promise<number> {
+  const contents = await prisma.content.findMany({
+    where: {
+      posts: { some: { status: 'posted' } },
+      ...(options.campaignIds ? { campaignId: { in: options.campaignIds } } : {}),
+    },
+    select: {
+      id: true,
+      performanceScore: true,
+      campaign: { select: { successMetrics: true, performanceThresholds: true } },
+      posts: {
+        where: { status: 'posted' },
+        select: {
+          performances: {
+            orderBy: { recordedAt: 'desc' },
+            take: 1,
+          },
+        },
+      },
+      _count: {
+        select: {
+          conversions: { where: { type: { in: [...SCORED_CONVERSION_TYPES] } } },
+        },
+      },
+    },
+  })
+
+  let updated = 0
+
+  for (const content of contents) {
+    const totals = sumLatestSnapshots(content.posts, content._count.conversions)
+    const { score } = computePerformanceScore(totals, getScoreConfig(content.campaign))
+    const current = content.performanceScore === null ? null : Number(content.performanceScore)
+
+    if (score !== current) {
+      await prisma.content.update({
+        where: { id: content.id },
+        data: { performanceScore: score },
+      })
+      updated++
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Total up each post's latest Performance snapshot (posts must be loaded with
+ * `performances` ordered newest first). Snapshots are cumulative, so only the
+ * latest one per post counts.
+ */
+export function sumLatestSnapshots(
+  posts: Array<{ performances: SnapshotTotals[] }>,
+  conversions: number
+): ContentTotals {
+  const totals: ContentTotals = { impressions: 0, clicks: 0, engagements: 0, conversions, spend: 0 }
+
+  for (const post of posts) {
+    const latest = post.performances[0]
+    if (!latest) continue
+    totals.impressions += latest.impressions
+    totals.clicks += latest.clicks
+    totals.engagements += latest.likes + latest.comments + latest.shares + latest.saves
+    totals.spend += Number(latest.spend)
+  }
+
+  return totals
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function normalise(value: number, target: number): number {
+  if (target <= 0) return 0
+  return Math.min(value / target, 1)
+}
@@ -0,0 +1,118 @@
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ServerSentEvent {
+  event: string
+  data: unknown
+}
+
+// =============================================================================
+// Incremental JSON
+// =============================================================================
+
+/**
+ * Pull complete items out of a JSON array as its text streams in, e.g. each
+ * variation of `{"variations": [{...}, {...}]}` as soon as its closing brace
+ * arrives. Text before the `"key": [` (prose, code fences) is ignored, and so
+ * is everything after the array closes. Items that aren't valid JSON are
+ * dropped.
+ */
+export function createJsonArrayStreamParser(key: string) {
+  let buffer = ''
+  let position = 0
+  let inArray = false
+  let done = false
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let itemStart = -1
+
+  function findArrayStart(): boolean {
+    const keyAt = buffer.search(new RegExp(`"${key}"\\s*:\\s*\\[`))
+    if (keyAt === -1) return false
+    position = buffer.indexOf('[', keyAt) + 1
+    return true
+  }
+
+  return {
+    push(chunk: string): unknown[] {
+      buffer += chunk
+      if (done || (!inArray && !(inArray = findArrayStart()))) return []
+
+      const items: unknown[] = []
+      for (; position < buffer.length; position++) {
+        const char = buffer[position]
+
+        if (inString) {
+          if (escaped) escaped = false
+          else if (char === '\\') escaped = true
+          else if (char === '"') inString = false
+          continue
+        }
+
+        if (char === '"') {
+          inString = true
+        } else if (char === '{' || char === '[') {
+          if (depth === 0) itemStart = position
+          depth++
+        } else if (char === '}' || char === ']') {
+          if (depth === 0) {
+            done = true
+            break
+          }
+          depth--
+          if (depth === 0) {
+            try {
+              items.push(JSON.parse(buffer.slice(itemStart, position + 1)))
+            } catch {
+              // Skip malformed items rather than failing the whole stream
+            }
+          }
+        }
+      }
+      return items
+    },
+  }
+}
+
+// =============================================================================
+// Server-Sent Events
+// =============================================================================
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Split a text/event-stream body into events as chunks arrive. Only the
+ * `event` and `data` fields are read; data is parsed as JSON.
+ */
+export function createServerSentEventParser() {
+  let buffer = ''
+
+  return {
+    push(chunk: string): ServerSentEvent[] {
+      buffer += chunk.replace(/\r\n/g, '\n')
+      const frames = buffer.split('\n\n')
+      buffer = frames.pop() ?? ''
+
+      const events: ServerSentEvent[] = []
+      for (const frame of frames) {
+        let event = 'message'
+        const data: string[] = []
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim()
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+        }
+        if (data.length === 0) continue
+        try {
+          events.push({ event, data: JSON.parse(data.join('\n')) })
+        } catch {
+          // Ignore frames that aren't ours (e.g. proxy keep-alives)
+        }
+      }
+      return events
+    },
+  }
+}
@@ -0,0 +1,78 @@
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+/** Inputs longer than this (in tokens, each) are diffed as a whole replacement */
+const MAX_DIFF_TOKENS = 2000
+
+// =============================================================================
+// Word Diff
+// =============================================================================
+
+/**
+ * Word-level diff of two strings, for showing what changed between content
+ * versions. Each word carries its trailing whitespace, so joining the `equal`
+ * and `removed` segments gives `before` back, and `equal` plus `added` gives
+ * `after`. Adjacent segments of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return merge([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ])
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const segments: DiffSegment[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i++] })
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      segments.push({ type: 'removed', text: a[i++] })
+    } else {
+      segments.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) segments.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) segments.push({ type: 'added', text: b[j++] })
+
+  return merge(segments)
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
+
+function merge(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = []
+  for (const segment of segments) {
+    if (!segment.text) continue
+    const last = merged[merged.length - 1]
+    if (last && last.type === segment.type) last.text += segment.text
+    else merged.push({ ...segment })
+  }
+  return merged
+}
@@ -0,0 +1,296 @@
+// Campaign performance thresholds and success metrics.
+// Kept free of server imports so the campaign editor can share the validation.
+
+import { isRecord } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Rates are fractions (0.03 = 3%), CPA is in dollars */
+export interface MetricBand {
+  ctr?: number
+  conversion_rate?: number
+  engagement_rate?: number
+  cpa?: number
+}
+
+export type BandMetric = keyof MetricBand
+
+export interface ScoreWeights {
+  conversions: number
+  engagement: number
+  clicks: number
+  cost: number
+}
+
+/**
+ * Stored in `Campaign.performanceThresholds`. Anything between the
+ * "exceeding" and "below" bands counts as meeting (architecture doc §5.5).
+ */
+export interface PerformanceThresholds {
+  exceeding: MetricBand
+  below: MetricBand
+  persistent_failure_days: number
+  scoreWeights?: ScoreWeights
+}
+
+/** Stored in `Campaign.successMetrics`, e.g. { subscribers: 15, cac: 100, ctr: 0.02 } */
+export type SuccessMetrics = Record<string, number>
+
+export interface ValidationResult<T> {
+  /** The normalised value, keeping whatever was valid */
+  value: T
+  /** Field path (e.g. "performanceThresholds.below.ctr") → message; empty when valid */
+  errors: Record<string, string>
+}
+
+export const BAND_METRICS: BandMetric[] = ['ctr', 'conversion_rate', 'engagement_rate', 'cpa']
+
+// Metrics expressed as a fraction rather than a count or amount
+export const RATE_METRICS = ['ctr', 'conversion_rate', 'engagement_rate'] as const
+
+// Default: conversions=0.5, engagement=0.2, clicks=0.2, cost=0.1 (architecture doc §5.4)
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  conversions: 0.5,
+  engagement: 0.2,
+  clicks: 0.2,
+  cost: 0.1,
+}
+
+// The threshold example from the architecture doc §5.5
+export const DEFAULT_PERFORMANCE_THRESHOLDS: PerformanceThresholds = {
+  exceeding: { ctr: 0.03, conversion_rate: 0.1, cpa: 50 },
+  below: { ctr: 0.01, conversion_rate: 0.02, cpa: 100 },
+  persistent_failure_days: 14,
+}
+
+export const MAX_PERSISTENT_FAILURE_DAYS = 90
+
+const THRESHOLD_KEYS = ['exceeding', 'below', 'persistent_failure_days', 'scoreWeights']
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse a threshold value such as ">3%", "<$50", "0.03" or 50.
+ * Percentages are returned as fractions. Returns null if nothing numeric is found.
+ */
+export function parseThresholdValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+
+  const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/)
+  if (!match) return null
+
+  const number = parseFloat(match[0])
+  return value.includes('%') ? number / 100 : number
+}
+
+export function isRateMetric(key: string): boolean {
+  return (RATE_METRICS as readonly string[]).includes(key)
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate and normalise performance thresholds. Values may be numbers or the
+ * architecture doc's strings (">3%", "<$50"); rates must end up between 0 and 1
+ * and each "exceeding" value must be better than its "below" value. A missing
+ * `persistent_failure_days` defaults to 14.
+ */
+export function validatePerformanceThresholds(input: unknown): ValidationResult<PerformanceThresholds> {
+  const errors: Record<string, string> = {}
+  const value: PerformanceThresholds = {
+    exceeding: {},
+    below: {},
+    persistent_failure_days: DEFAULT_PERFORMANCE_THRESHOLDS.persistent_failure_days,
+  }
+
+  if (!isRecord(input)) {
+    return { value, errors: { performanceThresholds: 'Must be an object' } }
+  }
+
+  for (const key of Object.keys(input)) {
+    if (!THRESHOLD_KEYS.includes(key)) errors[key] = 'Unknown threshold setting'
+  }
+
+  value.exceeding = validateBand(input.exceeding, 'exceeding', errors)
+  value.below = validateBand(input.below, 'below', errors)
+
+  for (const metric of BAND_METRICS) {
+    const exceeding = value.exceeding[metric]
+    const below = value.below[metric]
+    if (exceeding === undefined || below === undefined) continue
+
+    const ordered = metric === 'cpa' ? exceeding < below : exceeding > below
+    if (!ordered) {
+      errors[`exceeding.${metric}`] = metric === 'cpa'
+        ? 'Exceeding CPA must be lower than the below CPA'
+        : 'Exceeding value must be higher than the below value'
+    }
+  }
+
+  if (input.persistent_failure_days !== undefined && input.persistent_failure_days !== null) {
+    const days = parseThresholdValue(input.persistent_failure_days)
+    if (days === null || !Number.isInteger(days) || days < 1 || days > MAX_PERSISTENT_FAILURE_DAYS) {
+      errors.persistent_failure_days = `Must be a whole number of days between 1 and ${MAX_PERSISTENT_FAILURE_DAYS}`
+    } else {
+      value.persistent_failure_days = days
+    }
+  }
+
+  if (input.scoreWeights !== undefined && input.scoreWeights !== null) {
+    const weights = validateScoreWeights(input.scoreWeights, errors)
+    if (weights) value.scoreWeights = weights
+  }
+
+  return { value, errors: prefixKeys('performanceThresholds', errors) }
+}
+
+/**
+ * Validate and normalise success metrics: a flat map of metric name to a
+ * non-negative number ("2%" becomes 0.02, "$100" becomes 100).
+ */
+export function validateSuccessMetrics(input: unknown): ValidationResult<SuccessMetrics> {
+  const errors: Record<string, string> = {}
+  const value: SuccessMetrics = {}
+
+  if (!isRecord(input)) {
+    return { value, errors: { successMetrics: 'Must be an object' } }
+  }
+
+  for (const [rawKey, raw] of Object.entries(input)) {
+    const key = rawKey.trim()
+    if (!key) {
+      errors[rawKey] = 'Metric name is required'
+      continue
+    }
+
+    const number = parseThresholdValue(raw)
+    if (number === null || number < 0) {
+      errors[key] = 'Must be a non-negative number'
+    } else if (isRateMetric(key) && number > 1) {
+      errors[key] = 'Rates must be between 0% and 100%'
+    } else {
+      value[key] = number
+    }
+  }
+
+  return { value, errors: prefixKeys('successMetrics', errors) }
+}
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+/**
+ * Starting thresholds for a new campaign, shaped around its success metrics.
+ *
+ * A rate target (ctr, conversion_rate, engagement_rate) sits in the middle of
+ * the meeting band: exceeding at 1.5× and below at 0.5× the target. A CPA or
+ * CAC target is the most the business will pay: above it is below, and half
+ * of it is exceeding. With { ctr: 2%, cac: $100 } this gives the doc defaults.
+ */
+export function thresholdsFromSuccessMetrics(successMetrics: SuccessMetrics | null | undefined): PerformanceThresholds {
+  const thresholds: PerformanceThresholds = {
+    exceeding: { ...DEFAULT_PERFORMANCE_THRESHOLDS.exceeding },
+    below: { ...DEFAULT_PERFORMANCE_THRESHOLDS.below },
+    persistent_failure_days: DEFAULT_PERFORMANCE_THRESHOLDS.persistent_failure_days,
+  }
+
+  if (!successMetrics) return thresholds
+
+  for (const metric of RATE_METRICS) {
+    const target = successMetrics[metric]
+    if (target === undefined || target <= 0) continue
+    thresholds.exceeding[metric] = round(Math.min(target * 1.5, 1))
+    thresholds.below[metric] = round(target * 0.5)
+  }
+
+  const maxCpa = successMetrics.cpa ?? successMetrics.cac
+  if (maxCpa !== undefined && maxCpa > 0) {
+    thresholds.exceeding.cpa = round(maxCpa / 2)
+    thresholds.below.cpa = round(maxCpa)
+  }
+
+  return thresholds
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function validateBand(input: unknown, path: 'exceeding' | 'below', errors: Record<string, string>): MetricBand {
+  const band: MetricBand = {}
+  if (input === undefined || input === null) return band
+
+  if (!isRecord(input)) {
+    errors[path] = 'Must be an object'
+    return band
+  }
+
+  for (const [key, raw] of Object.entries(input)) {
+    if (!(BAND_METRICS as string[]).includes(key)) {
+      errors[`${path}.${key}`] = 'Unknown metric'
+      continue
+    }
+    if (raw === undefined || raw === null || raw === '') continue
+
+    const number = parseThresholdValue(raw)
+    const metric = key as BandMetric
+    if (number === null || number < 0) {
+      errors[`${path}.${key}`] = 'Must be a non-negative number'
+    } else if (isRateMetric(metric) && number > 1) {
+      errors[`${path}.${key}`] = 'Rates must be between 0% and 100% (use 0.03 or "3%")'
+    } else {
+      band[metric] = number
+    }
+  }
+
+  return band
+}
+
+function validateScoreWeights(input: unknown, errors: Record<string, string>): ScoreWeights | null {
+  if (!isRecord(input)) {
+    errors.scoreWeights = 'Must be an object'
+    return null
+  }
+
+  const weights = { ...DEFAULT_SCORE_WEIGHTS }
+  let valid = true
+
+  for (const [key, raw] of Object.entries(input)) {
+    if (!(key in weights)) {
+      errors[`scoreWeights.${key}`] = 'Unknown weight'
+      valid = false
+      continue
+    }
+
+    const number = typeof raw === 'number' ? raw : parseThresholdValue(raw)
+    if (number === null || number < 0 || number > 1) {
+      errors[`scoreWeights.${key}`] = 'Must be between 0 and 1'
+      valid = false
+    } else {
+      weights[key as keyof ScoreWeights] = number
+    }
+  }
+
+  if (valid && weights.conversions + weights.engagement + weights.clicks <= 0) {
+    errors.scoreWeights = 'At least one of conversions, engagement or clicks must be weighted'
+    valid = false
+  }
+
+  return valid ? weights : null
+}
+
+function prefixKeys(prefix: string, errors: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(errors).map(([key, message]) => [`${prefix}.${key}`, message]))
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
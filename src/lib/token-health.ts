@@ -0,0 +1,334 @@
+import prisma from './prisma'
+import { Prisma } from '@prisma/client'
+import {
+  decryptToken,
+  encryptToken,
+  debugToken,
+  refreshUserToken,
+  getPageAccessToken,
+  MetaError,
+} from './meta'
+import { DAY_MS } from './utils'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TokenStatus = 'healthy' | 'expiring' | 'invalid'
+
+export interface TokenHealthResult {
+  businessId: string
+  status: TokenStatus
+  error: string | null
+  expiresAt: string | null
+  refreshed: boolean
+}
+
+export interface CheckTokensResult {
+  checkedAt: string
+  businessesChecked: number
+  healthy: number
+  expiring: number
+  invalid: number
+  refreshed: number
+  rateLimited: boolean
+  errors: Array<{ businessId: string; error: string }>
+}
+
+// Try to extend the user token once it is within this many days of expiry
+const REFRESH_WINDOW_DAYS = 14
+
+// Escalate (and ask for a reconnect) when expiry is closer than this
+const EXPIRY_WARNING_DAYS = 7
+
+// Campaigns that publish and should hear about a broken connection
+const ACTIVE_CAMPAIGN_STATUSES = ['approved', 'setup', 'live', 'paused'] as const
+
+export const RECONNECT_TASK_TYPE = 'reconnect_meta'
+
+const connectedBusinessSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  metaPageId: true,
+  metaPageToken: true,
+  metaUserToken: true,
+  metaTokenExpiresAt: true,
+  metaTokenStatus: true,
+} satisfies Prisma.BusinessSelect
+
+type ConnectedBusiness = Prisma.BusinessGetPayload<{ select: typeof connectedBusinessSelect }>
+
+// =============================================================================
+// Health Check
+// =============================================================================
+
+/**
+ * Check the Meta token of every connected business (or just one).
+ *
+ * Stops early if Meta rate-limits the run; unchecked businesses are picked up
+ * on the next run.
+ */
+export async function checkMetaTokens(options: { businessId?: string } = {}): Promise<CheckTokensResult> {
+  const checkedAt = new Date()
+  const businesses = await prisma.business.findMany({
+    where: {
+      metaPageToken: { not: null },
+      ...(options.businessId ? { id: options.businessId } : {}),
+    },
+    select: connectedBusinessSelect,
+  })
+
+  const result: CheckTokensResult = {
+    checkedAt: checkedAt.toISOString(),
+    businessesChecked: 0,
+    healthy: 0,
+    expiring: 0,
+    invalid: 0,
+    refreshed: 0,
+    rateLimited: false,
+    errors: [],
+  }
+
+  for (const business of businesses) {
+    try {
+      const health = await checkBusinessToken(business)
+      result.businessesChecked++
+      result[health.status]++
+      if (health.refreshed) result.refreshed++
+    } catch (err) {
+      if (err instanceof MetaError && err.isRateLimited) {
+        result.rateLimited = true
+        break
+      }
+      result.errors.push({
+        businessId: business.id,
+        error: err instanceof Error ? err.message : 'Unknown error',
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Validate one business's page token, refresh the user token if it is close
+ * to expiry, and record the resulting health on the business.
+ *
+ * Invalid or soon-to-expire tokens open a critical escalation and a
+ * "Reconnect Meta" human task on each active campaign (once per campaign).
+ * Non-auth Meta errors are thrown so the caller can record them without
+ * marking the token unhealthy.
+ */
+export async function checkBusinessToken(business: ConnectedBusiness): Promise<TokenHealthResult> {
+  const now = Date.now()
+  let status: TokenStatus = 'healthy'
+  let error: string | null = null
+  let refreshed = false
+  let expiresAt = business.metaTokenExpiresAt
+
+  let pageToken: string | null = null
+  try {
+    pageToken = decryptToken(business.metaPageToken!)
+  } catch {
+    status = 'invalid'
+    error = 'Stored page token could not be decrypted'
+  }
+
+  if (pageToken) {
+    try {
+      const info = await debugToken(pageToken)
+
+      if (!info.is_valid) {
+        status = 'invalid'
+        error = info.error?.message || 'Page access token is no longer valid'
+      } else if (info.expires_at) {
+        const pageExpiry = new Date(info.expires_at * 1000)
+        if (!expiresAt || pageExpiry < expiresAt) expiresAt = pageExpiry
+      }
+    } catch (err) {
+      if (!(err instanceof MetaError && (err.isTokenExpired || err.isPermissionError))) throw err
+      status = 'invalid'
+      error = err.message
+    }
+  }
+
+  // Extend the 60-day window before it lapses, then re-derive the page token
+  if (status === 'healthy' && expiresAt && expiresAt.getTime() - now < REFRESH_WINDOW_DAYS * DAY_MS && business.metaUserToken) {
+    try {
+      const longLived = await refreshUserToken(decryptToken(business.metaUserToken))
+      const newPageToken = await getPageAccessToken(longLived.access_token, business.metaPageId!)
+      expiresAt = new Date(now + (longLived.expires_in ?? 60 * 24 * 60 * 60) * 1000)
+
+      await prisma.business.update({
+        where: { id: business.id },
+        data: {
+          metaUserToken: encryptToken(longLived.access_token),
+          metaPageToken: encryptToken(newPageToken),
+          metaTokenExpiresAt: expiresAt,
+        },
+      })
+      refreshed = true
+    } catch (err) {
+      if (err instanceof MetaError && err.isRateLimited) throw err
+      error = `Token refresh failed: ${err instanceof Error ? err.message : 'Unknown error'}`
+    }
+  }
+
+  if (status === 'healthy' && expiresAt && expiresAt.getTime() - now < EXPIRY_WARNING_DAYS * DAY_MS) {
+    status = 'expiring'
+    error = error || `Meta token expires on ${expiresAt.toISOString().slice(0, 10)}`
+  }
+
+  await prisma.business.update({
+    where: { id: business.id },
+    data: {
+      metaTokenStatus: status,
+      metaTokenError: error,
+      metaTokenCheckedAt: new Date(),
+    },
+  })
+
+  if (status !== 'healthy') {
+    await raiseReconnectWork(business, status, error!)
+  }
+
+  if (refreshed || status !== business.metaTokenStatus) {
+    await prisma.activityLog.create({
+      data: {
+        businessId: business.id,
+        actor: 'system',
+        action: refreshed ? 'meta_token_refreshed' : `meta_token_${status}`,
+        entityType: 'business',
+        entityId: business.id,
+        details: {
+          status,
+          previousStatus: business.metaTokenStatus,
+          error,
+          expiresAt: expiresAt?.toISOString() ?? null,
+        } as Prisma.InputJsonValue,
+      },
+    })
+  }
+
+  return {
+    businessId: business.id,
+    status,
+    error,
+    expiresAt: expiresAt?.toISOString() ?? null,
+    refreshed,
+  }
+}
+
+// =============================================================================
+// Escalations & Tasks
+// =============================================================================
+
+/**
+ * Open a critical escalation and a "Reconnect Meta" task on each active
+ * campaign of the business, skipping campaigns that already have them open.
+ */
+async function raiseReconnectWork(
+  business: ConnectedBusiness,
+  status: Exclude<TokenStatus, 'healthy'>,
+  reason: string
+): Promise<void> {
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      playbook: { businessId: business.id },
+      status: { in: [...ACTIVE_CAMPAIGN_STATUSES] },
+    },
+    select: {
+      id: true,
+      escalations: {
+        where: {
+          type: 'persistent_failure',
+          status: { in: ['open', 'acknowledged'] },
+          title: { startsWith: 'Meta Connection' },
+        },
+        select: { id: true },
+      },
+      tasks: {
+        where: { type: RECONNECT_TASK_TYPE, status: { in: ['pending', 'in_progress'] } },
+        select: { id: true },
+      },
+    },
+  })
+
+  const title =
+    status === 'invalid'
+      ? `Meta Connection Invalid: ${business.name}`
+      : `Meta Connection Expiring: ${business.name}`
+
+  for (const campaign of campaigns) {
+    if (campaign.escalations.length === 0) {
+      await prisma.escalation.create({
+        data: {
+          campaignId: campaign.id,
+          type: 'persistent_failure',
+          severity: 'critical',
+          title,
+          description: `${reason}. Posts for this campaign will fail until Meta is reconnected.`,
+          status: 'open',
+        },
+      })
+    }
+
+    if (campaign.tasks.length === 0) {
+      await prisma.task.create({
+        data: {
+          campaignId: campaign.id,
+          assignee: 'human',
+          type: RECONNECT_TASK_TYPE,
+          title: 'Reconnect Meta',
+          description: reason,
+          instructions: `Open the ${business.name} business page and click Reconnect under Meta Integration.`,
+          priority: 10,
+        },
+      })
+    }
+  }
+}
+
+/**
+ * Mark the business healthy after a fresh connection and close any
+ * outstanding "Reconnect Meta" tasks and "Meta Connection" escalations on its
+ * campaigns.
+ */
+export async function markTokenReconnected(businessId: string): Promise<void> {
+  await prisma.business.update({
+    where: { id: businessId },
+    data: {
+      metaTokenStatus: 'healthy',
+      metaTokenError: null,
+      metaTokenCheckedAt: new Date(),
+    },
+  })
+
+  await prisma.task.updateMany({
+    where: {
+      type: RECONNECT_TASK_TYPE,
+      status: { in: ['pending', 'in_progress'] },
+      campaign: { playbook: { businessId } },
+    },
+    data: {
+      status: 'completed',
+      completedAt: new Date(),
+      completionNotes: 'Meta reconnected',
+    },
+  })
+
+  await prisma.escalation.updateMany({
+    where: {
+      type: 'persistent_failure',
+      status: { in: ['open', 'acknowledged'] },
+      title: { startsWith: 'Meta Connection' },
+      campaign: { playbook: { businessId } },
+    },
+    data: {
+      status: 'resolved',
+      resolvedAt: new Date(),
+      humanResponse: 'Resolved automatically: Meta was reconnected',
+    },
+  })
+}
@@ -0,0 +1,23 @@
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Record IDs are UUIDs; routes that also accept a slug tell the two apart with this */
+export const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export const HOUR_MS = 60 * 60 * 1000
+export const DAY_MS = 24 * HOUR_MS
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Whether a JSON value is an object (not null or an array) */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/** A JSON value as an object, or an empty object if it isn't one */
+export function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {}
+}
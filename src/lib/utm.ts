@@ -0,0 +1,110 @@
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface UtmParams {
+  source: string
+  medium: string
+  campaign: string
+  content: string
+}
+
+/**
+ * UTM template. Each value may use placeholders:
+ * {platform}, {campaign}, {campaign_id}, {content_id}, {post_id}, {business}
+ */
+export type UtmTemplate = Partial<Record<keyof UtmParams, string>>
+
+export interface UtmContext {
+  platform: string
+  campaignName: string
+  campaignId: string
+  contentId: string
+  postId: string
+  businessSlug: string
+}
+
+// Default pattern: utm_source={platform}&utm_medium=social&utm_campaign={slug}&utm_content={post id}
+export const DEFAULT_UTM_TEMPLATE: Required<UtmTemplate> = {
+  source: '{platform}',
+  medium: 'social',
+  campaign: '{campaign}',
+  content: '{post_id}',
+}
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+/**
+ * Read a business's UTM template override from `Business.settings.utm`.
+ * Unknown keys and non-string values are ignored.
+ */
+export function getUtmTemplate(settings: unknown): UtmTemplate {
+  const utm = (settings as { utm?: Record<string, unknown> } | null)?.utm
+  if (!utm || typeof utm !== 'object') return {}
+
+  const template: UtmTemplate = {}
+  for (const key of Object.keys(DEFAULT_UTM_TEMPLATE) as Array<keyof UtmParams>) {
+    const value = utm[key]
+    if (typeof value === 'string' && value.trim()) {
+      template[key] = value.trim()
+    }
+  }
+  return template
+}
+
+/**
+ * Resolve UTM params for a post from the (optionally overridden) template.
+ */
+export function buildUtmParams(context: UtmContext, template: UtmTemplate = {}): UtmParams {
+  const merged = { ...DEFAULT_UTM_TEMPLATE, ...template }
+  const values: Record<string, string> = {
+    platform: context.platform,
+    campaign: slugify(context.campaignName),
+    campaign_id: context.campaignId,
+    content_id: context.contentId,
+    post_id: context.postId,
+    business: context.businessSlug,
+  }
+
+  const fill = (pattern: string) =>
+    pattern.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+
+  return {
+    source: fill(merged.source),
+    medium: fill(merged.medium),
+    campaign: fill(merged.campaign),
+    content: fill(merged.content),
+  }
+}
+
+/**
+ * Apply UTM params to a URL, keeping any existing query string and fragment.
+ * Existing utm_* values are replaced. Returns the URL unchanged if it can't be parsed.
+ */
+export function applyUtmParams(url: string, params: UtmParams): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+
+  parsed.searchParams.set('utm_source', params.source)
+  parsed.searchParams.set('utm_medium', params.medium)
+  parsed.searchParams.set('utm_campaign', params.campaign)
+  parsed.searchParams.set('utm_content', params.content)
+
+  return parsed.toString()
+}
+
+/**
+ * Lowercase, hyphen-separated slug (used for utm_campaign).
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
@@ -6,7 +6,8 @@ import { verifySession } from '@/lib/auth'
 const publicRoutes = ['/login', '/api/auth/login']
 
 // Routes that are always public (static assets, etc.)
-const alwaysPublic = ['/_next', '/favicon.ico', '/api/webhooks']
+// Cron routes authenticate with CRON_SECRET instead of a session
+const alwaysPublic = ['/_next', '/favicon.ico', '/api/webhooks', '/api/cron']
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
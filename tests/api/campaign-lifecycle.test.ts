@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { CampaignStatus } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { hasTestDatabase, seedFixtures, createCampaign, createContent } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as approve } from '@/app/api/campaigns/[id]/approve/route'
+import { POST as launch } from '@/app/api/campaigns/[id]/launch/route'
+import { POST as pause } from '@/app/api/campaigns/[id]/pause/route'
+import { POST as resume } from '@/app/api/campaigns/[id]/resume/route'
+import { POST as complete } from '@/app/api/campaigns/[id]/complete/route'
+import { POST as fail } from '@/app/api/campaigns/[id]/fail/route'
+import { GET as transitionsGet } from '@/app/api/campaigns/[id]/transitions/route'
+
+type Handler = typeof approve
+
+describe.skipIf(!hasTestDatabase)('campaign lifecycle routes', () => {
+  let businessId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    businessId = melissa.id
+    await prisma.business.update({
+      where: { id: businessId },
+      data: { metaPageId: 'page_1', metaPageToken: 'token', metaTokenStatus: 'valid' },
+    })
+  })
+
+  async function call(handler: Handler, campaignId: string, action: string) {
+    return handler(jsonRequest(`/api/campaigns/${campaignId}/${action}`, {}), routeContext(campaignId))
+  }
+
+  describe('approve', () => {
+    it('approves a draft campaign and creates its tasks', async () => {
+      const campaign = await createCampaign(businessId, 'draft')
+
+      const res = await call(approve, campaign.id, 'approve')
+      const body = await readJson<{ status: string; tasks: unknown[] }>(res)
+
+      expect(res.status).toBe(200)
+      expect(body.data.status).toBe('approved')
+      expect(body.data.tasks).toHaveLength(6)
+    })
+
+    it('rejects campaigns whose playbook is incomplete', async () => {
+      const campaign = await createCampaign(businessId, 'review')
+      await prisma.playbook.update({ where: { id: campaign.playbookId }, data: { positioning: null } })
+
+      const res = await call(approve, campaign.id, 'approve')
+
+      expect(res.status).toBe(400)
+      expect((await readJson(res)).error).toMatch(/positioning, hooks, and audiences/)
+    })
+
+    it.each<CampaignStatus>(['approved', 'live', 'completed'])('rejects approval from %s', async (status) => {
+      const campaign = await createCampaign(businessId, status)
+      const res = await call(approve, campaign.id, 'approve')
+      expect(res.status).toBe(400)
+    })
+  })
+
+  describe('launch', () => {
+    it('requires all human tasks to be completed', async () => {
+      const campaign = await createCampaign(businessId, 'approved')
+      await createContent(campaign.id)
+      await prisma.task.create({
+        data: { campaignId: campaign.id, assignee: 'human', type: 'setup_meta', title: 'Configure Meta Ads Manager' },
+      })
+
+      const res = await call(launch, campaign.id, 'launch')
+
+      expect(res.status).toBe(400)
+      expect((await readJson(res)).error).toContain('Configure Meta Ads Manager')
+    })
+
+    it('requires at least one piece of content', async () => {
+      const campaign = await createCampaign(businessId, 'setup')
+      const res = await call(launch, campaign.id, 'launch')
+      expect(res.status).toBe(400)
+    })
+
+    it('requires a connected Meta page', async () => {
+      await prisma.business.update({ where: { id: businessId }, data: { metaPageId: null, metaPageToken: null } })
+      const campaign = await createCampaign(businessId, 'setup', { budgetDaily: 25 })
+      await createContent(campaign.id)
+
+      const res = await call(launch, campaign.id, 'launch')
+
+      expect(res.status).toBe(400)
+      expect((await readJson(res)).error).toMatch(/Meta/)
+    })
+
+    it('requires a budget', async () => {
+      const campaign = await createCampaign(businessId, 'setup')
+      await createContent(campaign.id)
+
+      const res = await call(launch, campaign.id, 'launch')
+
+      expect(res.status).toBe(400)
+      expect((await readJson(res)).error).toMatch(/budget/)
+    })
+
+    it('launches a set-up campaign with content', async () => {
+      const campaign = await createCampaign(businessId, 'setup', { budgetDaily: 25 })
+      await createContent(campaign.id)
+
+      const res = await call(launch, campaign.id, 'launch')
+
+      expect(res.status).toBe(200)
+      expect((await prisma.campaign.findUnique({ where: { id: campaign.id } }))?.status).toBe('live')
+    })
+  })
+
+  const transitions: Array<{ action: string; handler: Handler; allowed: CampaignStatus[]; next: CampaignStatus }> = [
+    { action: 'pause', handler: pause, allowed: ['live'], next: 'paused' },
+    { action: 'resume', handler: resume, allowed: ['paused'], next: 'live' },
+    { action: 'complete', handler: complete, allowed: ['live', 'paused'], next: 'completed' },
+  ]
+  const allStatuses: CampaignStatus[] = ['draft', 'review', 'approved', 'setup', 'live', 'paused', 'completed', 'failed']
+
+  describe.each(transitions)('$action', ({ action, handler, allowed, next }) => {
+    it.each(allStatuses)(`${action} from %s`, async (status) => {
+      const campaign = await createCampaign(businessId, status)
+
+      const res = await call(handler, campaign.id, action)
+      const stored = await prisma.campaign.findUnique({ where: { id: campaign.id } })
+
+      if (allowed.includes(status)) {
+        expect(res.status).toBe(200)
+        expect(stored?.status).toBe(next)
+      } else {
+        expect(res.status).toBe(400)
+        expect(stored?.status).toBe(status)
+      }
+    })
+  })
+
+  describe('fail', () => {
+    it('cancels unpublished posts and records the reason', async () => {
+      const campaign = await createCampaign(businessId, 'live')
+      const content = await createContent(campaign.id)
+      const post = await prisma.post.create({
+        data: { contentId: content.id, platform: 'facebook', status: 'scheduled', scheduledFor: new Date() },
+      })
+
+      const res = await fail(
+        jsonRequest(`/api/campaigns/${campaign.id}/fail`, { reason: 'Product recalled' }),
+        routeContext(campaign.id)
+      )
+
+      expect(res.status).toBe(200)
+      expect((await prisma.campaign.findUnique({ where: { id: campaign.id } }))?.status).toBe('failed')
+      expect((await prisma.post.findUnique({ where: { id: post.id } }))?.status).toBe('deleted')
+
+      const history = await readJson<{ history: Array<{ transition: string; from: string; reason: string }> }>(
+        await transitionsGet(jsonRequest(`/api/campaigns/${campaign.id}/transitions`), routeContext(campaign.id))
+      )
+      expect(history.data.history[0]).toMatchObject({ transition: 'fail', from: 'live', reason: 'Product recalled' })
+    })
+
+    it('requires a reason', async () => {
+      const campaign = await createCampaign(businessId, 'live')
+      const res = await call(fail, campaign.id, 'fail')
+      expect(res.status).toBe(400)
+    })
+  })
+
+  it('returns 404 for unknown campaigns', async () => {
+    const res = await call(pause, '00000000-0000-0000-0000-000000000000', 'pause')
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest'
+import prisma from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
+import { encryptToken } from '@/lib/meta'
+import { startFakeGraphServer, FakeGraphServer } from '../../scripts/fake-meta-graph'
+import { hasTestDatabase, seedFixtures, createCampaign, createContent } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as pause } from '@/app/api/campaigns/[id]/pause/route'
+import { POST as resume } from '@/app/api/campaigns/[id]/resume/route'
+import { POST as complete } from '@/app/api/campaigns/[id]/complete/route'
+
+const PAGE_ID = '1000000000001'
+const HOUR = 60 * 60 * 1000
+
+describe.skipIf(!hasTestDatabase)('pausing and resuming delivery (Meta via fake Graph server)', () => {
+  let graph: FakeGraphServer
+  let campaignId: string
+  let contentId: string
+
+  beforeAll(async () => {
+    graph = await startFakeGraphServer()
+    process.env.META_GRAPH_API_URL = graph.graphUrl
+  })
+
+  afterAll(async () => {
+    delete process.env.META_GRAPH_API_URL
+    await graph.close()
+  })
+
+  beforeEach(async () => {
+    graph.reset()
+    const { melissa } = await seedFixtures()
+    await prisma.business.update({
+      where: { id: melissa.id },
+      data: { metaPageId: PAGE_ID, metaPageToken: encryptToken(`fake-page-token-${PAGE_ID}`) },
+    })
+    campaignId = (await createCampaign(melissa.id, 'live')).id
+    contentId = (await createContent(campaignId)).id
+  })
+
+  function createPost(data: { status: 'scheduled' | 'posted'; scheduledFor?: Date; adSetId?: string }) {
+    return prisma.post.create({ data: { contentId, platform: 'facebook', ...data } })
+  }
+
+  function call(handler: typeof pause, action: string, body: Record<string, unknown> = {}) {
+    return handler(jsonRequest(`/api/campaigns/${campaignId}/${action}`, body), routeContext(campaignId))
+  }
+
+  it('holds scheduled posts and pauses only the active ad sets', async () => {
+    const scheduled = await createPost({ status: 'scheduled', scheduledFor: new Date(Date.now() + HOUR) })
+    await createPost({ status: 'posted', adSetId: 'adset_live' })
+    await createPost({ status: 'posted', adSetId: 'adset_stopped' })
+    graph.adSets.set('adset_stopped', 'PAUSED')
+
+    const res = await call(pause, 'pause')
+
+    expect(res.status).toBe(200)
+    expect((await prisma.post.findUnique({ where: { id: scheduled.id } }))?.status).toBe('held')
+    expect(graph.adSets.get('adset_live')).toBe('PAUSED')
+
+    const record = await prisma.campaignPause.findFirstOrThrow({ where: { campaignId } })
+    expect(record.heldPostIds).toEqual([scheduled.id])
+    expect(record.adSetIds).toEqual(['adset_live'])
+  })
+
+  it('restores exactly what was paused on resume', async () => {
+    await createPost({ status: 'posted', adSetId: 'adset_live' })
+    await createPost({ status: 'posted', adSetId: 'adset_stopped' })
+    graph.adSets.set('adset_stopped', 'PAUSED')
+    const future = new Date(Date.now() + 2 * HOUR)
+    const upcoming = await createPost({ status: 'scheduled', scheduledFor: future })
+
+    await call(pause, 'pause')
+    const res = await call(resume, 'resume')
+
+    expect(res.status).toBe(200)
+    expect(graph.adSets.get('adset_live')).toBe('ACTIVE')
+    expect(graph.adSets.get('adset_stopped')).toBe('PAUSED')
+
+    const restored = await prisma.post.findUniqueOrThrow({ where: { id: upcoming.id } })
+    expect(restored.status).toBe('scheduled')
+    expect(restored.scheduledFor).toEqual(future)
+
+    const record = await prisma.campaignPause.findFirstOrThrow({ where: { campaignId } })
+    expect(record.resumedAt).not.toBeNull()
+  })
+
+  it('re-activates ad sets itself when the resume lands while they are still being paused', async () => {
+    await createPost({ status: 'posted', adSetId: 'adset_live' })
+    const updateMany = prisma.campaignPause.updateMany.bind(prisma.campaignPause)
+    const interleaved = async (args: Prisma.CampaignPauseUpdateManyArgs) => {
+      // The resume commits between pausing the ad sets and recording them
+      expect((await call(resume, 'resume')).status).toBe(200)
+      expect(graph.adSets.get('adset_live')).toBe('PAUSED')
+      return updateMany(args)
+    }
+    vi.spyOn(prisma.campaignPause, 'updateMany').mockImplementationOnce(interleaved as never)
+
+    const res = await call(pause, 'pause')
+
+    expect(res.status).toBe(200)
+    expect(graph.adSets.get('adset_live')).toBe('ACTIVE')
+    const record = await prisma.campaignPause.findFirstOrThrow({ where: { campaignId } })
+    expect(record).toMatchObject({ adSetIds: ['adset_live'], pausingAdSets: false })
+    expect(record.resumedAt).not.toBeNull()
+  })
+
+  it('pauses the ad sets of a live campaign that is completed', async () => {
+    await createPost({ status: 'posted', adSetId: 'adset_live' })
+
+    const res = await call(complete, 'complete')
+
+    expect(res.status).toBe(200)
+    expect(graph.adSets.get('adset_live')).toBe('PAUSED')
+  })
+
+  it('re-times overdue held posts by the requested policy', async () => {
+    const overdue = await createPost({ status: 'scheduled', scheduledFor: new Date(Date.now() + HOUR) })
+    await call(pause, 'pause')
+    // The slot passes while the campaign is paused
+    await prisma.post.update({ where: { id: overdue.id }, data: { scheduledFor: new Date(Date.now() - HOUR) } })
+
+    const res = await call(resume, 'resume', { policy: 'skip' })
+
+    expect(res.status).toBe(200)
+    expect((await prisma.post.findUnique({ where: { id: overdue.id } }))?.status).toBe('deleted')
+  })
+
+  it('rejects unknown resume policies', async () => {
+    await call(pause, 'pause')
+    const res = await call(resume, 'resume', { policy: 'whenever' })
+    expect(res.status).toBe(400)
+    expect((await readJson(res)).error).toMatch(/skip, post_now, shift/)
+  })
+
+  it('escalates ad sets Meta refuses to pause', async () => {
+    await createPost({ status: 'posted', adSetId: 'adset_live' })
+    graph.failNext({ match: '/adset_live', code: 200, method: 'POST' })
+
+    const res = await call(pause, 'pause')
+
+    expect(res.status).toBe(200)
+    const escalation = await prisma.escalation.findFirstOrThrow({ where: { campaignId } })
+    expect(escalation.title).toContain('Ad Sets Not Paused')
+    expect(escalation.severity).toBe('critical')
+  })
+})
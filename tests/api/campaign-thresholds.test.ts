@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import prisma from '@/lib/prisma'
+import { hasTestDatabase, seedFixtures, createPlaybook, createCampaign } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as createCampaignRoute } from '@/app/api/campaigns/route'
+import { PUT as updateCampaign } from '@/app/api/campaigns/[id]/route'
+
+describe.skipIf(!hasTestDatabase)('campaign thresholds validation', () => {
+  let businessId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    businessId = melissa.id
+  })
+
+  describe('POST /api/campaigns', () => {
+    it('pre-fills success metrics and thresholds from the playbook', async () => {
+      const playbook = await createPlaybook(businessId, {
+        content: { successMetrics: { subscribers: 15, cac: 100, ctr: '2%' } },
+      })
+
+      const res = await createCampaignRoute(jsonRequest('/api/campaigns', { playbookId: playbook.id, name: 'Spring' }))
+      const body = await readJson<{ successMetrics: unknown; performanceThresholds: unknown }>(res)
+
+      expect(res.status).toBe(201)
+      expect(body.data.successMetrics).toEqual({ subscribers: 15, cac: 100, ctr: 0.02 })
+      expect(body.data.performanceThresholds).toMatchObject({
+        exceeding: { ctr: 0.03, cpa: 50 },
+        below: { ctr: 0.01, cpa: 100 },
+        persistent_failure_days: 14,
+      })
+    })
+
+    it('rejects invalid thresholds with field errors', async () => {
+      const playbook = await createPlaybook(businessId)
+
+      const res = await createCampaignRoute(
+        jsonRequest('/api/campaigns', {
+          playbookId: playbook.id,
+          name: 'Spring',
+          performanceThresholds: { exceeding: { ctr: 0.01 }, below: { ctr: 0.02 } },
+        })
+      )
+      const body = await readJson<Record<string, string>>(res)
+
+      expect(res.status).toBe(422)
+      expect(body.data).toHaveProperty(['performanceThresholds.exceeding.ctr'])
+      expect(await prisma.campaign.count()).toBe(0)
+    })
+  })
+
+  describe('PUT /api/campaigns/:id', () => {
+    it('stores normalised thresholds', async () => {
+      const campaign = await createCampaign(businessId, 'draft')
+
+      const res = await updateCampaign(
+        jsonRequest(`/api/campaigns/${campaign.id}`, {
+          performanceThresholds: { exceeding: { ctr: '>4%' }, below: { ctr: '<1%' }, persistent_failure_days: 10 },
+        }, 'PUT'),
+        routeContext(campaign.id)
+      )
+
+      expect(res.status).toBe(200)
+      const updated = await prisma.campaign.findUniqueOrThrow({ where: { id: campaign.id } })
+      expect(updated.performanceThresholds).toEqual({
+        exceeding: { ctr: 0.04 },
+        below: { ctr: 0.01 },
+        persistent_failure_days: 10,
+      })
+    })
+
+    it('rejects invalid success metrics', async () => {
+      const campaign = await createCampaign(businessId, 'draft')
+
+      const res = await updateCampaign(
+        jsonRequest(`/api/campaigns/${campaign.id}`, { successMetrics: { subscribers: -5 } }, 'PUT'),
+        routeContext(campaign.id)
+      )
+
+      expect(res.status).toBe(422)
+    })
+  })
+})
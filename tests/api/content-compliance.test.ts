@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import prisma from '@/lib/prisma'
+import type { ComplianceCheck } from '@/lib/content-compliance'
+import { hasTestDatabase, seedFixtures, createCampaign, createContent } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as createContentRoute } from '@/app/api/content/route'
+import { PUT as updateContent } from '@/app/api/content/[id]/route'
+import { POST as createPost } from '@/app/api/posts/route'
+
+describe.skipIf(!hasTestDatabase)('content compliance checks', () => {
+  let campaignId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    await prisma.business.update({
+      where: { id: melissa.id },
+      data: { settings: { contentRules: { forbiddenTerms: ['miracle'] } } },
+    })
+    const campaign = await createCampaign(melissa.id, 'live')
+    await prisma.playbook.update({
+      where: { id: campaign.playbookId },
+      data: { visualDirection: { tone: 'warm', doNots: ['hustle'] } },
+    })
+    campaignId = campaign.id
+  })
+
+  it('lints manually created content against business rules and playbook do-nots', async () => {
+    const res = await createContentRoute(
+      jsonRequest('/api/content', {
+        campaignId,
+        type: 'organic_post',
+        headline: 'Stop the hustle',
+        body: 'A miracle planner for teachers.',
+        ctaText: 'Try it',
+      })
+    )
+
+    expect(res.status).toBe(201)
+    const { data } = await readJson<{ complianceCheck: ComplianceCheck }>(res)
+    expect(data.complianceCheck.violations.map((v) => [v.field, v.text, v.span])).toEqual([
+      ['headline', 'hustle', { start: 9, end: 15 }],
+      ['body', 'miracle', { start: 2, end: 9 }],
+    ])
+  })
+
+  it('blocks approval while critical violations remain', async () => {
+    const content = await createContent(campaignId, { status: 'generated', body: 'A miracle planner.' })
+
+    const blocked = await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { status: 'approved' }, 'PUT'),
+      routeContext(content.id)
+    )
+    expect(blocked.status).toBe(422)
+    const { data } = await readJson<ComplianceCheck>(blocked)
+    expect(data.critical).toBe(1)
+    expect((await prisma.content.findUniqueOrThrow({ where: { id: content.id } })).status).toBe('generated')
+
+    const approved = await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { status: 'approved', body: 'A planner that works.' }, 'PUT'),
+      routeContext(content.id)
+    )
+    expect(approved.status).toBe(200)
+    const saved = await prisma.content.findUniqueOrThrow({ where: { id: content.id } })
+    expect(saved.status).toBe('approved')
+    expect((saved.complianceCheck as unknown as ComplianceCheck).critical).toBe(0)
+  })
+
+  it('blocks scheduling and posting content with critical violations', async () => {
+    const content = await createContent(campaignId, { status: 'generated', body: 'A miracle planner.' })
+
+    const scheduled = await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { status: 'scheduled' }, 'PUT'),
+      routeContext(content.id)
+    )
+    expect(scheduled.status).toBe(422)
+
+    // Approved before the term was forbidden
+    const approved = await createContent(campaignId, { status: 'approved', body: 'A miracle planner.' })
+    const posted = await createPost(jsonRequest('/api/posts', { contentId: approved.id, platform: 'facebook' }))
+    expect(posted.status).toBe(422)
+    expect(await prisma.post.count({ where: { contentId: approved.id } })).toBe(0)
+  })
+
+  it('sends edited approved copy back for review, and blocks keeping it approved with violations', async () => {
+    const content = await createContent(campaignId, { status: 'approved' })
+
+    const kept = await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { status: 'approved', body: 'Pure miracle.' }, 'PUT'),
+      routeContext(content.id)
+    )
+    expect(kept.status).toBe(422)
+
+    const edited = await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { body: 'Pure miracle.' }, 'PUT'),
+      routeContext(content.id)
+    )
+    expect(edited.status).toBe(200)
+    const saved = await prisma.content.findUniqueOrThrow({ where: { id: content.id } })
+    expect(saved).toMatchObject({ status: 'generated', body: 'Pure miracle.' })
+  })
+
+  it('still allows edits that introduce violations, recording them', async () => {
+    const content = await createContent(campaignId, { status: 'generated' })
+
+    const res = await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { body: 'Pure miracle.' }, 'PUT'),
+      routeContext(content.id)
+    )
+
+    expect(res.status).toBe(200)
+    const saved = await prisma.content.findUniqueOrThrow({ where: { id: content.id } })
+    expect((saved.complianceCheck as unknown as ComplianceCheck).critical).toBe(1)
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import type { ContentVariation } from '@/lib/claude'
+import { STREAM_SCORING_BATCH_SIZE } from '@/lib/content-quality'
+import { createServerSentEventParser, ServerSentEvent } from '@/lib/streaming'
+import { hasTestDatabase, seedFixtures, createCampaign } from '../helpers/db'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+const { streamContent, scoreContentVariations } = vi.hoisted(() => ({
+  streamContent: vi.fn(),
+  scoreContentVariations: vi.fn(),
+}))
+vi.mock('@/lib/claude', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/claude')>()),
+  streamContent,
+  scoreContentVariations,
+}))
+
+import { POST as generateStream } from '@/app/api/content/generate/stream/route'
+
+const streamMetadata = { model: 'test-model', generatedAt: '2026-10-01T00:00:00.000Z' }
+
+function variation(headline: string): ContentVariation {
+  return {
+    headline,
+    body: 'Lesson plans in minutes, not hours.',
+    ctaText: 'Start free',
+    hookSource: 'hook_1',
+    audienceSegment: 'Time-Starved Teachers',
+    platformVariants: {},
+  }
+}
+
+/** Read server-sent events from a response until `until` says stop (or the stream ends) */
+async function readEvents(response: Response, until: (events: ServerSentEvent[]) => boolean = () => false) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  const parser = createServerSentEventParser()
+  const events: ServerSentEvent[] = []
+
+  while (!until(events)) {
+    const { done, value } = await reader.read()
+    if (done) break
+    events.push(...parser.push(decoder.decode(value, { stream: true })))
+  }
+
+  return { events, reader }
+}
+
+describe.skipIf(!hasTestDatabase)('POST /api/content/generate/stream', () => {
+  let campaignId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    campaignId = (await createCampaign(melissa.id, 'draft')).id
+    streamContent.mockReset()
+    scoreContentVariations.mockReset().mockRejectedValue(new Error('rubric unavailable'))
+  })
+
+  function request(body: Record<string, unknown>, signal?: AbortSignal) {
+    return new NextRequest('http://localhost:3000/api/content/generate/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    })
+  }
+
+  it('streams each variation once saved, scoring them in batches', async () => {
+    const batch = Array.from({ length: STREAM_SCORING_BATCH_SIZE + 1 }, (_, i) => variation(`Headline ${i}`))
+    streamContent.mockImplementationOnce(async (_request, onVariation) => {
+      for (const v of batch) await onVariation(v, streamMetadata)
+      return { variations: batch, metadata: { ...streamMetadata, tokensUsed: 100 } }
+    })
+
+    const res = await generateStream(request({ campaignId, count: batch.length }))
+    const { events } = await readEvents(res)
+
+    expect(res.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(events.map((e) => e.event)).toEqual(['start', ...batch.map(() => 'variation'), 'done'])
+    expect(events.at(-1)!.data).toMatchObject({ created: batch.length, discarded: 0 })
+    expect(scoreContentVariations).toHaveBeenCalledTimes(2)
+    expect(await prisma.content.count({ where: { campaignId } })).toBe(batch.length)
+  })
+
+  it('sends an error event when generation fails, keeping what was already saved', async () => {
+    streamContent.mockImplementationOnce(async (_request, onVariation) => {
+      await onVariation(variation('Kept'), streamMetadata)
+      throw new Error('overloaded')
+    })
+
+    const { events } = await readEvents(await generateStream(request({ campaignId, count: 3 })))
+
+    expect(events.map((e) => e.event)).toEqual(['start', 'variation', 'error'])
+    expect(events.at(-1)!.data).toEqual({ error: 'Failed to generate content', created: 1 })
+    const saved = await prisma.content.findMany({ where: { campaignId } })
+    expect(saved.map((c) => c.headline)).toEqual(['Kept'])
+  })
+
+  it('stops generating when the client goes away and keeps content created before the cancel', async () => {
+    const client = new AbortController()
+    let finished!: Promise<void>
+    streamContent.mockImplementationOnce((_request, onVariation, { signal }: { signal: AbortSignal }) => {
+      finished = (async () => {
+        for (let i = 0; i < STREAM_SCORING_BATCH_SIZE; i++) await onVariation(variation(`Before ${i}`), streamMetadata)
+        // Still generating when the client disconnects
+        await new Promise((resolve) => signal.addEventListener('abort', resolve))
+        await onVariation(variation('After'), streamMetadata)
+      })()
+      return finished.then(() => {
+        throw new Error('Request was aborted.')
+      })
+    })
+
+    const res = await generateStream(request({ campaignId, count: 5 }, client.signal))
+    const { events, reader } = await readEvents(
+      res,
+      (seen) => seen.filter((e) => e.event === 'variation').length === STREAM_SCORING_BATCH_SIZE
+    )
+    client.abort()
+    await finished
+    await reader.cancel()
+
+    expect(events.map((e) => e.event)).not.toContain('done')
+    const saved = await prisma.content.findMany({ where: { campaignId }, orderBy: { createdAt: 'asc' } })
+    expect(saved.map((c) => c.headline)).toEqual(
+      Array.from({ length: STREAM_SCORING_BATCH_SIZE }, (_, i) => `Before ${i}`)
+    )
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ContentRevision } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { hasTestDatabase, seedFixtures, createCampaign, createContent } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+const { refineContent, scoreContentVariations } = vi.hoisted(() => ({
+  refineContent: vi.fn(),
+  scoreContentVariations: vi.fn(),
+}))
+vi.mock('@/lib/claude', () => ({ refineContent, scoreContentVariations }))
+
+import { PUT as updateContent } from '@/app/api/content/[id]/route'
+import { POST as regenerate } from '@/app/api/content/[id]/regenerate/route'
+import { POST as revert } from '@/app/api/content/[id]/revert/route'
+import { GET as listRevisions } from '@/app/api/content/[id]/revisions/route'
+
+describe.skipIf(!hasTestDatabase)('content revisions', () => {
+  let campaignId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    campaignId = (await createCampaign(melissa.id, 'live')).id
+
+    refineContent.mockReset().mockResolvedValue({
+      variation: {
+        headline: 'Evenings back',
+        body: 'Plans in minutes.',
+        ctaText: 'Try free',
+        hookSource: 'hook_1',
+        audienceSegment: 'Time-Starved Teachers',
+        platformVariants: {},
+        reasoning: 'Shorter, as asked',
+      },
+      metadata: { model: 'test-model', tokensUsed: 50, generatedAt: '2026-10-01T00:00:00.000Z' },
+    })
+    scoreContentVariations.mockReset().mockRejectedValue(new Error('rubric unavailable'))
+  })
+
+  it('regenerates from guidance with the same hook and keeps the old copy as a revision', async () => {
+    const content = await createContent(campaignId, { hookSource: 'hook_1' })
+
+    const res = await regenerate(
+      jsonRequest(`/api/content/${content.id}/regenerate`, { instructions: '  shorter  ' }),
+      routeContext(content.id)
+    )
+
+    expect(res.status).toBe(200)
+    expect(refineContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        instructions: 'shorter',
+        hook: expect.objectContaining({ id: 'hook_1' }),
+        current: { headline: 'Reclaim your evenings', body: 'Lesson plans in minutes, not hours.', ctaText: 'Start your free trial' },
+      })
+    )
+
+    const saved = await prisma.content.findUniqueOrThrow({ where: { id: content.id }, include: { revisions: true } })
+    expect(saved).toMatchObject({ headline: 'Evenings back', status: 'generated', hookSource: 'hook_1' })
+    expect(saved.generationMetadata).toMatchObject({ instructions: 'shorter', quality: { overall: expect.any(Number) } })
+    expect(saved.revisions).toEqual([
+      expect.objectContaining({ replacedBy: 'regenerate', instructions: 'shorter', headline: 'Reclaim your evenings' }),
+    ])
+  })
+
+  it("doesn't score hook alignment for a piece written without a hook", async () => {
+    const content = await createContent(campaignId, { hookSource: null })
+
+    const res = await regenerate(
+      jsonRequest(`/api/content/${content.id}/regenerate`, { instructions: 'shorter' }),
+      routeContext(content.id)
+    )
+
+    expect(res.status).toBe(200)
+    const saved = await prisma.content.findUniqueOrThrow({ where: { id: content.id } })
+    expect(saved.generationMetadata).toMatchObject({ quality: { dimensions: { hookAlignment: null } } })
+  })
+
+  it('rejects missing instructions and posted content', async () => {
+    const content = await createContent(campaignId)
+    const empty = await regenerate(
+      jsonRequest(`/api/content/${content.id}/regenerate`, { instructions: ' ' }),
+      routeContext(content.id)
+    )
+    expect(empty.status).toBe(400)
+
+    const posted = await createContent(campaignId, { status: 'posted' })
+    const locked = await regenerate(
+      jsonRequest(`/api/content/${posted.id}/regenerate`, { instructions: 'shorter' }),
+      routeContext(posted.id)
+    )
+    expect(locked.status).toBe(400)
+    expect(refineContent).not.toHaveBeenCalled()
+  })
+
+  it('records hand edits, and reverts to an earlier version keeping the replaced copy', async () => {
+    const content = await createContent(campaignId, { status: 'generated' })
+
+    // Status-only changes don't create revisions
+    await updateContent(jsonRequest(`/api/content/${content.id}`, { status: 'approved' }, 'PUT'), routeContext(content.id))
+    await updateContent(
+      jsonRequest(`/api/content/${content.id}`, { headline: 'Edited headline' }, 'PUT'),
+      routeContext(content.id)
+    )
+
+    const listed = await readJson<{ revisions: ContentRevision[] }>(
+      await listRevisions(jsonRequest(`/api/content/${content.id}/revisions`), routeContext(content.id))
+    )
+    expect(listed.data.revisions).toHaveLength(1)
+    const [edit] = listed.data.revisions
+    expect(edit).toMatchObject({ replacedBy: 'edit', headline: 'Reclaim your evenings' })
+
+    const res = await revert(
+      jsonRequest(`/api/content/${content.id}/revert`, { revisionId: edit.id }),
+      routeContext(content.id)
+    )
+
+    expect(res.status).toBe(200)
+    const saved = await prisma.content.findUniqueOrThrow({
+      where: { id: content.id },
+      include: { revisions: { orderBy: { createdAt: 'desc' } } },
+    })
+    expect(saved).toMatchObject({ headline: 'Reclaim your evenings', status: 'generated' })
+    expect(saved.revisions.map((r) => [r.replacedBy, r.headline])).toEqual([
+      ['revert', 'Edited headline'],
+      ['edit', 'Reclaim your evenings'],
+    ])
+  })
+
+  it("won't revert to another piece's revision", async () => {
+    const other = await createContent(campaignId)
+    await updateContent(jsonRequest(`/api/content/${other.id}`, { body: 'Changed' }, 'PUT'), routeContext(other.id))
+    const [revision] = await prisma.contentRevision.findMany({ where: { contentId: other.id } })
+
+    const content = await createContent(campaignId)
+    const res = await revert(
+      jsonRequest(`/api/content/${content.id}/revert`, { revisionId: revision.id }),
+      routeContext(content.id)
+    )
+
+    expect(res.status).toBe(404)
+  })
+})
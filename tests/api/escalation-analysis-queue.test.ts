@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import prisma from '@/lib/prisma'
+import { hasTestDatabase, seedFixtures, createCampaign } from '../helpers/db'
+
+const { analyzeEscalation } = vi.hoisted(() => ({ analyzeEscalation: vi.fn() }))
+vi.mock('@/lib/claude', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/claude')>()),
+  analyzeEscalation,
+}))
+
+import { processPendingAnalyses, ANALYSIS_MAX_AGE_MS } from '@/lib/escalation-analysis'
+
+describe.skipIf(!hasTestDatabase)('escalation analysis queue', () => {
+  let campaignId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    campaignId = (await createCampaign(melissa.id, 'paused')).id
+    analyzeEscalation.mockReset().mockRejectedValue(new Error('model unavailable'))
+  })
+
+  function escalation(title: string, data: { status?: 'open' | 'resolved'; createdAt?: Date; analysisAttempts?: number } = {}) {
+    return prisma.escalation.create({
+      data: { campaignId, type: 'below_threshold', severity: 'warning', title, ...data },
+    })
+  }
+
+  it('skips closed and historical escalations instead of analyzing them', async () => {
+    const old = new Date(Date.now() - ANALYSIS_MAX_AGE_MS - 60_000)
+    const resolved = await escalation('Resolved', { status: 'resolved' })
+    const historical = await escalation('Historical', { createdAt: old })
+    const retried = await escalation('Retried by hand', { createdAt: old, analysisAttempts: 1 })
+    const fresh = await escalation('Fresh')
+
+    const result = await processPendingAnalyses()
+
+    expect(result).toMatchObject({ skipped: 2, processed: 2 })
+    expect(analyzeEscalation).toHaveBeenCalledTimes(2)
+    const statuses = Object.fromEntries(
+      (await prisma.escalation.findMany({ where: { campaignId } })).map((e) => [e.id, e.analysisStatus])
+    )
+    expect(statuses).toEqual({
+      [resolved.id]: 'skipped',
+      [historical.id]: 'skipped',
+      [retried.id]: 'pending',
+      [fresh.id]: 'pending',
+    })
+  })
+})
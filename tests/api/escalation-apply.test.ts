@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import prisma from '@/lib/prisma'
+import type { SuggestedAction } from '@/lib/escalation-analysis'
+import { hasTestDatabase, seedFixtures, createCampaign } from '../helpers/db'
+import { jsonRequest, routeContext } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as apply } from '@/app/api/escalations/[id]/apply/route'
+
+function suggestion(type: SuggestedAction['type'], params: Record<string, unknown>): SuggestedAction {
+  return { type, label: type, reason: '', params, appliedAt: null }
+}
+
+describe.skipIf(!hasTestDatabase)('applying suggested actions', () => {
+  let campaignId: string
+  let escalationId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    campaignId = (await createCampaign(melissa.id, 'paused')).id
+    escalationId = (
+      await prisma.escalation.create({
+        data: {
+          campaignId,
+          type: 'below_threshold',
+          severity: 'warning',
+          title: 'CTR below threshold',
+          analysisStatus: 'complete',
+          suggestedActions: [
+            suggestion('create_task', { title: 'Review the landing page', description: null }),
+            suggestion('update_target_audience', { targetAudience: 'Homeschool parents' }),
+          ] as unknown as object,
+        },
+      })
+    ).id
+  })
+
+  function call(index: number) {
+    return apply(jsonRequest(`/api/escalations/${escalationId}/apply`, { index }), routeContext(escalationId))
+  }
+
+  it('applies an action once when it is applied twice at the same time', async () => {
+    const statuses = (await Promise.all([call(0), call(0)])).map((res) => res.status).sort()
+
+    expect(statuses).toEqual([200, 409])
+    expect(await prisma.task.count({ where: { campaignId, type: 'escalation_follow_up' } })).toBe(1)
+  })
+
+  it('keeps both results when different actions are applied at the same time', async () => {
+    await Promise.all([call(0), call(1)])
+
+    const escalation = await prisma.escalation.findUniqueOrThrow({ where: { id: escalationId } })
+    const actions = escalation.suggestedActions as unknown as SuggestedAction[]
+    expect(actions.map((a) => !!a.appliedAt)).toEqual([true, true])
+    expect(actions.every((a) => !a.applyingAt)).toBe(true)
+    expect(escalation.status).toBe('acknowledged')
+  })
+
+  it("won't change a live campaign's budget or apply an invalid one", async () => {
+    await prisma.escalation.update({
+      where: { id: escalationId },
+      data: {
+        suggestedActions: [
+          suggestion('update_budget', { budgetDaily: 50 }),
+          suggestion('update_budget', { budgetTotal: -100 }),
+        ] as unknown as object,
+      },
+    })
+
+    const invalid = await call(1)
+    expect(invalid.status).toBe(400)
+
+    await prisma.campaign.update({ where: { id: campaignId }, data: { status: 'live' } })
+    const live = await call(0)
+    expect(live.status).toBe(400)
+
+    const campaign = await prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } })
+    expect(campaign.budgetDaily).toBeNull()
+    expect(campaign.budgetTotal).toBeNull()
+    // A rejected apply releases its claim so it can be retried once the campaign is paused
+    const actions = (await prisma.escalation.findUniqueOrThrow({ where: { id: escalationId } }))
+      .suggestedActions as unknown as SuggestedAction[]
+    expect(actions.map((a) => [a.appliedAt, a.applyingAt ?? null])).toEqual([
+      [null, null],
+      [null, null],
+    ])
+  })
+})
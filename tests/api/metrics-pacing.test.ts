@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest'
+import prisma from '@/lib/prisma'
+import { encryptToken } from '@/lib/meta'
+import type { PollMetricsResult } from '@/lib/metrics'
+import { startFakeGraphServer, FakeGraphServer } from '../../scripts/fake-meta-graph'
+import { hasTestDatabase, seedFixtures, createCampaign, createContent } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as refreshMetrics } from '@/app/api/campaigns/[id]/refresh-metrics/route'
+
+const PAGE_ID = '1000000000001'
+
+describe.skipIf(!hasTestDatabase)('metrics poll through to budget pacing (fake Graph server)', () => {
+  let graph: FakeGraphServer
+  let campaignId: string
+  let contentId: string
+
+  beforeAll(async () => {
+    graph = await startFakeGraphServer()
+    process.env.META_GRAPH_API_URL = graph.graphUrl
+  })
+
+  afterAll(async () => {
+    delete process.env.META_GRAPH_API_URL
+    await graph.close()
+  })
+
+  beforeEach(async () => {
+    graph.reset()
+    const { melissa } = await seedFixtures()
+    await prisma.business.update({
+      where: { id: melissa.id },
+      data: { metaPageId: PAGE_ID, metaPageToken: encryptToken(`fake-page-token-${PAGE_ID}`) },
+    })
+    campaignId = (await createCampaign(melissa.id, 'live', { budgetTotal: 100 })).id
+    contentId = (await createContent(campaignId)).id
+  })
+
+  function createPost(data: { platformPostId: string; adSetId?: string }) {
+    return prisma.post.create({
+      data: { contentId, platform: 'facebook', status: 'posted', postedAt: new Date(), ...data },
+    })
+  }
+
+  async function poll() {
+    const res = await refreshMetrics(
+      jsonRequest(`/api/campaigns/${campaignId}/refresh-metrics`, {}),
+      routeContext(campaignId)
+    )
+    expect(res.status).toBe(200)
+    return (await readJson<PollMetricsResult>(res)).data
+  }
+
+  it('stores ad set spend on the snapshot and syncs it to the post', async () => {
+    const boosted = await createPost({ platformPostId: `${PAGE_ID}_000001`, adSetId: 'adset_1' })
+    const organic = await createPost({ platformPostId: `${PAGE_ID}_000002` })
+    graph.adSetSpend.set('adset_1', 40)
+
+    await poll()
+
+    const [snapshot] = await prisma.performance.findMany({ where: { postId: boosted.id } })
+    expect(Number(snapshot.spend)).toBe(40)
+    expect(Number((await prisma.post.findUniqueOrThrow({ where: { id: boosted.id } })).budgetSpent)).toBe(40)
+    expect(Number((await prisma.performance.findFirstOrThrow({ where: { postId: organic.id } })).spend)).toBe(0)
+    expect(await prisma.escalation.count({ where: { campaignId, type: 'budget_depleted' } })).toBe(0)
+  })
+
+  it("fetches a shared ad set's spend once and splits it between its posts", async () => {
+    const first = await createPost({ platformPostId: `${PAGE_ID}_000001`, adSetId: 'adset_1' })
+    const second = await createPost({ platformPostId: `${PAGE_ID}_000002`, adSetId: 'adset_1' })
+    graph.adSetSpend.set('adset_1', 80)
+
+    const result = await poll()
+
+    expect(result.budgetPaused).toBe(0)
+    const spends = await prisma.performance.findMany({ where: { postId: { in: [first.id, second.id] } } })
+    expect(spends.map((s) => Number(s.spend))).toEqual([40, 40])
+    expect(graph.requests.filter((r) => r.path === '/adset_1/insights')).toHaveLength(1)
+    expect(await prisma.escalation.count({ where: { campaignId, type: 'budget_depleted', severity: 'critical' } })).toBe(0)
+  })
+
+  it('raises a budget escalation and pauses the campaign once spend exhausts the budget', async () => {
+    await createPost({ platformPostId: `${PAGE_ID}_000001`, adSetId: 'adset_1' })
+    graph.adSetSpend.set('adset_1', 120)
+
+    const result = await poll()
+
+    expect(result).toMatchObject({ budgetEscalations: 1, budgetPaused: 1 })
+    const escalation = await prisma.escalation.findFirstOrThrow({ where: { campaignId, type: 'budget_depleted' } })
+    expect(escalation.severity).toBe('critical')
+    expect((await prisma.campaign.findUniqueOrThrow({ where: { id: campaignId } })).status).toBe('paused')
+  })
+})
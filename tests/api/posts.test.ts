@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest'
+import prisma from '@/lib/prisma'
+import { encryptToken } from '@/lib/meta'
+import { failStalePosts, PUBLISH_LEASE_MS } from '@/lib/publisher'
+import { startFakeGraphServer, FakeGraphServer } from '../../scripts/fake-meta-graph'
+import { hasTestDatabase, seedFixtures, createCampaign, createContent } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as createPost } from '@/app/api/posts/route'
+import { PATCH as updatePost } from '@/app/api/posts/[id]/route'
+
+const PAGE_ID = '1000000000001'
+const IG_ACCOUNT_ID = '1780000000001'
+
+describe.skipIf(!hasTestDatabase)('posts routes (Meta via fake Graph server)', () => {
+  let graph: FakeGraphServer
+  let campaignId: string
+  let contentId: string
+
+  beforeAll(async () => {
+    graph = await startFakeGraphServer()
+    process.env.META_GRAPH_API_URL = graph.graphUrl
+  })
+
+  afterAll(async () => {
+    delete process.env.META_GRAPH_API_URL
+    await graph.close()
+  })
+
+  beforeEach(async () => {
+    graph.reset()
+    const { melissa } = await seedFixtures()
+    await prisma.business.update({
+      where: { id: melissa.id },
+      data: {
+        metaPageId: PAGE_ID,
+        metaPageName: 'Garden Prayer',
+        metaPageToken: encryptToken(`fake-page-token-${PAGE_ID}`),
+        metaIgAccountId: IG_ACCOUNT_ID,
+      },
+    })
+    campaignId = (await createCampaign(melissa.id, 'live')).id
+    contentId = (await createContent(campaignId)).id
+  })
+
+  function post(body: Record<string, unknown>) {
+    return createPost(jsonRequest('/api/posts', body))
+  }
+
+  it('publishes immediately with a UTM-tagged link', async () => {
+    const res = await post({ contentId, platform: 'facebook' })
+    const body = await readJson<{ id: string; status: string; platformPostId: string; trackedUrl: string }>(res)
+
+    expect(res.status).toBe(201)
+    expect(body.data.status).toBe('posted')
+    expect(graph.posts.has(body.data.platformPostId)).toBe(true)
+
+    const link = new URL(graph.posts.get(body.data.platformPostId)!.body.link)
+    expect(link.searchParams.get('ref')).toBe('social')
+    expect(link.searchParams.get('utm_content')).toBe(body.data.id)
+    expect(body.data.trackedUrl).toBe(link.toString())
+
+    expect((await prisma.content.findUnique({ where: { id: contentId } }))?.status).toBe('posted')
+  })
+
+  it('publishes the Facebook variant rather than the base copy', async () => {
+    await prisma.content.update({
+      where: { id: contentId },
+      data: {
+        platformVariants: {
+          facebook: { headline: 'Evenings back', body: 'Plans in minutes.', ctaText: 'Try it free', hashtags: ['#teachers'] },
+        },
+      },
+    })
+
+    const res = await post({ contentId, platform: 'facebook' })
+    const { platformPostId } = (await readJson<{ platformPostId: string }>(res)).data
+
+    expect(graph.posts.get(platformPostId)!.body.message).toBe(
+      'Evenings back\n\nPlans in minutes.\n\nTry it free\n\n#teachers'
+    )
+  })
+
+  it('keeps a published post posted when the bookkeeping after it fails', async () => {
+    const logSpy = vi.spyOn(prisma.activityLog, 'create').mockRejectedValueOnce(new Error('connection reset'))
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    try {
+      const res = await post({ contentId, platform: 'facebook' })
+      expect(res.status).toBe(201)
+
+      const saved = await prisma.post.findFirstOrThrow({ where: { contentId } })
+      expect(saved.status).toBe('posted')
+      expect(graph.posts.has(saved.platformPostId!)).toBe(true)
+      expect(await prisma.escalation.count({ where: { campaignId } })).toBe(0)
+    } finally {
+      logSpy.mockRestore()
+      consoleSpy.mockRestore()
+    }
+  })
+
+  it('rejects unapproved content and Instagram posts without an image', async () => {
+    const draft = await createContent(campaignId, { status: 'generated' })
+    expect((await post({ contentId: draft.id, platform: 'facebook' })).status).toBe(400)
+
+    const res = await post({ contentId, platform: 'instagram' })
+    expect(res.status).toBe(400)
+    expect((await readJson(res)).error).toMatch(/require an image/)
+    expect(graph.requests).toHaveLength(0)
+  })
+
+  it('schedules posts for later without calling Meta', async () => {
+    const scheduledFor = new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    const res = await post({ contentId, platform: 'facebook', scheduledFor })
+
+    expect(res.status).toBe(201)
+    expect((await readJson<{ status: string }>(res)).data.status).toBe('scheduled')
+    expect(graph.requests).toHaveLength(0)
+  })
+
+  it('marks the post failed and opens a critical escalation on an expired token', async () => {
+    graph.failNext({ match: '/feed', code: 190 })
+
+    const res = await post({ contentId, platform: 'facebook' })
+
+    expect(res.status).toBe(502)
+    const failed = await prisma.post.findFirstOrThrow({ where: { contentId } })
+    expect(failed.status).toBe('failed')
+    expect(failed.errorMessage).toContain('(190)')
+
+    const escalation = await prisma.escalation.findFirstOrThrow({ where: { campaignId } })
+    expect(escalation).toMatchObject({ type: 'persistent_failure', severity: 'critical', status: 'open' })
+  })
+
+  it('escalates permission errors and succeeds on retry', async () => {
+    graph.failNext({ match: '/feed', code: 200 })
+    await post({ contentId, platform: 'facebook' })
+    const failed = await prisma.post.findFirstOrThrow({ where: { contentId } })
+
+    const retry = await updatePost(
+      jsonRequest(`/api/posts/${failed.id}`, { action: 'retry' }, 'PATCH'),
+      routeContext(failed.id)
+    )
+
+    expect(retry.status).toBe(200)
+    expect((await prisma.post.findUniqueOrThrow({ where: { id: failed.id } })).status).toBe('posted')
+
+    const actions = await prisma.activityLog.findMany({ where: { entityId: failed.id }, orderBy: { createdAt: 'asc' } })
+    expect(actions.map((a) => a.action)).toEqual(['post_failed', 'post_retried_success'])
+  })
+
+  it('only retries failed posts', async () => {
+    const res = await post({ contentId, platform: 'facebook' })
+    const { id } = (await readJson<{ id: string }>(res)).data
+
+    const retry = await updatePost(jsonRequest(`/api/posts/${id}`, { action: 'retry' }, 'PATCH'), routeContext(id))
+    expect(retry.status).toBe(400)
+  })
+
+  it("won't retry a failed post while its campaign is paused", async () => {
+    graph.failNext({ match: '/feed', code: 200 })
+    await post({ contentId, platform: 'facebook' })
+    const failed = await prisma.post.findFirstOrThrow({ where: { contentId } })
+    await prisma.campaign.update({ where: { id: campaignId }, data: { status: 'paused' } })
+
+    const retry = await updatePost(
+      jsonRequest(`/api/posts/${failed.id}`, { action: 'retry' }, 'PATCH'),
+      routeContext(failed.id)
+    )
+
+    expect(retry.status).toBe(409)
+    expect((await prisma.post.findUniqueOrThrow({ where: { id: failed.id } })).status).toBe('failed')
+    expect(graph.posts.size).toBe(0)
+  })
+
+  it('fails posts stuck in posting past the lease and escalates them without re-publishing', async () => {
+    const stuck = await prisma.post.create({
+      data: {
+        contentId,
+        platform: 'facebook',
+        status: 'posting',
+        claimedAt: new Date(Date.now() - PUBLISH_LEASE_MS - 60_000),
+      },
+    })
+    const inFlight = await prisma.post.create({
+      data: { contentId, platform: 'instagram', status: 'posting', claimedAt: new Date() },
+    })
+
+    expect(await failStalePosts()).toEqual([stuck.id])
+
+    expect(await prisma.post.findUniqueOrThrow({ where: { id: stuck.id } })).toMatchObject({ status: 'failed' })
+    expect(await prisma.post.findUniqueOrThrow({ where: { id: inFlight.id } })).toMatchObject({ status: 'posting' })
+    expect(graph.posts.size).toBe(0)
+    const escalations = await prisma.escalation.findMany({ where: { campaignId } })
+    expect(escalations).toEqual([expect.objectContaining({ type: 'persistent_failure', status: 'open' })])
+  })
+})
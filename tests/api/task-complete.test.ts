@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import prisma from '@/lib/prisma'
+import { hasTestDatabase, seedFixtures, createCampaign } from '../helpers/db'
+import { jsonRequest, routeContext, readJson } from '../helpers/requests'
+
+vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+
+import { POST as completeTask } from '@/app/api/tasks/[id]/complete/route'
+
+describe.skipIf(!hasTestDatabase)('POST /api/tasks/:id/complete', () => {
+  let campaignId: string
+
+  beforeEach(async () => {
+    const { melissa } = await seedFixtures()
+    campaignId = (await createCampaign(melissa.id, 'approved')).id
+  })
+
+  function createTask(title: string, dependsOnId?: string) {
+    return prisma.task.create({
+      data: { campaignId, assignee: 'human', type: 'review_content', title, dependsOnId },
+    })
+  }
+
+  function complete(taskId: string, completionNotes?: string) {
+    return completeTask(jsonRequest(`/api/tasks/${taskId}/complete`, { completionNotes }), routeContext(taskId))
+  }
+
+  it('blocks completion until the dependency is completed', async () => {
+    const first = await createTask('Upload Campaign Images')
+    const second = await createTask('Review Generated Content', first.id)
+
+    const blocked = await complete(second.id)
+    expect(blocked.status).toBe(400)
+    expect((await readJson(blocked)).error).toContain('"Upload Campaign Images" is not completed')
+
+    expect((await complete(first.id)).status).toBe(200)
+    expect((await complete(second.id, 'Looks good')).status).toBe(200)
+
+    const stored = await prisma.task.findUnique({ where: { id: second.id } })
+    expect(stored?.status).toBe('completed')
+    expect(stored?.completionNotes).toBe('Looks good')
+  })
+
+  it('rejects completing a task twice', async () => {
+    const task = await createTask('Upload Campaign Images')
+    await complete(task.id)
+
+    const res = await complete(task.id)
+    expect(res.status).toBe(400)
+    expect((await readJson(res)).error).toBe('Task is already completed')
+  })
+
+  it('moves the campaign to setup once every human task is done', async () => {
+    const a = await createTask('Upload Campaign Images')
+    const b = await createTask('Configure Meta Ads Manager')
+
+    await complete(a.id)
+    expect((await prisma.campaign.findUnique({ where: { id: campaignId } }))?.status).toBe('approved')
+
+    await complete(b.id)
+    expect((await prisma.campaign.findUnique({ where: { id: campaignId } }))?.status).toBe('setup')
+  })
+
+  it('leaves campaigns past approval where they are', async () => {
+    await prisma.campaign.update({ where: { id: campaignId }, data: { status: 'live' } })
+    const task = await createTask('Review Generated Content')
+
+    await complete(task.id)
+    expect((await prisma.campaign.findUnique({ where: { id: campaignId } }))?.status).toBe('live')
+  })
+})
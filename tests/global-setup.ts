@@ -0,0 +1,18 @@
+import { execSync } from 'child_process'
+
+/**
+ * Push the Prisma schema to the test database once per run.
+ * Database-backed suites are skipped when TEST_DATABASE_URL is not set.
+ */
+export default function setup() {
+  const url = process.env.TEST_DATABASE_URL
+  if (!url) {
+    console.warn('TEST_DATABASE_URL is not set — skipping database-backed tests')
+    return
+  }
+
+  execSync('npx prisma db push --force-reset --skip-generate', {
+    stdio: 'inherit',
+    env: { ...process.env, DATABASE_URL: url },
+  })
+}
@@ -0,0 +1,78 @@
+import { CampaignStatus, Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { seedDatabase } from '../../prisma/seed'
+
+export const hasTestDatabase = !!process.env.TEST_DATABASE_URL
+
+/**
+ * Empty every table in the test database.
+ */
+export async function resetDatabase() {
+  const tables = await prisma.$queryRaw<Array<{ tablename: string }>>`
+    SELECT tablename FROM pg_tables WHERE schemaname = 'public'
+  `
+  const names = tables
+    .filter((t) => t.tablename !== '_prisma_migrations')
+    .map((t) => `"public"."${t.tablename}"`)
+    .join(', ')
+
+  if (names) {
+    await prisma.$executeRawUnsafe(`TRUNCATE TABLE ${names} RESTART IDENTITY CASCADE`)
+  }
+}
+
+/**
+ * Reset the database and load the fixtures from prisma/seed.ts.
+ */
+export async function seedFixtures() {
+  await resetDatabase()
+  return seedDatabase(prisma, { quiet: true })
+}
+
+// =============================================================================
+// Factories
+// =============================================================================
+
+export async function createPlaybook(businessId: string, overrides: Partial<Prisma.PlaybookUncheckedCreateInput> = {}) {
+  return prisma.playbook.create({
+    data: {
+      businessId,
+      name: 'Test Playbook',
+      status: 'active',
+      positioning: 'The easiest way for teachers to personalize learning.',
+      audiences: [{ id: 'time_starved', name: 'Time-Starved Teachers' }],
+      hooks: [{ id: 'hook_1', text: 'Get your evenings back', angle: 'pain point' }],
+      ...overrides,
+    },
+  })
+}
+
+export async function createCampaign(
+  businessId: string,
+  status: CampaignStatus = 'draft',
+  overrides: Partial<Prisma.CampaignUncheckedCreateInput> = {}
+) {
+  const playbook = await createPlaybook(businessId)
+  return prisma.campaign.create({
+    data: {
+      playbookId: playbook.id,
+      name: 'Back to School',
+      status,
+      ...overrides,
+    },
+  })
+}
+
+export async function createContent(campaignId: string, overrides: Partial<Prisma.ContentUncheckedCreateInput> = {}) {
+  return prisma.content.create({
+    data: {
+      campaignId,
+      status: 'approved',
+      headline: 'Reclaim your evenings',
+      body: 'Lesson plans in minutes, not hours.',
+      ctaText: 'Start your free trial',
+      ctaUrl: 'https://melissaforeducators.com/trial?ref=social',
+      ...overrides,
+    },
+  })
+}
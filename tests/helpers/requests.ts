@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import type { SessionPayload } from '@/lib/auth'
+
+export const testSession: SessionPayload = {
+  userId: 'test-user',
+  email: 'admin@campaignengine.local',
+  exp: Math.floor(Date.now() / 1000) + 3600,
+}
+
+/**
+ * Replacement for @/lib/auth that treats every request as signed in:
+ *   vi.mock('@/lib/auth', async () => (await import('../helpers/requests')).mockAuthModule())
+ */
+export async function mockAuthModule() {
+  const { vi } = await import('vitest')
+  const actual = await vi.importActual<typeof import('@/lib/auth')>('@/lib/auth')
+  return {
+    ...actual,
+    getSession: vi.fn(async () => testSession),
+    ensureAuthenticated: vi.fn(async () => testSession),
+  }
+}
+
+export function jsonRequest(path: string, body?: unknown, method = body === undefined ? 'GET' : 'POST') {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+export function routeContext(id: string) {
+  return { params: Promise.resolve({ id }) }
+}
+
+export async function readJson<T = Record<string, unknown>>(response: Response) {
+  return (await response.json()) as { success: boolean; data: T; error?: string }
+}
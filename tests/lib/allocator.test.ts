@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import {
+  validatePostingSchedule,
+  upcomingSlots,
+  sampleBeta,
+  chooseArm,
+  canExplore,
+  BanditArm,
+  EXPLORATION_MIN_TRIALS,
+} from '@/lib/allocator'
+
+// Deterministic mulberry32 so sampling tests are repeatable
+function seededRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function arm(contentId: string, trials: number, successes: number): BanditArm {
+  return { contentId, hookSource: contentId, trials, successes }
+}
+
+describe('validatePostingSchedule', () => {
+  it('sorts and de-duplicates times', () => {
+    const { value, errors } = validatePostingSchedule({ times: ['17:00', '09:00', '17:00'], platforms: ['facebook'] })
+    expect(errors).toEqual({})
+    expect(value).toEqual({ times: ['09:00', '17:00'], platforms: ['facebook'] })
+  })
+
+  it('rejects malformed times and unknown platforms', () => {
+    const { errors } = validatePostingSchedule({ times: ['9am', '25:00'], platforms: ['tiktok'] })
+    expect(errors['postingSchedule.times']).toMatch(/9am, 25:00/)
+    expect(errors['postingSchedule.platforms']).toBeDefined()
+  })
+
+  it('requires an object', () => {
+    expect(validatePostingSchedule('09:00').errors).toHaveProperty('postingSchedule')
+  })
+})
+
+describe('upcomingSlots', () => {
+  it('lists each time and platform within the horizon', () => {
+    const slots = upcomingSlots(
+      { times: ['09:00', '17:00'], platforms: ['facebook', 'instagram'] },
+      new Date('2025-03-01T12:00:00Z'),
+      24
+    )
+
+    expect(slots.map((s) => `${s.slotAt.toISOString()} ${s.platform}`)).toEqual([
+      '2025-03-01T17:00:00.000Z facebook',
+      '2025-03-01T17:00:00.000Z instagram',
+      '2025-03-02T09:00:00.000Z facebook',
+      '2025-03-02T09:00:00.000Z instagram',
+    ])
+  })
+
+  it('skips a slot at the current instant', () => {
+    const slots = upcomingSlots({ times: ['09:00'], platforms: ['facebook'] }, new Date('2025-03-01T09:00:00Z'), 24)
+    expect(slots).toHaveLength(1)
+    expect(slots[0].slotAt.toISOString()).toBe('2025-03-02T09:00:00.000Z')
+  })
+})
+
+describe('sampleBeta', () => {
+  it('centres on the posterior mean', () => {
+    const random = seededRandom(1)
+    const draws = Array.from({ length: 4000 }, () => sampleBeta(30, 970, random))
+    const mean = draws.reduce((a, b) => a + b, 0) / draws.length
+    expect(mean).toBeCloseTo(0.03, 2)
+    expect(draws.every((d) => d > 0 && d < 1)).toBe(true)
+  })
+
+  it('handles the uniform prior', () => {
+    const random = seededRandom(2)
+    const draws = Array.from({ length: 4000 }, () => sampleBeta(1, 1, random))
+    const mean = draws.reduce((a, b) => a + b, 0) / draws.length
+    expect(mean).toBeCloseTo(0.5, 1)
+  })
+})
+
+describe('chooseArm', () => {
+  it('gives most slots to the stronger arm', () => {
+    const random = seededRandom(3)
+    const arms = [arm('strong', 2000, 100), arm('weak', 2000, 40)]
+    const picks = Array.from({ length: 200 }, () => chooseArm(arms, { allowExploration: true, random })!.contentId)
+    expect(picks.filter((id) => id === 'strong').length).toBeGreaterThan(190)
+  })
+
+  it('still shares slots between arms that are close', () => {
+    const random = seededRandom(4)
+    const arms = [arm('a', 1000, 31), arm('b', 1000, 29)]
+    const picks = Array.from({ length: 200 }, () => chooseArm(arms, { allowExploration: true, random })!.contentId)
+    const share = picks.filter((id) => id === 'a').length / picks.length
+    expect(share).toBeGreaterThan(0.3)
+    expect(share).toBeLessThan(0.9)
+  })
+
+  it('labels unproven arms as exploration', () => {
+    const choice = chooseArm([arm('new', 0, 0)], { allowExploration: true, random: seededRandom(5) })!
+    expect(choice.strategy).toBe('explore')
+    expect(choice.samples[0]).toMatchObject({ alpha: 1, beta: 1 })
+  })
+
+  it('leaves unproven arms out when exploration is used up', () => {
+    const random = seededRandom(6)
+    const arms = [arm('proven', EXPLORATION_MIN_TRIALS, 2), arm('new', 0, 0)]
+    for (let i = 0; i < 50; i++) {
+      const choice = chooseArm(arms, { allowExploration: false, random })!
+      expect(choice.contentId).toBe('proven')
+      expect(choice.strategy).toBe('exploit')
+    }
+  })
+
+  it('explores anyway when nothing is proven yet', () => {
+    const choice = chooseArm([arm('a', 10, 1), arm('b', 0, 0)], { allowExploration: false, random: seededRandom(7) })
+    expect(choice?.strategy).toBe('explore')
+  })
+
+  it('returns null without arms', () => {
+    expect(chooseArm([], { allowExploration: true })).toBeNull()
+  })
+})
+
+describe('canExplore', () => {
+  it('caps exploration at the configured share', () => {
+    expect(canExplore({ total: 0, explored: 0 }, 0.25)).toBe(false)
+    expect(canExplore({ total: 3, explored: 0 }, 0.25)).toBe(true)
+    expect(canExplore({ total: 7, explored: 1 }, 0.25)).toBe(true)
+    expect(canExplore({ total: 8, explored: 2 }, 0.25)).toBe(false)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import {
+  robustZScore,
+  bucketDeltas,
+  detectSeriesAnomalies,
+  detectConversionBursts,
+  SeriesPoint,
+  HOURLY_RULES,
+  DAILY_RULES,
+} from '@/lib/anomalies'
+
+function day(index: number, impressions: number, clicks: number, spend = 0): SeriesPoint {
+  return { bucket: `2025-03-${String(index).padStart(2, '0')}`, impressions, clicks, spend }
+}
+
+/** Ten steady days with mild noise */
+function steadyDays(): SeriesPoint[] {
+  return [1000, 950, 1040, 980, 1010, 990, 1060, 970, 1020, 1000].map((impressions, i) =>
+    day(i + 1, impressions, Math.round(impressions * 0.03), 25 + (i % 3))
+  )
+}
+
+describe('robustZScore', () => {
+  it('scores against the median and MAD', () => {
+    const score = robustZScore(30, [10, 11, 9, 10, 12, 8])!
+    expect(score.median).toBe(10)
+    expect(score.mad).toBe(1)
+    expect(score.z).toBeCloseTo(13.49, 2)
+  })
+
+  it('floors the MAD for flat baselines', () => {
+    const score = robustZScore(11, [10, 10, 10, 10])!
+    expect(score.z).toBeCloseTo(0.6745, 3)
+  })
+
+  it('needs a baseline', () => {
+    expect(robustZScore(1, [])).toBeNull()
+  })
+})
+
+describe('bucketDeltas', () => {
+  it('turns cumulative snapshots into per-hour increases', () => {
+    const series = bucketDeltas(
+      [
+        { postId: 'a', recordedAt: new Date('2025-03-01T10:00:00Z'), impressions: 100, clicks: 2, spend: 1 },
+        { postId: 'a', recordedAt: new Date('2025-03-01T10:30:00Z'), impressions: 180, clicks: 5, spend: 2.5 },
+        { postId: 'a', recordedAt: new Date('2025-03-01T11:00:00Z'), impressions: 220, clicks: 6, spend: 3 },
+        { postId: 'b', recordedAt: new Date('2025-03-01T10:15:00Z'), impressions: 40, clicks: 0, spend: 0 },
+        { postId: 'b', recordedAt: new Date('2025-03-01T10:45:00Z'), impressions: 90, clicks: 1, spend: 0 },
+      ],
+      'hour'
+    )
+
+    expect(series).toEqual([
+      { bucket: '2025-03-01T10:00:00.000Z', impressions: 130, clicks: 4, spend: 1.5 },
+      { bucket: '2025-03-01T11:00:00.000Z', impressions: 40, clicks: 1, spend: 0.5 },
+    ])
+  })
+
+  it('fills days without delivery with zeros', () => {
+    const series = bucketDeltas(
+      [
+        { postId: 'a', recordedAt: new Date('2025-03-01T10:00:00Z'), impressions: 0, clicks: 0, spend: 0 },
+        { postId: 'a', recordedAt: new Date('2025-03-02T10:00:00Z'), impressions: 500, clicks: 10, spend: 5 },
+        { postId: 'a', recordedAt: new Date('2025-03-04T10:00:00Z'), impressions: 900, clicks: 20, spend: 9 },
+      ],
+      'day'
+    )
+
+    expect(series.map((p) => [p.bucket, p.impressions])).toEqual([
+      ['2025-03-02', 500],
+      ['2025-03-03', 0],
+      ['2025-03-04', 400],
+    ])
+  })
+})
+
+describe('detectSeriesAnomalies', () => {
+  it('stays quiet on a steady series', () => {
+    expect(detectSeriesAnomalies([...steadyDays(), day(11, 1010, 30, 26)], DAILY_RULES)).toEqual([])
+  })
+
+  it('flags a sudden impression drop', () => {
+    const anomalies = detectSeriesAnomalies([...steadyDays(), day(11, 200, 6, 26)], DAILY_RULES)
+    expect(anomalies.map((a) => a.kind)).toEqual(['impression_drop'])
+    expect(anomalies[0].median).toBe(1000)
+  })
+
+  it('flags a CTR collapse', () => {
+    const anomalies = detectSeriesAnomalies([...steadyDays(), day(11, 1000, 5, 26)], DAILY_RULES)
+    expect(anomalies.map((a) => a.kind)).toEqual(['ctr_collapse'])
+  })
+
+  it('flags a spend spike', () => {
+    const anomalies = detectSeriesAnomalies([...steadyDays(), day(11, 1000, 30, 140)], DAILY_RULES)
+    expect(anomalies.map((a) => a.kind)).toEqual(['spend_spike'])
+    expect(anomalies[0].value).toBe(140)
+  })
+
+  it('ignores small absolute spend even when it is an outlier', () => {
+    const hours = Array.from({ length: 8 }, (_, i) => ({
+      bucket: `2025-03-01T${String(i).padStart(2, '0')}:00:00.000Z`,
+      impressions: 100,
+      clicks: 3,
+      spend: 0.2,
+    }))
+    const latest = { bucket: '2025-03-01T08:00:00.000Z', impressions: 100, clicks: 3, spend: 3 }
+    expect(detectSeriesAnomalies([...hours, latest], HOURLY_RULES)).toEqual([])
+  })
+
+  it('does not judge impression drops per post', () => {
+    expect(HOURLY_RULES.kinds).not.toContain('impression_drop')
+  })
+
+  it('waits for enough baseline points', () => {
+    expect(detectSeriesAnomalies([day(1, 1000, 30), day(2, 1000, 30), day(3, 10, 0)], DAILY_RULES)).toEqual([])
+  })
+})
+
+describe('detectConversionBursts', () => {
+  const base = Date.parse('2025-03-01T10:00:00Z')
+  const event = (ip: string, minutes: number, type = 'signup') => ({
+    campaignId: 'c1',
+    ipAddress: ip,
+    type,
+    createdAt: new Date(base + minutes * 60_000),
+  })
+
+  it('flags many conversions from one IP within the window', () => {
+    const bursts = detectConversionBursts([
+      event('1.1.1.1', 0),
+      event('1.1.1.1', 5),
+      event('1.1.1.1', 10, 'purchase'),
+      event('1.1.1.1', 12),
+      event('1.1.1.1', 20),
+      event('2.2.2.2', 3),
+    ])
+
+    expect(bursts).toHaveLength(1)
+    expect(bursts[0]).toMatchObject({ ipAddress: '1.1.1.1', count: 5, types: { signup: 4, purchase: 1 } })
+  })
+
+  it('does not count conversions spread beyond the window', () => {
+    const spread = [0, 30, 70, 110, 150].map((m) => event('1.1.1.1', m))
+    expect(detectConversionBursts(spread)).toEqual([])
+  })
+})
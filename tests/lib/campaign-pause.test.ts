@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { retimeHeldPost, isResumePolicy } from '@/lib/campaign-pause'
+
+const pausedAt = new Date('2025-03-01T10:00:00Z')
+const now = new Date('2025-03-03T10:00:00Z')
+
+describe('retimeHeldPost', () => {
+  it('keeps future posts at their time whatever the policy', () => {
+    const later = new Date('2025-03-04T09:00:00Z')
+    for (const policy of ['skip', 'post_now', 'shift'] as const) {
+      expect(retimeHeldPost(later, pausedAt, now, policy)).toEqual({ action: 'restore', scheduledFor: later })
+    }
+  })
+
+  it('skips overdue posts', () => {
+    expect(retimeHeldPost(new Date('2025-03-02T09:00:00Z'), pausedAt, now, 'skip')).toEqual({ action: 'skip' })
+  })
+
+  it('posts overdue posts now', () => {
+    expect(retimeHeldPost(new Date('2025-03-02T09:00:00Z'), pausedAt, now, 'post_now')).toEqual({
+      action: 'restore',
+      scheduledFor: now,
+    })
+  })
+
+  it('shifts overdue posts by the pause length', () => {
+    // Due 23h into a 48h pause, so it goes out 23h after resuming
+    expect(retimeHeldPost(new Date('2025-03-02T09:00:00Z'), pausedAt, now, 'shift')).toEqual({
+      action: 'restore',
+      scheduledFor: new Date('2025-03-04T09:00:00Z'),
+    })
+  })
+
+  it('never shifts into the past', () => {
+    // Already overdue when the campaign was paused
+    const stale = new Date('2025-02-25T09:00:00Z')
+    expect(retimeHeldPost(stale, pausedAt, now, 'shift')).toEqual({ action: 'restore', scheduledFor: now })
+  })
+})
+
+describe('isResumePolicy', () => {
+  it('accepts the known policies only', () => {
+    expect(isResumePolicy('shift')).toBe(true)
+    expect(isResumePolicy('post_now')).toBe(true)
+    expect(isResumePolicy('later')).toBe(false)
+    expect(isResumePolicy(undefined)).toBe(false)
+  })
+})
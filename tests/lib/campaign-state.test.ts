@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { CampaignStatus } from '@prisma/client'
+import { CAMPAIGN_TRANSITIONS, canTransition, availableTransitions } from '@/lib/campaign-state'
+
+const allStatuses: CampaignStatus[] = ['draft', 'review', 'approved', 'setup', 'live', 'paused', 'completed', 'failed']
+
+describe('campaign transitions', () => {
+  it('lists what each status can move to', () => {
+    expect(Object.fromEntries(allStatuses.map((s) => [s, availableTransitions(s)]))).toEqual({
+      draft: ['approve'],
+      review: ['approve'],
+      approved: ['complete_setup', 'launch', 'fail'],
+      setup: ['launch', 'fail'],
+      live: ['pause', 'complete', 'fail'],
+      paused: ['resume', 'complete', 'fail'],
+      completed: [],
+      failed: [],
+    })
+  })
+
+  it('treats completed and failed as terminal', () => {
+    for (const transition of Object.values(CAMPAIGN_TRANSITIONS)) {
+      expect(transition.from).not.toContain('completed')
+      expect(transition.from).not.toContain('failed')
+    }
+  })
+
+  it('checks the launch preconditions', () => {
+    expect(CAMPAIGN_TRANSITIONS.launch.preconditions).toEqual([
+      'tasks_done',
+      'content_exists',
+      'meta_connected',
+      'budget_set',
+    ])
+  })
+
+  it('only launches from approved or setup', () => {
+    expect(allStatuses.filter((s) => canTransition(s, 'launch'))).toEqual(['approved', 'setup'])
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getContentRules,
+  validateContentRules,
+  lintContent,
+  hasCriticalViolations,
+  DEFAULT_CONTENT_RULES,
+  ContentRules,
+} from '@/lib/content-compliance'
+
+function content(overrides: Partial<Parameters<typeof lintContent>[0]> = {}) {
+  return {
+    type: 'organic_post',
+    headline: 'Reclaim your evenings',
+    body: 'Lesson plans in minutes, not hours.',
+    ctaText: 'Start free',
+    ...overrides,
+  }
+}
+
+function rules(overrides: Partial<ContentRules> = {}): ContentRules {
+  return { ...DEFAULT_CONTENT_RULES, ...overrides }
+}
+
+describe('getContentRules', () => {
+  it('falls back to the defaults', () => {
+    expect(getContentRules(null)).toEqual(DEFAULT_CONTENT_RULES)
+  })
+
+  it('merges playbook do-nots into the forbidden terms and skips malformed entries', () => {
+    const result = getContentRules(
+      {
+        contentRules: {
+          forbiddenTerms: ['miracle', 42, ' '],
+          requiredDisclaimers: ['Results vary.', { text: 'Ad', contentTypes: ['ad'] }, {}],
+          regulatedClaims: [{ pattern: 'FDA[- ]approved' }, { pattern: '(' }],
+          maxEmojis: null,
+          maxAllCapsWords: -1,
+          metaPolicyChecks: false,
+        },
+      },
+      ['hustle', 'miracle']
+    )
+
+    expect(result).toEqual({
+      forbiddenTerms: ['miracle', 'hustle'],
+      requiredDisclaimers: [{ text: 'Results vary.' }, { text: 'Ad', contentTypes: ['ad'] }],
+      regulatedClaims: [
+        { id: 'custom_1', pattern: 'FDA[- ]approved', message: 'Regulated claim needs review', severity: 'critical' },
+      ],
+      maxEmojis: null,
+      maxAllCapsWords: 3,
+      metaPolicyChecks: false,
+    })
+  })
+})
+
+describe('validateContentRules', () => {
+  it('accepts missing and well-formed rules', () => {
+    expect(validateContentRules(undefined)).toEqual({})
+    expect(validateContentRules({ forbiddenTerms: ['x'], maxEmojis: null, regulatedClaims: [{ pattern: '\\bcure\\b' }] })).toEqual({})
+  })
+
+  it('reports bad limits and patterns', () => {
+    expect(validateContentRules({ maxEmojis: 1.5, regulatedClaims: [{ pattern: '[' }], forbiddenTerms: 'x' })).toEqual({
+      maxEmojis: 'maxEmojis must be a whole number of 0 or more, or null',
+      regulatedClaims: 'Invalid claim pattern: "["',
+      forbiddenTerms: 'forbiddenTerms must be a list',
+    })
+  })
+})
+
+describe('lintContent', () => {
+  it('passes clean copy', () => {
+    const check = lintContent(content(), rules())
+    expect(check.violations).toEqual([])
+    expect(hasCriticalViolations(check)).toBe(false)
+  })
+
+  it('finds forbidden terms as whole words, with spans', () => {
+    const check = lintContent(content({ body: 'Miracle results, not miracles.' }), rules({ forbiddenTerms: ['miracle'] }))
+
+    expect(check.violations).toEqual([
+      {
+        rule: 'forbidden_term',
+        ruleId: 'miracle',
+        severity: 'critical',
+        message: '"Miracle" is on the forbidden list',
+        field: 'body',
+        span: { start: 0, end: 7 },
+        text: 'Miracle',
+      },
+    ])
+    expect(check.critical).toBe(1)
+  })
+
+  it('requires disclaimers in every message, for the content types they apply to', () => {
+    const disclaimers = [{ text: 'Results vary.' }, { text: 'Sponsored', contentTypes: ['ad'] }]
+    const check = lintContent(
+      content({
+        body: 'Lesson plans in minutes. Results vary.',
+        platformVariants: { instagram: { body: 'Plans in minutes ✨', hashtags: [] } },
+      }),
+      rules({ requiredDisclaimers: disclaimers })
+    )
+
+    expect(check.violations.map((v) => [v.rule, v.field, v.span])).toEqual([
+      ['required_disclaimer', 'platformVariants.instagram.body', null],
+    ])
+  })
+
+  it('flags built-in and custom claims', () => {
+    const check = lintContent(
+      content({ body: 'Guaranteed to cure your anxiety. FDA approved!' }),
+      rules({
+        regulatedClaims: [{ id: 'fda', pattern: 'FDA[- ]approved', message: 'Needs clearance', severity: 'critical' }],
+      })
+    )
+
+    expect(check.violations.map((v) => [v.ruleId, v.severity, v.text])).toEqual([
+      ['health_claim', 'critical', 'cure your anxiety'],
+      ['guarantee', 'warning', 'Guaranteed'],
+      ['fda', 'critical', 'FDA approved'],
+    ])
+  })
+
+  it('makes Meta policy hits critical on ads only', () => {
+    const body = 'Are you overweight? Tag a friend!'
+    expect(lintContent(content({ body }), rules()).violations.map((v) => [v.ruleId, v.severity])).toEqual([
+      ['personal_attributes', 'warning'],
+      ['engagement_bait', 'warning'],
+    ])
+    expect(lintContent(content({ type: 'ad', body }), rules()).critical).toBe(2)
+    expect(lintContent(content({ type: 'ad', body }), rules({ metaPolicyChecks: false })).violations).toEqual([])
+  })
+
+  it('flags each emoji and all-caps word past the limit', () => {
+    const check = lintContent(
+      content({ headline: 'BIG NEWS FOR TEACHERS', body: 'So good 🎉🎉🍎' }),
+      rules({ maxEmojis: 2, maxAllCapsWords: 2 })
+    )
+
+    expect(check.violations.map((v) => [v.rule, v.field, v.text, v.span])).toEqual([
+      ['all_caps', 'headline', 'FOR', { start: 9, end: 12 }],
+      ['all_caps', 'headline', 'TEACHERS', { start: 13, end: 21 }],
+      ['emoji_limit', 'body', '🍎', { start: 12, end: 14 }],
+    ])
+  })
+
+  it('does not re-check variant fields that match the base copy', () => {
+    const check = lintContent(
+      content({
+        body: 'A miracle.',
+        platformVariants: {
+          facebook: { body: 'A miracle.', hashtags: ['#miracle'] },
+        },
+      }),
+      rules({ forbiddenTerms: ['miracle'] })
+    )
+
+    expect(check.violations.map((v) => v.field)).toEqual(['body', 'platformVariants.facebook.hashtags'])
+  })
+})
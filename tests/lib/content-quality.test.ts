@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { generateContent, scoreContentVariations, streamContent } = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  scoreContentVariations: vi.fn(),
+  streamContent: vi.fn(),
+}))
+vi.mock('@/lib/claude', () => ({ generateContent, scoreContentVariations, streamContent }))
+
+import type { ContentVariation, GenerationRequest } from '@/lib/claude'
+import {
+  scoreVariantLength,
+  scoreCtaPresence,
+  combineQualityScore,
+  buildQualityScore,
+  generateScoredContent,
+  streamScoredContent,
+  MAX_REGENERATION_ROUNDS,
+  STREAM_SCORING_BATCH_SIZE,
+} from '@/lib/content-quality'
+
+const body = 'Lesson plans in minutes, not hours. Our planner drafts a full week of standards-aligned lessons so you can spend your evenings on anything else.'
+
+function variation(overrides: Partial<ContentVariation> = {}): ContentVariation {
+  const base = { headline: 'Reclaim your evenings', body, ctaText: 'Start free' }
+  return {
+    ...base,
+    hookSource: 'hook_time',
+    audienceSegment: 'Teachers',
+    platformVariants: {
+      facebook: { ...base, hashtags: ['#teachers'] },
+      instagram: { ...base, hashtags: ['#teachers', '#edtech'] },
+    },
+    ...overrides,
+  }
+}
+
+const request: GenerationRequest = {
+  playbook: {
+    businessName: 'PlanAhead',
+    positioning: 'Lesson planning for busy teachers',
+    audiences: [{ name: 'Teachers', description: 'K-12', painPoints: [], desires: [] }],
+    hooks: [],
+    visualDirection: { tone: 'warm, practical', doNots: ['guilt-tripping'] },
+  },
+  targetAudience: 'Teachers',
+  hooks: [{ id: 'hook_time', text: 'Get your Sundays back', angle: 'relief' }],
+  contentType: 'organic_post',
+  platform: 'both',
+  count: 2,
+}
+
+function generated(variations: ContentVariation[]) {
+  return { variations, metadata: { model: 'test-model', tokensUsed: 100, generatedAt: '2026-10-01T00:00:00.000Z' } }
+}
+
+function rubric(scores: number[]) {
+  return {
+    scores: scores.map((s, index) => ({ index, brandVoice: s, hookAlignment: s, clarity: s })),
+    model: 'test-model',
+    tokensUsed: 10,
+  }
+}
+
+describe('scoreVariantLength', () => {
+  it('gives full marks inside the recommended range', () => {
+    expect(scoreVariantLength({ headline: '', body, ctaText: '', hashtags: [] }, 'instagram')).toEqual({ score: 10 })
+  })
+
+  it('scores short bodies in proportion', () => {
+    const result = scoreVariantLength({ headline: '', body: 'x'.repeat(50), ctaText: '', hashtags: [] }, 'facebook')
+    expect(result.score).toBe(4)
+    expect(result.issue).toMatch(/under the recommended/)
+  })
+
+  it('tolerates long bodies but scores 0 past the hard limit', () => {
+    expect(scoreVariantLength({ headline: '', body: 'x'.repeat(320), ctaText: '', hashtags: [] }, 'instagram').score).toBe(6)
+    expect(scoreVariantLength({ headline: '', body: 'x'.repeat(2300), ctaText: '', hashtags: [] }, 'instagram')).toEqual({
+      score: 0,
+      issue: 'Instagram post exceeds 2200 characters',
+    })
+  })
+})
+
+describe('scoreCtaPresence', () => {
+  it('requires a CTA on the base copy and every variant', () => {
+    expect(scoreCtaPresence(variation()).score).toBe(10)
+
+    const missing = variation()
+    missing.platformVariants.instagram!.ctaText = ' '
+    expect(scoreCtaPresence(missing)).toEqual({ score: 0, issues: ['Missing call to action'] })
+  })
+
+  it('marks down CTAs that read like body copy', () => {
+    expect(scoreCtaPresence(variation({ ctaText: 'x'.repeat(61) })).score).toBe(6)
+  })
+})
+
+describe('combineQualityScore', () => {
+  it('weights the dimensions and scales to 0-100', () => {
+    expect(
+      combineQualityScore({ brandVoice: 8, hookAlignment: 6, clarity: 10, lengthCompliance: 10, ctaPresence: 0 })
+    ).toBe(70)
+  })
+
+  it('renormalizes over the dimensions that were scored', () => {
+    expect(
+      combineQualityScore({ brandVoice: null, hookAlignment: 10, clarity: null, lengthCompliance: 4, ctaPresence: 10 })
+    ).toBe(84)
+  })
+})
+
+describe('buildQualityScore', () => {
+  it('zeroes hook alignment for hooks that were not requested', () => {
+    const quality = buildQualityScore(variation({ hookSource: 'made_up' }), ['hook_time'], {
+      score: { index: 0, brandVoice: 9, hookAlignment: 9, clarity: 9 },
+      model: 'test-model',
+    })
+
+    expect(quality.dimensions.hookAlignment).toBe(0)
+    expect(quality.issues).toContain('Hook "made_up" is not one of the requested hooks')
+    expect(quality.rubricModel).toBe('test-model')
+  })
+
+  it('leaves hook alignment out when no hook was requested', () => {
+    const quality = buildQualityScore(variation({ hookSource: '' }), [], {
+      score: { index: 0, brandVoice: 10, hookAlignment: 0, clarity: 10 },
+      model: 'test-model',
+    })
+
+    expect(quality.dimensions.hookAlignment).toBeNull()
+    expect(quality.overall).toBe(100)
+    expect(quality.issues).toEqual([])
+  })
+
+  it('falls back to the deterministic checks without a rubric', () => {
+    const quality = buildQualityScore(variation(), ['hook_time'], { error: 'timeout' })
+
+    expect(quality.dimensions).toMatchObject({ brandVoice: null, clarity: null, hookAlignment: 10 })
+    expect(quality.overall).toBe(100)
+    expect(quality.rubricError).toBe('timeout')
+  })
+})
+
+describe('generateScoredContent', () => {
+  beforeEach(() => {
+    generateContent.mockReset()
+    scoreContentVariations.mockReset()
+  })
+
+  it('scores every variation and passes the brand tone to the rubric', async () => {
+    generateContent.mockResolvedValue(generated([variation(), variation()]))
+    scoreContentVariations.mockResolvedValue(rubric([8, 4]))
+
+    const result = await generateScoredContent(request)
+
+    expect(result.variations).toHaveLength(2)
+    expect(result.variations.map((v) => v.quality!.overall)).toEqual([86, 58])
+    expect(result.discarded).toEqual([])
+    expect(scoreContentVariations).toHaveBeenCalledWith(
+      expect.objectContaining({ tone: 'warm, practical', doNots: ['guilt-tripping'] })
+    )
+  })
+
+  it('discards variations below the threshold and generates replacements', async () => {
+    generateContent
+      .mockResolvedValueOnce(generated([variation(), variation({ headline: 'weak' })]))
+      .mockResolvedValueOnce(generated([variation({ headline: 'replacement' })]))
+    scoreContentVariations.mockResolvedValueOnce(rubric([8, 2])).mockResolvedValueOnce(rubric([9]))
+
+    const result = await generateScoredContent(request, { minScore: 60 })
+
+    expect(generateContent).toHaveBeenLastCalledWith(expect.objectContaining({ count: 1 }))
+    expect(result.variations.map((v) => v.headline)).toEqual(['Reclaim your evenings', 'replacement'])
+    expect(result.discarded.map((d) => [d.variation.headline, d.round])).toEqual([['weak', 0]])
+    expect(result.quality).toEqual({ minScore: 60, rounds: 2, regenerationError: undefined })
+    expect(result.metadata.tokensUsed).toBe(220)
+  })
+
+  it('gives up after the last replacement round', async () => {
+    generateContent.mockImplementation(async ({ count }: { count: number }) =>
+      generated(Array.from({ length: count }, () => variation()))
+    )
+    scoreContentVariations.mockImplementation(async ({ variations }: { variations: unknown[] }) =>
+      rubric(variations.map(() => 0))
+    )
+
+    const result = await generateScoredContent(request, { minScore: 60 })
+
+    expect(generateContent).toHaveBeenCalledTimes(MAX_REGENERATION_ROUNDS + 1)
+    expect(result.variations).toEqual([])
+    expect(result.discarded).toHaveLength(2 * (MAX_REGENERATION_ROUNDS + 1))
+  })
+
+  it('keeps what it has when a replacement round fails', async () => {
+    generateContent
+      .mockResolvedValueOnce(generated([variation(), variation()]))
+      .mockRejectedValueOnce(new Error('overloaded'))
+    scoreContentVariations.mockResolvedValue(rubric([9, 1]))
+
+    const result = await generateScoredContent(request, { minScore: 60 })
+
+    expect(result.variations).toHaveLength(1)
+    expect(result.quality.regenerationError).toBe('overloaded')
+  })
+})
+
+describe('streamScoredContent', () => {
+  const streamMetadata = { model: 'test-model', generatedAt: '2026-10-01T00:00:00.000Z' }
+
+  /** Fake streamContent that hands over each batch's variations one by one */
+  function streams(...batches: Array<ContentVariation[] | Error>) {
+    for (const batch of batches) {
+      streamContent.mockImplementationOnce(async (_request, onVariation) => {
+        if (batch instanceof Error) throw batch
+        for (const variation of batch) await onVariation(variation, streamMetadata)
+        return { variations: batch, metadata: { ...streamMetadata, tokensUsed: 100 } }
+      })
+    }
+  }
+
+  beforeEach(() => {
+    streamContent.mockReset()
+    scoreContentVariations.mockReset()
+  })
+
+  it('scores each round in one batch and streams replacements for discarded ones', async () => {
+    streams([variation(), variation({ headline: 'weak' })], [variation({ headline: 'replacement' })])
+    scoreContentVariations.mockResolvedValueOnce(rubric([8, 2])).mockResolvedValueOnce(rubric([9]))
+
+    const kept: string[] = []
+    const discarded: string[] = []
+    const result = await streamScoredContent(
+      request,
+      {
+        onVariation: async (v) => void kept.push(v.headline),
+        onDiscarded: async (d) => void discarded.push(d.variation.headline),
+      },
+      { minScore: 60 }
+    )
+
+    expect(kept).toEqual(['Reclaim your evenings', 'replacement'])
+    expect(discarded).toEqual(['weak'])
+    expect(streamContent).toHaveBeenLastCalledWith(expect.objectContaining({ count: 1 }), expect.any(Function), {
+      signal: undefined,
+    })
+    expect(scoreContentVariations).toHaveBeenCalledTimes(2)
+    expect(result.metadata.tokensUsed).toBe(220)
+    expect(result.quality.rounds).toBe(2)
+  })
+
+  it('hands over each full scoring batch without waiting for the round to end', async () => {
+    const batch = Array.from({ length: STREAM_SCORING_BATCH_SIZE + 1 }, (_, i) => variation({ headline: `v${i}` }))
+    const keptWhenLastArrived: number[] = []
+    const kept: string[] = []
+    streamContent.mockImplementationOnce(async (_request, onVariation) => {
+      for (const v of batch) {
+        keptWhenLastArrived.push(kept.length)
+        await onVariation(v, streamMetadata)
+      }
+      return { variations: batch, metadata: { ...streamMetadata, tokensUsed: 100 } }
+    })
+    scoreContentVariations.mockImplementation(async ({ variations }) => rubric(variations.map(() => 8)))
+
+    await streamScoredContent(
+      { ...request, count: batch.length },
+      { onVariation: async (v) => void kept.push(v.headline) }
+    )
+
+    expect(keptWhenLastArrived[STREAM_SCORING_BATCH_SIZE]).toBe(STREAM_SCORING_BATCH_SIZE)
+    expect(kept).toEqual(batch.map((v) => v.headline))
+    expect(scoreContentVariations).toHaveBeenCalledTimes(2)
+  })
+
+  it('rethrows when cancelled, after handing over what was already kept', async () => {
+    const abort = new AbortController()
+    streamContent.mockImplementationOnce(async (_request, onVariation) => {
+      for (let i = 0; i <= STREAM_SCORING_BATCH_SIZE; i++) await onVariation(variation(), streamMetadata)
+      abort.abort()
+      throw new Error('Request was aborted.')
+    })
+    scoreContentVariations.mockImplementation(async ({ variations }) => rubric(variations.map(() => 8)))
+
+    const kept: string[] = []
+    await expect(
+      streamScoredContent(request, { onVariation: async (v) => void kept.push(v.headline) }, { signal: abort.signal })
+    ).rejects.toThrow('aborted')
+    // The variation still waiting for its batch to fill is dropped
+    expect(kept).toHaveLength(STREAM_SCORING_BATCH_SIZE)
+    expect(scoreContentVariations).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps what it has when a replacement round fails', async () => {
+    streams([variation(), variation()], new Error('overloaded'))
+    scoreContentVariations.mockResolvedValueOnce(rubric([9, 1]))
+
+    const result = await streamScoredContent(request, { onVariation: async () => {} }, { minScore: 60 })
+
+    expect(result.variations).toHaveLength(1)
+    expect(result.quality.regenerationError).toBe('overloaded')
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeSuggestedActions, MAX_SUGGESTED_ACTIONS } from '@/lib/escalation-analysis'
+
+const context = { contentIds: ['content-1', 'content-2'], hookIds: ['hook_a', 'hook_b'] }
+
+describe('sanitizeSuggestedActions', () => {
+  it('keeps valid actions and fills in defaults', () => {
+    const actions = sanitizeSuggestedActions(
+      [
+        { type: 'pause_content', label: 'Pause the weak post', reason: 'Lowest score', params: { contentId: 'content-2' } },
+        { type: 'generate_content', params: { hookIds: ['hook_a', 'hook_x'], count: 9 } },
+        { type: 'pause_campaign', label: 'Pause', params: { anything: true } },
+      ],
+      context
+    )
+
+    expect(actions).toEqual([
+      { type: 'pause_content', label: 'Pause the weak post', reason: 'Lowest score', params: { contentId: 'content-2' }, appliedAt: null },
+      { type: 'generate_content', label: 'Generate new variations', reason: '', params: { hookIds: ['hook_a'], count: 5 }, appliedAt: null },
+      { type: 'pause_campaign', label: 'Pause', reason: '', params: {}, appliedAt: null },
+    ])
+  })
+
+  it('drops actions that point outside the campaign', () => {
+    const actions = sanitizeSuggestedActions(
+      [
+        { type: 'pause_content', params: { contentId: 'someone-elses' } },
+        { type: 'generate_content', params: { hookIds: ['hook_x'] } },
+      ],
+      context
+    )
+
+    expect(actions).toEqual([])
+  })
+
+  it('drops unknown types and malformed params', () => {
+    const actions = sanitizeSuggestedActions(
+      [
+        { type: 'delete_business', params: {} },
+        { type: 'update_budget', params: { budgetDaily: -5 } },
+        { type: 'update_target_audience', params: { targetAudience: '  ' } },
+        { type: 'create_task', params: {} },
+        'not an object',
+      ],
+      context
+    )
+
+    expect(actions).toEqual([])
+  })
+
+  it('rounds budgets and keeps only positive values', () => {
+    const [action] = sanitizeSuggestedActions(
+      [{ type: 'update_budget', params: { budgetDaily: 24.999, budgetTotal: 0 } }],
+      context
+    )
+
+    expect(action.params).toEqual({ budgetDaily: 25 })
+  })
+
+  it('caps the number of suggestions', () => {
+    const raw = Array.from({ length: 8 }, (_, i) => ({ type: 'create_task', params: { title: `Task ${i}` } }))
+    expect(sanitizeSuggestedActions(raw, context)).toHaveLength(MAX_SUGGESTED_ACTIONS)
+  })
+
+  it('returns nothing for a non-array', () => {
+    expect(sanitizeSuggestedActions({ type: 'pause_campaign' }, context)).toEqual([])
+  })
+})
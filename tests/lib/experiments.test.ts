@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeArms,
+  chooseMetric,
+  sequentialPValue,
+  wilsonInterval,
+  ArmTotals,
+} from '@/lib/experiments'
+
+function arm(key: string, impressions: number, clicks: number, conversions = 0, active = true): ArmTotals {
+  return {
+    key,
+    label: key,
+    contentIds: [`${key}-content`],
+    activeContentIds: active ? [`${key}-content`] : [],
+    impressions,
+    clicks,
+    conversions,
+  }
+}
+
+describe('wilsonInterval', () => {
+  it('brackets the observed rate', () => {
+    const { low, high } = wilsonInterval(30, 1000)
+    expect(low).toBeCloseTo(0.0211, 3)
+    expect(high).toBeCloseTo(0.0425, 3)
+  })
+
+  it('stays above zero for zero successes', () => {
+    const { low, high } = wilsonInterval(0, 100)
+    expect(low).toBe(0)
+    expect(high).toBeGreaterThan(0)
+  })
+
+  it('is empty without trials', () => {
+    expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 })
+  })
+})
+
+describe('sequentialPValue', () => {
+  it('is small for a clear difference', () => {
+    // 5% vs 2% over 2,000 impressions each: z ≈ 5.2
+    expect(sequentialPValue(100, 2000, 40, 2000)).toBeLessThan(0.001)
+  })
+
+  it('is large for a small difference', () => {
+    expect(sequentialPValue(31, 1000, 29, 1000)).toBeGreaterThan(0.5)
+  })
+
+  it('is more conservative than a one-off z-test', () => {
+    // 60/500 vs 40/500: fixed-sample z-test p ≈ 0.036
+    expect(sequentialPValue(60, 500, 40, 500)).toBeGreaterThan(0.05)
+  })
+
+  it('keeps false winners at alpha when re-checked after every poll', () => {
+    // Deterministic LCG so the simulation is stable
+    let seed = 42
+    const random = () => ((seed = (seed * 1664525 + 1013904223) % 2 ** 32) / 2 ** 32)
+
+    const runs = 400
+    let falseWinners = 0
+    for (let run = 0; run < runs; run++) {
+      let a = 0
+      let b = 0
+      for (let poll = 1; poll <= 40; poll++) {
+        for (let i = 0; i < 100; i++) {
+          if (random() < 0.03) a++
+          if (random() < 0.03) b++
+        }
+        if (poll * 100 >= 500 && sequentialPValue(a, poll * 100, b, poll * 100) < 0.05) {
+          falseWinners++
+          break
+        }
+      }
+    }
+
+    expect(falseWinners / runs).toBeLessThanOrEqual(0.05)
+  })
+
+  it('returns 1 when there is nothing to compare', () => {
+    expect(sequentialPValue(0, 100, 0, 100)).toBe(1)
+    expect(sequentialPValue(5, 0, 3, 100)).toBe(1)
+  })
+})
+
+describe('analyzeArms', () => {
+  it('declares the leader a winner once every challenger is significantly worse', () => {
+    const analysis = analyzeArms(
+      [arm('hook_a', 2000, 100), arm('hook_b', 2000, 40), arm('hook_c', 2000, 35)],
+      { dimension: 'hook', metric: 'ctr' }
+    )
+
+    expect(analysis.winner).toBe('hook_a')
+    expect(analysis.correctedAlpha).toBeCloseTo(0.025)
+    const b = analysis.arms.find((a) => a.key === 'hook_b')!
+    expect(b.lift).toBeCloseTo(-0.6)
+    expect(b.pValue).toBeLessThan(0.025)
+  })
+
+  it('waits for minimum exposure on every arm', () => {
+    const analysis = analyzeArms(
+      [arm('hook_a', 2000, 100), arm('hook_b', 200, 2)],
+      { dimension: 'hook', metric: 'ctr' }
+    )
+
+    expect(analysis.leader).toBe('hook_a')
+    expect(analysis.winner).toBeNull()
+    expect(analysis.status).toMatch(/Waiting for 500 impressions/)
+  })
+
+  it('does not call a winner while any challenger is close', () => {
+    const analysis = analyzeArms(
+      [arm('hook_a', 2000, 100), arm('hook_b', 2000, 95), arm('hook_c', 2000, 20)],
+      { dimension: 'hook', metric: 'ctr' }
+    )
+
+    expect(analysis.winner).toBeNull()
+    expect(analysis.status).toBe('Not yet significant')
+  })
+
+  it('ignores retired arms when picking the leader', () => {
+    const analysis = analyzeArms(
+      [arm('hook_a', 2000, 200, 0, false), arm('hook_b', 2000, 60), arm('hook_c', 2000, 20)],
+      { dimension: 'hook', metric: 'ctr' }
+    )
+
+    expect(analysis.leader).toBe('hook_b')
+    expect(analysis.winner).toBe('hook_b')
+  })
+
+  it('compares conversions per click for the conversion metric', () => {
+    const analysis = analyzeArms(
+      [arm('cta_a', 5000, 200, 30), arm('cta_b', 5000, 200, 8)],
+      { dimension: 'cta', metric: 'conversion_rate' }
+    )
+
+    expect(analysis.minExposure).toBe(50)
+    expect(analysis.winner).toBe('cta_a')
+  })
+
+  it('needs two arms with data', () => {
+    const analysis = analyzeArms([arm('hook_a', 2000, 100), arm('hook_b', 0, 0)], { dimension: 'hook', metric: 'ctr' })
+    expect(analysis.winner).toBeNull()
+    expect(analysis.status).toMatch(/two active arms/)
+  })
+})
+
+describe('chooseMetric', () => {
+  it('switches to conversion rate once there are enough conversions', () => {
+    expect(chooseMetric([arm('a', 1000, 50, 5), arm('b', 1000, 50, 5)])).toBe('ctr')
+    expect(chooseMetric([arm('a', 1000, 50, 12), arm('b', 1000, 50, 8)])).toBe('conversion_rate')
+  })
+})
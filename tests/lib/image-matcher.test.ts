@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const findMany = vi.hoisted(() => vi.fn())
+vi.mock('@/lib/prisma', () => ({ default: { image: { findMany } } }))
+
+import { findMatchingImages } from '@/lib/image-matcher'
+
+function image(id: string, tags: object | null, usageCount = 0) {
+  return {
+    id,
+    filename: `${id}.jpg`,
+    storageUrl: `https://cdn.example.com/${id}.jpg`,
+    thumbnailUrl: null,
+    tags,
+    usageCount,
+  }
+}
+
+describe('findMatchingImages', () => {
+  beforeEach(() => {
+    findMany.mockReset()
+  })
+
+  it('weights segment, emotion, theme and usage 40/30/20/10', async () => {
+    findMany.mockResolvedValue([
+      image('perfect', { segments: ['time_starved_teachers'], emotions: ['relief'], themes: ['roi'] }, 0),
+      image('segment-only', { segments: ['Time-Starved Teachers'] }, 4),
+    ])
+
+    const matches = await findMatchingImages({
+      businessId: 'b1',
+      audienceSegment: 'Time-Starved Teachers',
+      emotion: 'relief',
+      theme: 'roi',
+    })
+
+    expect(matches.map((m) => m.imageId)).toEqual(['perfect', 'segment-only'])
+    expect(matches[0].score).toBeCloseTo(1.0)
+    expect(matches[0].matchDetails).toEqual({ segmentMatch: 1, emotionMatch: 1, themeMatch: 1, usageScore: 1 })
+    // Most-used image gets no usage bonus
+    expect(matches[1].score).toBeCloseTo(0.4)
+  })
+
+  it('drops images below the 0.3 threshold', async () => {
+    findMany.mockResolvedValue([
+      image('theme-only', { themes: ['roi'] }, 0), // 0.2 + 0.1 usage = 0.3
+      image('emotion-only-used', { emotions: ['relief'] }, 5), // 0.3 + 0 usage
+      image('unrelated', { themes: ['story'] }, 5),
+      image('untagged', null, 0),
+    ])
+
+    const matches = await findMatchingImages({ businessId: 'b1', emotion: 'relief', theme: 'roi' })
+
+    expect(matches.map((m) => m.imageId).sort()).toEqual(['emotion-only-used', 'theme-only'])
+  })
+
+  it('matches tags by substring in either direction, case-insensitively', async () => {
+    findMany.mockResolvedValue([image('partial', { emotions: ['URGENCY'], themes: ['roi_story'] }, 0)])
+
+    const [match] = await findMatchingImages({ businessId: 'b1', emotion: 'urgency', theme: 'roi' })
+
+    expect(match.matchDetails.emotionMatch).toBe(1)
+    expect(match.matchDetails.themeMatch).toBe(1)
+  })
+
+  it('respects the limit and returns nothing for an empty library', async () => {
+    findMany.mockResolvedValue(
+      Array.from({ length: 8 }, (_, i) => image(`img-${i}`, { segments: ['teachers'] }, i))
+    )
+    expect(await findMatchingImages({ businessId: 'b1', audienceSegment: 'teachers' }, 3)).toHaveLength(3)
+
+    findMany.mockResolvedValue([])
+    expect(await findMatchingImages({ businessId: 'b1', audienceSegment: 'teachers' })).toEqual([])
+  })
+})
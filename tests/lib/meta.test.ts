@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import {
+  encryptToken,
+  decryptToken,
+  postToFacebook,
+  postToInstagram,
+  getPostInsights,
+  getPages,
+  getAdSetStatus,
+  getAdSetSpend,
+  updateAdSetStatus,
+  MetaError,
+  getEscalationSeverity,
+  getEscalationType,
+} from '@/lib/meta'
+import { startFakeGraphServer, FakeGraphServer } from '../../scripts/fake-meta-graph'
+
+describe('token encryption', () => {
+  it('round-trips a token', () => {
+    const token = 'EAAGm0PX4ZCpsBAKZC-page-token'
+    expect(decryptToken(encryptToken(token))).toBe(token)
+  })
+
+  it('uses a fresh IV for every encryption', () => {
+    expect(encryptToken('same')).not.toBe(encryptToken('same'))
+  })
+
+  it('rejects tampered ciphertext', () => {
+    const [iv, tag, ciphertext] = encryptToken('secret').split(':')
+    const flipped = (parseInt(ciphertext[0], 16) ^ 1).toString(16) + ciphertext.slice(1)
+    expect(() => decryptToken(`${iv}:${tag}:${flipped}`)).toThrow()
+  })
+
+  it('rejects malformed input', () => {
+    expect(() => decryptToken('not-encrypted')).toThrow('Invalid encrypted token format')
+  })
+})
+
+describe('MetaError classification', () => {
+  const error = (code: number) => new MetaError({ message: 'x', type: 'OAuthException', code })
+
+  it('flags rate limits, expired tokens and permission errors', () => {
+    expect(error(4).isRateLimited).toBe(true)
+    expect(error(32).isRateLimited).toBe(true)
+    expect(error(190).isTokenExpired).toBe(true)
+    expect(error(10).isPermissionError).toBe(true)
+    expect(error(200).isPermissionError).toBe(true)
+  })
+
+  it('escalates auth failures as critical persistent failures', () => {
+    expect(getEscalationSeverity(error(190))).toBe('critical')
+    expect(getEscalationType(error(190))).toBe('persistent_failure')
+    expect(getEscalationSeverity(error(32))).toBe('warning')
+    expect(getEscalationType(error(100))).toBe('anomaly_detected')
+  })
+})
+
+describe('Graph client against the fake Graph server', () => {
+  let graph: FakeGraphServer
+
+  beforeAll(async () => {
+    graph = await startFakeGraphServer()
+    process.env.META_GRAPH_API_URL = graph.graphUrl
+  })
+
+  afterEach(() => graph.reset())
+
+  afterAll(async () => {
+    delete process.env.META_GRAPH_API_URL
+    await graph.close()
+  })
+
+  it('posts links to /feed and photos to /photos', async () => {
+    const feed = await postToFacebook('1000000000001', 'page-token', { message: 'Hello', link: 'https://example.com' })
+    const photo = await postToFacebook('1000000000001', 'page-token', {
+      message: 'Hello',
+      imageUrl: 'https://cdn.example.com/a.jpg',
+    })
+
+    expect(graph.posts.get(feed.id)?.kind).toBe('feed')
+    expect(graph.posts.get(photo.id)?.kind).toBe('photo')
+  })
+
+  it('publishes Instagram media in two steps', async () => {
+    const result = await postToInstagram('1780000000001', 'page-token', {
+      imageUrl: 'https://cdn.example.com/a.jpg',
+      caption: 'Caption',
+    })
+
+    expect(graph.requests.map((r) => r.path)).toEqual(['/1780000000001/media', '/1780000000001/media_publish'])
+    expect(graph.posts.get(result.id)?.body.caption).toBe('Caption')
+  })
+
+  it('reads post insights', async () => {
+    const insights = await getPostInsights('1000000000001_000001', 'page-token')
+    expect(insights.impressions).toBeGreaterThan(0)
+    expect(insights.saves).toBe(0)
+  })
+
+  it('pauses and re-activates ad sets', async () => {
+    expect(await getAdSetStatus('adset_1', 'user-token')).toBe('ACTIVE')
+
+    await updateAdSetStatus('adset_1', 'user-token', 'PAUSED')
+    expect(await getAdSetStatus('adset_1', 'user-token')).toBe('PAUSED')
+
+    await updateAdSetStatus('adset_1', 'user-token', 'ACTIVE')
+    expect(graph.adSets.get('adset_1')).toBe('ACTIVE')
+  })
+
+  it('reads ad set lifetime spend', async () => {
+    expect(await getAdSetSpend('adset_1', 'user-token')).toBe(0)
+
+    graph.adSetSpend.set('adset_1', 42.5)
+    expect(await getAdSetSpend('adset_1', 'user-token')).toBe(42.5)
+    expect(graph.requests.at(-1)?.query).toMatchObject({ fields: 'spend', date_preset: 'maximum' })
+  })
+
+  it('surfaces scripted errors as MetaError', async () => {
+    graph.failNext({ match: '/feed', code: 190 })
+    await expect(postToFacebook('1000000000001', 'page-token', { message: 'Hello' })).rejects.toMatchObject({
+      code: 190,
+      isTokenExpired: true,
+    })
+
+    graph.failNext({ match: '/me/accounts', code: 200 })
+    await expect(getPages('user-token')).rejects.toBeInstanceOf(MetaError)
+  })
+})
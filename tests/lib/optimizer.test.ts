@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import {
+  classifyMetrics,
+  classifyPerformance,
+  parseOptimizationThresholds,
+  toCampaignMetrics,
+  DEFAULT_OPTIMIZATION_THRESHOLDS,
+} from '@/lib/optimizer'
+
+const defaults = parseOptimizationThresholds(null)
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('parseOptimizationThresholds', () => {
+  it('falls back to the defaults', () => {
+    expect(defaults).toEqual(DEFAULT_OPTIMIZATION_THRESHOLDS)
+  })
+
+  it('reads the architecture doc threshold format', () => {
+    const thresholds = parseOptimizationThresholds({
+      exceeding: { ctr: '>4%', conversion_rate: '>12%', cpa: '<$40' },
+      below: { ctr: '<0.5%', cpa: '>$80' },
+      persistent_failure_days: 7,
+    })
+
+    expect(thresholds.exceeding.ctr).toBeCloseTo(0.04)
+    expect(thresholds.exceeding.conversionRate).toBeCloseTo(0.12)
+    expect(thresholds.exceeding.cpa).toBe(40)
+    expect(thresholds.below.ctr).toBeCloseTo(0.005)
+    expect(thresholds.below.conversionRate).toBe(DEFAULT_OPTIMIZATION_THRESHOLDS.below.conversionRate)
+    expect(thresholds.below.cpa).toBe(80)
+    expect(thresholds.persistentFailureDays).toBe(7)
+  })
+})
+
+describe('classifyMetrics', () => {
+  it('needs enough impressions to judge', () => {
+    const metrics = toCampaignMetrics({ impressions: 50, clicks: 0, engagements: 0, conversions: 0, spend: 0 })
+    expect(classifyMetrics(metrics, defaults).classification).toBeNull()
+  })
+
+  it('is EXCEEDING when every measured metric beats its threshold', () => {
+    const metrics = toCampaignMetrics({ impressions: 1000, clicks: 40, engagements: 0, conversions: 5, spend: 100 })
+    // ctr 4%, conversion rate 12.5%, cpa $20
+    expect(classifyMetrics(metrics, defaults).classification).toBe('exceeding')
+  })
+
+  it('is MEETING between the bands', () => {
+    const metrics = toCampaignMetrics({ impressions: 1000, clicks: 20, engagements: 0, conversions: 1, spend: 0 })
+    // ctr 2%, conversion rate 5%, no spend
+    expect(classifyMetrics(metrics, defaults).classification).toBe('meeting')
+  })
+
+  it('is BELOW when any metric falls in the below band', () => {
+    const metrics = toCampaignMetrics({ impressions: 1000, clicks: 40, engagements: 0, conversions: 5, spend: 600 })
+    // great ctr and conversion rate, but cpa $120
+    const { classification, reasons } = classifyMetrics(metrics, defaults)
+    expect(classification).toBe('below')
+    expect(reasons[0]).toContain('CPA $120.00')
+  })
+
+  it('ignores conversion rate until there are enough clicks', () => {
+    const metrics = toCampaignMetrics({ impressions: 500, clicks: 10, engagements: 0, conversions: 0, spend: 0 })
+    // ctr 2%, 0% conversion rate on only 10 clicks
+    expect(classifyMetrics(metrics, defaults).classification).toBe('meeting')
+  })
+
+  it('treats spend without conversions as a CPA of at least the spend', () => {
+    const metrics = toCampaignMetrics({ impressions: 1000, clicks: 15, engagements: 0, conversions: 0, spend: 150 })
+    expect(classifyMetrics(metrics, defaults).classification).toBe('below')
+  })
+})
+
+describe('classifyPerformance', () => {
+  const belowMetrics = toCampaignMetrics({ impressions: 1000, clicks: 5, engagements: 0, conversions: 0, spend: 0 })
+  const meetingMetrics = toCampaignMetrics({ impressions: 1000, clicks: 20, engagements: 0, conversions: 1, spend: 0 })
+  const now = new Date('2026-03-15T12:00:00Z')
+
+  it('starts a BELOW run on the first below evaluation', () => {
+    const evaluation = classifyPerformance({ metrics: belowMetrics, thresholds: defaults, belowSince: null, now })
+    expect(evaluation.classification).toBe('below')
+    expect(evaluation.belowSince).toEqual(now)
+    expect(evaluation.daysBelow).toBe(0)
+  })
+
+  it('becomes PERSISTENT_FAIL after persistent_failure_days below', () => {
+    const belowSince = new Date(now.getTime() - 14 * DAY_MS)
+    const evaluation = classifyPerformance({ metrics: belowMetrics, thresholds: defaults, belowSince, now })
+    expect(evaluation.classification).toBe('persistent_fail')
+    expect(evaluation.daysBelow).toBe(14)
+  })
+
+  it('stays BELOW before the failure window ends', () => {
+    const belowSince = new Date(now.getTime() - 13 * DAY_MS)
+    const evaluation = classifyPerformance({ metrics: belowMetrics, thresholds: defaults, belowSince, now })
+    expect(evaluation.classification).toBe('below')
+    expect(evaluation.belowSince).toEqual(belowSince)
+  })
+
+  it('resets the run once the campaign recovers', () => {
+    const belowSince = new Date(now.getTime() - 10 * DAY_MS)
+    const evaluation = classifyPerformance({ metrics: meetingMetrics, thresholds: defaults, belowSince, now })
+    expect(evaluation.classification).toBe('meeting')
+    expect(evaluation.belowSince).toBeNull()
+  })
+
+  it('keeps the run going when there is not enough data', () => {
+    const belowSince = new Date(now.getTime() - 10 * DAY_MS)
+    const sparse = toCampaignMetrics({ impressions: 20, clicks: 0, engagements: 0, conversions: 0, spend: 0 })
+    const evaluation = classifyPerformance({ metrics: sparse, thresholds: defaults, belowSince, now })
+    expect(evaluation.classification).toBeNull()
+    expect(evaluation.belowSince).toEqual(belowSince)
+  })
+})
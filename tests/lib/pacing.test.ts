@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { summarizeSpend, evaluatePacing, SpendSummary } from '@/lib/pacing'
+
+const now = new Date('2025-03-10T18:00:00Z')
+
+function snapshot(postId: string, recordedAt: string, spend: number) {
+  return { postId, recordedAt: new Date(recordedAt), spend }
+}
+
+/** Flat spend of `perDay` for each of the last `days` days (including today) */
+function steadySpend(perDay: number, days: number, total = perDay * days): SpendSummary {
+  const daily: Record<string, number> = {}
+  for (let i = 0; i < days; i++) {
+    daily[new Date(now.getTime() - i * 86_400_000).toISOString().slice(0, 10)] = perDay
+  }
+  return { daily, total, byPost: { post: total } }
+}
+
+describe('summarizeSpend', () => {
+  it('attributes increases in cumulative spend to the day they were recorded', () => {
+    const summary = summarizeSpend([
+      snapshot('a', '2025-03-08T10:00:00Z', 10),
+      snapshot('a', '2025-03-09T10:00:00Z', 25),
+      snapshot('b', '2025-03-09T12:00:00Z', 5),
+      snapshot('a', '2025-03-09T20:00:00Z', 30),
+    ])
+
+    expect(summary.daily).toEqual({ '2025-03-08': 10, '2025-03-09': 25 })
+    expect(summary.total).toBe(35)
+    expect(summary.byPost).toEqual({ a: 30, b: 5 })
+  })
+
+  it('ignores a later snapshot reporting less spend', () => {
+    const summary = summarizeSpend([
+      snapshot('a', '2025-03-08T10:00:00Z', 20),
+      snapshot('a', '2025-03-09T10:00:00Z', 18),
+    ])
+
+    expect(summary.total).toBe(20)
+    expect(summary.daily).toEqual({ '2025-03-08': 20 })
+  })
+})
+
+describe('evaluatePacing', () => {
+  it('is on track when spend fits the budget and flight', () => {
+    const report = evaluatePacing({
+      budgetDaily: 20,
+      budgetTotal: 1000,
+      endDate: new Date('2025-03-31'),
+      spend: steadySpend(20, 7),
+      now,
+    })
+
+    expect(report.status).toBe('on_track')
+    expect(report.severity).toBeNull()
+    expect(report.averageDailySpend).toBe(20)
+    expect(report.remaining).toBe(860)
+  })
+
+  it('projects depletion before the end date', () => {
+    const report = evaluatePacing({
+      budgetDaily: null,
+      budgetTotal: 500,
+      endDate: new Date('2025-03-31'),
+      spend: steadySpend(40, 7),
+      now,
+    })
+
+    // $220 left at $40/day lasts 5.5 days
+    expect(report.status).toBe('depleting_early')
+    expect(report.severity).toBe('warning')
+    expect(report.projectedDepletionDate?.slice(0, 10)).toBe('2025-03-16')
+  })
+
+  it('is critical when depletion is days away', () => {
+    const report = evaluatePacing({
+      budgetDaily: null,
+      budgetTotal: 320,
+      endDate: new Date('2025-03-31'),
+      spend: steadySpend(40, 7),
+      now,
+    })
+
+    expect(report.severity).toBe('critical')
+  })
+
+  it('flags daily overspend', () => {
+    const spend = steadySpend(20, 3)
+    spend.daily['2025-03-10'] = 35
+    spend.total = 75
+
+    const report = evaluatePacing({ budgetDaily: 25, budgetTotal: null, endDate: null, spend, now })
+
+    expect(report.status).toBe('overspending')
+    expect(report.severity).toBe('critical')
+    expect(report.spentToday).toBe(35)
+  })
+
+  it('marks an exhausted total budget as depleted', () => {
+    const report = evaluatePacing({
+      budgetDaily: 50,
+      budgetTotal: 300,
+      endDate: null,
+      spend: steadySpend(50, 7, 310),
+      now,
+    })
+
+    expect(report.status).toBe('depleted')
+    expect(report.severity).toBe('critical')
+    expect(report.remaining).toBe(0)
+  })
+
+  it('averages over the days since spend started', () => {
+    const report = evaluatePacing({
+      budgetDaily: null,
+      budgetTotal: 1000,
+      endDate: null,
+      spend: steadySpend(30, 2),
+      now,
+    })
+
+    expect(report.averageDailySpend).toBe(30)
+  })
+
+  it('reports campaigns without a budget as unbudgeted', () => {
+    const report = evaluatePacing({ budgetDaily: null, budgetTotal: null, endDate: null, spend: steadySpend(10, 2), now })
+    expect(report.status).toBe('unbudgeted')
+  })
+})
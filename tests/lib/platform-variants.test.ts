@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeHashtags,
+  sanitizePlatformVariant,
+  resolvePlatformVariant,
+  applyBaseEdits,
+  buildPlatformMessage,
+  requestedPlatforms,
+  PLATFORM_RULES,
+} from '@/lib/platform-variants'
+
+const base = { headline: 'Reclaim your evenings', body: 'Lesson plans in minutes.', ctaText: 'Start free' }
+
+describe('requestedPlatforms', () => {
+  it('expands both into every platform', () => {
+    expect(requestedPlatforms('both')).toEqual(['facebook', 'instagram'])
+    expect(requestedPlatforms('instagram')).toEqual(['instagram'])
+  })
+})
+
+describe('normalizeHashtags', () => {
+  it('prefixes, dedupes and drops multi-word tags', () => {
+    expect(normalizeHashtags(['teachers', '#Teachers', '##edtech', 'lesson plans', 42, 'TeacherLife'], 10)).toEqual([
+      '#teachers',
+      '#edtech',
+      '#TeacherLife',
+    ])
+  })
+
+  it('caps the count', () => {
+    expect(normalizeHashtags(['a', 'b', 'c', 'd'], 3)).toHaveLength(3)
+  })
+})
+
+describe('sanitizePlatformVariant', () => {
+  it('falls back to the base copy and applies the platform limits', () => {
+    const variant = sanitizePlatformVariant(
+      { headline: 'A headline that is far too long for a Facebook post', hashtags: ['a', 'b', 'c', 'd'] },
+      'facebook',
+      base
+    )
+
+    expect(variant.headline).toHaveLength(PLATFORM_RULES.facebook.maxHeadlineLength)
+    expect(variant.headline.endsWith('…')).toBe(true)
+    expect(variant.body).toBe(base.body)
+    expect(variant.hashtags).toEqual(['#a', '#b', '#c'])
+  })
+
+  it('uses the base copy when the model left the variant out', () => {
+    expect(sanitizePlatformVariant(undefined, 'instagram', base)).toEqual({ ...base, hashtags: [] })
+  })
+})
+
+describe('resolvePlatformVariant', () => {
+  it('picks the stored variant for the platform', () => {
+    const content = {
+      ...base,
+      platformVariants: { instagram: { headline: 'IG', body: 'Caption', ctaText: 'Link below', hashtags: ['#x'] } },
+    }
+    expect(resolvePlatformVariant(content, 'instagram').body).toBe('Caption')
+    expect(resolvePlatformVariant(content, 'facebook')).toEqual({ ...base, hashtags: [] })
+  })
+})
+
+describe('applyBaseEdits', () => {
+  it('copies edited fields into every variant and keeps hashtags', () => {
+    const variants = {
+      facebook: { headline: 'FB', body: 'Old', ctaText: 'Go', hashtags: ['#a'] },
+      instagram: { headline: 'IG', body: 'Old', ctaText: 'Go', hashtags: ['#b'] },
+    }
+    expect(applyBaseEdits(variants, { body: 'New', headline: undefined })).toEqual({
+      facebook: { headline: 'FB', body: 'New', ctaText: 'Go', hashtags: ['#a'] },
+      instagram: { headline: 'IG', body: 'New', ctaText: 'Go', hashtags: ['#b'] },
+    })
+  })
+
+  it('leaves content without variants alone', () => {
+    expect(applyBaseEdits(null, { body: 'New' })).toBeNull()
+  })
+})
+
+describe('buildPlatformMessage', () => {
+  const variant = { ...base, hashtags: ['#teachers', '#edtech'] }
+
+  it('attaches the link on Facebook and writes it into Instagram captions', () => {
+    expect(buildPlatformMessage(variant, 'facebook', 'https://x.test/?utm_source=facebook')).toBe(
+      'Reclaim your evenings\n\nLesson plans in minutes.\n\nStart free\n\n#teachers #edtech'
+    )
+    expect(buildPlatformMessage(variant, 'instagram', 'https://x.test/?utm_source=instagram')).toBe(
+      'Reclaim your evenings\n\nLesson plans in minutes.\n\nStart free\n\nhttps://x.test/?utm_source=instagram\n\n#teachers #edtech'
+    )
+  })
+
+  it('shortens the body to fit the caption limit', () => {
+    const message = buildPlatformMessage({ ...variant, body: 'word '.repeat(600) }, 'instagram', 'https://x.test')
+
+    expect(message).toHaveLength(PLATFORM_RULES.instagram.maxMessageLength)
+    expect(message.endsWith('#teachers #edtech')).toBe(true)
+    expect(message).toContain('https://x.test')
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computePerformanceScore,
+  getScoreConfig,
+  DEFAULT_SCORE_TARGETS,
+} from '@/lib/scoring'
+import { DEFAULT_SCORE_WEIGHTS } from '@/lib/thresholds'
+
+const defaults = getScoreConfig({ successMetrics: null, performanceThresholds: null })
+
+describe('computePerformanceScore', () => {
+  it('gives full marks to organic content that hits every target', () => {
+    const { score } = computePerformanceScore(
+      { impressions: 1000, clicks: 30, engagements: 50, conversions: 3, spend: 0 },
+      defaults
+    )
+    // conversions 0.5 + engagement 0.2 + clicks 0.2, no cost penalty
+    expect(score).toBe(90)
+  })
+
+  it('scales each rate against its target', () => {
+    const { score, ctr, engagementRate, conversionRate } = computePerformanceScore(
+      { impressions: 1000, clicks: 15, engagements: 25, conversions: 0, spend: 0 },
+      defaults
+    )
+    expect(ctr).toBeCloseTo(0.015)
+    expect(engagementRate).toBeCloseTo(0.025)
+    expect(conversionRate).toBe(0)
+    expect(score).toBe(20)
+  })
+
+  it('penalises expensive conversions on paid content', () => {
+    const cheap = computePerformanceScore(
+      { impressions: 1000, clicks: 30, engagements: 50, conversions: 3, spend: 30 },
+      defaults
+    )
+    const pricey = computePerformanceScore(
+      { impressions: 1000, clicks: 30, engagements: 50, conversions: 3, spend: 300 },
+      defaults
+    )
+    const wasted = computePerformanceScore(
+      { impressions: 1000, clicks: 30, engagements: 50, conversions: 0, spend: 300 },
+      defaults
+    )
+
+    expect(cheap.cpa).toBe(10)
+    expect(cheap.score).toBe(89)
+    expect(pricey.score).toBe(80)
+    expect(wasted.score).toBe(30)
+  })
+
+  it('withholds a score until there are enough impressions', () => {
+    const { score } = computePerformanceScore(
+      { impressions: 50, clicks: 5, engagements: 5, conversions: 1, spend: 0 },
+      defaults
+    )
+    expect(score).toBeNull()
+  })
+})
+
+describe('getScoreConfig', () => {
+  it('falls back to the documented defaults', () => {
+    expect(defaults).toEqual({ weights: DEFAULT_SCORE_WEIGHTS, targets: DEFAULT_SCORE_TARGETS })
+  })
+
+  it('reads weights and targets from the campaign', () => {
+    const config = getScoreConfig({
+      successMetrics: { scoreWeights: { engagement: 0.6 } },
+      performanceThresholds: {
+        scoreWeights: { conversions: 0.2, cost: 'bogus' },
+        exceeding: { ctr: '>2%', conversion_rate: '>5%' },
+        below: { cpa: '>$80' },
+      },
+    })
+
+    // performanceThresholds.scoreWeights wins over successMetrics.scoreWeights
+    expect(config.weights).toEqual({ ...DEFAULT_SCORE_WEIGHTS, conversions: 0.2 })
+    expect(config.targets).toMatchObject({ ctr: 0.02, conversionRate: 0.05, maxCpa: 80 })
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { createJsonArrayStreamParser, createServerSentEventParser, formatServerSentEvent } from '@/lib/streaming'
+
+function feed(parser: { push(chunk: string): unknown[] }, text: string, size: number) {
+  const items: unknown[] = []
+  for (let i = 0; i < text.length; i += size) items.push(...parser.push(text.slice(i, i + size)))
+  return items
+}
+
+describe('createJsonArrayStreamParser', () => {
+  const response = [
+    'Here you go:\n```json\n{\n  "variations": [\n',
+    '    { "headline": "Braces } and [brackets] in \\"strings\\"", "platformVariants": { "facebook": { "hashtags": ["a"] } } },\n',
+    '    { "headline": "Second" }\n',
+    '  ]\n}\n```\n{ "variations": [{ "headline": "ignored" }] }',
+  ].join('')
+
+  it('emits each item as soon as it closes, whatever the chunking', () => {
+    for (const size of [1, 7, response.length]) {
+      expect(feed(createJsonArrayStreamParser('variations'), response, size)).toEqual([
+        { headline: 'Braces } and [brackets] in "strings"', platformVariants: { facebook: { hashtags: ['a'] } } },
+        { headline: 'Second' },
+      ])
+    }
+  })
+
+  it('waits for the item to close', () => {
+    const parser = createJsonArrayStreamParser('variations')
+    expect(parser.push('{"variations": [{"headline": "Fir')).toEqual([])
+    expect(parser.push('st"}, {"head')).toEqual([{ headline: 'First' }])
+  })
+
+  it('skips malformed items', () => {
+    const parser = createJsonArrayStreamParser('variations')
+    expect(parser.push('{"variations": [{"headline": oops}, {"headline": "ok"}]}')).toEqual([{ headline: 'ok' }])
+  })
+})
+
+describe('createServerSentEventParser', () => {
+  it('round-trips events split across chunks', () => {
+    const stream = formatServerSentEvent('start', { count: 2 }) + formatServerSentEvent('variation', { content: { id: 'c1' } })
+    const parser = createServerSentEventParser()
+
+    expect(parser.push(stream.slice(0, 20))).toEqual([])
+    expect(parser.push(stream.slice(20))).toEqual([
+      { event: 'start', data: { count: 2 } },
+      { event: 'variation', data: { content: { id: 'c1' } } },
+    ])
+  })
+
+  it('ignores comments and non-JSON frames', () => {
+    const parser = createServerSentEventParser()
+    expect(parser.push(': keep-alive\r\n\r\ndata: not json\n\ndata: {"ok":true}\n\n')).toEqual([
+      { event: 'message', data: { ok: true } },
+    ])
+  })
+})
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { diffWords, DiffSegment } from '@/lib/text-diff'
+
+const join = (segments: DiffSegment[], skip: DiffSegment['type']) =>
+  segments.filter((s) => s.type !== skip).map((s) => s.text).join('')
+
+describe('diffWords', () => {
+  it('marks replaced and inserted words, merging neighbours of the same kind', () => {
+    expect(diffWords('Lesson plans in minutes, not hours.', 'Lesson plans in five minutes flat.')).toEqual([
+      { type: 'equal', text: 'Lesson plans in ' },
+      { type: 'removed', text: 'minutes, not hours.' },
+      { type: 'added', text: 'five minutes flat.' },
+    ])
+  })
+
+  it('rebuilds both sides from the segments', () => {
+    const before = 'Get your evenings back.\n\nStart your free trial today'
+    const after = 'Get your weekends back.\n\nStart today'
+    const segments = diffWords(before, after)
+
+    expect(join(segments, 'added')).toBe(before)
+    expect(join(segments, 'removed')).toBe(after)
+  })
+
+  it('handles empty sides', () => {
+    expect(diffWords('', 'New copy')).toEqual([{ type: 'added', text: 'New copy' }])
+    expect(diffWords('Old copy', '')).toEqual([{ type: 'removed', text: 'Old copy' }])
+    expect(diffWords('Same', 'Same')).toEqual([{ type: 'equal', text: 'Same' }])
+  })
+})
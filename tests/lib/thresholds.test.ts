@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseThresholdValue,
+  validatePerformanceThresholds,
+  validateSuccessMetrics,
+  thresholdsFromSuccessMetrics,
+  DEFAULT_PERFORMANCE_THRESHOLDS,
+} from '@/lib/thresholds'
+
+describe('parseThresholdValue', () => {
+  it.each([
+    ['>3%', 0.03],
+    ['<$50', 50],
+    ['$1,200', 1200],
+    [0.04, 0.04],
+    ['n/a', null],
+    [undefined, null],
+  ])('%s -> %s', (input, expected) => {
+    expect(parseThresholdValue(input)).toBe(expected)
+  })
+})
+
+describe('validatePerformanceThresholds', () => {
+  it('normalises the architecture doc format', () => {
+    const { value, errors } = validatePerformanceThresholds({
+      exceeding: { ctr: '>3%', conversion_rate: '>10%', cpa: '<$50' },
+      below: { ctr: '<1%', conversion_rate: '<2%', cpa: '>$100' },
+      persistent_failure_days: 14,
+    })
+
+    expect(errors).toEqual({})
+    expect(value).toEqual(DEFAULT_PERFORMANCE_THRESHOLDS)
+  })
+
+  it('defaults persistent_failure_days and keeps valid score weights', () => {
+    const { value, errors } = validatePerformanceThresholds({
+      exceeding: { ctr: 0.05 },
+      scoreWeights: { engagement: 0.4 },
+    })
+
+    expect(errors).toEqual({})
+    expect(value.persistent_failure_days).toBe(14)
+    expect(value.scoreWeights).toEqual({ conversions: 0.5, engagement: 0.4, clicks: 0.2, cost: 0.1 })
+  })
+
+  it('reports each invalid field by path', () => {
+    const { errors } = validatePerformanceThresholds({
+      exceeding: { ctr: 3, bounce_rate: 0.2 },
+      below: { cpa: 'lots' },
+      persistent_failure_days: 0,
+      scoreWeights: { conversions: 2 },
+      meeting: {},
+    })
+
+    expect(Object.keys(errors).sort()).toEqual([
+      'performanceThresholds.below.cpa',
+      'performanceThresholds.exceeding.bounce_rate',
+      'performanceThresholds.exceeding.ctr',
+      'performanceThresholds.meeting',
+      'performanceThresholds.persistent_failure_days',
+      'performanceThresholds.scoreWeights.conversions',
+    ])
+  })
+
+  it('requires exceeding to be better than below', () => {
+    const { errors } = validatePerformanceThresholds({
+      exceeding: { ctr: 0.01, cpa: 120 },
+      below: { ctr: 0.02, cpa: 100 },
+    })
+
+    expect(errors['performanceThresholds.exceeding.ctr']).toMatch(/higher/)
+    expect(errors['performanceThresholds.exceeding.cpa']).toMatch(/lower/)
+  })
+
+  it('rejects non-objects', () => {
+    expect(validatePerformanceThresholds('>3%').errors).toEqual({ performanceThresholds: 'Must be an object' })
+  })
+})
+
+describe('validateSuccessMetrics', () => {
+  it('parses numbers, percentages and amounts', () => {
+    const { value, errors } = validateSuccessMetrics({ subscribers: 15, cac: '$100', ctr: '2%' })
+    expect(errors).toEqual({})
+    expect(value).toEqual({ subscribers: 15, cac: 100, ctr: 0.02 })
+  })
+
+  it('keeps the valid entries when some are invalid', () => {
+    const { value, errors } = validateSuccessMetrics({ subscribers: 15, ctr: 4, reach: 'lots' })
+    expect(value).toEqual({ subscribers: 15 })
+    expect(Object.keys(errors).sort()).toEqual(['successMetrics.ctr', 'successMetrics.reach'])
+  })
+})
+
+describe('thresholdsFromSuccessMetrics', () => {
+  it('uses the defaults without success metrics', () => {
+    expect(thresholdsFromSuccessMetrics(null)).toEqual(DEFAULT_PERFORMANCE_THRESHOLDS)
+  })
+
+  it('reproduces the doc defaults from the doc success metrics', () => {
+    const thresholds = thresholdsFromSuccessMetrics({ subscribers: 15, cac: 100, ctr: 0.02 })
+    expect(thresholds.exceeding).toMatchObject({ ctr: 0.03, cpa: 50 })
+    expect(thresholds.below).toMatchObject({ ctr: 0.01, cpa: 100 })
+  })
+
+  it('shapes the bands around the targets', () => {
+    const thresholds = thresholdsFromSuccessMetrics({ conversion_rate: 0.08, cpa: 40 })
+    expect(thresholds.exceeding).toMatchObject({ conversion_rate: 0.12, cpa: 20 })
+    expect(thresholds.below).toMatchObject({ conversion_rate: 0.04, cpa: 40 })
+  })
+})
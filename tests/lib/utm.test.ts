@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { buildUtmParams, applyUtmParams, getUtmTemplate } from '@/lib/utm'
+
+const context = {
+  platform: 'facebook',
+  campaignName: 'Back to School 2026!',
+  campaignId: 'campaign-1',
+  contentId: 'content-1',
+  postId: 'post-1',
+  businessSlug: 'melissa',
+}
+
+describe('UTM builder', () => {
+  it('uses the default template', () => {
+    expect(buildUtmParams(context)).toEqual({
+      source: 'facebook',
+      medium: 'social',
+      campaign: 'back-to-school-2026',
+      content: 'post-1',
+    })
+  })
+
+  it('applies business overrides from settings', () => {
+    const template = getUtmTemplate({ utm: { medium: 'paid_{platform}', content: '{content_id}', bogus: 'x' } })
+    expect(buildUtmParams(context, template)).toMatchObject({ medium: 'paid_facebook', content: 'content-1' })
+  })
+
+  it('keeps the existing query string and replaces stale utm values', () => {
+    const url = applyUtmParams('https://example.com/trial?ref=social&utm_source=old#pricing', buildUtmParams(context))
+    const parsed = new URL(url)
+
+    expect(parsed.searchParams.get('ref')).toBe('social')
+    expect(parsed.searchParams.get('utm_source')).toBe('facebook')
+    expect(parsed.hash).toBe('#pricing')
+  })
+})
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    globalSetup: ['tests/global-setup.ts'],
+    // Database-backed suites share one test database
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 60000,
+  },
+})